@@ -1,20 +1,71 @@
 import {
+  createId,
   DockingManager,
   DockingProvider,
   DockPanel,
+  FloatingPanels,
   NodeRenderer,
   type PanelContent,
   type PanelNode,
+  type SerializedDockLayout,
+  type TabMenuItem,
+  TabSwitcher,
 } from "@internal/dock"
-import { DrawingCanvas, type Stroke } from "@internal/drawing"
+import {
+  createDrawMeta,
+  DEFAULT_THUMBNAIL_SIZE,
+  type DecodeDrawingResult,
+  type DrawDocumentMeta,
+  type DrawFileError,
+  DrawingCanvas,
+  type DrawingSession,
+  decodeDrawing,
+  ExportDialog,
+  encodeDrawing,
+  getDrawingSessionRegistry,
+  HistoryPanel,
+  type HistorySnapshot,
+  hashContent,
+  type Layer,
+  LayersPanel,
+  parseDrawing,
+  parseHistory,
+  renderThumbnail,
+  serializeDrawing,
+  serializeHistory,
+  type Viewport,
+} from "@internal/drawing"
+import { getParentPath, ROOT_PATH } from "@internal/file-tree"
 import { Provider as JotaiProvider } from "jotai"
-import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react"
+import { match } from "ts-pattern"
+import { FileErrorPanel } from "./components/FileErrorPanel"
 import { Header } from "./components/Header"
 import { PWAUpdatePrompt } from "./components/PWAUpdatePrompt"
+import { RecoveryDialog } from "./components/RecoveryDialog"
+import { SaveAsDialog } from "./components/SaveAsDialog"
 import { Sidebar, type SidebarRef } from "./components/Sidebar"
+import { UnsavedChangesDialog } from "./components/UnsavedChangesDialog"
+import { AutosaveService } from "./lib/autosave"
+import {
+  moveStoredHistory,
+  readStoredHistory,
+  removeStoredHistory,
+  writeStoredHistory,
+} from "./lib/historyStorage"
+import { getStoredLayout, storeLayout } from "./lib/layoutStorage"
 import type { FileNode as OPFSFileNode } from "./lib/opfs"
-import { readFile, writeFile } from "./lib/opfs"
-import { getOPFSStore } from "./stores/opfsStore"
+import { readFileBytes, writeFile } from "./lib/opfs"
+import { type RecoveryDraft, removeRecoveryDrafts } from "./lib/recoveryStorage"
+import {
+  getStoredViewport,
+  moveStoredViewport,
+  removeStoredViewports,
+  storeViewport,
+} from "./lib/viewportStorage"
+import { type AppState, getOPFSStore } from "./stores/opfsStore"
+import { getSettingsStore } from "./stores/settingsStore"
+import { getThumbnailStore } from "./stores/thumbnailStore"
 
 // Create initial layout with a new canvas
 const createInitialLayout = (): PanelNode => ({
@@ -26,31 +77,337 @@ const createInitialLayout = (): PanelNode => ({
 })
 
 /**
- * Generate a stable panel ID from file path
+ * Window title (prefixed with the number of unsaved drawings)
+ */
+const APP_TITLE = "Drawing Explorer"
+
+/**
+ * Delay before a changed layout is stored (resizing emits many changes)
+ */
+const LAYOUT_SAVE_DELAY = 500
+
+/**
+ * Content key of the layers panel
+ */
+const LAYERS_CONTENT_KEY = "layers"
+
+/**
+ * Content key of the history panel
+ */
+const HISTORY_CONTENT_KEY = "history"
+
+/**
+ * Persist the undo history of a saved drawing (or drop it when disabled)
+ *
+ * The history is tied to the saved content by its hash, so it is only
+ * restored for the same version of the file.
+ */
+async function persistHistory(path: string, content: string, history: HistorySnapshot) {
+  const root = getOPFSStore().rootHandle
+  if (!root) return
+
+  const result = getSettingsStore().settings.persistHistory
+    ? await writeStoredHistory(root, path, serializeHistory(history, hashContent(content)))
+    : await removeStoredHistory(root, [path])
+  if (result.type === "error") {
+    console.error("Failed to store undo history:", result.error)
+  }
+}
+
+/**
+ * Load the persisted undo history of a drawing, if it matches the content
+ */
+async function loadHistory(path: string, content: string): Promise<HistorySnapshot | undefined> {
+  const root = getOPFSStore().rootHandle
+  if (!root || !getSettingsStore().settings.persistHistory) return undefined
+
+  const result = await readStoredHistory(root, path)
+  if (result.type === "error") {
+    console.error("Failed to read undo history:", result.error)
+    return undefined
+  }
+  return result.data === null
+    ? undefined
+    : (parseHistory(result.data, hashContent(content)) ?? undefined)
+}
+
+/**
+ * Carry the persisted undo history over to a renamed or moved drawing
+ * (or to the drawings of a renamed or moved folder)
+ */
+async function moveHistory(oldPath: string, newPath: string) {
+  const root = getOPFSStore().rootHandle
+  if (!root) return
+
+  const result = await moveStoredHistory(root, oldPath, newPath)
+  if (result.type === "error") {
+    console.error("Failed to move undo history:", result.error)
+  }
+}
+
+/**
+ * Drop the persisted undo history of deleted drawings
+ */
+async function removeHistory(paths: readonly string[]) {
+  const root = getOPFSStore().rootHandle
+  if (!root) return
+
+  const result = await removeStoredHistory(root, paths)
+  if (result.type === "error") {
+    console.error("Failed to remove undo history:", result.error)
+  }
+}
+
+/**
+ * Read the content of a drawing file in either encoding
+ *
+ * Resolves to null (after logging) when the file cannot be read.
+ */
+async function readDrawingContent(
+  handle: FileSystemFileHandle,
+): Promise<DecodeDrawingResult | null> {
+  const readResult = await readFileBytes(handle)
+  if (readResult.type === "error") {
+    console.error("Failed to read file:", readResult.error)
+    return null
+  }
+  return decodeDrawing(readResult.data)
+}
+
+/**
+ * Drawing open in a panel
+ */
+interface FilePanel {
+  id: string
+  name: string
+  handle: FileSystemFileHandle | null
+  layers: ReadonlyArray<Layer>
+  history: HistorySnapshot | undefined
+  meta: DrawDocumentMeta
+  /** Whether the layers differ from the file (restored from a draft) */
+  dirty: boolean
+  /** Why the file could not be read (null when it opened as a drawing) */
+  error: DrawFileError | null
+  /** React key of the canvas, kept when the file is renamed or moved */
+  canvasKey: string
+}
+
+/**
+ * Content of a drawing file as shown in a panel
+ */
+type FileDrawing = Omit<FilePanel, "id" | "name" | "handle" | "canvasKey">
+
+/**
+ * Read a drawing file for a panel (null when the file cannot be read)
+ *
+ * Empty files start a blank drawing. Unreadable content is kept as an
+ * error instead of a blank canvas, so saving cannot overwrite it.
+ */
+async function loadDrawing(file: OPFSFileNode): Promise<FileDrawing | null> {
+  const decodeResult = await readDrawingContent(file.handle)
+  if (!decodeResult) return null
+
+  const drawing: FileDrawing = {
+    layers: [],
+    history: undefined,
+    meta: createDrawMeta(),
+    dirty: false,
+    error: null,
+  }
+  if (decodeResult.type === "error") {
+    return { ...drawing, error: decodeResult.error }
+  }
+  if (!decodeResult.data.trim()) return drawing
+
+  const parseResult = parseDrawing(decodeResult.data)
+  if (parseResult.type === "error") {
+    return { ...drawing, error: parseResult.error }
+  }
+  return {
+    ...drawing,
+    layers: parseResult.data.layers,
+    meta: parseResult.data.meta,
+    history: await loadHistory(file.path, decodeResult.data),
+  }
+}
+
+/**
+ * Whether a panel content key is a drawing file path
+ */
+function isFileContentKey(contentKey: string): boolean {
+  return (
+    contentKey !== "new-canvas" &&
+    contentKey !== LAYERS_CONTENT_KEY &&
+    contentKey !== HISTORY_CONTENT_KEY
+  )
+}
+
+/**
+ * Dock of the last session, or the initial layout
+ */
+function createDockingManager(): DockingManager {
+  const layout = getStoredLayout()
+  return (layout && DockingManager.fromLayout(layout)) ?? new DockingManager(createInitialLayout())
+}
+
+/**
+ * Restored draft shown in the Untitled panel
+ */
+interface NewCanvasDraft {
+  layers: ReadonlyArray<Layer>
+  meta: DrawDocumentMeta
+}
+
+/**
+ * Autosaved drafts of the previous session (empty once handled)
  */
-function generatePanelId(filePath: string): string {
-  return `panel-${filePath.replace(/[^a-zA-Z0-9]/g, "-")}`
+function getRecoveredDrafts(): ReadonlyArray<RecoveryDraft> {
+  return getOPFSStore().recoveredDrafts
+}
+
+/**
+ * Initialization state of the file system
+ */
+function getAppState(): AppState {
+  return getOPFSStore().appState
+}
+
+/**
+ * Drop the autosaved drafts the user chose not to restore
+ */
+async function discardDrafts(keys: readonly string[]) {
+  const root = getOPFSStore().rootHandle
+  if (!root || keys.length === 0) return
+
+  const result = await removeRecoveryDrafts(root, keys)
+  if (result.type === "error") {
+    console.error("Failed to discard recovered drafts:", result.error)
+  }
+}
+
+/**
+ * Answer to the unsaved changes dialog
+ */
+type UnsavedChoice = "save" | "discard" | "cancel"
+
+/**
+ * Question about unsaved drawings waiting for the user
+ */
+interface UnsavedPrompt {
+  sessions: ReadonlyArray<DrawingSession>
+  /** Whether the drawings can be saved first (not when they are deleted) */
+  canSave: boolean
+  resolve: (choice: UnsavedChoice) => void
+}
+
+/**
+ * Open drawings with unsaved changes among the given panel keys
+ */
+function getDirtySessions(keys: readonly string[]): ReadonlyArray<DrawingSession> {
+  return getDrawingSessionRegistry()
+    .getAll()
+    .filter((session) => session.isDirty && keys.includes(session.panelId))
+}
+
+/**
+ * Save drawings one after another (false when any could not be saved)
+ */
+async function saveSessions(sessions: ReadonlyArray<DrawingSession>): Promise<boolean> {
+  let saved = true
+  for (const session of sessions) {
+    saved = ((await session.save?.()) ?? false) && saved
+  }
+  return saved
+}
+
+/**
+ * Destination chosen in the save as dialog
+ */
+interface SaveAsTarget {
+  folder: string
+  /** File name with extension */
+  name: string
+}
+
+/**
+ * Save as dialog waiting for the user
+ */
+interface SaveAsPrompt {
+  /** Suggested file name */
+  name: string
+  /** Suggested folder */
+  folder: string
+  resolve: (target: SaveAsTarget | null) => void
+}
+
+/**
+ * Suggested name of a new drawing file
+ */
+function getDefaultFileName(): string {
+  const timestamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-")
+  return `drawing-${timestamp}.draw`
+}
+
+/**
+ * Last segment of a path
+ */
+function getBaseName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1)
+}
+
+/**
+ * Serialize and encode a drawing for writing, with a preview for the file tree
+ */
+async function encodeDrawingFile(layers: ReadonlyArray<Layer>, meta: DrawDocumentMeta) {
+  const thumbnail = renderThumbnail(layers, DEFAULT_THUMBNAIL_SIZE, meta.background)
+  const compress = getSettingsStore().settings.compressDrawings
+  const content = serializeDrawing({ meta, thumbnail, layers }, { compact: compress })
+  const data = await encodeDrawing(content, compress ? "compressed" : "json")
+  return { content, thumbnail, data }
 }
 
 export function App() {
   // Initialize docking manager with default state
-  const [dockingManager] = useState(() => new DockingManager(createInitialLayout()))
+  const [dockingManager] = useState(createDockingManager)
 
   // Sidebar ref for adding files
   const sidebarRef = useRef<SidebarRef>(null)
 
-  // Track open file panels: filePath -> { panelId, name, handle, strokes }
-  const [filePanels, setFilePanels] = useState<
-    Map<
-      string,
-      {
-        id: string
-        name: string
-        handle: FileSystemFileHandle | null
-        strokes: ReadonlyArray<Stroke>
-      }
-    >
-  >(new Map())
+  // Track open file panels: filePath -> panel info
+  const [filePanels, setFilePanels] = useState<Map<string, FilePanel>>(new Map())
+
+  // File being exported from the sidebar (null when the export dialog is closed)
+  const [exportTarget, setExportTarget] = useState<{
+    name: string
+    layers: ReadonlyArray<Layer>
+  } | null>(null)
+
+  // Draft restored into the Untitled panel (remounts it when replaced)
+  const [newCanvasDraft, setNewCanvasDraft] = useState<NewCanvasDraft | null>(null)
+
+  // Drafts of the previous session waiting for restore or discard
+  const recoveredDrafts = useSyncExternalStore(
+    getOPFSStore().subscribe,
+    getRecoveredDrafts,
+    getRecoveredDrafts,
+  )
+
+  // Autosave unsaved drawings (paused while recovered drafts are pending,
+  // so they are not overwritten)
+  const settings = useSyncExternalStore(
+    getSettingsStore().subscribe,
+    getSettingsStore().getSnapshot,
+    getSettingsStore().getSnapshot,
+  )
+  const [autosave] = useState(
+    () => new AutosaveService(getDrawingSessionRegistry(), () => getOPFSStore().rootHandle),
+  )
+
+  useEffect(() => {
+    if (recoveredDrafts.length > 0 || settings.autosaveInterval === 0) return
+    autosave.start(settings.autosaveInterval * 1000)
+    return () => autosave.stop()
+  }, [autosave, recoveredDrafts.length, settings.autosaveInterval])
 
   // Track unsaved panels (new canvases not yet saved)
   const [, setUnsavedPanels] = useState<Set<string>>(new Set(["new-canvas"]))
@@ -58,6 +415,92 @@ export function App() {
   // Force re-render when docking state changes
   const [, forceUpdate] = useState({})
 
+  // Unsaved changes dialog (null when closed)
+  const [unsavedPrompt, setUnsavedPrompt] = useState<UnsavedPrompt | null>(null)
+
+  const askAboutUnsaved = useCallback(
+    (sessions: ReadonlyArray<DrawingSession>, canSave: boolean) =>
+      new Promise<UnsavedChoice>((resolve) => {
+        setUnsavedPrompt({ sessions, canSave, resolve })
+      }),
+    [],
+  )
+
+  const answerUnsavedPrompt = useCallback(
+    (choice: UnsavedChoice) => {
+      unsavedPrompt?.resolve(choice)
+      setUnsavedPrompt(null)
+    },
+    [unsavedPrompt],
+  )
+
+  // Ask before closing tabs of unsaved drawings (one prompt for all tabs
+  // closed together)
+  useEffect(() => {
+    return dockingManager.addCloseGuard(async (panels) => {
+      const dirty = getDirtySessions(panels.map((panel) => panel.contentKey))
+      if (dirty.length === 0) return true
+
+      const choice = await askAboutUnsaved(dirty, true)
+      return match(choice)
+        .with("save", () => saveSessions(dirty))
+        .with("discard", () => true)
+        .with("cancel", () => false)
+        .exhaustive()
+    })
+  }, [dockingManager, askAboutUnsaved])
+
+  // Open drawings with unsaved changes (for "Save all" and the window title)
+  const [unsavedCount, setUnsavedCount] = useState(0)
+
+  useEffect(() => {
+    const registry = getDrawingSessionRegistry()
+    const updateCount = (sessions: ReadonlyArray<DrawingSession>) => {
+      setUnsavedCount(sessions.filter((session) => session.isDirty).length)
+    }
+    updateCount(registry.getAll())
+    return registry.on("sessionsChange", updateCount)
+  }, [])
+
+  useEffect(() => {
+    document.title = unsavedCount > 0 ? `(${unsavedCount}) ${APP_TITLE}` : APP_TITLE
+  }, [unsavedCount])
+
+  const handleSaveAll = useCallback(async () => {
+    const dirty = getDrawingSessionRegistry()
+      .getAll()
+      .filter((session) => session.isDirty)
+    await saveSessions(dirty)
+  }, [])
+
+  // Save all with Ctrl+Shift+S (Ctrl+S saves the focused drawing)
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === "s") {
+        event.preventDefault()
+        handleSaveAll()
+      }
+    }
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [handleSaveAll])
+
+  // Let the browser ask before leaving the page with unsaved drawings
+  // (autosave keeps a draft either way)
+  useEffect(() => {
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      if (
+        getDrawingSessionRegistry()
+          .getAll()
+          .some((session) => session.isDirty)
+      ) {
+        event.preventDefault()
+      }
+    }
+    window.addEventListener("beforeunload", handleBeforeUnload)
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload)
+  }, [])
+
   // Subscribe to panel removal to clean up filePanels
   useEffect(() => {
     const unsubscribe = dockingManager.on("panelRemoved", (panelId) => {
@@ -80,103 +523,192 @@ export function App() {
     return unsubscribe
   }, [dockingManager])
 
-  // Handle save from canvas
-  // Note: panelId here is actually the contentKey (file path) or "new-canvas"
-  const handleSaveCanvas = useCallback(
-    async (contentKeyOrPanelId: string, strokes: ReadonlyArray<Stroke>) => {
-      const opfsStore = getOPFSStore()
+  // Save as dialog (null when closed)
+  const [saveAsPrompt, setSaveAsPrompt] = useState<SaveAsPrompt | null>(null)
+
+  const askSaveAsTarget = useCallback(
+    (name: string, folder: string) =>
+      new Promise<SaveAsTarget | null>((resolve) => {
+        setSaveAsPrompt({ name, folder, resolve })
+      }),
+    [],
+  )
 
-      // Serialize strokes to JSON
-      const content = JSON.stringify({ strokes }, null, 2)
+  const answerSaveAsPrompt = useCallback(
+    (target: SaveAsTarget | null) => {
+      saveAsPrompt?.resolve(target)
+      setSaveAsPrompt(null)
+    },
+    [saveAsPrompt],
+  )
 
-      // contentKeyOrPanelId is either "new-canvas" or the file path
+  // Handle "Save as…" from canvas (also the first save of a new canvas):
+  // writes a new file and shows it in the panel the drawing came from
+  const handleSaveCanvasAs = useCallback(
+    async (
+      contentKeyOrPanelId: string,
+      layers: ReadonlyArray<Layer>,
+      history: HistorySnapshot,
+      meta: DrawDocumentMeta,
+    ): Promise<boolean> => {
+      const opfsStore = getOPFSStore()
       const isNewCanvas = contentKeyOrPanelId === "new-canvas"
 
-      if (!isNewCanvas) {
-        // This is an existing file - overwrite it
-        const filePath = contentKeyOrPanelId
-        const fileNode = opfsStore.getFile(filePath)
-
-        if (fileNode?.handle) {
-          // Overwrite existing file
-          const result = await writeFile(fileNode.handle, content)
-          if (result.type === "error") {
-            console.error("Failed to save file:", result.error)
-            return
-          }
+      const target = await askSaveAsTarget(
+        isNewCanvas ? getDefaultFileName() : getBaseName(contentKeyOrPanelId),
+        isNewCanvas ? ROOT_PATH : getParentPath(contentKeyOrPanelId),
+      )
+      if (!target) return false
+
+      const filePath = target.folder === ROOT_PATH ? target.name : `${target.folder}/${target.name}`
+
+      // Create file via OPFS store
+      const success = await opfsStore.create(target.folder, target.name, "file")
+      const fileNode = opfsStore.getFile(filePath)
+      if (!success || !fileNode) {
+        console.error("Failed to create file:", filePath)
+        return false
+      }
 
-          // Update strokes in filePanels
-          setFilePanels((prev) => {
-            const newMap = new Map(prev)
-            const existingEntry = newMap.get(filePath)
-            if (existingEntry) {
-              newMap.set(filePath, { ...existingEntry, strokes })
-            }
-            return newMap
+      const { content, thumbnail, data } = await encodeDrawingFile(layers, meta)
+      const result = await writeFile(fileNode.handle, data)
+      if (result.type === "error") {
+        console.error("Failed to write file:", result.error)
+        return false
+      }
+      await persistHistory(filePath, content, history)
+      await autosave.remove([contentKeyOrPanelId])
+      getThumbnailStore().set(filePath, thumbnail)
+      if (isNewCanvas) {
+        setNewCanvasDraft(null)
+      }
+
+      // Rebind the panel to the new file (the previous file keeps its saved content)
+      const panel = findPanelByContentKey(dockingManager, contentKeyOrPanelId)
+      if (panel) {
+        setFilePanels((prev) => {
+          const newMap = new Map(prev)
+          newMap.delete(contentKeyOrPanelId)
+          newMap.set(filePath, {
+            id: panel.id,
+            name: target.name,
+            handle: fileNode.handle,
+            layers,
+            history,
+            meta,
+            dirty: false,
+            error: null,
+            canvasKey: createId(),
           })
-        } else {
-          console.error("File not found in OPFS store:", filePath)
-        }
-      } else {
-        // New file - create in OPFS (only for Untitled panels)
-        const timestamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, "-")
-        const fileName = `drawing-${timestamp}.draw`
-
-        // Create file via OPFS store
-        const success = await opfsStore.create("", fileName, "file")
-        if (!success) {
-          console.error("Failed to create file")
-          return
-        }
+          return newMap
+        })
 
-        // Get the file handle and write content
-        const fileNode = opfsStore.getFile(fileName)
-        if (fileNode) {
-          const result = await writeFile(fileNode.handle, content)
-          if (result.type === "error") {
-            console.error("Failed to write file:", result.error)
-            return
-          }
+        dockingManager.updatePanelTitle(panel.id, target.name)
+        dockingManager.updatePanelContentKey(panel.id, filePath)
 
-          // Find the actual panel by contentKey ("new-canvas")
-          const state = dockingManager.getState()
-          const panel = findPanelByContentKey(state.root, "new-canvas")
+        // Mark as saved (remove from unsaved)
+        setUnsavedPanels((prev) => {
+          const newSet = new Set(prev)
+          newSet.delete(panel.id)
+          return newSet
+        })
+      }
 
-          if (panel) {
-            // Update panel info
-            const newPanelId = generatePanelId(fileName)
-
-            // Update filePanels tracking
-            setFilePanels((prev) => {
-              const newMap = new Map(prev)
-              newMap.set(fileName, {
-                id: newPanelId,
-                name: fileName,
-                handle: fileNode.handle,
-                strokes,
-              })
-              return newMap
-            })
-
-            // Update panel title and content key using actual panel ID
-            dockingManager.updatePanelTitle(panel.id, fileName)
-            dockingManager.updatePanelContentKey(panel.id, fileName)
-
-            // Mark as saved (remove from unsaved)
-            setUnsavedPanels((prev) => {
-              const newSet = new Set(prev)
-              newSet.delete(panel.id)
-              return newSet
-            })
-          }
+      forceUpdate({})
+      return true
+    },
+    [dockingManager, autosave, askSaveAsTarget],
+  )
+
+  // Handle save from canvas
+  // Note: panelId here is actually the contentKey (file path) or "new-canvas"
+  const handleSaveCanvas = useCallback(
+    async (
+      contentKeyOrPanelId: string,
+      layers: ReadonlyArray<Layer>,
+      history: HistorySnapshot,
+      meta: DrawDocumentMeta,
+    ): Promise<boolean> => {
+      // New canvases have no file yet - ask where to save them
+      if (contentKeyOrPanelId === "new-canvas") {
+        return handleSaveCanvasAs(contentKeyOrPanelId, layers, history, meta)
+      }
+
+      // This is an existing file - overwrite it
+      const filePath = contentKeyOrPanelId
+      const fileNode = getOPFSStore().getFile(filePath)
+      if (!fileNode?.handle) {
+        console.error("File not found in OPFS store:", filePath)
+        return false
+      }
+
+      const { content, thumbnail, data } = await encodeDrawingFile(layers, meta)
+      const result = await writeFile(fileNode.handle, data)
+      if (result.type === "error") {
+        console.error("Failed to save file:", result.error)
+        return false
+      }
+      await persistHistory(filePath, content, history)
+      await autosave.remove([filePath])
+      getThumbnailStore().set(filePath, thumbnail)
+
+      // Update layers in filePanels
+      setFilePanels((prev) => {
+        const newMap = new Map(prev)
+        const existingEntry = newMap.get(filePath)
+        if (existingEntry) {
+          newMap.set(filePath, { ...existingEntry, layers, history, meta, dirty: false })
         }
+        return newMap
+      })
+
+      forceUpdate({})
+      return true
+    },
+    [autosave, handleSaveCanvasAs],
+  )
+
+  // Mark the tab of a drawing with unsaved changes
+  const handleDirtyChange = useCallback(
+    (contentKeyOrPanelId: string, isDirty: boolean) => {
+      const panel = findPanelByContentKey(dockingManager, contentKeyOrPanelId)
+      if (panel) {
+        dockingManager.setPanelDirty(panel.id, isDirty)
       }
+    },
+    [dockingManager],
+  )
+
+  // Remember the viewport of file canvases (new canvases have no path yet)
+  const handleViewportChange = useCallback((contentKeyOrPanelId: string, viewport: Viewport) => {
+    if (contentKeyOrPanelId === "new-canvas") return
+    storeViewport(contentKeyOrPanelId, viewport)
+  }, [])
 
+  // Show a tool panel such as the layers panel (reuses the open one)
+  const openToolPanel = useCallback(
+    (contentKey: string, title: string) => {
+      const existingPanel = findPanelByContentKey(dockingManager, contentKey)
+      if (existingPanel) {
+        dockingManager.activatePanel(existingPanel.id)
+      } else {
+        dockingManager.addPanel(contentKey, title)
+      }
       forceUpdate({})
     },
     [dockingManager],
   )
 
+  const handleOpenLayers = useCallback(
+    () => openToolPanel(LAYERS_CONTENT_KEY, "Layers"),
+    [openToolPanel],
+  )
+
+  const handleOpenHistory = useCallback(
+    () => openToolPanel(HISTORY_CONTENT_KEY, "History"),
+    [openToolPanel],
+  )
+
   // Available panel contents (base content + dynamic file panels)
   const availableContents = useMemo<PanelContent[]>(() => {
     const contents: PanelContent[] = []
@@ -185,37 +717,110 @@ export function App() {
     contents.push({
       key: "new-canvas",
       label: "Untitled",
-      content: <DrawingCanvas panelId='new-canvas' fileName='Untitled' onSave={handleSaveCanvas} />,
+      content: (
+        <DrawingCanvas
+          key={newCanvasDraft ? "draft" : "blank"}
+          panelId='new-canvas'
+          fileName='Untitled'
+          initialLayers={newCanvasDraft?.layers}
+          initialMeta={newCanvasDraft?.meta}
+          initialDirty={newCanvasDraft !== null}
+          onSave={handleSaveCanvas}
+          onSaveAs={handleSaveCanvasAs}
+          onDirtyChange={handleDirtyChange}
+          onOpenLayers={handleOpenLayers}
+          onOpenHistory={handleOpenHistory}
+        />
+      ),
+    })
+
+    // Layers of the focused drawing
+    contents.push({
+      key: LAYERS_CONTENT_KEY,
+      label: "Layers",
+      content: <LayersPanel />,
+    })
+
+    // Undo history of the focused drawing
+    contents.push({
+      key: HISTORY_CONTENT_KEY,
+      label: "History",
+      content: <HistoryPanel />,
     })
 
     // Add file panel contents - use path as panelId for save identification
-    // key prop is critical to prevent React from reusing component instances across different files
-    filePanels.forEach(({ name, strokes }, path) => {
+    // The canvas key survives renames and moves (remounting would drop unsaved edits),
+    // but differs between files so React does not reuse a canvas for another file
+    filePanels.forEach(({ name, layers, history, meta, dirty, error, canvasKey }, path) => {
       contents.push({
         key: path,
         label: name,
-        content: (
+        content: error ? (
+          <FileErrorPanel key={canvasKey} fileName={name} error={error} />
+        ) : (
           <DrawingCanvas
-            key={path}
+            key={canvasKey}
             panelId={path}
             fileName={name}
-            filePath={path}
-            initialStrokes={strokes}
+            initialLayers={layers}
+            initialHistory={history}
+            initialMeta={meta}
+            initialDirty={dirty}
+            initialViewport={getStoredViewport(path)}
+            onViewportChange={handleViewportChange}
             onSave={handleSaveCanvas}
+            onSaveAs={handleSaveCanvasAs}
+            onDirtyChange={handleDirtyChange}
+            onOpenLayers={handleOpenLayers}
+            onOpenHistory={handleOpenHistory}
           />
         ),
       })
     })
 
     return contents
-  }, [filePanels, handleSaveCanvas])
+  }, [
+    filePanels,
+    newCanvasDraft,
+    handleSaveCanvas,
+    handleSaveCanvasAs,
+    handleDirtyChange,
+    handleViewportChange,
+    handleOpenLayers,
+    handleOpenHistory,
+  ])
+
+  // Show a drawing file in the panel bound to its path
+  const showFilePanel = useCallback((panelId: string, file: OPFSFileNode, drawing: FileDrawing) => {
+    setFilePanels((prev) => {
+      const newMap = new Map(prev)
+      newMap.set(file.path, {
+        id: panelId,
+        name: file.name,
+        handle: file.handle,
+        ...drawing,
+        canvasKey: createId(),
+      })
+      return newMap
+    })
+  }, [])
+
+  // Show a drawing file in a new panel
+  const addFilePanel = useCallback(
+    (file: OPFSFileNode, drawing: FileDrawing) => {
+      // Create new panel with file name as title
+      const panel = dockingManager.addPanel(file.path, file.name)
+      showFilePanel(panel.id, file, drawing)
+      forceUpdate({})
+    },
+    [dockingManager, showFilePanel],
+  )
 
   // Handle file open from sidebar
   const handleFileOpen = useCallback(
     async (file: OPFSFileNode) => {
       // Check if file is already open by checking existing panels
-      const state = dockingManager.getState()
-      const existingPanel = findPanelByContentKey(state.root, file.path)
+      const existingPanel = findPanelByContentKey(dockingManager, file.path)
 
       if (existingPanel) {
         // Activate existing panel
@@ -224,52 +829,200 @@ export function App() {
         return
       }
 
-      // Read file content to get strokes
-      let strokes: ReadonlyArray<Stroke> = []
-      const readResult = await readFile(file.handle)
-      if (readResult.type === "success" && readResult.data) {
-        try {
-          const parsed = JSON.parse(readResult.data)
-          if (parsed.strokes && Array.isArray(parsed.strokes)) {
-            strokes = parsed.strokes
+      const drawing = await loadDrawing(file)
+      if (drawing) {
+        addFilePanel(file, drawing)
+      }
+    },
+    [dockingManager, addFilePanel],
+  )
+
+  // Reopen the chosen drafts of the previous session and drop the others
+  const handleRestoreDrafts = useCallback(
+    (drafts: ReadonlyArray<RecoveryDraft>) => {
+      const opfsStore = getOPFSStore()
+      const restoredKeys = new Set(drafts.map((draft) => draft.key))
+      discardDrafts(
+        opfsStore.recoveredDrafts.map((draft) => draft.key).filter((key) => !restoredKeys.has(key)),
+      )
+      autosave.adopt([...restoredKeys])
+
+      for (const draft of drafts) {
+        const parseResult = parseDrawing(draft.content)
+        if (parseResult.type === "error") {
+          console.error("Could not restore draft:", draft.key, parseResult.error)
+          continue
+        }
+        const { layers, meta } = parseResult.data
+
+        // Drafts of files that no longer exist are restored as Untitled
+        const file = draft.path === null ? undefined : opfsStore.getFile(draft.path)
+        if (file) {
+          const drawing = { layers, history: undefined, meta, dirty: true, error: null }
+          // Panels of the restored layout are still waiting for their file
+          const panel = findPanelByContentKey(dockingManager, file.path)
+          if (panel) {
+            showFilePanel(panel.id, file, drawing)
+          } else {
+            addFilePanel(file, drawing)
+          }
+        } else {
+          setNewCanvasDraft({ layers, meta })
+          if (!findPanelByContentKey(dockingManager, "new-canvas")) {
+            dockingManager.addPanel("new-canvas", "Untitled")
           }
-        } catch {
-          // File might be empty or invalid JSON
-          console.log("Could not parse file content, starting with empty canvas")
         }
       }
 
-      // Generate stable panel ID from file path
-      const panelId = generatePanelId(file.path)
+      opfsStore.clearRecoveredDrafts()
+      forceUpdate({})
+    },
+    [dockingManager, autosave, addFilePanel, showFilePanel],
+  )
+
+  const handleDiscardDrafts = useCallback(() => {
+    const opfsStore = getOPFSStore()
+    discardDrafts(opfsStore.recoveredDrafts.map((draft) => draft.key))
+    opfsStore.clearRecoveredDrafts()
+  }, [])
 
-      // Add file to panel tracking with strokes
-      setFilePanels((prev) => {
-        const newMap = new Map(prev)
-        newMap.set(file.path, {
-          id: panelId,
-          name: file.name,
-          handle: file.handle,
-          strokes,
+  const appState = useSyncExternalStore(getOPFSStore().subscribe, getAppState, getAppState)
+  const [layoutRestored, setLayoutRestored] = useState(false)
+
+  // Open the drawings of file panels that have no content yet. Panels of
+  // files that no longer exist are dropped.
+  const openLayoutFiles = useCallback(() => {
+    const opfsStore = getOPFSStore()
+    for (const panel of dockingManager.getAllPanels()) {
+      if (!isFileContentKey(panel.contentKey)) continue
+
+      const file = opfsStore.getFile(panel.contentKey)
+      if (!file) {
+        // The last panel cannot be removed - it becomes a new canvas
+        if (!dockingManager.removePanel(panel.id)) {
+          dockingManager.updatePanelTitle(panel.id, "Untitled")
+          dockingManager.updatePanelContentKey(panel.id, "new-canvas")
+        }
+        continue
+      }
+
+      loadDrawing(file).then((drawing) => {
+        if (!drawing) return
+        setFilePanels((prev) => {
+          if (prev.has(file.path)) return prev
+          const newMap = new Map(prev)
+          newMap.set(file.path, {
+            id: panel.id,
+            name: file.name,
+            handle: file.handle,
+            ...drawing,
+            canvasKey: createId(),
+          })
+          return newMap
         })
-        return newMap
       })
+    }
+    forceUpdate({})
+  }, [dockingManager])
 
-      // Create new panel with file name as title
-      dockingManager.addPanel(file.path, file.name)
-      forceUpdate({})
+  // Open the drawings of the restored layout once the file tree is read and
+  // recovered drafts are handled (restored drafts take precedence)
+  useEffect(() => {
+    if (layoutRestored || appState.type !== "ready" || recoveredDrafts.length > 0) return
+    setLayoutRestored(true)
+    openLayoutFiles()
+  }, [layoutRestored, appState, recoveredDrafts.length, openLayoutFiles])
+
+  // Switch to a saved workspace (unsaved drawings it closes are asked about)
+  const handleApplyLayout = useCallback(
+    async (layout: SerializedDockLayout) => {
+      if (await dockingManager.loadLayout(layout)) {
+        openLayoutFiles()
+      }
     },
-    [dockingManager],
+    [dockingManager, openLayoutFiles],
   )
 
+  const getLayout = useCallback(() => dockingManager.serializeLayout(), [dockingManager])
+
+  // File entries of the tab context menu
+  const getTabMenuItems = useCallback((panel: PanelNode): TabMenuItem[] => {
+    const path = panel.contentKey
+    if (!isFileContentKey(path) || !getOPFSStore().getFile(path)) return []
+    return [
+      { id: "reveal", label: "Reveal in explorer", onSelect: () => getOPFSStore().reveal(path) },
+      {
+        id: "copyPath",
+        label: "Copy path",
+        onSelect: () => {
+          // Best effort: the clipboard may be unavailable or denied
+          navigator.clipboard?.writeText(path).catch(() => {})
+        },
+      },
+    ]
+  }, [])
+
+  // Remember the layout for the next session
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const saveLayout = () => {
+      clearTimeout(timer)
+      timer = undefined
+      storeLayout(dockingManager.serializeLayout())
+    }
+    const scheduleSave = () => {
+      clearTimeout(timer)
+      timer = setTimeout(saveLayout, LAYOUT_SAVE_DELAY)
+    }
+
+    const unsubscribeLayout = dockingManager.on("layoutChanged", scheduleSave)
+    const unsubscribeEdit = dockingManager.on("panelEdited", scheduleSave)
+    window.addEventListener("pagehide", saveLayout)
+    return () => {
+      unsubscribeLayout()
+      unsubscribeEdit()
+      window.removeEventListener("pagehide", saveLayout)
+      if (timer !== undefined) saveLayout()
+    }
+  }, [dockingManager])
+
+  // Handle "Export as…" from sidebar - exports the saved file content
+  const handleFileExport = useCallback(async (file: OPFSFileNode) => {
+    const decodeResult = await readDrawingContent(file.handle)
+    if (!decodeResult) return
+    if (decodeResult.type === "error") {
+      console.error("Could not decode file content, nothing to export:", decodeResult.error)
+      return
+    }
+
+    if (!decodeResult.data.trim()) {
+      setExportTarget({ name: file.name, layers: [] })
+      return
+    }
+    const parseResult = parseDrawing(decodeResult.data)
+    if (parseResult.type === "error") {
+      console.error("Could not parse file content, nothing to export:", parseResult.error)
+      return
+    }
+    setExportTarget({ name: file.name, layers: parseResult.data.layers })
+  }, [])
+
+  const handleExportClose = useCallback(() => {
+    setExportTarget(null)
+  }, [])
+
   // Handle file rename from sidebar - updates panel title
   const handleFileRename = useCallback(
     (oldPath: string, newPath: string, newName: string) => {
+      moveStoredViewport(oldPath, newPath)
+      moveHistory(oldPath, newPath)
+      getThumbnailStore().invalidate([oldPath])
+
       const panelInfo = filePanels.get(oldPath)
       if (!panelInfo) return
 
       // Find panel by contentKey (old path)
-      const state = dockingManager.getState()
-      const panel = findPanelByContentKey(state.root, oldPath)
+      const panel = findPanelByContentKey(dockingManager, oldPath)
 
       if (panel) {
         // Update panel title to new name
@@ -287,10 +1040,9 @@ export function App() {
         const newMap = new Map(prev)
         newMap.delete(oldPath)
         newMap.set(newPath, {
-          id: panelInfo.id,
+          ...panelInfo,
           name: newName,
           handle: newFileNode?.handle ?? panelInfo.handle,
-          strokes: panelInfo.strokes,
         })
         return newMap
       })
@@ -303,12 +1055,15 @@ export function App() {
   // Handle file move from sidebar - updates panel contentKey
   const handleFileMove = useCallback(
     (oldPath: string, newPath: string) => {
+      moveStoredViewport(oldPath, newPath)
+      moveHistory(oldPath, newPath)
+      getThumbnailStore().invalidate([oldPath])
+
       const panelInfo = filePanels.get(oldPath)
       if (!panelInfo) return
 
       // Find panel by contentKey (old path)
-      const state = dockingManager.getState()
-      const panel = findPanelByContentKey(state.root, oldPath)
+      const panel = findPanelByContentKey(dockingManager, oldPath)
 
       if (panel) {
         // Update contentKey to new path (name stays the same)
@@ -324,10 +1079,8 @@ export function App() {
         const newMap = new Map(prev)
         newMap.delete(oldPath)
         newMap.set(newPath, {
-          id: panelInfo.id,
-          name: panelInfo.name,
+          ...panelInfo,
           handle: newFileNode?.handle ?? panelInfo.handle,
-          strokes: panelInfo.strokes,
         })
         return newMap
       })
@@ -337,16 +1090,25 @@ export function App() {
     [dockingManager, filePanels],
   )
 
-  // Handle file delete from sidebar - close open panels
+  // Handle file delete from sidebar - close open panels (unsaved drawings
+  // need confirmation, or the delete is cancelled)
   const handleFileDelete = useCallback(
-    (deletedPaths: readonly string[]) => {
+    async (deletedPaths: readonly string[]) => {
+      const dirty = getDirtySessions(deletedPaths)
+      if (dirty.length > 0 && (await askAboutUnsaved(dirty, false)) !== "discard") {
+        return false
+      }
+
+      removeStoredViewports(deletedPaths)
+      removeHistory(deletedPaths)
+      getThumbnailStore().invalidate(deletedPaths)
+
       for (const deletedPath of deletedPaths) {
         // Find panel by contentKey
-        const state = dockingManager.getState()
-        const panel = findPanelByContentKey(state.root, deletedPath)
+        const panel = findPanelByContentKey(dockingManager, deletedPath)
 
         if (panel) {
-          // Close the panel
+          // Close the panel (already confirmed, so skip the close guards)
           dockingManager.removePanel(panel.id)
         }
 
@@ -359,14 +1121,53 @@ export function App() {
       }
 
       forceUpdate({})
+      return true
     },
-    [dockingManager],
+    [dockingManager, askAboutUnsaved],
   )
 
   return (
     <JotaiProvider>
       <PWAUpdatePrompt />
-      <DockingProvider manager={dockingManager} availableContents={availableContents}>
+      {recoveredDrafts.length > 0 && (
+        <RecoveryDialog
+          drafts={recoveredDrafts}
+          onRestore={handleRestoreDrafts}
+          onDiscard={handleDiscardDrafts}
+        />
+      )}
+      {unsavedPrompt && (
+        <UnsavedChangesDialog
+          sessions={unsavedPrompt.sessions}
+          onSave={unsavedPrompt.canSave ? () => answerUnsavedPrompt("save") : undefined}
+          onDiscard={() => answerUnsavedPrompt("discard")}
+          onCancel={() => answerUnsavedPrompt("cancel")}
+        />
+      )}
+      {saveAsPrompt && (
+        <SaveAsDialog
+          initialName={saveAsPrompt.name}
+          initialFolder={saveAsPrompt.folder}
+          onSave={(folder, name) => answerSaveAsPrompt({ folder, name })}
+          onCancel={() => answerSaveAsPrompt(null)}
+        />
+      )}
+      {exportTarget && (
+        <ExportDialog
+          layers={exportTarget.layers}
+          fileName={exportTarget.name}
+          backgroundColor={
+            getComputedStyle(document.documentElement).getPropertyValue("--color-canvas").trim() ||
+            "#ffffff"
+          }
+          onClose={handleExportClose}
+        />
+      )}
+      <DockingProvider
+        manager={dockingManager}
+        availableContents={availableContents}
+        getTabMenuItems={getTabMenuItems}
+      >
         {({ manager, isAnyPanelMaximized }) => {
           const state = manager.getState()
           const maximizedPanel = manager.getMaximizedPanel()
@@ -375,8 +1176,10 @@ export function App() {
           // Fullscreen maximized view
           if (isMaximized && maximizedPanel) {
             return (
-              <div className='h-screen bg-background text-foreground'>
+              <div className='relative h-screen bg-background text-foreground'>
                 <DockPanel node={maximizedPanel} instanceId={state.instanceId} />
+                <FloatingPanels instanceId={state.instanceId} />
+                <TabSwitcher />
               </div>
             )
           }
@@ -384,7 +1187,12 @@ export function App() {
           // Normal view with header and sidebar
           return (
             <div className='h-screen flex flex-col bg-background text-foreground'>
-              <Header />
+              <Header
+                unsavedCount={unsavedCount}
+                onSaveAll={handleSaveAll}
+                getLayout={getLayout}
+                onApplyLayout={handleApplyLayout}
+              />
 
               <div className='flex-1 flex overflow-hidden'>
                 {/* Sidebar */}
@@ -392,6 +1200,7 @@ export function App() {
                   <Sidebar
                     ref={sidebarRef}
                     onFileOpen={handleFileOpen}
+                    onFileExport={handleFileExport}
                     onFileRename={handleFileRename}
                     onFileMove={handleFileMove}
                     onFileDelete={handleFileDelete}
@@ -399,10 +1208,12 @@ export function App() {
                 </aside>
 
                 {/* Main content with docking */}
-                <main className='flex-1 overflow-hidden p-2'>
+                <main className='relative flex-1 overflow-hidden p-2'>
                   <NodeRenderer node={state.root} instanceId={state.instanceId} />
+                  <FloatingPanels instanceId={state.instanceId} />
                 </main>
               </div>
+              <TabSwitcher />
             </div>
           )
         }}
@@ -411,26 +1222,7 @@ export function App() {
   )
 }
 
-// Helper to find a panel by contentKey
-function findPanelByContentKey(
-  node: import("@internal/dock").DockNode,
-  contentKey: string,
-): import("@internal/dock").PanelNode | null {
-  if (node.type === "panel") {
-    return node.contentKey === contentKey ? node : null
-  }
-  if (node.type === "tabContainer") {
-    for (const panel of node.panels) {
-      if (panel.contentKey === contentKey) {
-        return panel
-      }
-    }
-    return null
-  }
-  if (node.type === "container") {
-    const inFirst = findPanelByContentKey(node.first, contentKey)
-    if (inFirst) return inFirst
-    return findPanelByContentKey(node.second, contentKey)
-  }
-  return null
+// Helper to find a docked or floating panel by contentKey
+function findPanelByContentKey(manager: DockingManager, contentKey: string): PanelNode | null {
+  return manager.getAllPanels().find((panel) => panel.contentKey === contentKey) ?? null
 }
@@ -0,0 +1,61 @@
+import type { DrawFileError } from "@internal/drawing"
+import { FileWarning } from "lucide-react"
+import type React from "react"
+import { match } from "ts-pattern"
+
+export interface FileErrorPanelProps {
+  fileName: string
+  error: DrawFileError
+}
+
+/**
+ * Describe why a drawing could not be read
+ */
+function getErrorSummary(error: DrawFileError): string {
+  return match(error)
+    .with({ type: "corrupted" }, ({ message }) => `The compressed file is damaged: ${message}`)
+    .with({ type: "syntax" }, ({ message }) => `The file is not valid JSON: ${message}`)
+    .with(
+      { type: "unsupportedVersion" },
+      ({ version }) =>
+        `The file uses format version ${String(version)}, which this version of the app cannot read.`,
+    )
+    .with({ type: "invalid" }, () => "The file does not match the drawing format:")
+    .exhaustive()
+}
+
+/**
+ * Shown instead of the canvas when a drawing file cannot be read
+ *
+ * There is nothing to save from here, so the file stays untouched
+ * until it is fixed or deleted.
+ */
+export const FileErrorPanel: React.FC<FileErrorPanelProps> = ({ fileName, error }) => {
+  return (
+    <div role='alert' className='h-full p-6 overflow-auto'>
+      <div className='grid gap-3 max-w-xl'>
+        <div className='grid grid-cols-[auto_1fr] gap-3 items-center'>
+          <div className='w-10 h-10 rounded-lg bg-destructive/10 grid place-items-center'>
+            <FileWarning className='w-5 h-5 text-destructive' />
+          </div>
+          <div>
+            <h2 className='text-base font-semibold text-foreground'>Cannot open {fileName}</h2>
+            <p className='text-xs text-muted-foreground'>The file has not been changed.</p>
+          </div>
+        </div>
+
+        <p className='text-sm text-foreground'>{getErrorSummary(error)}</p>
+
+        {error.type === "invalid" && (
+          <ul className='grid gap-1 text-xs font-mono text-muted-foreground'>
+            {error.issues.map(({ path, message }) => (
+              <li key={`${path}: ${message}`}>
+                <span className='text-foreground'>{path}</span>: {message}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
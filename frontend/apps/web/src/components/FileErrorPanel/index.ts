@@ -0,0 +1 @@
+export { FileErrorPanel } from "./FileErrorPanel"
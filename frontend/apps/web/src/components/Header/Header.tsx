@@ -1,8 +1,27 @@
-import { Palette } from "lucide-react"
+import type { SerializedDockLayout } from "@internal/dock"
+import { Palette, SaveAll } from "lucide-react"
 import type React from "react"
+import { SettingsMenu } from "../SettingsMenu"
 import { ThemeSelector } from "../ThemeSelector"
+import { WorkspaceMenu } from "../WorkspaceMenu"
 
-export const Header: React.FC = () => {
+export interface HeaderProps {
+  /** Number of open drawings with unsaved changes */
+  unsavedCount?: number
+  /** Callback to save every unsaved drawing */
+  onSaveAll?: () => void
+  /** Get the current dock layout, to save it as a workspace */
+  getLayout?: () => SerializedDockLayout
+  /** Callback to switch to a saved workspace */
+  onApplyLayout?: (layout: SerializedDockLayout) => void
+}
+
+export const Header: React.FC<HeaderProps> = ({
+  unsavedCount = 0,
+  onSaveAll,
+  getLayout,
+  onApplyLayout,
+}) => {
   return (
     <header className='h-12 flex items-center justify-between px-4 border-b border-border bg-card'>
       <div className='flex items-center gap-2'>
@@ -11,7 +30,28 @@ export const Header: React.FC = () => {
       </div>
 
       <div className='flex items-center gap-2'>
+        {onSaveAll && (
+          <button
+            type='button'
+            onClick={onSaveAll}
+            disabled={unsavedCount === 0}
+            title='Save all (Ctrl+Shift+S)'
+            className='flex items-center gap-1.5 px-2 py-1 rounded text-sm text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-50 disabled:pointer-events-none transition-colors'
+          >
+            <SaveAll className='w-4 h-4' />
+            Save all
+            {unsavedCount > 0 && (
+              <span className='min-w-5 px-1 rounded-full text-xs font-medium text-center bg-primary text-primary-foreground'>
+                {unsavedCount}
+              </span>
+            )}
+          </button>
+        )}
+        {getLayout && onApplyLayout && (
+          <WorkspaceMenu getLayout={getLayout} onApply={onApplyLayout} />
+        )}
         <ThemeSelector />
+        <SettingsMenu />
       </div>
     </header>
   )
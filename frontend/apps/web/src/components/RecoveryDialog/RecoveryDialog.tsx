@@ -0,0 +1,93 @@
+import type React from "react"
+import { useId, useState } from "react"
+import type { RecoveryDraft } from "../../lib/recoveryStorage"
+
+export interface RecoveryDialogProps {
+  drafts: ReadonlyArray<RecoveryDraft>
+  /** Callback with the drafts to restore (the others are discarded) */
+  onRestore: (drafts: ReadonlyArray<RecoveryDraft>) => void
+  /** Callback to discard all drafts */
+  onDiscard: () => void
+}
+
+/**
+ * Startup dialog offering to restore autosaved drafts of unsaved drawings
+ *
+ * Every draft is selected by default; unselected drafts are discarded.
+ */
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ drafts, onRestore, onDiscard }) => {
+  const titleId = useId()
+  const [selected, setSelected] = useState<ReadonlySet<string>>(
+    () => new Set(drafts.map((draft) => draft.key)),
+  )
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center p-4 bg-black/50'>
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='grid gap-4 w-full max-w-md p-5 rounded-lg shadow-xl bg-card text-card-foreground border border-border'
+      >
+        <div className='grid gap-1'>
+          <h2 id={titleId} className='text-lg font-semibold'>
+            Restore unsaved drawings?
+          </h2>
+          <p className='text-sm text-muted-foreground'>
+            These drawings had unsaved changes when the app was last closed.
+          </p>
+        </div>
+
+        <ul className='grid gap-1 max-h-64 overflow-auto'>
+          {drafts.map((draft) => (
+            <li key={draft.key}>
+              <label className='grid grid-cols-[auto_1fr] items-start gap-2 p-1 rounded-md text-sm hover:bg-muted'>
+                <input
+                  type='checkbox'
+                  checked={selected.has(draft.key)}
+                  onChange={() => toggle(draft.key)}
+                  className='mt-0.5'
+                />
+                <span className='grid min-w-0'>
+                  <span className='truncate'>{draft.title}</span>
+                  <span className='text-xs text-muted-foreground truncate'>
+                    {draft.path ?? "Never saved"} ·{" "}
+                    <time dateTime={new Date(draft.savedAt).toISOString()}>
+                      {new Date(draft.savedAt).toLocaleString()}
+                    </time>
+                  </span>
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className='grid grid-flow-col justify-end gap-2'>
+          <button
+            type='button'
+            onClick={onDiscard}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            Discard all
+          </button>
+          <button
+            type='button'
+            onClick={() => onRestore(drafts.filter((draft) => selected.has(draft.key)))}
+            disabled={selected.size === 0}
+            className='px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-colors'
+          >
+            Restore
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
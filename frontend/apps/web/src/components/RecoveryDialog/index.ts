@@ -0,0 +1 @@
+export { RecoveryDialog } from "./RecoveryDialog"
@@ -0,0 +1,173 @@
+import { createFileTreeManager, getParentPath, ROOT_PATH, TreeView } from "@internal/file-tree"
+import type React from "react"
+import { type FormEvent, useEffect, useId, useRef, useState, useSyncExternalStore } from "react"
+import { getOPFSStore } from "../../stores/opfsStore"
+
+const INPUT_CLASS = "px-2 py-1 rounded-md bg-background border border-border text-sm"
+
+/**
+ * Extension of drawing files (added when the name has none)
+ */
+const DRAW_EXTENSION = ".draw"
+
+/**
+ * File name with the drawing extension
+ */
+function withDrawExtension(name: string): string {
+  const trimmed = name.trim()
+  return trimmed.toLowerCase().endsWith(DRAW_EXTENSION) ? trimmed : `${trimmed}${DRAW_EXTENSION}`
+}
+
+/**
+ * Problem with a file name typed by the user (null when it is valid)
+ */
+function validateFileName(name: string): string | null {
+  const trimmed = name.trim()
+  if (trimmed === "") return "Enter a file name."
+  if (/[/\\]/.test(trimmed)) return "File names cannot contain / or \\."
+  if (trimmed === "." || trimmed === "..") return "This file name is reserved."
+  return null
+}
+
+export interface SaveAsDialogProps {
+  /** Suggested file name */
+  initialName: string
+  /** Folder selected at first (falls back to the root when it is gone) */
+  initialFolder: string
+  /** Callback with the chosen folder and file name (with extension) */
+  onSave: (folderPath: string, name: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Dialog choosing the folder and name to save a drawing under
+ *
+ * The folder is picked from its own copy of the file tree, so the
+ * sidebar selection and expansion are left alone.
+ */
+export const SaveAsDialog: React.FC<SaveAsDialogProps> = ({
+  initialName,
+  initialFolder,
+  onSave,
+  onCancel,
+}) => {
+  const titleId = useId()
+  const nameInputRef = useRef<HTMLInputElement>(null)
+  const store = getOPFSStore()
+  useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+  const root = store.root
+
+  const [folder, setFolder] = useState(() =>
+    initialFolder === ROOT_PATH || store.getFolder(initialFolder) ? initialFolder : ROOT_PATH,
+  )
+  const [name, setName] = useState(initialName)
+  const [, forceUpdate] = useState({})
+
+  // Folder tree with the initial folder selected and revealed
+  const [tree] = useState(() => {
+    const manager = createFileTreeManager(root)
+    manager.expand(ROOT_PATH)
+    for (let path = folder; path !== ROOT_PATH; path = getParentPath(path)) {
+      manager.expand(path)
+    }
+    manager.select(folder)
+    return manager
+  })
+
+  // Follow changes of the file system (e.g. a folder created from the dialog)
+  useEffect(() => {
+    if (root && tree.root !== root) {
+      tree.setRoot(root)
+      forceUpdate({})
+    }
+  }, [tree, root])
+
+  useEffect(() => {
+    nameInputRef.current?.select()
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onCancel()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [onCancel])
+
+  const fileName = withDrawExtension(name)
+  const error = validateFileName(name) ?? store.checkDuplicateName(folder, fileName)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    if (error) return
+    onSave(folder, fileName)
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center p-4 bg-black/50'>
+      <form
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        onSubmit={handleSubmit}
+        className='grid gap-4 w-full max-w-md p-5 rounded-lg shadow-xl bg-card text-card-foreground border border-border'
+      >
+        <h2 id={titleId} className='text-lg font-semibold'>
+          Save as
+        </h2>
+
+        <div className='h-64 overflow-auto p-1 rounded-md border border-border'>
+          <TreeView
+            tree={tree}
+            onTreeUpdate={() => forceUpdate({})}
+            onFolderSelect={setFolder}
+            onFileSelect={(path) => setFolder(getParentPath(path))}
+            onCreate={(parentPath, childName, type) => store.create(parentPath, childName, type)}
+          />
+        </div>
+
+        <label className='grid gap-1 text-sm'>
+          File name
+          <input
+            ref={nameInputRef}
+            type='text'
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            aria-invalid={error !== null}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <p className='text-xs text-muted-foreground truncate'>
+          Saves to /{folder === ROOT_PATH ? fileName : `${folder}/${fileName}`}
+        </p>
+
+        {error && (
+          <p role='alert' className='text-sm text-destructive'>
+            {error}
+          </p>
+        )}
+
+        <div className='grid grid-flow-col justify-end gap-2'>
+          <button
+            type='button'
+            onClick={onCancel}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            Cancel
+          </button>
+          <button
+            type='submit'
+            disabled={error !== null}
+            className='px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-colors'
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
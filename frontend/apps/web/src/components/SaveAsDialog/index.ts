@@ -0,0 +1 @@
+export { SaveAsDialog } from "./SaveAsDialog"
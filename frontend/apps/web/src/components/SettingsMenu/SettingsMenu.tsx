@@ -0,0 +1,117 @@
+import { Settings } from "lucide-react"
+import type React from "react"
+import { useEffect, useId, useRef, useState, useSyncExternalStore } from "react"
+import { AUTOSAVE_INTERVALS, getSettingsStore } from "../../stores/settingsStore"
+
+export interface SettingsMenuProps {
+  className?: string
+}
+
+/**
+ * Label of an autosave interval option
+ */
+function formatInterval(seconds: number): string {
+  if (seconds === 0) return "Off"
+  return seconds < 60 ? `Every ${seconds} s` : `Every ${seconds / 60} min`
+}
+
+/**
+ * Header button with a popover for app preferences
+ */
+export const SettingsMenu: React.FC<SettingsMenuProps> = ({ className = "" }) => {
+  const store = getSettingsStore()
+  const settings = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+  const [open, setOpen] = useState(false)
+  const menuId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [open])
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type='button'
+        aria-label='Settings'
+        aria-expanded={open}
+        aria-controls={menuId}
+        onClick={() => setOpen((prev) => !prev)}
+        className='p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors'
+      >
+        <Settings className='w-4 h-4' />
+      </button>
+      {open && (
+        <div
+          id={menuId}
+          className='absolute right-0 top-full mt-1 z-50 grid gap-3 w-64 p-3 rounded-md shadow-lg bg-card text-card-foreground border border-border'
+        >
+          <label className='grid grid-cols-[auto_1fr] items-start gap-2 text-sm'>
+            <input
+              type='checkbox'
+              checked={settings.persistHistory}
+              onChange={(e) => store.set("persistHistory", e.target.checked)}
+              className='mt-0.5'
+            />
+            <span>
+              Keep undo history
+              <span className='block text-xs text-muted-foreground'>
+                Saved drawings reopen with their undo history
+              </span>
+            </span>
+          </label>
+          <label className='grid grid-cols-[auto_1fr] items-start gap-2 text-sm'>
+            <input
+              type='checkbox'
+              checked={settings.compressDrawings}
+              onChange={(e) => store.set("compressDrawings", e.target.checked)}
+              className='mt-0.5'
+            />
+            <span>
+              Compress drawings
+              <span className='block text-xs text-muted-foreground'>
+                Smaller files, but other apps can no longer read them as JSON
+              </span>
+            </span>
+          </label>
+          <label className='grid gap-1 text-sm'>
+            Autosave
+            <select
+              value={settings.autosaveInterval}
+              onChange={(e) => store.set("autosaveInterval", Number(e.target.value))}
+              className='px-2 py-1 rounded-md bg-background border border-border'
+            >
+              {AUTOSAVE_INTERVALS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {formatInterval(seconds)}
+                </option>
+              ))}
+            </select>
+            <span className='text-xs text-muted-foreground'>
+              Unsaved drawings can be restored after a crash or reload
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export type { SettingsMenuProps } from "./SettingsMenu"
+export { SettingsMenu } from "./SettingsMenu"
@@ -1,11 +1,12 @@
 import {
   type DropPosition,
   type EditingState,
+  type FileNode as FileTreeFileNode,
   type TreeNode as FileTreeNode,
   ROOT_PATH,
   TreeView,
 } from "@internal/file-tree"
-import { FilePlus, FolderPlus, Loader2 } from "lucide-react"
+import { File, FilePlus, FolderPlus, Loader2 } from "lucide-react"
 import {
   forwardRef,
   useCallback,
@@ -17,12 +18,15 @@ import {
 import { match } from "ts-pattern"
 import type { FileNode as OPFSFileNode } from "../../lib/opfs"
 import { getOPFSStore } from "../../stores/opfsStore"
+import { getThumbnailStore } from "../../stores/thumbnailStore"
 
 interface SidebarProps {
   onFileOpen?: (node: OPFSFileNode) => void
+  onFileExport?: (node: OPFSFileNode) => void
   onFileRename?: (oldPath: string, newPath: string, newName: string) => void
   onFileMove?: (oldPath: string, newPath: string) => void
-  onFileDelete?: (paths: readonly string[]) => void
+  /** Called before deletion; returning false cancels it */
+  onFileDelete?: (paths: readonly string[]) => boolean | Promise<boolean>
 }
 
 export interface SidebarRef {
@@ -121,8 +125,34 @@ class OPFSTreeAdapter {
   }
 }
 
+interface FileThumbnailProps {
+  file: OPFSFileNode
+}
+
+/**
+ * Preview embedded in a drawing file (the default icon until it is read)
+ */
+function FileThumbnail({ file }: FileThumbnailProps) {
+  const thumbnails = getThumbnailStore()
+  useSyncExternalStore(thumbnails.subscribe, thumbnails.getSnapshot, thumbnails.getSnapshot)
+  const thumbnail = thumbnails.get(file.path)
+
+  useEffect(() => {
+    thumbnails.load(file.path, file.handle)
+  }, [thumbnails, file.path, file.handle])
+
+  if (!thumbnail) return <File size={16} strokeWidth={1.75} />
+  return (
+    <img
+      src={thumbnail}
+      alt=''
+      className='w-4 h-4 rounded-sm border border-border/50 bg-canvas object-contain'
+    />
+  )
+}
+
 export const Sidebar = forwardRef<SidebarRef, SidebarProps>(
-  ({ onFileOpen, onFileRename, onFileMove, onFileDelete }, ref) => {
+  ({ onFileOpen, onFileExport, onFileRename, onFileMove, onFileDelete }, ref) => {
     const store = getOPFSStore()
     const [adapter] = useState(() => new OPFSTreeAdapter(store))
     const [editingState, setEditingState] = useState<EditingState | null>(null)
@@ -170,6 +200,25 @@ export const Sidebar = forwardRef<SidebarRef, SidebarProps>(
       [store, onFileOpen],
     )
 
+    const handleExport = useCallback(
+      (node: FileTreeNode) => {
+        const opfsNode = store.getFile(node.path)
+        if (opfsNode) {
+          onFileExport?.(opfsNode)
+        }
+      },
+      [store, onFileExport],
+    )
+
+    // Drawings show their embedded preview instead of the file icon
+    const renderFileIcon = useCallback(
+      (node: FileTreeFileNode) => {
+        const opfsNode = node.name.endsWith(".draw") ? store.getFile(node.path) : undefined
+        return opfsNode ? <FileThumbnail file={opfsNode} /> : null
+      },
+      [store],
+    )
+
     const handleCreate = useCallback(
       async (parentPath: string, name: string, type: "file" | "folder") => {
         await store.create(parentPath, name, type)
@@ -217,7 +266,7 @@ export const Sidebar = forwardRef<SidebarRef, SidebarProps>(
         }
 
         // Notify parent before deletion so it can close open panels
-        onFileDelete?.(pathsToDelete)
+        if ((await onFileDelete?.(pathsToDelete)) === false) return
 
         await store.delete(node.path)
       },
@@ -284,6 +333,8 @@ export const Sidebar = forwardRef<SidebarRef, SidebarProps>(
             onTreeUpdate={handleTreeUpdate}
             onFileSelect={handleFileSelect}
             onOpen={handleOpen}
+            onExport={onFileExport ? handleExport : undefined}
+            renderFileIcon={renderFileIcon}
             onCreate={handleCreate}
             onRename={handleRename}
             onDelete={handleDelete}
@@ -0,0 +1,110 @@
+import type { DrawingSession } from "@internal/drawing"
+import type React from "react"
+import { useEffect, useId, useRef } from "react"
+
+export interface UnsavedChangesDialogProps {
+  /** Drawings with unsaved changes */
+  sessions: ReadonlyArray<DrawingSession>
+  /** Callback to save the drawings first (omit when saving makes no sense, e.g. on delete) */
+  onSave?: () => void
+  /** Callback to go on without saving */
+  onDiscard: () => void
+  /** Callback to keep the drawings open */
+  onCancel: () => void
+}
+
+/**
+ * Asks what to do with unsaved drawings before they are closed
+ *
+ * One dialog covers all drawings closed together.
+ */
+export const UnsavedChangesDialog: React.FC<UnsavedChangesDialogProps> = ({
+  sessions,
+  onSave,
+  onDiscard,
+  onCancel,
+}) => {
+  const titleId = useId()
+  const defaultButtonRef = useRef<HTMLButtonElement>(null)
+
+  useEffect(() => {
+    defaultButtonRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onCancel()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [onCancel])
+
+  const [first] = sessions
+  const heading =
+    sessions.length === 1
+      ? `Save changes to “${first?.title}”?`
+      : `Save changes to ${sessions.length} drawings?`
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center p-4 bg-black/50'>
+      <div
+        role='alertdialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='grid gap-4 w-full max-w-md p-5 rounded-lg shadow-xl bg-card text-card-foreground border border-border'
+      >
+        <div className='grid gap-1'>
+          <h2 id={titleId} className='text-lg font-semibold'>
+            {onSave ? heading : "Discard unsaved changes?"}
+          </h2>
+          <p className='text-sm text-muted-foreground'>
+            {onSave
+              ? "Your changes will be lost if you don't save them."
+              : "These drawings have unsaved changes that will be lost."}
+          </p>
+        </div>
+
+        {(sessions.length > 1 || !onSave) && (
+          <ul className='grid gap-1 max-h-64 overflow-auto text-sm'>
+            {sessions.map((session) => (
+              <li key={session.panelId} className='truncate'>
+                {session.title}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className='grid grid-flow-col justify-end gap-2'>
+          <button
+            type='button'
+            onClick={onDiscard}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            {onSave ? "Don't save" : "Discard"}
+          </button>
+          <button
+            ref={onSave ? undefined : defaultButtonRef}
+            type='button'
+            onClick={onCancel}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            Cancel
+          </button>
+          {onSave && (
+            <button
+              ref={defaultButtonRef}
+              type='button'
+              onClick={onSave}
+              className='px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:opacity-90 transition-colors'
+            >
+              {sessions.length > 1 ? "Save all" : "Save"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
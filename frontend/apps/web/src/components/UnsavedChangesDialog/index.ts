@@ -0,0 +1 @@
+export { UnsavedChangesDialog } from "./UnsavedChangesDialog"
@@ -0,0 +1,206 @@
+import type { SerializedDockLayout } from "@internal/dock"
+import { downloadBlob } from "@internal/drawing"
+import { Download, LayoutDashboard, Trash2, Upload } from "lucide-react"
+import type React from "react"
+import { useEffect, useId, useRef, useState, useSyncExternalStore } from "react"
+import { getLayoutPresetStore, parseLayoutPresets } from "../../stores/layoutPresetStore"
+
+export interface WorkspaceMenuProps {
+  /** Get the current dock layout, to save it as a workspace */
+  getLayout: () => SerializedDockLayout
+  /** Callback to switch to a saved workspace */
+  onApply: (layout: SerializedDockLayout) => void
+  className?: string
+}
+
+/**
+ * File name of exported workspaces
+ */
+const EXPORT_FILE_NAME = "workspaces.json"
+
+/**
+ * Header button with a popover to save, switch, export and import
+ * named dock layouts
+ */
+export const WorkspaceMenu: React.FC<WorkspaceMenuProps> = ({
+  getLayout,
+  onApply,
+  className = "",
+}) => {
+  const store = getLayoutPresetStore()
+  const presets = useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot)
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [importError, setImportError] = useState<string | null>(null)
+  const menuId = useId()
+  const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setOpen(false)
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [open])
+
+  const trimmedName = name.trim()
+  const replacesPreset = presets.some((preset) => preset.name === trimmedName)
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!trimmedName) return
+    store.save({ name: trimmedName, layout: getLayout() })
+    setName("")
+  }
+
+  const handleApply = (layout: SerializedDockLayout) => {
+    setOpen(false)
+    onApply(layout)
+  }
+
+  const handleExport = () => {
+    downloadBlob(new Blob([store.toJSON()], { type: "application/json" }), EXPORT_FILE_NAME)
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Allow importing the same file again
+    e.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = parseLayoutPresets(JSON.parse(await file.text()))
+      if (!imported || imported.length === 0) {
+        setImportError(`${file.name} contains no workspaces`)
+        return
+      }
+      store.save(...imported)
+      setImportError(null)
+    } catch {
+      setImportError(`${file.name} is not a workspace file`)
+    }
+  }
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <button
+        type='button'
+        aria-label='Workspaces'
+        aria-expanded={open}
+        aria-controls={menuId}
+        onClick={() => setOpen((prev) => !prev)}
+        className='p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors'
+      >
+        <LayoutDashboard className='w-4 h-4' />
+      </button>
+      {open && (
+        <div
+          id={menuId}
+          className='absolute right-0 top-full mt-1 z-50 grid gap-3 w-64 p-3 rounded-md shadow-lg bg-card text-card-foreground border border-border'
+        >
+          <div className='grid gap-1 text-sm'>
+            Workspaces
+            {presets.length === 0 ? (
+              <span className='text-xs text-muted-foreground'>No saved workspaces yet</span>
+            ) : (
+              <ul className='grid gap-0.5 max-h-48 overflow-auto'>
+                {presets.map((preset) => (
+                  <li key={preset.name} className='grid grid-cols-[1fr_auto] items-center'>
+                    <button
+                      type='button'
+                      onClick={() => handleApply(preset.layout)}
+                      className='px-2 py-1 rounded-md text-left truncate hover:bg-muted transition-colors'
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      type='button'
+                      aria-label={`Delete ${preset.name}`}
+                      onClick={() => store.remove(preset.name)}
+                      className='p-1 rounded text-muted-foreground hover:text-destructive hover:bg-muted transition-colors'
+                    >
+                      <Trash2 className='w-3.5 h-3.5' />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <form onSubmit={handleSave} className='grid gap-1 text-sm'>
+            <span className='grid grid-cols-[1fr_auto] gap-2'>
+              <input
+                type='text'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder='Workspace name'
+                aria-label='Workspace name'
+                className='min-w-0 px-2 py-1 rounded-md bg-background border border-border'
+              />
+              <button
+                type='submit'
+                disabled={!trimmedName}
+                className='px-2 py-1 rounded-md font-medium bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-colors'
+              >
+                Save
+              </button>
+            </span>
+            <span className='text-xs text-muted-foreground'>
+              {replacesPreset
+                ? "Replaces the workspace with this name"
+                : "Saves the current panel layout"}
+            </span>
+          </form>
+
+          <div className='grid grid-cols-2 gap-2 text-sm'>
+            <button
+              type='button'
+              onClick={handleExport}
+              disabled={presets.length === 0}
+              className='flex items-center justify-center gap-1.5 px-2 py-1 rounded-md border border-border bg-background hover:bg-muted disabled:opacity-50 transition-colors'
+            >
+              <Download className='w-3.5 h-3.5' />
+              Export
+            </button>
+            <button
+              type='button'
+              onClick={() => fileInputRef.current?.click()}
+              className='flex items-center justify-center gap-1.5 px-2 py-1 rounded-md border border-border bg-background hover:bg-muted transition-colors'
+            >
+              <Upload className='w-3.5 h-3.5' />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type='file'
+              accept='application/json,.json'
+              onChange={handleImport}
+              className='hidden'
+            />
+          </div>
+          {importError && (
+            <p role='alert' className='text-xs text-destructive'>
+              {importError}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,2 @@
+export type { WorkspaceMenuProps } from "./WorkspaceMenu"
+export { WorkspaceMenu } from "./WorkspaceMenu"
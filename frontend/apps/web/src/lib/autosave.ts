@@ -0,0 +1,148 @@
+import {
+  type DrawingSession,
+  type DrawingSessionRegistry,
+  serializeDrawing,
+} from "@internal/drawing"
+import { removeRecoveryDrafts, writeRecoveryDraft } from "./recoveryStorage"
+
+/**
+ * Panel key of the never-saved Untitled drawing
+ */
+const NEW_CANVAS_KEY = "new-canvas"
+
+/**
+ * Longest wait for an idle period before autosaving anyway (ms)
+ */
+const IDLE_TIMEOUT = 2000
+
+/**
+ * Run a callback when the browser is idle (soon, where idle callbacks are unsupported)
+ */
+function whenIdle(callback: () => void): void {
+  if (typeof window.requestIdleCallback === "function") {
+    window.requestIdleCallback(callback, { timeout: IDLE_TIMEOUT })
+  } else {
+    setTimeout(callback, 0)
+  }
+}
+
+/**
+ * Autosave Service - Writes drafts of unsaved drawings to the recovery area
+ *
+ * Every interval (once the browser is idle), each open drawing with
+ * unsaved changes is written as a draft, unless it did not change since
+ * its last draft. Drafts are removed once a drawing is saved or closed,
+ * so only work that would otherwise be lost remains after a crash.
+ */
+export class AutosaveService {
+  private readonly registry: DrawingSessionRegistry
+  private readonly getRoot: () => FileSystemDirectoryHandle | null
+  private timer: ReturnType<typeof setInterval> | null = null
+  private unsubscribe: (() => void) | null = null
+
+  // Panel key -> session of the last draft written (null for a draft
+  // of a previous session that was not rewritten yet)
+  private readonly drafts = new Map<string, DrawingSession | null>()
+
+  constructor(registry: DrawingSessionRegistry, getRoot: () => FileSystemDirectoryHandle | null) {
+    this.registry = registry
+    this.getRoot = getRoot
+  }
+
+  /**
+   * Start autosaving every `interval` ms (restarts when already running)
+   */
+  start(interval: number): void {
+    this.stop()
+    this.timer = setInterval(() => whenIdle(() => void this.flush()), interval)
+    this.unsubscribe = this.registry.on("sessionsChange", (sessions) => {
+      const open = new Set(sessions.map((session) => session.panelId))
+      // Drafts of a previous session may belong to panels still opening
+      const closed = [...this.drafts]
+        .filter(([key, draft]) => draft !== null && !open.has(key))
+        .map(([key]) => key)
+      if (closed.length > 0) void this.remove(closed)
+    })
+    window.addEventListener("pagehide", this.handlePageHide)
+  }
+
+  /**
+   * Stop autosaving (existing drafts are kept)
+   */
+  stop(): void {
+    if (this.timer !== null) clearInterval(this.timer)
+    this.timer = null
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    window.removeEventListener("pagehide", this.handlePageHide)
+  }
+
+  /**
+   * Write drafts of changed drawings and drop the drafts of saved ones
+   */
+  async flush(): Promise<void> {
+    const root = this.getRoot()
+    if (!root) return
+
+    const saved: string[] = []
+    for (const session of this.registry.getAll()) {
+      const key = session.panelId
+      const draft = this.drafts.get(key)
+      if (!session.isDirty) {
+        if (this.drafts.has(key)) saved.push(key)
+        continue
+      }
+      if (draft && draft.layers === session.layers && draft.meta === session.meta) continue
+
+      const content = serializeDrawing(
+        { meta: session.meta, thumbnail: null, layers: session.layers },
+        { compact: true },
+      )
+      const result = await writeRecoveryDraft(root, {
+        key,
+        path: key === NEW_CANVAS_KEY ? null : key,
+        title: session.title,
+        savedAt: Date.now(),
+        content,
+      })
+      if (result.type === "error") {
+        console.error("Failed to autosave drawing:", result.error)
+      } else {
+        this.drafts.set(key, session)
+      }
+    }
+
+    if (saved.length > 0) await this.remove(saved)
+  }
+
+  /**
+   * Take over drafts of a previous session (e.g. restored drafts), so
+   * they are dropped once their drawing is saved
+   */
+  adopt(keys: readonly string[]): void {
+    for (const key of keys) {
+      if (!this.drafts.has(key)) this.drafts.set(key, null)
+    }
+  }
+
+  /**
+   * Drop drafts (e.g. after an explicit save, or of closed drawings)
+   */
+  async remove(keys: readonly string[]): Promise<void> {
+    for (const key of keys) {
+      this.drafts.delete(key)
+    }
+    const root = this.getRoot()
+    if (!root) return
+
+    const result = await removeRecoveryDrafts(root, keys)
+    if (result.type === "error") {
+      console.error("Failed to remove autosaved drafts:", result.error)
+    }
+  }
+
+  // Last chance to keep unsaved work when the page goes away
+  private handlePageHide = () => {
+    void this.flush()
+  }
+}
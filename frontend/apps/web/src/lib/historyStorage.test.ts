@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest"
+import { moveStoredHistory, readStoredHistory, writeStoredHistory } from "./historyStorage"
+
+/**
+ * In-memory stand-in for an OPFS directory (just what the history storage uses)
+ */
+class MemoryDirectory {
+  readonly kind = "directory"
+  private readonly files = new Map<string, string>()
+  private readonly folders = new Map<string, MemoryDirectory>()
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    let folder = this.folders.get(name)
+    if (!folder) {
+      if (!options?.create) throw new DOMException(name, "NotFoundError")
+      folder = new MemoryDirectory()
+      this.folders.set(name, folder)
+    }
+    return folder
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    if (!this.files.has(name)) {
+      if (!options?.create) throw new DOMException(name, "NotFoundError")
+      this.files.set(name, "")
+    }
+    return {
+      kind: "file",
+      getFile: async () => ({ text: async () => this.files.get(name) ?? "" }),
+      createWritable: async () => {
+        let content = ""
+        return {
+          write: async (data: string) => {
+            content += data
+          },
+          close: async () => {
+            this.files.set(name, content)
+          },
+        }
+      },
+    }
+  }
+
+  async removeEntry(name: string) {
+    if (!this.files.delete(name)) throw new DOMException(name, "NotFoundError")
+  }
+
+  async *entries() {
+    for (const name of [...this.files.keys()]) {
+      yield [name, { kind: "file" }] as const
+    }
+  }
+}
+
+function createRoot(): FileSystemDirectoryHandle {
+  return new MemoryDirectory() as unknown as FileSystemDirectoryHandle
+}
+
+async function read(root: FileSystemDirectoryHandle, path: string) {
+  const result = await readStoredHistory(root, path)
+  return result.type === "success" ? result.data : undefined
+}
+
+describe("moveStoredHistory", () => {
+  it("moves the history of a renamed drawing", async () => {
+    const root = createRoot()
+    await writeStoredHistory(root, "sketches/a.draw", "a")
+
+    expect(await moveStoredHistory(root, "sketches/a.draw", "sketches/b.draw")).toEqual({
+      type: "success",
+      data: undefined,
+    })
+    expect(await read(root, "sketches/a.draw")).toBeNull()
+    expect(await read(root, "sketches/b.draw")).toBe("a")
+  })
+
+  it("moves the histories of every drawing in a renamed folder", async () => {
+    const root = createRoot()
+    await writeStoredHistory(root, "sketches/a.draw", "a")
+    await writeStoredHistory(root, "sketches/deep/b.draw", "b")
+    await writeStoredHistory(root, "sketches-old/c.draw", "c")
+    await writeStoredHistory(root, "other.draw", "other")
+
+    await moveStoredHistory(root, "sketches", "archive/drafts")
+
+    expect(await read(root, "sketches/a.draw")).toBeNull()
+    expect(await read(root, "sketches/deep/b.draw")).toBeNull()
+    expect(await read(root, "archive/drafts/a.draw")).toBe("a")
+    expect(await read(root, "archive/drafts/deep/b.draw")).toBe("b")
+    // Paths that only share a prefix with the folder name stay
+    expect(await read(root, "sketches-old/c.draw")).toBe("c")
+    expect(await read(root, "other.draw")).toBe("other")
+  })
+
+  it("does nothing without stored histories", async () => {
+    const root = createRoot()
+    await moveStoredHistory(root, "sketches", "archive")
+    expect(await read(root, "archive")).toBeNull()
+  })
+})
@@ -0,0 +1,135 @@
+import type { OPFSError as OPFSErrorType, Result as ResultType } from "./Result"
+import { OPFSError, Result } from "./Result"
+
+/**
+ * Hidden OPFS folder holding the undo history of drawings
+ *
+ * One file per drawing, named after the encoded drawing path. The
+ * leading dot keeps the folder out of the file tree.
+ */
+const HISTORY_FOLDER_NAME = ".history"
+
+/**
+ * Name of the history file of a drawing
+ */
+function getHistoryFileName(path: string): string {
+  return `${encodeURIComponent(path)}.json`
+}
+
+async function getHistoryFolder(
+  root: FileSystemDirectoryHandle,
+): Promise<FileSystemDirectoryHandle> {
+  return root.getDirectoryHandle(HISTORY_FOLDER_NAME, { create: true })
+}
+
+/**
+ * Read the stored history of a drawing (null when there is none)
+ */
+export async function readStoredHistory(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<ResultType<string | null, OPFSErrorType>> {
+  try {
+    const folder = await getHistoryFolder(root)
+    const fileHandle = await folder.getFileHandle(getHistoryFileName(path))
+    const file = await fileHandle.getFile()
+    return Result.success(await file.text())
+  } catch (cause) {
+    if (cause instanceof DOMException && cause.name === "NotFoundError") {
+      return Result.success(null)
+    }
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
+
+/**
+ * Store the history of a drawing
+ */
+export async function writeStoredHistory(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  content: string,
+): Promise<ResultType<void, OPFSErrorType>> {
+  try {
+    const folder = await getHistoryFolder(root)
+    const fileHandle = await folder.getFileHandle(getHistoryFileName(path), { create: true })
+    const writable = await fileHandle.createWritable()
+    await writable.write(content)
+    await writable.close()
+    return Result.success(undefined)
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
+
+/**
+ * Path of the drawing a history file belongs to (null for other files)
+ */
+function getHistoryPath(fileName: string): string | null {
+  if (!fileName.endsWith(".json")) return null
+  try {
+    return decodeURIComponent(fileName.slice(0, -".json".length))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Carry the stored history over to a renamed or moved drawing
+ *
+ * For a folder, the histories of every drawing inside it move along.
+ */
+export async function moveStoredHistory(
+  root: FileSystemDirectoryHandle,
+  oldPath: string,
+  newPath: string,
+): Promise<ResultType<void, OPFSErrorType>> {
+  const moves: Array<[string, string]> = []
+  try {
+    const folder = await getHistoryFolder(root)
+    for await (const [name, handle] of folder.entries()) {
+      const path = handle.kind === "file" ? getHistoryPath(name) : null
+      if (path === oldPath) {
+        moves.push([path, newPath])
+      } else if (path?.startsWith(`${oldPath}/`)) {
+        moves.push([path, newPath + path.slice(oldPath.length)])
+      }
+    }
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+
+  for (const [from, to] of moves) {
+    const readResult = await readStoredHistory(root, from)
+    if (readResult.type === "error") return readResult
+    if (readResult.data === null) continue
+
+    const writeResult = await writeStoredHistory(root, to, readResult.data)
+    if (writeResult.type === "error") return writeResult
+    const removeResult = await removeStoredHistory(root, [from])
+    if (removeResult.type === "error") return removeResult
+  }
+  return Result.success(undefined)
+}
+
+/**
+ * Remove the stored history of drawings (missing histories are ignored)
+ */
+export async function removeStoredHistory(
+  root: FileSystemDirectoryHandle,
+  paths: readonly string[],
+): Promise<ResultType<void, OPFSErrorType>> {
+  try {
+    const folder = await getHistoryFolder(root)
+    for (const path of paths) {
+      try {
+        await folder.removeEntry(getHistoryFileName(path))
+      } catch (cause) {
+        if (!(cause instanceof DOMException && cause.name === "NotFoundError")) throw cause
+      }
+    }
+    return Result.success(undefined)
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
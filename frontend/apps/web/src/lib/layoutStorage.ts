@@ -0,0 +1,30 @@
+import { parseDockLayout, type SerializedDockLayout } from "@internal/dock"
+
+/**
+ * localStorage key for the dock layout of the last session
+ */
+const LAYOUT_STORAGE_KEY = "drawing-explorer-layout"
+
+/**
+ * Get the dock layout of the last session (null when none or unreadable)
+ */
+export function getStoredLayout(): SerializedDockLayout | null {
+  if (typeof window === "undefined") return null
+  try {
+    const stored = window.localStorage.getItem(LAYOUT_STORAGE_KEY)
+    return stored ? parseDockLayout(JSON.parse(stored)) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Remember the dock layout for the next session
+ */
+export function storeLayout(layout: SerializedDockLayout) {
+  try {
+    window.localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout))
+  } catch {
+    // Storage full or unavailable - layout memory is best effort
+  }
+}
@@ -298,12 +298,26 @@ export async function readFile(
   }
 }
 
+/**
+ * Read file content as bytes (for binary formats)
+ */
+export async function readFileBytes(
+  fileHandle: FileSystemFileHandle,
+): Promise<ResultType<Uint8Array<ArrayBuffer>, OPFSErrorType>> {
+  try {
+    const file = await fileHandle.getFile()
+    return Result.success(new Uint8Array(await file.arrayBuffer()))
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
+
 /**
  * Write file content
  */
 export async function writeFile(
   fileHandle: FileSystemFileHandle,
-  content: string,
+  content: string | Uint8Array<ArrayBuffer>,
 ): Promise<ResultType<void, OPFSErrorType>> {
   try {
     const writable = await fileHandle.createWritable()
@@ -0,0 +1,134 @@
+import type { OPFSError as OPFSErrorType, Result as ResultType } from "./Result"
+import { OPFSError, Result } from "./Result"
+
+/**
+ * Hidden OPFS folder holding autosaved drafts of unsaved drawings
+ *
+ * One file per open drawing, named after the encoded panel key (the
+ * drawing path, or "new-canvas" for the Untitled drawing). The leading
+ * dot keeps the folder out of the file tree.
+ */
+const RECOVERY_FOLDER_NAME = ".recovery"
+
+/**
+ * Format version of draft files
+ */
+const DRAFT_VERSION = 1
+
+/**
+ * Unsaved state of a drawing, written by autosave
+ */
+export interface RecoveryDraft {
+  /** Panel key of the drawing (file path or "new-canvas") */
+  readonly key: string
+  /** Path of the drawing file (null for a drawing that was never saved) */
+  readonly path: string | null
+  readonly title: string
+  /** Time of the autosave (ms since epoch) */
+  readonly savedAt: number
+  /** Serialized `.draw` document */
+  readonly content: string
+}
+
+/**
+ * Name of the draft file of a drawing
+ */
+function getDraftFileName(key: string): string {
+  return `${encodeURIComponent(key)}.json`
+}
+
+async function getRecoveryFolder(
+  root: FileSystemDirectoryHandle,
+): Promise<FileSystemDirectoryHandle> {
+  return root.getDirectoryHandle(RECOVERY_FOLDER_NAME, { create: true })
+}
+
+/**
+ * Parse draft file content (null for unreadable drafts)
+ */
+function parseDraft(content: string): RecoveryDraft | null {
+  try {
+    const data = JSON.parse(content) as Record<string, unknown>
+    if (
+      data.version !== DRAFT_VERSION ||
+      typeof data.key !== "string" ||
+      (data.path !== null && typeof data.path !== "string") ||
+      typeof data.title !== "string" ||
+      typeof data.savedAt !== "number" ||
+      typeof data.content !== "string"
+    ) {
+      return null
+    }
+    return {
+      key: data.key,
+      path: data.path,
+      title: data.title,
+      savedAt: data.savedAt,
+      content: data.content,
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Read all stored drafts (oldest first; unreadable drafts are skipped)
+ */
+export async function readRecoveryDrafts(
+  root: FileSystemDirectoryHandle,
+): Promise<ResultType<RecoveryDraft[], OPFSErrorType>> {
+  try {
+    const folder = await getRecoveryFolder(root)
+    const drafts: RecoveryDraft[] = []
+    for await (const [, handle] of folder.entries()) {
+      if (handle.kind !== "file") continue
+      const file = await (handle as FileSystemFileHandle).getFile()
+      const draft = parseDraft(await file.text())
+      if (draft) drafts.push(draft)
+    }
+    return Result.success(drafts.sort((a, b) => a.savedAt - b.savedAt))
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
+
+/**
+ * Store the draft of a drawing (replacing its previous draft)
+ */
+export async function writeRecoveryDraft(
+  root: FileSystemDirectoryHandle,
+  draft: RecoveryDraft,
+): Promise<ResultType<void, OPFSErrorType>> {
+  try {
+    const folder = await getRecoveryFolder(root)
+    const fileHandle = await folder.getFileHandle(getDraftFileName(draft.key), { create: true })
+    const writable = await fileHandle.createWritable()
+    await writable.write(JSON.stringify({ version: DRAFT_VERSION, ...draft }))
+    await writable.close()
+    return Result.success(undefined)
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
+
+/**
+ * Remove the drafts of drawings (missing drafts are ignored)
+ */
+export async function removeRecoveryDrafts(
+  root: FileSystemDirectoryHandle,
+  keys: readonly string[],
+): Promise<ResultType<void, OPFSErrorType>> {
+  try {
+    const folder = await getRecoveryFolder(root)
+    for (const key of keys) {
+      try {
+        await folder.removeEntry(getDraftFileName(key))
+      } catch (cause) {
+        if (!(cause instanceof DOMException && cause.name === "NotFoundError")) throw cause
+      }
+    }
+    return Result.success(undefined)
+  } catch (cause) {
+    return Result.error(OPFSError.unknown(cause))
+  }
+}
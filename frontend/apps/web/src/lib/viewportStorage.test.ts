@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { getStoredViewport, moveStoredViewport, storeViewport } from "./viewportStorage"
+
+const viewport = (scale: number) => ({ scale, offsetX: 10, offsetY: 20 })
+
+beforeEach(() => {
+  const items = new Map<string, string>()
+  vi.stubGlobal("window", {
+    localStorage: {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    },
+  })
+})
+
+describe("moveStoredViewport", () => {
+  it("moves the viewport of a renamed file", () => {
+    storeViewport("sketches/a.draw", viewport(2))
+    moveStoredViewport("sketches/a.draw", "sketches/b.draw")
+
+    expect(getStoredViewport("sketches/a.draw")).toBeUndefined()
+    expect(getStoredViewport("sketches/b.draw")).toEqual(viewport(2))
+  })
+
+  it("moves the viewports of every file in a renamed folder", () => {
+    storeViewport("sketches/a.draw", viewport(2))
+    storeViewport("sketches/deep/b.draw", viewport(3))
+    storeViewport("sketches-old/c.draw", viewport(4))
+
+    moveStoredViewport("sketches", "archive/drafts")
+
+    expect(getStoredViewport("sketches/a.draw")).toBeUndefined()
+    expect(getStoredViewport("archive/drafts/a.draw")).toEqual(viewport(2))
+    expect(getStoredViewport("archive/drafts/deep/b.draw")).toEqual(viewport(3))
+    expect(getStoredViewport("sketches-old/c.draw")).toEqual(viewport(4))
+  })
+})
@@ -0,0 +1,98 @@
+import type { Viewport } from "@internal/drawing"
+
+/**
+ * localStorage key for remembered canvas viewports (file path -> viewport)
+ */
+const VIEWPORT_STORAGE_KEY = "drawing-explorer-viewports"
+
+type StoredViewports = Record<string, Viewport>
+
+/**
+ * Check if a value looks like a viewport
+ */
+function isViewport(value: unknown): value is Viewport {
+  if (typeof value !== "object" || value === null) return false
+  const { scale, offsetX, offsetY } = value as Record<string, unknown>
+  return (
+    typeof scale === "number" &&
+    scale > 0 &&
+    Number.isFinite(scale) &&
+    typeof offsetX === "number" &&
+    Number.isFinite(offsetX) &&
+    typeof offsetY === "number" &&
+    Number.isFinite(offsetY)
+  )
+}
+
+function readViewports(): StoredViewports {
+  if (typeof window === "undefined") return {}
+  try {
+    const stored = window.localStorage.getItem(VIEWPORT_STORAGE_KEY)
+    if (!stored) return {}
+    const parsed: unknown = JSON.parse(stored)
+    return typeof parsed === "object" && parsed !== null ? (parsed as StoredViewports) : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeViewports(viewports: StoredViewports) {
+  try {
+    window.localStorage.setItem(VIEWPORT_STORAGE_KEY, JSON.stringify(viewports))
+  } catch {
+    // Storage full or unavailable - viewport memory is best effort
+  }
+}
+
+/**
+ * Get the remembered viewport for a file
+ */
+export function getStoredViewport(path: string): Viewport | undefined {
+  const viewport = readViewports()[path]
+  return isViewport(viewport) ? viewport : undefined
+}
+
+/**
+ * Remember the viewport for a file
+ */
+export function storeViewport(path: string, viewport: Viewport) {
+  const viewports = readViewports()
+  viewports[path] = {
+    scale: viewport.scale,
+    offsetX: viewport.offsetX,
+    offsetY: viewport.offsetY,
+  }
+  writeViewports(viewports)
+}
+
+/**
+ * Carry a remembered viewport over to a renamed or moved file
+ *
+ * For a folder, the viewports of every file inside it move along.
+ */
+export function moveStoredViewport(oldPath: string, newPath: string) {
+  const viewports = readViewports()
+  let changed = false
+  for (const [path, viewport] of Object.entries(viewports)) {
+    if (path !== oldPath && !path.startsWith(`${oldPath}/`)) continue
+    delete viewports[path]
+    viewports[newPath + path.slice(oldPath.length)] = viewport
+    changed = true
+  }
+  if (changed) writeViewports(viewports)
+}
+
+/**
+ * Forget remembered viewports of deleted files
+ */
+export function removeStoredViewports(paths: readonly string[]) {
+  const viewports = readViewports()
+  let changed = false
+  for (const path of paths) {
+    if (path in viewports) {
+      delete viewports[path]
+      changed = true
+    }
+  }
+  if (changed) writeViewports(viewports)
+}
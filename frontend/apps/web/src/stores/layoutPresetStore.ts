@@ -0,0 +1,131 @@
+import { parseDockLayout, type SerializedDockLayout } from "@internal/dock"
+
+/**
+ * Named dock layout the user can switch to
+ */
+export interface LayoutPreset {
+  readonly name: string
+  readonly layout: SerializedDockLayout
+}
+
+/**
+ * localStorage key for layout presets
+ */
+const PRESETS_STORAGE_KEY = "drawing-explorer-layout-presets"
+
+/**
+ * Format version of exported preset files
+ */
+const PRESETS_FILE_VERSION = 1
+
+/**
+ * Read presets from their JSON form (null when the value is not a preset
+ * list; presets with an invalid layout are skipped)
+ */
+export function parseLayoutPresets(value: unknown): LayoutPreset[] | null {
+  if (typeof value !== "object" || value === null) return null
+  const { version, presets } = value as Record<string, unknown>
+  if (version !== PRESETS_FILE_VERSION || !Array.isArray(presets)) return null
+
+  const parsed: LayoutPreset[] = []
+  for (const preset of presets) {
+    if (typeof preset !== "object" || preset === null) continue
+    const { name, layout } = preset as Record<string, unknown>
+    const parsedLayout = parseDockLayout(layout)
+    if (typeof name !== "string" || !name.trim() || !parsedLayout) continue
+    parsed.push({ name: name.trim(), layout: parsedLayout })
+  }
+  return parsed
+}
+
+/**
+ * Read stored presets (empty when none or unreadable)
+ */
+function readPresets(): ReadonlyArray<LayoutPreset> {
+  if (typeof window === "undefined") return []
+  try {
+    const stored = window.localStorage.getItem(PRESETS_STORAGE_KEY)
+    return stored ? (parseLayoutPresets(JSON.parse(stored)) ?? []) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Layout Preset Store - Holds named dock layouts persisted in localStorage
+ */
+export class LayoutPresetStore {
+  private _presets: ReadonlyArray<LayoutPreset> = readPresets()
+
+  // Subscription for React re-renders
+  private readonly _listeners: Set<() => void> = new Set()
+
+  get presets(): ReadonlyArray<LayoutPreset> {
+    return this._presets
+  }
+
+  /**
+   * Add presets, replacing presets with the same name
+   */
+  save(...presets: ReadonlyArray<LayoutPreset>): void {
+    if (presets.length === 0) return
+    const names = new Set(presets.map((preset) => preset.name))
+    this.update([...this._presets.filter((preset) => !names.has(preset.name)), ...presets])
+  }
+
+  /**
+   * Remove a preset
+   */
+  remove(name: string): void {
+    this.update(this._presets.filter((preset) => preset.name !== name))
+  }
+
+  /**
+   * JSON form of all presets, for export
+   */
+  toJSON(): string {
+    return JSON.stringify({ version: PRESETS_FILE_VERSION, presets: this._presets }, null, 2)
+  }
+
+  private update(presets: ReadonlyArray<LayoutPreset>): void {
+    this._presets = presets
+    try {
+      window.localStorage.setItem(
+        PRESETS_STORAGE_KEY,
+        JSON.stringify({ version: PRESETS_FILE_VERSION, presets }),
+      )
+    } catch {
+      // Storage full or unavailable - presets still apply to this session
+    }
+    this.notify()
+  }
+
+  // ==========================================
+  // React Integration (useSyncExternalStore)
+  // ==========================================
+
+  subscribe = (listener: () => void): (() => void) => {
+    this._listeners.add(listener)
+    return () => this._listeners.delete(listener)
+  }
+
+  getSnapshot = (): ReadonlyArray<LayoutPreset> => {
+    return this._presets
+  }
+
+  private notify(): void {
+    for (const listener of this._listeners) {
+      listener()
+    }
+  }
+}
+
+// Singleton instance
+let _store: LayoutPresetStore | null = null
+
+export function getLayoutPresetStore(): LayoutPresetStore {
+  if (!_store) {
+    _store = new LayoutPresetStore()
+  }
+  return _store
+}
@@ -1,3 +1,4 @@
+import { getParentPath, ROOT_PATH } from "@internal/file-tree"
 import { match } from "ts-pattern"
 import type { FileNode, FolderNode, TreeNode } from "../lib/opfs"
 import {
@@ -13,6 +14,7 @@ import {
   renameEntry,
   scanDirectory,
 } from "../lib/opfs"
+import { type RecoveryDraft, readRecoveryDrafts } from "../lib/recoveryStorage"
 
 // Re-export types
 export type { FileNode, FolderNode, TreeNode }
@@ -33,6 +35,9 @@ export class OPFSStore {
   private _root: FolderNode | null = null
   private _appState: AppState = { type: "initializing" }
 
+  // Autosaved drafts left over from the previous session
+  private _recoveredDrafts: ReadonlyArray<RecoveryDraft> = []
+
   // O(1) lookup indices
   private readonly _fileIndex: Map<string, FileNode> = new Map()
   private readonly _folderIndex: Map<string, FolderNode> = new Map()
@@ -89,6 +94,14 @@ export class OPFSStore {
     // Scan directory tree
     await this.refresh()
 
+    // Offer to restore unsaved work of the previous session
+    const draftsResult = await readRecoveryDrafts(this._rootHandle)
+    if (draftsResult.type === "error") {
+      console.warn("Failed to read recovered drafts:", getErrorMessage(draftsResult.error))
+    } else {
+      this._recoveredDrafts = draftsResult.data
+    }
+
     this._appState = { type: "ready" }
     this.notify()
   }
@@ -159,6 +172,22 @@ export class OPFSStore {
     return this._rootHandle
   }
 
+  /**
+   * Autosaved drafts found on startup, until they are restored or discarded
+   */
+  get recoveredDrafts(): ReadonlyArray<RecoveryDraft> {
+    return this._recoveredDrafts
+  }
+
+  /**
+   * Mark the recovered drafts as handled
+   */
+  clearRecoveredDrafts(): void {
+    if (this._recoveredDrafts.length === 0) return
+    this._recoveredDrafts = []
+    this.notify()
+  }
+
   getFile(path: string): FileNode | undefined {
     return this._fileIndex.get(path)
   }
@@ -332,6 +361,21 @@ export class OPFSStore {
     return this._focusedPath === path
   }
 
+  /**
+   * Select and focus a node, expanding its ancestor folders so it is shown
+   */
+  reveal(path: string): void {
+    if (!this.getNode(path)) return
+    this._expandedPaths.add(ROOT_PATH)
+    for (let parent = getParentPath(path); parent !== ROOT_PATH; parent = getParentPath(parent)) {
+      this._expandedPaths.add(parent)
+    }
+    this._selectedIds.clear()
+    this._selectedIds.add(path)
+    this._focusedPath = path
+    this.notify()
+  }
+
   // ==========================================
   // OPFS Operations
   // ==========================================
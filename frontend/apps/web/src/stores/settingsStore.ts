@@ -0,0 +1,112 @@
+/**
+ * User preferences of the app
+ */
+export interface Settings {
+  /** Keep the undo history of drawings across sessions */
+  readonly persistHistory: boolean
+  /** Write drawings in the compressed encoding instead of plain JSON */
+  readonly compressDrawings: boolean
+  /** Seconds between autosaves of unsaved drawings (0 turns autosave off) */
+  readonly autosaveInterval: number
+}
+
+/**
+ * Autosave intervals offered in the settings (seconds)
+ */
+export const AUTOSAVE_INTERVALS = [0, 15, 30, 60, 300] as const
+
+/**
+ * localStorage key for settings
+ */
+const SETTINGS_STORAGE_KEY = "drawing-explorer-settings"
+
+const DEFAULT_SETTINGS: Settings = {
+  persistHistory: true,
+  compressDrawings: false,
+  autosaveInterval: 30,
+}
+
+/**
+ * Read stored settings, falling back to defaults for missing or invalid values
+ */
+function readSettings(): Settings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS
+  try {
+    const stored = window.localStorage.getItem(SETTINGS_STORAGE_KEY)
+    if (!stored) return DEFAULT_SETTINGS
+    const parsed: unknown = JSON.parse(stored)
+    if (typeof parsed !== "object" || parsed === null) return DEFAULT_SETTINGS
+    const { persistHistory, compressDrawings, autosaveInterval } = parsed as Record<string, unknown>
+    return {
+      persistHistory:
+        typeof persistHistory === "boolean" ? persistHistory : DEFAULT_SETTINGS.persistHistory,
+      compressDrawings:
+        typeof compressDrawings === "boolean"
+          ? compressDrawings
+          : DEFAULT_SETTINGS.compressDrawings,
+      autosaveInterval:
+        typeof autosaveInterval === "number" && autosaveInterval >= 0
+          ? autosaveInterval
+          : DEFAULT_SETTINGS.autosaveInterval,
+    }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+/**
+ * Settings Store - Holds user preferences persisted in localStorage
+ */
+export class SettingsStore {
+  private _settings: Settings = readSettings()
+
+  // Subscription for React re-renders
+  private readonly _listeners: Set<() => void> = new Set()
+
+  get settings(): Settings {
+    return this._settings
+  }
+
+  /**
+   * Change one setting
+   */
+  set<K extends keyof Settings>(key: K, value: Settings[K]): void {
+    if (this._settings[key] === value) return
+    this._settings = { ...this._settings, [key]: value }
+    try {
+      window.localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this._settings))
+    } catch {
+      // Storage full or unavailable - the setting still applies to this session
+    }
+    this.notify()
+  }
+
+  // ==========================================
+  // React Integration (useSyncExternalStore)
+  // ==========================================
+
+  subscribe = (listener: () => void): (() => void) => {
+    this._listeners.add(listener)
+    return () => this._listeners.delete(listener)
+  }
+
+  getSnapshot = (): Settings => {
+    return this._settings
+  }
+
+  private notify(): void {
+    for (const listener of this._listeners) {
+      listener()
+    }
+  }
+}
+
+// Singleton instance
+let _store: SettingsStore | null = null
+
+export function getSettingsStore(): SettingsStore {
+  if (!_store) {
+    _store = new SettingsStore()
+  }
+  return _store
+}
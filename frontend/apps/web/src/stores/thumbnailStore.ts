@@ -0,0 +1,96 @@
+import { decodeDrawing, readDrawingThumbnail } from "@internal/drawing"
+import { readFileBytes } from "../lib/opfs"
+
+/**
+ * Thumbnail Store - Caches the previews embedded in drawing files
+ *
+ * Thumbnails are read lazily the first time a file is shown, and
+ * replaced directly when the app saves a drawing.
+ */
+export class ThumbnailStore {
+  // path -> thumbnail data URL (null when the file has none)
+  private readonly _thumbnails: Map<string, string | null> = new Map()
+  private readonly _loading: Set<string> = new Set()
+
+  // Subscription for React re-renders
+  private readonly _listeners: Set<() => void> = new Set()
+  private _version = 0
+
+  /**
+   * Cached thumbnail of a file (undefined while not loaded)
+   */
+  get(path: string): string | null | undefined {
+    return this._thumbnails.get(path)
+  }
+
+  /**
+   * Read the thumbnail of a file unless it is cached or being read
+   */
+  load(path: string, handle: FileSystemFileHandle): void {
+    if (this._thumbnails.has(path) || this._loading.has(path)) return
+    this._loading.add(path)
+    this.read(handle).then((thumbnail) => {
+      this._loading.delete(path)
+      this._thumbnails.set(path, thumbnail)
+      this.notify()
+    })
+  }
+
+  /**
+   * Set the thumbnail of a file that was just written
+   */
+  set(path: string, thumbnail: string | null): void {
+    this._thumbnails.set(path, thumbnail)
+    this.notify()
+  }
+
+  /**
+   * Forget thumbnails (e.g. of deleted, renamed or moved files)
+   *
+   * Paths still in the tree are read again when shown.
+   */
+  invalidate(paths: readonly string[]): void {
+    let changed = false
+    for (const path of paths) {
+      changed = this._thumbnails.delete(path) || changed
+    }
+    if (changed) this.notify()
+  }
+
+  private async read(handle: FileSystemFileHandle): Promise<string | null> {
+    const readResult = await readFileBytes(handle)
+    if (readResult.type === "error") return null
+    const decodeResult = await decodeDrawing(readResult.data)
+    return decodeResult.type === "success" ? readDrawingThumbnail(decodeResult.data) : null
+  }
+
+  // ==========================================
+  // React Integration (useSyncExternalStore)
+  // ==========================================
+
+  subscribe = (listener: () => void): (() => void) => {
+    this._listeners.add(listener)
+    return () => this._listeners.delete(listener)
+  }
+
+  getSnapshot = (): number => {
+    return this._version
+  }
+
+  private notify(): void {
+    this._version++
+    for (const listener of this._listeners) {
+      listener()
+    }
+  }
+}
+
+// Singleton instance
+let _store: ThumbnailStore | null = null
+
+export function getThumbnailStore(): ThumbnailStore {
+  if (!_store) {
+    _store = new ThumbnailStore()
+  }
+  return _store
+}
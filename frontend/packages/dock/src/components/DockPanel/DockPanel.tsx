@@ -2,15 +2,24 @@ import { combine } from "@atlaskit/pragmatic-drag-and-drop/combine"
 import { draggable, dropTargetForElements } from "@atlaskit/pragmatic-drag-and-drop/element/adapter"
 import { pointerOutsideOfPreview } from "@atlaskit/pragmatic-drag-and-drop/element/pointer-outside-of-preview"
 import { setCustomNativeDragPreview } from "@atlaskit/pragmatic-drag-and-drop/element/set-custom-native-drag-preview"
-import { GripVertical, Maximize2, Minimize2, X } from "lucide-react"
-import React, { useContext, useEffect, useRef, useState } from "react"
+import {
+  ExternalLink,
+  GripVertical,
+  Maximize2,
+  Minimize2,
+  PictureInPicture2,
+  X,
+} from "lucide-react"
+import type React from "react"
+import { useContext, useEffect, useRef, useState } from "react"
 import { createPortal } from "react-dom"
 import invariant from "tiny-invariant"
 
 import type { DndState, DockingPosition, PanelNode } from "../../types"
-import { calculateDropPosition, isPanelComponent } from "../../utils"
+import { calculateDropPosition } from "../../utils"
 import { DockingContext } from "../DockingProvider"
 import { DropIndicator } from "../DropIndicator"
+import { PanelContentSlot } from "../PanelContentSlot"
 import { PanelPreview } from "../PanelPreview"
 
 interface DockPanelProps {
@@ -42,16 +51,16 @@ export const DockPanel: React.FC<DockPanelProps> = ({ node, instanceId }) => {
   const {
     onRemove,
     onMove,
-    availableContents,
     onMaximizePanel,
     onRestorePanel,
     isMaximized,
     isAnyPanelMaximized,
+    onFloatPanel,
+    onPopOutPanel,
+    onActivatePanel,
   } = dockingContext
 
   const isPanelMaximized = isMaximized(node.id)
-  const currentContentKey = node.contentKey ?? "default"
-  const selectedContent = availableContents.find((c) => c.key === currentContentKey)
 
   const handleMaximizeToggle = () => {
     if (isPanelMaximized) {
@@ -212,6 +221,7 @@ export const DockPanel: React.FC<DockPanelProps> = ({ node, instanceId }) => {
     <article
       ref={panelRef}
       aria-label={node.title ?? node.id}
+      onPointerDownCapture={() => onActivatePanel(node.id)}
       className='dock-panel grid grid-rows-[auto_1fr] w-full h-full bg-card border border-border rounded-lg overflow-hidden'
       data-dragging={state.type === "dragging" ? "" : undefined}
       data-maximized={isPanelMaximized ? "" : undefined}
@@ -226,6 +236,26 @@ export const DockPanel: React.FC<DockPanelProps> = ({ node, instanceId }) => {
         </div>
         <div />
         <div className='flex items-center gap-1'>
+          {!isPanelMaximized && (
+            <>
+              <button
+                type='button'
+                onClick={() => onFloatPanel(node.id)}
+                className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+                aria-label='Float panel'
+              >
+                <PictureInPicture2 className='w-4 h-4' aria-hidden='true' />
+              </button>
+              <button
+                type='button'
+                onClick={() => onPopOutPanel(node.id)}
+                className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+                aria-label='Pop out panel'
+              >
+                <ExternalLink className='w-4 h-4' aria-hidden='true' />
+              </button>
+            </>
+          )}
           <button
             type='button'
             onClick={handleMaximizeToggle}
@@ -252,16 +282,8 @@ export const DockPanel: React.FC<DockPanelProps> = ({ node, instanceId }) => {
         )}
       </div>
 
-      {/* key prop ensures React creates new component instance when switching between different files */}
       <div ref={contentRef} className='relative min-h-0 p-3 overflow-hidden'>
-        {selectedContent
-          ? isPanelComponent(selectedContent.content)
-            ? React.cloneElement(selectedContent.content, {
-                key: selectedContent.key,
-                panelId: node.id,
-              })
-            : selectedContent.content
-          : node.content}
+        <PanelContentSlot panel={node} onPointerDownCapture={() => onActivatePanel(node.id)} />
       </div>
 
       {panelDropInfo.isOver && panelDropInfo.position != null && panelDropInfo.dropRect != null && (
@@ -49,6 +49,10 @@ const DockingContextWrapper = ({
         onRestorePanel: () => {},
         isMaximized: () => false,
         isAnyPanelMaximized: () => false,
+        onFloatPanel: () => {},
+        onPopOutPanel: () => {},
+        onDockPanel: () => {},
+        getTabMenuItems: () => [],
       }}
     >
       {children}
@@ -1,18 +1,24 @@
 import { dropTargetForElements } from "@atlaskit/pragmatic-drag-and-drop/element/adapter"
-import { Maximize2, Minimize2 } from "lucide-react"
-import React, { useCallback, useContext, useEffect, useRef, useState } from "react"
+import {
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Maximize2,
+  Minimize2,
+  PictureInPicture2,
+} from "lucide-react"
+import type React from "react"
+import { useCallback, useContext, useEffect, useRef, useState } from "react"
 import invariant from "tiny-invariant"
 
 import type { DndState, DockingPosition, TabContainerNode, TabInfo } from "../../types"
-import {
-  calculateDropPosition,
-  calculateTabHeaderDropPosition,
-  isPanelComponent,
-} from "../../utils"
+import { calculateDropPosition, calculateTabHeaderDropPosition } from "../../utils"
 import { DockingContext } from "../DockingProvider"
 import { DockTabLabel } from "../DockTabLabel"
 import { DropIndicator } from "../DropIndicator"
+import { PanelContentSlot } from "../PanelContentSlot"
 import { TabDropIndicator } from "../TabDropIndicator"
+import { TabOverflowMenu } from "../TabOverflowMenu"
 
 interface DockTabContainerProps {
   node: TabContainerNode
@@ -23,6 +29,7 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
   const containerRef = useRef<HTMLDivElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
   const tabsHeaderRef = useRef<HTMLDivElement>(null)
+  const tabListRef = useRef<HTMLDivElement>(null)
   const [tabElements, setTabElements] = useState<TabInfo[]>([])
   const [state, setState] = useState<DndState>({ type: "idle" })
   const [tabHeaderDropInfo, setTabHeaderDropInfo] = useState<{
@@ -30,6 +37,8 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
     targetId: string
   } | null>(null)
   const [containerRect, setContainerRect] = useState<DOMRect | null>(null)
+  // Tabs hidden beyond either end of the tab bar
+  const [overflow, setOverflow] = useState({ left: false, right: false })
 
   const dockingContext = useContext(DockingContext)
 
@@ -40,11 +49,13 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
   const {
     manager,
     onMove,
-    availableContents,
     isAnyPanelMaximized,
     onMaximizePanel,
     onRestorePanel,
     isMaximized,
+    onFloatPanel,
+    onPopOutPanel,
+    onActivatePanel,
   } = dockingContext
 
   const activePanels = manager.getActivePanels()
@@ -56,6 +67,24 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
     }
   }, [])
 
+  const updateOverflow = useCallback(() => {
+    const tabList = tabListRef.current
+    if (tabList == null) return
+    const left = tabList.scrollLeft > 0
+    // Round for fractional scroll positions when zoomed
+    const right = Math.ceil(tabList.scrollLeft + tabList.clientWidth) < tabList.scrollWidth
+    setOverflow((prev) => (prev.left === left && prev.right === right ? prev : { left, right }))
+  }, [])
+
+  // Watch the tab bar size
+  useEffect(() => {
+    invariant(tabListRef.current != null, "Tab list element must exist")
+
+    const observer = new ResizeObserver(updateOverflow)
+    observer.observe(tabListRef.current)
+    return () => observer.disconnect()
+  }, [updateOverflow])
+
   // Sort tab elements by position
   const sortedTabElements = [...tabElements].sort((a, b) => a.index - b.index)
 
@@ -174,12 +203,39 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
 
   // Get active panel content
   const activePanel = node.panels.find((p) => p.id === activeId)
-  const activePanelContentKey = activePanel?.contentKey ?? "default"
-  const selectedContent = availableContents.find((c) => c.key === activePanelContentKey)
 
   // Check if panel is maximized
   const isPanelMaximized = activePanel != null && isMaximized(activePanel.id)
 
+  // Tabs were added, removed or renamed
+  // biome-ignore lint/correctness/useExhaustiveDependencies: node.panels changes the tab widths
+  useEffect(() => {
+    updateOverflow()
+  }, [node.panels, updateOverflow])
+
+  // Keep the active tab in view (scrolling only the tab bar)
+  useEffect(() => {
+    const tabList = tabListRef.current
+    const tab = tabElements.find((tab) => tab.id === activeId)?.element
+    if (tabList == null || tab == null) return
+
+    const listRect = tabList.getBoundingClientRect()
+    const tabRect = tab.getBoundingClientRect()
+    if (tabRect.left < listRect.left) {
+      tabList.scrollLeft -= listRect.left - tabRect.left
+    } else if (tabRect.right > listRect.right) {
+      tabList.scrollLeft += tabRect.right - listRect.right
+    }
+  }, [activeId, tabElements])
+
+  const scrollTabs = (direction: -1 | 1) => {
+    const tabList = tabListRef.current
+    if (tabList == null) return
+    tabList.scrollBy({ left: direction * tabList.clientWidth * 0.8, behavior: "smooth" })
+  }
+
+  const isOverflowing = overflow.left || overflow.right
+
   // Maximize/restore toggle
   const handleMaximizeToggle = () => {
     if (isPanelMaximized) {
@@ -199,29 +255,87 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
       {/* Tab bar */}
       <div
         ref={tabsHeaderRef}
-        role='tablist'
-        aria-label='Panel tabs'
-        className='flex items-end gap-0.5 px-1 pt-0.5 bg-muted border-b border-border overflow-x-auto overflow-y-hidden scrollbar-none'
+        className='flex items-end gap-0.5 px-1 pt-0.5 bg-muted border-b border-border'
       >
-        {node.panels.map((p, index) => {
-          const isPanelActive = p.id === activeId
-          return (
-            <DockTabLabel
-              key={p.id}
-              panel={p}
-              isActive={isPanelActive}
-              tabIndex={index}
-              instanceId={instanceId}
-              containerRect={containerRect}
-              registerTabElement={registerTabElement}
-              onContainerDrop={(panelId, pos) => onMove(panelId, node.id, pos)}
-            />
-          )
-        })}
+        {isOverflowing && (
+          <button
+            type='button'
+            onClick={() => scrollTabs(-1)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50'
+            aria-label='Scroll tabs left'
+            disabled={!overflow.left}
+          >
+            <ChevronLeft className='w-4 h-4' aria-hidden='true' />
+          </button>
+        )}
+
+        <div
+          ref={tabListRef}
+          role='tablist'
+          aria-label='Panel tabs'
+          onScroll={updateOverflow}
+          className='flex items-end gap-0.5 min-w-0 overflow-x-auto overflow-y-hidden scrollbar-none'
+        >
+          {node.panels.map((p, index) => {
+            const isPanelActive = p.id === activeId
+            return (
+              <DockTabLabel
+                key={p.id}
+                panel={p}
+                isActive={isPanelActive}
+                tabIndex={index}
+                instanceId={instanceId}
+                containerRect={containerRect}
+                registerTabElement={registerTabElement}
+                onContainerDrop={(panelId, pos) => onMove(panelId, node.id, pos)}
+              />
+            )
+          })}
+        </div>
+
+        {isOverflowing && (
+          <button
+            type='button'
+            onClick={() => scrollTabs(1)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors disabled:opacity-50'
+            aria-label='Scroll tabs right'
+            disabled={!overflow.right}
+          >
+            <ChevronRight className='w-4 h-4' aria-hidden='true' />
+          </button>
+        )}
 
         {/* Spacer to push buttons to the right */}
         <div className='flex-1 min-w-2' />
 
+        {isOverflowing && (
+          <TabOverflowMenu panels={node.panels} activeId={activeId} onSelect={onActivatePanel} />
+        )}
+
+        {/* Float and pop-out buttons for the active tab */}
+        {!isPanelMaximized && (
+          <>
+            <button
+              type='button'
+              onClick={() => activePanel != null && onFloatPanel(activePanel.id)}
+              className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+              aria-label='Float panel'
+              disabled={activePanel == null}
+            >
+              <PictureInPicture2 className='w-4 h-4' aria-hidden='true' />
+            </button>
+            <button
+              type='button'
+              onClick={() => activePanel != null && onPopOutPanel(activePanel.id)}
+              className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+              aria-label='Pop out panel'
+              disabled={activePanel == null}
+            >
+              <ExternalLink className='w-4 h-4' aria-hidden='true' />
+            </button>
+          </>
+        )}
+
         {/* Maximize/Restore button */}
         <button
           type='button'
@@ -240,17 +354,14 @@ export const DockTabContainer: React.FC<DockTabContainerProps> = ({ node, instan
       </div>
 
       <div ref={contentRef} className='relative min-h-0 p-2 overflow-hidden'>
-        {/* Show selected content */}
-        {/* key prop ensures React creates new component instance when switching between different files */}
-        {activePanel &&
-          (selectedContent
-            ? isPanelComponent(selectedContent.content)
-              ? React.cloneElement(selectedContent.content, {
-                  key: selectedContent.key,
-                  panelId: activePanel.id,
-                })
-              : selectedContent.content
-            : activePanel.content)}
+        {/* Show selected content (the other tabs stay mounted out of view) */}
+        {activePanel && (
+          <PanelContentSlot
+            key={activePanel.id}
+            panel={activePanel}
+            onPointerDownCapture={() => onActivatePanel(activePanel.id)}
+          />
+        )}
       </div>
 
       {/* Drop indicator (top/right/bottom/left) */}
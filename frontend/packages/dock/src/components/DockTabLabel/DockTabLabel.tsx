@@ -2,7 +2,7 @@ import { combine } from "@atlaskit/pragmatic-drag-and-drop/combine"
 import { draggable, dropTargetForElements } from "@atlaskit/pragmatic-drag-and-drop/element/adapter"
 import { pointerOutsideOfPreview } from "@atlaskit/pragmatic-drag-and-drop/element/pointer-outside-of-preview"
 import { setCustomNativeDragPreview } from "@atlaskit/pragmatic-drag-and-drop/element/set-custom-native-drag-preview"
-import { X } from "lucide-react"
+import { Pin, X } from "lucide-react"
 import type React from "react"
 import { useContext, useEffect, useRef, useState } from "react"
 import { createPortal } from "react-dom"
@@ -11,6 +11,7 @@ import invariant from "tiny-invariant"
 import type { DndState, DockingPosition, PanelNode } from "../../types"
 import { calculateTabDropPositionForSingleTab } from "../../utils"
 import { DockingContext } from "../DockingProvider"
+import { TabContextMenu } from "../TabContextMenu"
 import { TabDropIndicator } from "../TabDropIndicator"
 import { TabPreview } from "../TabPreview"
 
@@ -36,6 +37,7 @@ export const DockTabLabel: React.FC<DockTabLabelProps> = ({
   const tabRef = useRef<HTMLDivElement>(null)
   const dockingContext = useContext(DockingContext)
   const [state, setState] = useState<DndState>({ type: "idle" })
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null)
 
   if (dockingContext == null) {
     throw new Error("DockTabLabel must be used within a DockingContext")
@@ -175,6 +177,10 @@ export const DockTabLabel: React.FC<DockTabLabelProps> = ({
       aria-selected={isActive}
       aria-controls={`panel-${panel.id}`}
       onClick={() => onActivatePanel(panel.id)}
+      onContextMenu={(e) => {
+        e.preventDefault()
+        setMenuPosition({ x: e.clientX, y: e.clientY })
+      }}
       onKeyDown={(e) => {
         if (e.key === "Enter" || e.key === " ") {
           e.preventDefault()
@@ -193,7 +199,18 @@ export const DockTabLabel: React.FC<DockTabLabelProps> = ({
       data-tab-index={tabIndex}
     >
       <span className='truncate max-w-[120px]'>{panel.title ?? panel.id}</span>
-      {isActive && (
+      {panel.dirty && (
+        <span
+          role='img'
+          aria-label='Unsaved changes'
+          title='Unsaved changes'
+          className='shrink-0 w-1.5 h-1.5 rounded-full bg-primary'
+        />
+      )}
+      {panel.pinned && (
+        <Pin className='shrink-0 w-3 h-3 text-muted-foreground' aria-label='Pinned' />
+      )}
+      {isActive && !panel.pinned && (
         <button
           type='button'
           onClick={(e) => {
@@ -215,6 +232,15 @@ export const DockTabLabel: React.FC<DockTabLabelProps> = ({
         />
       )}
 
+      {menuPosition != null && (
+        <TabContextMenu
+          panel={panel}
+          x={menuPosition.x}
+          y={menuPosition.y}
+          onClose={() => setMenuPosition(null)}
+        />
+      )}
+
       {/* Drag preview */}
       {state.type === "preview" &&
         createPortal(<TabPreview title={panel.title ?? panel.id} />, state.container)}
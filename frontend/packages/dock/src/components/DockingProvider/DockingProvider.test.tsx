@@ -0,0 +1,141 @@
+import { act, useEffect, useState } from "react"
+import { createRoot, type Root } from "react-dom/client"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { DockingManager } from "../../core/DockingManager"
+import type { PanelContent, PanelNode, TabContainerNode } from "../../types"
+import { FloatingPanels } from "../FloatingPanels"
+import { NodeRenderer } from "../NodeRenderer"
+import { DockingProvider } from "./DockingProvider"
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean
+}
+globalThis.IS_REACT_ACT_ENVIRONMENT = true
+
+let mounts: string[] = []
+
+/**
+ * Stand-in for a drawing with unsaved edits: state only the mounted
+ * component has
+ */
+function Sketch({ name }: { name: string }) {
+  const [strokes, setStrokes] = useState(0)
+
+  useEffect(() => {
+    mounts.push(name)
+  }, [name])
+
+  return (
+    <button type='button' data-sketch={name} onClick={() => setStrokes((count) => count + 1)}>
+      {strokes}
+    </button>
+  )
+}
+
+const contents: PanelContent[] = ["a", "b"].map((name) => ({
+  key: name,
+  label: name,
+  content: <Sketch name={name} />,
+}))
+
+const panel = (name: string): PanelNode => ({
+  id: `panel-${name}`,
+  type: "panel",
+  title: name,
+  content: "",
+  contentKey: name,
+})
+
+const tabs: TabContainerNode = {
+  id: "tabs",
+  type: "tabContainer",
+  panels: [panel("a"), panel("b")],
+  activeId: "panel-a",
+}
+
+let container: HTMLElement
+let root: Root
+
+beforeEach(() => {
+  mounts = []
+  container = document.createElement("div")
+  document.body.appendChild(container)
+  root = createRoot(container)
+})
+
+afterEach(() => {
+  act(() => root.unmount())
+  container.remove()
+})
+
+function renderDock(manager: DockingManager) {
+  act(() =>
+    root.render(
+      <DockingProvider manager={manager} availableContents={contents}>
+        {({ manager }) => {
+          const { root, instanceId } = manager.getState()
+          return (
+            <main>
+              <NodeRenderer node={root} instanceId={instanceId} />
+              <FloatingPanels instanceId={instanceId} />
+            </main>
+          )
+        }}
+      </DockingProvider>,
+    ),
+  )
+}
+
+function getSketch(name: string): HTMLElement | null {
+  return container.querySelector(`[data-sketch='${name}']`)
+}
+
+function draw(name: string) {
+  act(() => getSketch(name)?.click())
+}
+
+describe("DockingProvider", () => {
+  it("keeps the content of a panel mounted while it floats and docks again", () => {
+    const manager = new DockingManager(tabs)
+    renderDock(manager)
+    draw("a")
+
+    act(() => manager.floatPanel("panel-a"))
+    expect(getSketch("a")?.closest("section")).not.toBeNull()
+    expect(getSketch("a")?.textContent).toBe("1")
+
+    act(() => manager.dockPanel("panel-a"))
+    expect(getSketch("a")?.closest("section")).toBeNull()
+    expect(getSketch("a")?.textContent).toBe("1")
+    expect(mounts.filter((name) => name === "a")).toHaveLength(1)
+  })
+
+  it("keeps unsaved content of a tab split out of its group", () => {
+    const manager = new DockingManager(tabs)
+    renderDock(manager)
+    draw("a")
+    draw("a")
+
+    act(() => {
+      expect(manager.splitPanel("panel-a", "right")).toBe(true)
+    })
+    expect(manager.getRoot().type).toBe("container")
+    expect(getSketch("a")?.textContent).toBe("2")
+    expect(getSketch("b")).not.toBeNull()
+    expect(mounts).toEqual(["a", "b"])
+  })
+
+  it("keeps the content of inactive tabs mounted out of view", () => {
+    const manager = new DockingManager(tabs)
+    renderDock(manager)
+    draw("a")
+
+    act(() => manager.activatePanel("panel-b"))
+    expect(getSketch("a")).toBeNull()
+    expect(getSketch("b")).not.toBeNull()
+
+    act(() => manager.activatePanel("panel-a"))
+    expect(getSketch("a")?.textContent).toBe("1")
+    expect(mounts).toEqual(["a", "b"])
+  })
+})
@@ -1,10 +1,25 @@
 import type React from "react"
 import { createContext, useCallback, useEffect, useState } from "react"
+import { createPortal } from "react-dom"
 import { DockingManager } from "../../core/DockingManager"
-import type { DockingContextValue, DockingPosition, DockNode, PanelContent } from "../../types"
+import { PanelContentHosts } from "../../core/PanelContentHosts"
+import type {
+  DockingContextValue,
+  DockingPosition,
+  DockNode,
+  PanelContent,
+  PanelNode,
+  TabMenuItem,
+} from "../../types"
+import { renderPanelContent } from "../../utils"
 
 export const DockingContext = createContext<DockingContextValue | null>(null)
 
+/**
+ * Elements holding the content of the open panels (see PanelContentSlot)
+ */
+export const PanelContentHostsContext = createContext<PanelContentHosts | null>(null)
+
 interface DockingProviderProps {
   children: (contextValue: {
     manager: DockingManager
@@ -17,18 +32,24 @@ interface DockingProviderProps {
   manager?: DockingManager
   initialLayout?: DockNode
   availableContents: PanelContent[]
+  /** App entries of the tab context menu (e.g. actions on the panel's file) */
+  getTabMenuItems?: (panel: PanelNode) => TabMenuItem[]
 }
 
+const noTabMenuItems = (): TabMenuItem[] => []
+
 export const DockingProvider: React.FC<DockingProviderProps> = ({
   children,
   manager: externalManager,
   availableContents,
+  getTabMenuItems = noTabMenuItems,
 }) => {
   const [newPanelContentKey, setNewPanelContentKey] = useState(
     availableContents[0]?.key ?? "default",
   )
 
   const [dockingManager] = useState(() => externalManager ?? new DockingManager())
+  const [contentHosts] = useState(() => new PanelContentHosts())
   const [, forceUpdate] = useState({})
 
   const handleSelectPanelType = useCallback((value: string) => {
@@ -37,7 +58,7 @@ export const DockingProvider: React.FC<DockingProviderProps> = ({
 
   const handleRemovePanel = useCallback(
     (id: string) => {
-      dockingManager.removePanel(id)
+      dockingManager.closePanel(id)
     },
     [dockingManager],
   )
@@ -106,6 +127,27 @@ export const DockingProvider: React.FC<DockingProviderProps> = ({
     return dockingManager.isAnyPanelMaximized()
   }, [dockingManager])
 
+  const handleFloatPanel = useCallback(
+    (id: string) => {
+      dockingManager.floatPanel(id)
+    },
+    [dockingManager],
+  )
+
+  const handlePopOutPanel = useCallback(
+    (id: string) => {
+      dockingManager.popOutPanel(id)
+    },
+    [dockingManager],
+  )
+
+  const handleDockPanel = useCallback(
+    (id: string) => {
+      dockingManager.dockPanel(id)
+    },
+    [dockingManager],
+  )
+
   const handleAddPanelWithContent = useCallback(
     (contentKey: string) => {
       dockingManager.addPanel(contentKey)
@@ -133,6 +175,12 @@ export const DockingProvider: React.FC<DockingProviderProps> = ({
     }
   }, [dockingManager])
 
+  const panels = dockingManager.getAllPanels()
+
+  useEffect(() => {
+    contentHosts.retain(new Set(panels.map((panel) => panel.id)))
+  })
+
   const contextValue: DockingContextValue = {
     manager: dockingManager,
     onRemove: handleRemovePanel,
@@ -146,19 +194,34 @@ export const DockingProvider: React.FC<DockingProviderProps> = ({
     onRestorePanel: handleRestorePanel,
     isMaximized: isPanelMaximized,
     isAnyPanelMaximized,
+    onFloatPanel: handleFloatPanel,
+    onPopOutPanel: handlePopOutPanel,
+    onDockPanel: handleDockPanel,
+    getTabMenuItems,
     availableContents: availableContents,
   }
 
+  // Each panel's content is mounted once, keyed by panel id, so moving the
+  // panel (split, float, pop out, dock) does not mount it again
   return (
     <DockingContext.Provider value={contextValue}>
-      {children({
-        manager: dockingManager,
-        handleAddPanelWithContent,
-        isAnyPanelMaximized,
-        availableContents: availableContents,
-        newPanelContentKey,
-        handleSelectPanelType,
-      })}
+      <PanelContentHostsContext.Provider value={contentHosts}>
+        {children({
+          manager: dockingManager,
+          handleAddPanelWithContent,
+          isAnyPanelMaximized,
+          availableContents: availableContents,
+          newPanelContentKey,
+          handleSelectPanelType,
+        })}
+        {panels.map((panel) =>
+          createPortal(
+            renderPanelContent(panel, availableContents),
+            contentHosts.getElement(panel.id),
+            panel.id,
+          ),
+        )}
+      </PanelContentHostsContext.Provider>
     </DockingContext.Provider>
   )
 }
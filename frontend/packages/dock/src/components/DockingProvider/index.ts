@@ -1 +1 @@
-export { DockingContext, DockingProvider } from "./DockingProvider"
+export { DockingContext, DockingProvider, PanelContentHostsContext } from "./DockingProvider"
@@ -0,0 +1,210 @@
+import { draggable } from "@atlaskit/pragmatic-drag-and-drop/element/adapter"
+import { pointerOutsideOfPreview } from "@atlaskit/pragmatic-drag-and-drop/element/pointer-outside-of-preview"
+import { setCustomNativeDragPreview } from "@atlaskit/pragmatic-drag-and-drop/element/set-custom-native-drag-preview"
+import { ExternalLink, GripVertical, PanelBottomClose, X } from "lucide-react"
+import type React from "react"
+import { useContext, useEffect, useRef, useState } from "react"
+import { createPortal } from "react-dom"
+import invariant from "tiny-invariant"
+
+import type { DndState, FloatingPanelNode, FloatingRect } from "../../types"
+import { DockingContext } from "../DockingProvider"
+import { PanelContentSlot } from "../PanelContentSlot"
+import { PanelPreview } from "../PanelPreview"
+
+/**
+ * Smallest size a floating panel can be resized to (px)
+ */
+const MIN_SIZE = { width: 200, height: 120 }
+
+/**
+ * Part of a floating panel that stays inside the dock area when it is
+ * moved, so it can always be grabbed again (px)
+ */
+const VISIBLE_EDGE = 48
+
+interface FloatingPanelProps {
+  floating: FloatingPanelNode
+  instanceId: symbol
+}
+
+type PointerAction = {
+  type: "move" | "resize"
+  startX: number
+  startY: number
+  startRect: FloatingRect
+}
+
+/**
+ * Panel floating over the dock area
+ *
+ * The title bar moves the panel and the corner handle resizes it. The
+ * grip is dragged onto the dock to dock the panel again.
+ */
+export const FloatingPanel: React.FC<FloatingPanelProps> = ({ floating, instanceId }) => {
+  const { panel } = floating
+  const panelRef = useRef<HTMLElement>(null)
+  const gripRef = useRef<HTMLSpanElement>(null)
+  const actionRef = useRef<PointerAction | null>(null)
+  const dockingContext = useContext(DockingContext)
+
+  const [state, setState] = useState<DndState>({ type: "idle" })
+  // Position while moving or resizing (stored in the manager on release)
+  const [rect, setRect] = useState(floating.rect)
+
+  if (dockingContext == null) {
+    throw new Error("FloatingPanel must be used within a DockingContext")
+  }
+
+  const { manager, onRemove, onPopOutPanel, onDockPanel } = dockingContext
+
+  useEffect(() => {
+    setRect(floating.rect)
+  }, [floating.rect])
+
+  useEffect(() => {
+    invariant(gripRef.current != null, "Grip element must exist")
+
+    return draggable({
+      element: gripRef.current,
+      getInitialData: () => ({
+        type: "panel",
+        id: panel.id,
+        instanceId,
+        title: panel.title ?? panel.id,
+      }),
+      onGenerateDragPreview({ nativeSetDragImage }) {
+        setCustomNativeDragPreview({
+          getOffset: pointerOutsideOfPreview({ x: "16px", y: "16px" }),
+          render({ container }) {
+            setState({ type: "preview", container })
+            return () => setState({ type: "dragging" })
+          },
+          nativeSetDragImage,
+        })
+      },
+      onDragStart: () => setState({ type: "dragging" }),
+      onDrop: () => setState({ type: "idle" }),
+    })
+  }, [panel.id, panel.title, instanceId])
+
+  const startPointerAction = (type: PointerAction["type"], e: React.PointerEvent) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    actionRef.current = { type, startX: e.clientX, startY: e.clientY, startRect: rect }
+  }
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const action = actionRef.current
+    if (action == null) return
+
+    const area = panelRef.current?.parentElement?.getBoundingClientRect()
+    if (area == null) return
+
+    const dx = e.clientX - action.startX
+    const dy = e.clientY - action.startY
+    const { startRect } = action
+
+    if (action.type === "move") {
+      setRect({
+        ...startRect,
+        x: Math.min(
+          Math.max(startRect.x + dx, VISIBLE_EDGE - startRect.width),
+          area.width - VISIBLE_EDGE,
+        ),
+        y: Math.min(Math.max(startRect.y + dy, 0), area.height - VISIBLE_EDGE),
+      })
+    } else {
+      setRect({
+        ...startRect,
+        width: Math.max(startRect.width + dx, MIN_SIZE.width),
+        height: Math.max(startRect.height + dy, MIN_SIZE.height),
+      })
+    }
+  }
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (actionRef.current == null) return
+    actionRef.current = null
+    e.currentTarget.releasePointerCapture(e.pointerId)
+    manager.moveFloatingPanel(panel.id, rect)
+  }
+
+  const title = panel.title ?? panel.id
+
+  return (
+    <section
+      ref={panelRef}
+      aria-label={title}
+      onPointerDownCapture={() => manager.raiseFloatingPanel(panel.id)}
+      className={`
+        absolute grid grid-rows-[auto_1fr] bg-card border border-border rounded-lg shadow-xl overflow-hidden pointer-events-auto
+        ${state.type === "idle" ? "" : "opacity-50 pointer-events-none"}
+      `}
+      style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+    >
+      <div className='grid grid-cols-[auto_1fr_auto] items-center gap-2 px-2 py-1.5 bg-muted border-b border-border'>
+        <span
+          ref={gripRef}
+          title='Drag onto the dock to dock the panel'
+          className='cursor-grab text-muted-foreground'
+        >
+          <GripVertical className='w-4 h-4' aria-hidden='true' />
+        </span>
+        <span
+          onPointerDown={(e) => startPointerAction("move", e)}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          className='text-sm font-medium truncate cursor-move touch-none select-none'
+        >
+          {title}
+        </span>
+        <div className='flex items-center gap-1'>
+          <button
+            type='button'
+            onClick={() => onPopOutPanel(panel.id)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+            aria-label='Pop out panel'
+          >
+            <ExternalLink className='w-4 h-4' aria-hidden='true' />
+          </button>
+          <button
+            type='button'
+            onClick={() => onDockPanel(panel.id)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+            aria-label='Dock panel'
+          >
+            <PanelBottomClose className='w-4 h-4' aria-hidden='true' />
+          </button>
+          <button
+            type='button'
+            onClick={() => onRemove(panel.id)}
+            className='p-1 rounded hover:bg-destructive hover:text-destructive-foreground text-muted-foreground transition-colors'
+            aria-label='Close panel'
+          >
+            <X className='w-4 h-4' aria-hidden='true' />
+          </button>
+        </div>
+      </div>
+
+      <div className='relative min-h-0 p-3 overflow-hidden'>
+        <PanelContentSlot
+          panel={panel}
+          onPointerDownCapture={() => manager.raiseFloatingPanel(panel.id)}
+        />
+      </div>
+
+      {/* Resize handle */}
+      <div
+        aria-hidden='true'
+        onPointerDown={(e) => startPointerAction("resize", e)}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        className='absolute right-0 bottom-0 w-3 h-3 cursor-se-resize touch-none'
+      />
+
+      {state.type === "preview" && createPortal(<PanelPreview title={title} />, state.container)}
+    </section>
+  )
+}
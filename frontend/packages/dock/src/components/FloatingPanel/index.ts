@@ -0,0 +1 @@
+export { FloatingPanel } from "./FloatingPanel"
@@ -0,0 +1,38 @@
+import type React from "react"
+import { useContext } from "react"
+import { DockingContext } from "../DockingProvider"
+import { FloatingPanel } from "../FloatingPanel"
+import { PopoutPanel } from "../PopoutPanel"
+
+interface FloatingPanelsProps {
+  instanceId: symbol
+}
+
+/**
+ * Layer showing the floating panels of the dock
+ *
+ * Place it over the dock area, inside a positioned element: floating
+ * panels are positioned relative to it. Popped-out panels open their
+ * own window while this layer is mounted.
+ */
+export const FloatingPanels: React.FC<FloatingPanelsProps> = ({ instanceId }) => {
+  const dockingContext = useContext(DockingContext)
+
+  if (dockingContext == null) {
+    throw new Error("FloatingPanels must be used within a DockingContext")
+  }
+
+  const floatingPanels = dockingContext.manager.getFloatingPanels()
+
+  return (
+    <div className='absolute inset-0 z-40 pointer-events-none'>
+      {floatingPanels.map((floating) =>
+        floating.poppedOut ? (
+          <PopoutPanel key={floating.panel.id} floating={floating} />
+        ) : (
+          <FloatingPanel key={floating.panel.id} floating={floating} instanceId={instanceId} />
+        ),
+      )}
+    </div>
+  )
+}
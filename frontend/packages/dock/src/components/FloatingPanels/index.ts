@@ -0,0 +1 @@
+export { FloatingPanels } from "./FloatingPanels"
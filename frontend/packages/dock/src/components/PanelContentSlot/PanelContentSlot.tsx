@@ -0,0 +1,59 @@
+import type React from "react"
+import { useContext, useLayoutEffect, useRef } from "react"
+import type { PanelNode } from "../../types"
+import { renderPanelContent } from "../../utils"
+import { DockingContext, PanelContentHostsContext } from "../DockingProvider"
+
+interface PanelContentSlotProps {
+  panel: PanelNode
+  /**
+   * Called on pointer down in the content, before the content handles it
+   *
+   * The content is portaled from the DockingProvider, so React handlers
+   * of the elements around the slot do not see its events.
+   */
+  onPointerDownCapture?: () => void
+}
+
+/**
+ * Place showing the content of a panel
+ *
+ * The content stays mounted while the panel moves to another slot (in
+ * the dock, a floating window or a popup). Without a DockingProvider,
+ * e.g. in stories, the content is rendered in place.
+ */
+export const PanelContentSlot: React.FC<PanelContentSlotProps> = ({
+  panel,
+  onPointerDownCapture,
+}) => {
+  const slotRef = useRef<HTMLDivElement | null>(null)
+  const dockingContext = useContext(DockingContext)
+  const contentHosts = useContext(PanelContentHostsContext)
+
+  const onPointerDownCaptureRef = useRef(onPointerDownCapture)
+  onPointerDownCaptureRef.current = onPointerDownCapture
+
+  useLayoutEffect(() => {
+    const slot = slotRef.current
+    if (!slot || contentHosts == null) return
+
+    const handlePointerDown = () => onPointerDownCaptureRef.current?.()
+    slot.addEventListener("pointerdown", handlePointerDown, true)
+    const detach = contentHosts.attach(panel.id, slot)
+
+    return () => {
+      slot.removeEventListener("pointerdown", handlePointerDown, true)
+      detach()
+    }
+  }, [contentHosts, panel.id])
+
+  if (dockingContext == null) {
+    throw new Error("PanelContentSlot must be used within a DockingContext")
+  }
+
+  if (contentHosts == null) {
+    return <>{renderPanelContent(panel, dockingContext.availableContents)}</>
+  }
+
+  return <div ref={slotRef} className='h-full w-full' />
+}
@@ -0,0 +1 @@
+export { PanelContentSlot } from "./PanelContentSlot"
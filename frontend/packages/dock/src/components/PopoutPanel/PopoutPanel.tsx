@@ -0,0 +1,204 @@
+import { PanelBottomClose, PictureInPicture2, X } from "lucide-react"
+import type React from "react"
+import { useContext, useEffect, useRef, useState } from "react"
+import { createPortal } from "react-dom"
+
+import type { FloatingPanelNode } from "../../types"
+import { DockingContext } from "../DockingProvider"
+import { PanelContentSlot } from "../PanelContentSlot"
+
+/**
+ * Attributes of the root element that carry the theme
+ */
+const THEME_ATTRIBUTES = ["class", "style", "data-theme"]
+
+interface PopoutPanelProps {
+  floating: FloatingPanelNode
+}
+
+/**
+ * Copy the stylesheets and theme of the app into a popup window
+ *
+ * Returns a function that stops following theme changes.
+ */
+function mirrorStyles(target: Document): () => void {
+  for (const node of document.head.querySelectorAll("style, link[rel='stylesheet']")) {
+    target.head.appendChild(target.importNode(node, true))
+  }
+
+  const copyTheme = () => {
+    for (const name of THEME_ATTRIBUTES) {
+      const value = document.documentElement.getAttribute(name)
+      if (value === null) {
+        target.documentElement.removeAttribute(name)
+      } else {
+        target.documentElement.setAttribute(name, value)
+      }
+    }
+  }
+  copyTheme()
+
+  const observer = new MutationObserver(copyTheme)
+  observer.observe(document.documentElement, {
+    attributes: true,
+    attributeFilter: THEME_ATTRIBUTES,
+  })
+  return () => observer.disconnect()
+}
+
+/**
+ * Whether key events of an element are typing rather than shortcuts
+ */
+function isEditable(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null
+  return (
+    element?.tagName === "INPUT" ||
+    element?.tagName === "TEXTAREA" ||
+    element?.isContentEditable === true
+  )
+}
+
+/**
+ * Pass the keys a popup leaves unhandled on to the app window
+ *
+ * Shortcuts of the app and of panel content listen on the app's window
+ * and document (e.g. Space to pan, Ctrl+Shift+S). Returns a function that
+ * stops forwarding.
+ */
+function forwardKeys(popup: Window): () => void {
+  const forwardKey = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || isEditable(event.target)) return
+    const forwarded = new KeyboardEvent(event.type, {
+      key: event.key,
+      code: event.code,
+      location: event.location,
+      repeat: event.repeat,
+      ctrlKey: event.ctrlKey,
+      shiftKey: event.shiftKey,
+      altKey: event.altKey,
+      metaKey: event.metaKey,
+      bubbles: true,
+      cancelable: true,
+    })
+    if (!document.dispatchEvent(forwarded)) event.preventDefault()
+  }
+  // Keys held when the popup loses focus are released (e.g. Space)
+  const forwardBlur = () => window.dispatchEvent(new Event("blur"))
+
+  popup.addEventListener("keydown", forwardKey)
+  popup.addEventListener("keyup", forwardKey)
+  popup.addEventListener("blur", forwardBlur)
+  return () => {
+    popup.removeEventListener("keydown", forwardKey)
+    popup.removeEventListener("keyup", forwardKey)
+    popup.removeEventListener("blur", forwardBlur)
+  }
+}
+
+/**
+ * Panel shown in a separate browser window
+ *
+ * The content moves into the window without mounting again, so it keeps
+ * its state and stays part of the app's React tree. Closing the window
+ * docks the panel again; a blocked popup leaves the panel floating over
+ * the dock.
+ */
+export const PopoutPanel: React.FC<PopoutPanelProps> = ({ floating }) => {
+  const { panel } = floating
+  const popupRef = useRef<Window | null>(null)
+  const [container, setContainer] = useState<HTMLElement | null>(null)
+  const dockingContext = useContext(DockingContext)
+
+  if (dockingContext == null) {
+    throw new Error("PopoutPanel must be used within a DockingContext")
+  }
+
+  const { manager, onRemove, onDockPanel } = dockingContext
+  const title = panel.title ?? panel.id
+
+  // The window is opened once; its size is only the initial size
+  const initialRectRef = useRef(floating.rect)
+
+  useEffect(() => {
+    const { width, height } = initialRectRef.current
+    const popup = window.open("", `dock-panel-${panel.id}`, `popup,width=${width},height=${height}`)
+    if (popup == null) {
+      manager.popInPanel(panel.id)
+      return
+    }
+
+    popupRef.current = popup
+    const stopMirroring = mirrorStyles(popup.document)
+    const stopForwarding = forwardKeys(popup)
+    const root = popup.document.createElement("div")
+    root.className = "h-screen bg-background text-foreground"
+    popup.document.body.style.margin = "0"
+    popup.document.body.appendChild(root)
+    setContainer(root)
+
+    const handlePopupClose = () => manager.dockPanel(panel.id)
+    const handleAppClose = () => popup.close()
+    popup.addEventListener("pagehide", handlePopupClose)
+    window.addEventListener("pagehide", handleAppClose)
+
+    return () => {
+      popup.removeEventListener("pagehide", handlePopupClose)
+      window.removeEventListener("pagehide", handleAppClose)
+      stopMirroring()
+      stopForwarding()
+      popup.close()
+      popupRef.current = null
+      setContainer(null)
+    }
+  }, [manager, panel.id])
+
+  useEffect(() => {
+    if (popupRef.current != null && container != null) {
+      popupRef.current.document.title = title
+    }
+  }, [title, container])
+
+  if (container == null) return null
+
+  return createPortal(
+    <article
+      aria-label={title}
+      className='grid grid-rows-[auto_1fr] w-full h-full bg-card text-card-foreground'
+    >
+      <div className='grid grid-cols-[1fr_auto] items-center gap-2 px-2 py-1.5 bg-muted border-b border-border'>
+        <span className='text-sm font-medium truncate'>{title}</span>
+        <div className='flex items-center gap-1'>
+          <button
+            type='button'
+            onClick={() => manager.popInPanel(panel.id)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+            aria-label='Float panel in the app'
+          >
+            <PictureInPicture2 className='w-4 h-4' aria-hidden='true' />
+          </button>
+          <button
+            type='button'
+            onClick={() => onDockPanel(panel.id)}
+            className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+            aria-label='Dock panel'
+          >
+            <PanelBottomClose className='w-4 h-4' aria-hidden='true' />
+          </button>
+          <button
+            type='button'
+            onClick={() => onRemove(panel.id)}
+            className='p-1 rounded hover:bg-destructive hover:text-destructive-foreground text-muted-foreground transition-colors'
+            aria-label='Close panel'
+          >
+            <X className='w-4 h-4' aria-hidden='true' />
+          </button>
+        </div>
+      </div>
+
+      <div className='relative min-h-0 p-3 overflow-hidden'>
+        <PanelContentSlot panel={panel} />
+      </div>
+    </article>,
+    container,
+  )
+}
@@ -0,0 +1 @@
+export { PopoutPanel } from "./PopoutPanel"
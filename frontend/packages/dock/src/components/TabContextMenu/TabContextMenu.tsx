@@ -0,0 +1,168 @@
+import type React from "react"
+import { Fragment, useContext, useEffect, useRef } from "react"
+import { createPortal } from "react-dom"
+
+import type { PanelNode } from "../../types"
+import { DockingContext } from "../DockingProvider"
+
+interface TabContextMenuProps {
+  panel: PanelNode
+  x: number
+  y: number
+  onClose: () => void
+}
+
+interface MenuEntry {
+  id: string
+  label: string
+  disabled?: boolean
+  onSelect: () => void
+}
+
+/**
+ * Right-click menu of a tab
+ *
+ * Groups: closing tabs, entries added by the app, splitting, pinning.
+ * Bulk closes leave pinned tabs open.
+ */
+export const TabContextMenu: React.FC<TabContextMenuProps> = ({ panel, x, y, onClose }) => {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const dockingContext = useContext(DockingContext)
+
+  if (dockingContext == null) {
+    throw new Error("TabContextMenu must be used within a DockingContext")
+  }
+
+  const { manager, onRemove, getTabMenuItems } = dockingContext
+
+  useEffect(() => {
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose()
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [onClose])
+
+  // Keep the menu inside the viewport and focus its first entry
+  useEffect(() => {
+    const menu = menuRef.current
+    if (menu == null) return
+
+    const rect = menu.getBoundingClientRect()
+    if (rect.right > window.innerWidth) {
+      menu.style.left = `${window.innerWidth - rect.width - 8}px`
+    }
+    if (rect.bottom > window.innerHeight) {
+      menu.style.top = `${window.innerHeight - rect.height - 8}px`
+    }
+    menu.querySelector<HTMLButtonElement>("button:not(:disabled)")?.focus()
+  }, [])
+
+  const canSplit = manager.getTabGroupPanels(panel.id).length > 1
+
+  const groups: MenuEntry[][] = [
+    [
+      { id: "close", label: "Close", onSelect: () => onRemove(panel.id) },
+      {
+        id: "closeOthers",
+        label: "Close others",
+        disabled: manager.getOtherPanels(panel.id).length === 0,
+        onSelect: () => manager.closeOtherPanels(panel.id),
+      },
+      {
+        id: "closeRight",
+        label: "Close to the right",
+        disabled: manager.getPanelsToRight(panel.id).length === 0,
+        onSelect: () => manager.closePanelsToRight(panel.id),
+      },
+      {
+        id: "closeSaved",
+        label: "Close saved",
+        disabled: manager.getSavedPanels(panel.id).length === 0,
+        onSelect: () => manager.closeSavedPanels(panel.id),
+      },
+    ],
+    getTabMenuItems(panel),
+    [
+      {
+        id: "splitRight",
+        label: "Split right",
+        disabled: !canSplit,
+        onSelect: () => manager.splitPanel(panel.id, "right"),
+      },
+      {
+        id: "splitDown",
+        label: "Split down",
+        disabled: !canSplit,
+        onSelect: () => manager.splitPanel(panel.id, "down"),
+      },
+    ],
+    [
+      {
+        id: "pin",
+        label: panel.pinned ? "Unpin tab" : "Pin tab",
+        onSelect: () => manager.setPanelPinned(panel.id, !panel.pinned),
+      },
+    ],
+  ].filter((group) => group.length > 0)
+
+  // Arrow keys move between entries
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // The menu is rendered inside the tab in the React tree
+    e.stopPropagation()
+    if (e.key !== "ArrowDown" && e.key !== "ArrowUp") return
+    e.preventDefault()
+    const buttons = [
+      ...(menuRef.current?.querySelectorAll<HTMLButtonElement>("button:not(:disabled)") ?? []),
+    ]
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement)
+    const step = e.key === "ArrowDown" ? 1 : -1
+    buttons[(index + step + buttons.length) % buttons.length]?.focus()
+  }
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      role='menu'
+      aria-label={`${panel.title ?? panel.id} tab`}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => e.stopPropagation()}
+      className='fixed z-50 min-w-40 py-0.5 rounded-md shadow-lg bg-popover text-popover-foreground border border-border'
+      style={{ left: x, top: y }}
+    >
+      {groups.map((group, index) => (
+        <Fragment key={group[0].id}>
+          {index > 0 && <hr className='my-0.5 border-border' />}
+          {group.map((entry) => (
+            <button
+              key={entry.id}
+              type='button'
+              role='menuitem'
+              disabled={entry.disabled}
+              onClick={() => {
+                onClose()
+                entry.onSelect()
+              }}
+              className='w-full px-2.5 py-1 text-sm text-left hover:bg-accent focus-visible:bg-accent outline-none disabled:opacity-50 disabled:pointer-events-none'
+            >
+              {entry.label}
+            </button>
+          ))}
+        </Fragment>
+      ))}
+    </div>,
+    document.body,
+  )
+}
@@ -0,0 +1 @@
+export { TabContextMenu } from "./TabContextMenu"
@@ -0,0 +1,111 @@
+import { Check, ChevronDown } from "lucide-react"
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { createPortal } from "react-dom"
+
+import type { PanelNode } from "../../types"
+
+interface TabOverflowMenuProps {
+  panels: PanelNode[]
+  activeId: string | undefined
+  onSelect: (panelId: string) => void
+}
+
+/**
+ * Dropdown listing every tab of a tab container, for reaching tabs
+ * scrolled out of the tab bar
+ */
+export const TabOverflowMenu: React.FC<TabOverflowMenuProps> = ({ panels, activeId, onSelect }) => {
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+  // Button position the menu is aligned to (null while closed)
+  const [anchor, setAnchor] = useState<DOMRect | null>(null)
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (anchor == null) return
+
+    const handlePointerDown = (e: PointerEvent) => {
+      const target = e.target as Node
+      if (!menuRef.current?.contains(target) && !buttonRef.current?.contains(target)) {
+        setAnchor(null)
+      }
+    }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        setAnchor(null)
+      }
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [anchor])
+
+  const handleToggle = () => {
+    setAnchor((prev) =>
+      prev == null ? (buttonRef.current?.getBoundingClientRect() ?? null) : null,
+    )
+  }
+
+  return (
+    <>
+      <button
+        ref={buttonRef}
+        type='button'
+        onClick={handleToggle}
+        className='p-1 rounded hover:bg-accent text-muted-foreground hover:text-foreground transition-colors'
+        aria-label='All tabs'
+        aria-haspopup='menu'
+        aria-expanded={anchor != null}
+      >
+        <ChevronDown className='w-4 h-4' aria-hidden='true' />
+      </button>
+
+      {anchor != null &&
+        createPortal(
+          <div
+            ref={menuRef}
+            role='menu'
+            aria-label='All tabs'
+            className='fixed z-50 min-w-40 max-w-xs max-h-[60vh] py-0.5 overflow-auto rounded-md shadow-lg bg-popover text-popover-foreground border border-border'
+            style={{ top: anchor.bottom + 4, right: window.innerWidth - anchor.right }}
+          >
+            {panels.map((panel) => (
+              <button
+                key={panel.id}
+                type='button'
+                role='menuitem'
+                aria-current={panel.id === activeId}
+                onClick={() => {
+                  setAnchor(null)
+                  onSelect(panel.id)
+                }}
+                className='grid grid-cols-[1rem_1fr_auto] items-center gap-1.5 w-full px-2.5 py-1 text-sm text-left hover:bg-accent focus-visible:bg-accent outline-none'
+              >
+                {panel.id === activeId ? (
+                  <Check className='w-3.5 h-3.5' aria-hidden='true' />
+                ) : (
+                  <span />
+                )}
+                <span className='truncate'>{panel.title ?? panel.id}</span>
+                {panel.dirty ? (
+                  <span
+                    role='img'
+                    aria-label='Unsaved changes'
+                    className='w-1.5 h-1.5 rounded-full bg-primary'
+                  />
+                ) : (
+                  <span />
+                )}
+              </button>
+            ))}
+          </div>,
+          document.body,
+        )}
+    </>
+  )
+}
@@ -0,0 +1 @@
+export { TabOverflowMenu } from "./TabOverflowMenu"
@@ -0,0 +1,104 @@
+import type React from "react"
+import { useContext, useEffect, useState } from "react"
+
+import type { PanelNode } from "../../types"
+import { DockingContext } from "../DockingProvider"
+
+type Switching = {
+  panels: PanelNode[]
+  index: number
+}
+
+/**
+ * Ctrl+Tab switcher between panels, in most recently used order
+ *
+ * While Ctrl is held, Tab and Shift+Tab move through the panels; the
+ * selected panel is activated when Ctrl is released. Escape cancels.
+ */
+export const TabSwitcher: React.FC = () => {
+  const [switching, setSwitching] = useState<Switching | null>(null)
+  const dockingContext = useContext(DockingContext)
+
+  if (dockingContext == null) {
+    throw new Error("TabSwitcher must be used within a DockingContext")
+  }
+
+  const { manager, onActivatePanel, onMaximizePanel, isAnyPanelMaximized } = dockingContext
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && switching != null) {
+        e.preventDefault()
+        setSwitching(null)
+        return
+      }
+      if (e.key !== "Tab" || !e.ctrlKey) return
+
+      const step = e.shiftKey ? -1 : 1
+      if (switching != null) {
+        e.preventDefault()
+        const count = switching.panels.length
+        setSwitching({ ...switching, index: (switching.index + step + count) % count })
+        return
+      }
+
+      const panels = manager.getRecentPanels()
+      if (panels.length < 2) return
+      e.preventDefault()
+      setSwitching({ panels, index: step === 1 ? 1 : panels.length - 1 })
+    }
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== "Control" || switching == null) return
+      const panelId = switching.panels[switching.index].id
+      setSwitching(null)
+      onActivatePanel(panelId)
+      // Keep showing a single panel when one is maximized
+      if (isAnyPanelMaximized()) {
+        onMaximizePanel(panelId)
+      }
+    }
+
+    const handleBlur = () => setSwitching(null)
+
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [switching, manager, onActivatePanel, onMaximizePanel, isAnyPanelMaximized])
+
+  if (switching == null) return null
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center pointer-events-none'>
+      <ul
+        aria-label='Switch panel'
+        className='grid min-w-64 max-w-md max-h-[60vh] py-1 overflow-auto rounded-md shadow-lg bg-popover text-popover-foreground border border-border'
+      >
+        {switching.panels.map((panel, index) => (
+          <li
+            key={panel.id}
+            aria-current={index === switching.index}
+            className={`
+              flex items-center gap-2 px-3 py-1 text-sm
+              ${index === switching.index ? "bg-accent text-accent-foreground" : ""}
+            `}
+          >
+            <span className='truncate'>{panel.title ?? panel.id}</span>
+            {panel.dirty && (
+              <span
+                role='img'
+                aria-label='Unsaved changes'
+                className='shrink-0 w-1.5 h-1.5 rounded-full bg-primary'
+              />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1 @@
+export { TabSwitcher } from "./TabSwitcher"
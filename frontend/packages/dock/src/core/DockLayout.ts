@@ -0,0 +1,197 @@
+import type {
+  DockingState,
+  DockNode,
+  FloatingPanelNode,
+  FloatingRect,
+  PanelNode,
+  SerializedDockLayout,
+  SerializedDockNode,
+  SerializedFloatingPanel,
+  SerializedPanelNode,
+} from "../types"
+
+/**
+ * Version of the serialized layout format
+ */
+export const DOCK_LAYOUT_VERSION = 1
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function serializePanel(panel: PanelNode): SerializedPanelNode {
+  return {
+    id: panel.id,
+    type: "panel",
+    ...(panel.title !== undefined ? { title: panel.title } : {}),
+    contentKey: panel.contentKey,
+    ...(panel.pinned ? { pinned: true } : {}),
+  }
+}
+
+/**
+ * Convert a dock tree to its JSON form (panel content is left out)
+ */
+export function serializeDockNode(node: DockNode): SerializedDockNode {
+  if (node.type === "panel") return serializePanel(node)
+  if (node.type === "container") {
+    return {
+      id: node.id,
+      type: "container",
+      splitDirection: node.splitDirection,
+      first: serializeDockNode(node.first),
+      second: serializeDockNode(node.second),
+      size: node.size,
+    }
+  }
+  return {
+    id: node.id,
+    type: "tabContainer",
+    panels: node.panels.map(serializePanel),
+    ...(node.activeId !== undefined ? { activeId: node.activeId } : {}),
+  }
+}
+
+/**
+ * Convert the layout of a docking state to its JSON form
+ */
+export function serializeDockLayout(state: DockingState): SerializedDockLayout {
+  return {
+    version: DOCK_LAYOUT_VERSION,
+    root: serializeDockNode(state.root),
+    maximizedPanelId: state.maximizedPanelId,
+    floating: state.floating.map(({ panel, rect, poppedOut }) => ({
+      panel: serializePanel(panel),
+      rect: { ...rect },
+      poppedOut,
+    })),
+  }
+}
+
+function parsePanel(value: unknown): SerializedPanelNode | null {
+  if (!isRecord(value) || value.type !== "panel") return null
+  if (typeof value.id !== "string" || typeof value.contentKey !== "string") return null
+  if (value.title !== undefined && typeof value.title !== "string") return null
+  return {
+    id: value.id,
+    type: "panel",
+    ...(value.title !== undefined ? { title: value.title } : {}),
+    contentKey: value.contentKey,
+    ...(value.pinned === true ? { pinned: true } : {}),
+  }
+}
+
+function parseNode(value: unknown): SerializedDockNode | null {
+  if (!isRecord(value) || typeof value.id !== "string") return null
+
+  if (value.type === "panel") return parsePanel(value)
+
+  if (value.type === "container") {
+    const { splitDirection, size } = value
+    if (splitDirection !== "horizontal" && splitDirection !== "vertical") return null
+    if (typeof size !== "number" || !(size > 0 && size < 1)) return null
+    const first = parseNode(value.first)
+    const second = parseNode(value.second)
+    if (!first || !second) return null
+    return { id: value.id, type: "container", splitDirection, first, second, size }
+  }
+
+  if (value.type === "tabContainer") {
+    if (!Array.isArray(value.panels) || value.panels.length === 0) return null
+    const panels = value.panels.map(parsePanel)
+    if (panels.some((panel) => panel === null)) return null
+    if (value.activeId !== undefined && typeof value.activeId !== "string") return null
+    return {
+      id: value.id,
+      type: "tabContainer",
+      panels: panels as SerializedPanelNode[],
+      ...(value.activeId !== undefined ? { activeId: value.activeId } : {}),
+    }
+  }
+
+  return null
+}
+
+function parseRect(value: unknown): FloatingRect | null {
+  if (!isRecord(value)) return null
+  const { x, y, width, height } = value
+  if (![x, y, width, height].every((n) => typeof n === "number" && Number.isFinite(n))) return null
+  if ((width as number) <= 0 || (height as number) <= 0) return null
+  return { x: x as number, y: y as number, width: width as number, height: height as number }
+}
+
+function parseFloating(value: unknown): SerializedFloatingPanel | null {
+  if (!isRecord(value)) return null
+  const panel = parsePanel(value.panel)
+  const rect = parseRect(value.rect)
+  if (!panel || !rect) return null
+  return { panel, rect, poppedOut: value.poppedOut === true }
+}
+
+/**
+ * Read a serialized layout (null when the value is not a valid layout)
+ *
+ * Layouts stored before floating panels existed have no `floating` list.
+ */
+export function parseDockLayout(value: unknown): SerializedDockLayout | null {
+  if (!isRecord(value) || value.version !== DOCK_LAYOUT_VERSION) return null
+  const root = parseNode(value.root)
+  if (!root) return null
+
+  const floating = Array.isArray(value.floating) ? value.floating.map(parseFloating) : []
+  if (floating.some((panel) => panel === null)) return null
+
+  const { maximizedPanelId } = value
+  return {
+    version: DOCK_LAYOUT_VERSION,
+    root,
+    maximizedPanelId: typeof maximizedPanelId === "string" ? maximizedPanelId : null,
+    floating: floating as SerializedFloatingPanel[],
+  }
+}
+
+/**
+ * Build a dock tree from its JSON form
+ *
+ * Panels rejected by `keepPanel` are left out; splits and tab groups
+ * left with a single child collapse into it. Returns null when no
+ * panel is left.
+ */
+export function deserializeDockNode(
+  node: SerializedDockNode,
+  keepPanel: (panel: SerializedPanelNode) => boolean = () => true,
+): DockNode | null {
+  if (node.type === "panel") {
+    return keepPanel(node) ? { ...node, content: null } : null
+  }
+
+  if (node.type === "container") {
+    const first = deserializeDockNode(node.first, keepPanel)
+    const second = deserializeDockNode(node.second, keepPanel)
+    if (!first || !second) return first ?? second
+    return { ...node, first, second }
+  }
+
+  const panels = node.panels
+    .filter((panel) => keepPanel(panel))
+    .map((panel): PanelNode => ({ ...panel, content: null }))
+  if (panels.length <= 1) return panels[0] ?? null
+  const activeId = panels.some((panel) => panel.id === node.activeId) ? node.activeId : panels[0].id
+  return { ...node, panels, activeId }
+}
+
+/**
+ * Build floating panels from their JSON form
+ *
+ * Popped-out panels come back over the dock area, since a browser window
+ * can only be opened by a user action.
+ */
+export function deserializeFloatingPanels(
+  floating: ReadonlyArray<SerializedFloatingPanel>,
+): FloatingPanelNode[] {
+  return floating.map(({ panel, rect }) => ({
+    panel: { ...panel, content: null },
+    rect: { ...rect },
+    poppedOut: false,
+  }))
+}
@@ -4,10 +4,26 @@ import type {
   DockingPosition,
   DockingState,
   DockNode,
+  FloatingPanelNode,
+  FloatingRect,
+  PanelCloseGuard,
   PanelNode,
+  SerializedDockLayout,
   TabContainerNode,
 } from "../types"
 import { createIdBySeed, getName } from "../utils"
+import { deserializeDockNode, deserializeFloatingPanels, serializeDockLayout } from "./DockLayout"
+
+/**
+ * Size of a panel when it starts floating (px)
+ */
+const DEFAULT_FLOATING_SIZE = { width: 480, height: 360 }
+
+/**
+ * Offset between panels floated one after another, so they do not
+ * cover each other exactly (px)
+ */
+const FLOATING_CASCADE_OFFSET = 32
 
 interface DockingManagerEvents {
   panelAdded: (panel: PanelNode, state: DockingState) => void
@@ -24,11 +40,17 @@ interface DockingManagerEvents {
   layoutChanged: (state: DockingState) => void
   panelMaximized: (panelId: string, state: DockingState) => void
   panelRestored: (state: DockingState) => void
+  panelFloated: (panelId: string, state: DockingState) => void
+  panelDocked: (panelId: string, state: DockingState) => void
 }
 
 export class DockingManager {
   private state: DockingState
   private emitter: Emitter<DockingManagerEvents>
+  private closeGuards = new Set<PanelCloseGuard>()
+  private pendingClose: Promise<boolean> | null = null
+  // Ids of added, activated or focused panels, most recent first
+  private recentPanelIds: string[] = []
 
   constructor(initialLayout?: DockNode) {
     this.state = {
@@ -36,9 +58,29 @@ export class DockingManager {
       activePanels: {},
       instanceId: Symbol("docking-ui"),
       maximizedPanelId: null,
+      floating: [],
     }
     this.state.activePanels = this.recalcActivePanels(this.state.root)
     this.emitter = createNanoEvents<DockingManagerEvents>()
+
+    this.emitter.on("panelRemoved", (panelId) => {
+      this.recentPanelIds = this.recentPanelIds.filter((id) => id !== panelId)
+    })
+  }
+
+  /**
+   * Create a manager showing a serialized layout (null when it has no panels)
+   */
+  public static fromLayout(layout: SerializedDockLayout): DockingManager | null {
+    const root = deserializeDockNode(layout.root)
+    if (!root) return null
+
+    const manager = new DockingManager(root)
+    manager.state = { ...manager.state, floating: deserializeFloatingPanels(layout.floating) }
+    if (layout.maximizedPanelId !== null) {
+      manager.maximizePanel(layout.maximizedPanelId)
+    }
+    return manager
   }
 
   public on<E extends keyof DockingManagerEvents>(
@@ -71,6 +113,45 @@ export class DockingManager {
     return { ...this.state.activePanels }
   }
 
+  /**
+   * Get the JSON form of the current layout (panel content is left out)
+   */
+  public serializeLayout(): SerializedDockLayout {
+    return serializeDockLayout(this.state)
+  }
+
+  /**
+   * Get all open panels, docked and floating
+   */
+  public getAllPanels(): PanelNode[] {
+    return [
+      ...this.collectPanels(this.state.root),
+      ...this.state.floating.map((floating) => floating.panel),
+    ]
+  }
+
+  /**
+   * Get the docked panels, most recently used first
+   *
+   * Panels that were never added, activated or focused (e.g. panels of a
+   * loaded layout) follow in layout order.
+   */
+  public getRecentPanels(): PanelNode[] {
+    const panels = this.collectPanels(this.state.root)
+    const recent = this.recentPanelIds.flatMap(
+      (id) => panels.find((panel) => panel.id === id) ?? [],
+    )
+    return [...recent, ...panels.filter((panel) => !recent.includes(panel))]
+  }
+
+  public getFloatingPanels(): FloatingPanelNode[] {
+    return [...this.state.floating]
+  }
+
+  public isPanelFloating(panelId: string): boolean {
+    return this.findFloatingPanel(panelId) !== null
+  }
+
   public getNode(id: string): DockNode | null {
     return this.findNodeById(this.state.root, id)
   }
@@ -97,8 +178,28 @@ export class DockingManager {
   public addPanel(contentKey?: string, title?: string): PanelNode {
     const newPanel = this.createPanelItem(this.state.root, title, "New Panel", contentKey)
 
+    const updatedTree = this.insertPanelAtRoot(this.state.root, newPanel)
+    const activePanels = this.recalcActivePanels(updatedTree, this.state.activePanels)
+
+    this.state = {
+      ...this.state,
+      root: updatedTree,
+      activePanels,
+    }
+
+    this.touchRecentPanel(newPanel.id)
+    this.emit("panelAdded", newPanel, this.getState())
+    this.emit("layoutChanged", this.getState())
+
+    return newPanel
+  }
+
+  /**
+   * Add a panel next to the others (split with a single panel, stacked
+   * under the second half of a split, or as a tab of a tab group)
+   */
+  private insertPanelAtRoot(rootNode: DockNode, newPanel: PanelNode): DockNode {
     let updatedTree: DockNode
-    const rootNode = this.state.root
 
     if (rootNode.type === "panel") {
       updatedTree = {
@@ -126,25 +227,12 @@ export class DockingManager {
         activeId: newPanel.id,
       }
     } else {
-      return newPanel
+      return rootNode
     }
 
     updatedTree = this.rebalanceTree(updatedTree)
     const optimized = this.optimizeTreeStructure(updatedTree)
-    updatedTree = optimized ?? updatedTree
-
-    const activePanels = this.recalcActivePanels(updatedTree, this.state.activePanels)
-
-    this.state = {
-      ...this.state,
-      root: updatedTree,
-      activePanels,
-    }
-
-    this.emit("panelAdded", newPanel, this.getState())
-    this.emit("layoutChanged", this.getState())
-
-    return newPanel
+    return optimized ?? updatedTree
   }
 
   public addTab(targetId: string, contentKey?: string, title?: string): PanelNode | null {
@@ -156,6 +244,7 @@ export class DockingManager {
     if (targetNode.type === "tabContainer") {
       const updated = this.addToExistingTabGroup(this.state.root, targetNode.id, newPanel)
       this.state = { ...this.state, root: updated }
+      this.touchRecentPanel(newPanel.id)
       this.emit("panelAdded", newPanel, this.getState())
       this.emit("layoutChanged", this.getState())
       return newPanel
@@ -165,6 +254,7 @@ export class DockingManager {
       const updated = this.createTabGroup(this.state.root, targetNode.id, newPanel)
       const activePanels = this.recalcActivePanels(updated, this.state.activePanels)
       this.state = { ...this.state, root: updated, activePanels }
+      this.touchRecentPanel(newPanel.id)
       this.emit("panelAdded", newPanel, this.getState())
       this.emit("layoutChanged", this.getState())
       return newPanel
@@ -174,6 +264,13 @@ export class DockingManager {
   }
 
   public removePanel(id: string): boolean {
+    if (this.findFloatingPanel(id)) {
+      this.state = { ...this.state, floating: this.withoutFloatingPanel(id) }
+      this.emit("panelRemoved", id, this.getState())
+      this.emit("layoutChanged", this.getState())
+      return true
+    }
+
     const nodeToRemove = this.findNodeById(this.state.root, id)
     if (!nodeToRemove) return false
 
@@ -200,61 +297,272 @@ export class DockingManager {
     return true
   }
 
-  public editPanel(id: string, content: string, contentKey?: string): boolean {
-    const nodeToEdit = this.findNodeById(this.state.root, id)
-    if (!nodeToEdit || nodeToEdit.type !== "panel") return false
+  /**
+   * Register a check run before panels are closed
+   *
+   * Returns a function that removes the guard.
+   */
+  public addCloseGuard(guard: PanelCloseGuard): () => void {
+    this.closeGuards.add(guard)
+    return () => {
+      this.closeGuards.delete(guard)
+    }
+  }
 
-    const updated = this.updateNode(this.state.root, id, (node) => {
-      if (node.type === "panel") {
-        return {
-          ...node,
-          content,
-          contentKey: contentKey !== undefined ? contentKey : node.contentKey,
+  /**
+   * Close a panel unless a close guard vetoes it
+   */
+  public closePanel(id: string): Promise<boolean> {
+    return this.closePanels([id])
+  }
+
+  /**
+   * Close panels together unless a close guard vetoes it
+   *
+   * Guards run one after another and see all panels at once. While a
+   * close is waiting for a guard, further requests are refused.
+   * Use removePanel to close panels without asking the guards.
+   */
+  public closePanels(ids: readonly string[]): Promise<boolean> {
+    if (this.pendingClose) return Promise.resolve(false)
+
+    const panels = ids
+      .map((id) => this.findPanel(id))
+      .filter((panel): panel is PanelNode => panel !== null)
+    if (panels.length === 0) return Promise.resolve(false)
+
+    return this.runCloseGuards(panels, () => {
+      for (const panel of panels) {
+        this.removePanel(panel.id)
+      }
+    })
+  }
+
+  /**
+   * Close the other tabs of a panel's tab group
+   */
+  public closeOtherPanels(panelId: string): Promise<boolean> {
+    return this.closePanels(this.getOtherPanels(panelId).map((panel) => panel.id))
+  }
+
+  /**
+   * Close the tabs after a panel in its tab group
+   */
+  public closePanelsToRight(panelId: string): Promise<boolean> {
+    return this.closePanels(this.getPanelsToRight(panelId).map((panel) => panel.id))
+  }
+
+  /**
+   * Close the tabs without unsaved changes in a panel's tab group
+   */
+  public closeSavedPanels(panelId: string): Promise<boolean> {
+    return this.closePanels(this.getSavedPanels(panelId).map((panel) => panel.id))
+  }
+
+  /**
+   * Tabs closed by closeOtherPanels (pinned tabs are kept)
+   */
+  public getOtherPanels(panelId: string): PanelNode[] {
+    return this.getTabGroupPanels(panelId).filter((panel) => panel.id !== panelId && !panel.pinned)
+  }
+
+  /**
+   * Tabs closed by closePanelsToRight (pinned tabs are kept)
+   */
+  public getPanelsToRight(panelId: string): PanelNode[] {
+    const panels = this.getTabGroupPanels(panelId)
+    const index = panels.findIndex((panel) => panel.id === panelId)
+    return panels.slice(index + 1).filter((panel) => !panel.pinned)
+  }
+
+  /**
+   * Tabs closed by closeSavedPanels (pinned tabs are kept)
+   */
+  public getSavedPanels(panelId: string): PanelNode[] {
+    return this.getTabGroupPanels(panelId).filter((panel) => !panel.dirty && !panel.pinned)
+  }
+
+  /**
+   * Get the panels of the tab group holding a panel (just the panel when
+   * it is not in a tab group)
+   */
+  public getTabGroupPanels(panelId: string): PanelNode[] {
+    const parentTab = this.getParentTabContainerInTree(this.state.root, panelId)
+    if (parentTab) return [...parentTab.panels]
+    const panel = this.findPanel(panelId)
+    return panel ? [panel] : []
+  }
+
+  /**
+   * Replace the layout with a serialized one
+   *
+   * Panels with the same id and content key are kept; the others are
+   * closed through the close guards first. Resolves to false when a guard
+   * vetoes it or the layout has no panels.
+   */
+  public loadLayout(layout: SerializedDockLayout): Promise<boolean> {
+    if (this.pendingClose) return Promise.resolve(false)
+    const root = deserializeDockNode(layout.root)
+    if (!root) return Promise.resolve(false)
+    const floating = deserializeFloatingPanels(layout.floating)
+
+    const next = this.getPanelsById(root, floating)
+    const closing = this.getAllPanels().filter((panel) => !this.hasSamePanel(next, panel))
+    return this.runCloseGuards(closing, () =>
+      this.applyLayout(root, floating, layout.maximizedPanelId),
+    )
+  }
+
+  private runCloseGuards(panels: ReadonlyArray<PanelNode>, close: () => void): Promise<boolean> {
+    const pending = (async () => {
+      if (panels.length > 0) {
+        for (const guard of [...this.closeGuards]) {
+          if (!(await guard(panels))) return false
         }
       }
-      return node
+      close()
+      return true
+    })().finally(() => {
+      this.pendingClose = null
     })
+    this.pendingClose = pending
+    return pending
+  }
+
+  private getPanelsById(
+    root: DockNode,
+    floating: ReadonlyArray<FloatingPanelNode>,
+  ): Map<string, PanelNode> {
+    const panels = [...this.collectPanels(root), ...floating.map((f) => f.panel)]
+    return new Map(panels.map((panel) => [panel.id, panel]))
+  }
+
+  private hasSamePanel(panels: Map<string, PanelNode>, panel: PanelNode): boolean {
+    return panels.get(panel.id)?.contentKey === panel.contentKey
+  }
+
+  private applyLayout(
+    root: DockNode,
+    floating: ReadonlyArray<FloatingPanelNode>,
+    maximizedPanelId: string | null,
+  ): void {
+    const previous = new Map(this.getAllPanels().map((panel) => [panel.id, panel]))
+
+    // Kept panels keep their content and unsaved state
+    const mergePanel = (panel: PanelNode): PanelNode => {
+      const kept = previous.get(panel.id)
+      if (kept?.contentKey !== panel.contentKey) return panel
+      return { ...panel, content: kept.content, dirty: kept.dirty }
+    }
+    const merge = (node: DockNode): DockNode => {
+      if (node.type === "container") {
+        return { ...node, first: merge(node.first), second: merge(node.second) }
+      }
+      if (node.type === "tabContainer") {
+        return { ...node, panels: node.panels.map(mergePanel) }
+      }
+      return mergePanel(node)
+    }
+    const merged = merge(root)
+    const mergedFloating = floating.map((f) => ({ ...f, panel: mergePanel(f.panel) }))
+
+    const next = this.getPanelsById(merged, mergedFloating)
+    const removed = [...previous.values()].filter((panel) => !this.hasSamePanel(next, panel))
+    const maximizedNode =
+      maximizedPanelId !== null ? this.findNodeById(merged, maximizedPanelId) : null
+    this.state = {
+      ...this.state,
+      root: merged,
+      activePanels: this.recalcActivePanels(merged),
+      maximizedPanelId: maximizedNode?.type === "panel" ? maximizedNode.id : null,
+      floating: mergedFloating,
+    }
+
+    for (const panel of removed) {
+      this.emit("panelRemoved", panel.id, this.getState())
+    }
+    for (const panel of this.getAllPanels()) {
+      if (previous.get(panel.id)?.contentKey !== panel.contentKey) {
+        this.emit("panelAdded", panel, this.getState())
+      }
+    }
+    this.emit("layoutChanged", this.getState())
+  }
+
+  public editPanel(id: string, content: string, contentKey?: string): boolean {
+    const nodeToEdit = this.findPanel(id)
+    if (!nodeToEdit) return false
+
+    const updated = this.updatePanel(id, (node) => ({
+      ...node,
+      content,
+      contentKey: contentKey !== undefined ? contentKey : node.contentKey,
+    }))
 
     if (!updated) return false
 
-    this.state = { ...this.state, root: updated }
     this.emit("panelEdited", { ...nodeToEdit, content, contentKey } as PanelNode, this.getState())
     return true
   }
 
   public updatePanelContentKey(id: string, contentKey: string): boolean {
-    const nodeToEdit = this.findNodeById(this.state.root, id)
-    if (!nodeToEdit || nodeToEdit.type !== "panel") return false
+    const nodeToEdit = this.findPanel(id)
+    if (!nodeToEdit) return false
 
-    const updated = this.updateNode(this.state.root, id, (node) => {
-      if (node.type === "panel") {
-        return { ...node, contentKey }
-      }
-      return node
-    })
+    if (!this.updatePanel(id, (node) => ({ ...node, contentKey }))) return false
 
-    if (!updated) return false
+    this.emit("panelEdited", { ...nodeToEdit, contentKey }, this.getState())
+    return true
+  }
 
-    this.state = { ...this.state, root: updated }
-    this.emit("panelEdited", { ...nodeToEdit, contentKey } as PanelNode, this.getState())
+  public setPanelDirty(id: string, dirty: boolean): boolean {
+    const nodeToEdit = this.findPanel(id)
+    if (!nodeToEdit) return false
+    if ((nodeToEdit.dirty ?? false) === dirty) return true
+
+    if (!this.updatePanel(id, (node) => ({ ...node, dirty }))) return false
+
+    this.emit("panelEdited", { ...nodeToEdit, dirty }, this.getState())
     return true
   }
 
-  public updatePanelTitle(id: string, title: string): boolean {
-    const nodeToEdit = this.findNodeById(this.state.root, id)
-    if (!nodeToEdit || nodeToEdit.type !== "panel") return false
+  /**
+   * Pin or unpin a tab (pinned tabs move in front of their group)
+   */
+  public setPanelPinned(id: string, pinned: boolean): boolean {
+    const nodeToEdit = this.findPanel(id)
+    if (!nodeToEdit) return false
+    if ((nodeToEdit.pinned ?? false) === pinned) return true
+
+    if (!this.updatePanel(id, (node) => ({ ...node, pinned }))) return false
 
-    const updated = this.updateNode(this.state.root, id, (node) => {
-      if (node.type === "panel") {
-        return { ...node, title }
+    const parentTab = this.getParentTabContainerInTree(this.state.root, id)
+    if (parentTab) {
+      const updated = this.updateNode(this.state.root, parentTab.id, (node) => {
+        if (node.type !== "tabContainer") return node
+        const panels = [
+          ...node.panels.filter((panel) => panel.pinned),
+          ...node.panels.filter((panel) => !panel.pinned),
+        ]
+        return { ...node, panels }
+      })
+      if (updated) {
+        this.state = { ...this.state, root: updated }
       }
-      return node
-    })
+    }
 
-    if (!updated) return false
+    this.emit("panelEdited", { ...nodeToEdit, pinned }, this.getState())
+    this.emit("layoutChanged", this.getState())
+    return true
+  }
 
-    this.state = { ...this.state, root: updated }
-    this.emit("panelEdited", { ...nodeToEdit, title } as PanelNode, this.getState())
+  public updatePanelTitle(id: string, title: string): boolean {
+    const nodeToEdit = this.findPanel(id)
+    if (!nodeToEdit) return false
+
+    if (!this.updatePanel(id, (node) => ({ ...node, title }))) return false
+
+    this.emit("panelEdited", { ...nodeToEdit, title }, this.getState())
     this.emit("layoutChanged", this.getState())
     return true
   }
@@ -263,8 +571,10 @@ export class DockingManager {
     if (this.isAnyPanelMaximized()) return false
     if (sourceId === targetId) return false
 
-    const sourceNode = this.findNodeById(this.state.root, sourceId)
-    if (!sourceNode || sourceNode.type !== "panel") return false
+    // Floating panels are docked again by dropping them onto the dock
+    const sourceNode = this.findPanel(sourceId)
+    if (!sourceNode) return false
+    const floating = this.withoutFloatingPanel(sourceId)
 
     if (position === "tab-before" || position === "tab-after" || position === "tab-into") {
       const targetParentTab = this.getParentTabContainerInTree(this.state.root, targetId)
@@ -284,11 +594,7 @@ export class DockingManager {
         return true
       }
 
-      const { newTree: treeWithoutSource, updatedActivePanels } = this.removeNodeFromTree(
-        this.state.root,
-        sourceId,
-        this.state.activePanels,
-      )
+      const { newTree: treeWithoutSource, updatedActivePanels } = this.detachPanel(sourceId)
 
       if (!treeWithoutSource) return false
 
@@ -314,17 +620,13 @@ export class DockingManager {
 
       const activePanels = this.recalcActivePanels(updatedTree, updatedActivePanels)
 
-      this.state = { ...this.state, root: updatedTree, activePanels }
+      this.state = { ...this.state, root: updatedTree, activePanels, floating }
       this.emit("panelMoved", sourceId, targetId, position, this.getState())
       this.emit("layoutChanged", this.getState())
       return true
     }
 
-    const { newTree: treeWithoutSource, updatedActivePanels } = this.removeNodeFromTree(
-      this.state.root,
-      sourceId,
-      this.state.activePanels,
-    )
+    const { newTree: treeWithoutSource, updatedActivePanels } = this.detachPanel(sourceId)
 
     if (!treeWithoutSource) return false
 
@@ -335,7 +637,7 @@ export class DockingManager {
 
     const activePanels = this.recalcActivePanels(updatedTree, updatedActivePanels)
 
-    this.state = { ...this.state, root: updatedTree, activePanels }
+    this.state = { ...this.state, root: updatedTree, activePanels, floating }
     this.emit("panelMoved", sourceId, targetId, position, this.getState())
     this.emit("layoutChanged", this.getState())
     return true
@@ -354,9 +656,23 @@ export class DockingManager {
     return true
   }
 
+  /**
+   * Show a panel in its tab group and make it the most recent panel
+   *
+   * Panels outside a tab group are always shown, so they only become the
+   * most recent panel.
+   */
   public activatePanel(panelId: string): boolean {
     const parentTab = this.getParentTabContainerInTree(this.state.root, panelId)
-    if (!parentTab) return false
+    if (!parentTab) {
+      if (this.findNodeById(this.state.root, panelId)?.type !== "panel") return false
+      this.touchRecentPanel(panelId)
+      return true
+    }
+    if (parentTab.activeId === panelId) {
+      this.touchRecentPanel(panelId)
+      return true
+    }
 
     const updated = this.updateNode(this.state.root, parentTab.id, (node) => {
       if (node.type === "tabContainer") {
@@ -369,7 +685,10 @@ export class DockingManager {
 
     const activePanels = { ...this.state.activePanels, [parentTab.id]: panelId }
     this.state = { ...this.state, root: updated, activePanels }
+    this.touchRecentPanel(panelId)
     this.emit("activePanelChanged", panelId, parentTab.id, this.getState())
+    // The active tab is part of the saved layout
+    this.emit("layoutChanged", this.getState())
     return true
   }
 
@@ -392,6 +711,179 @@ export class DockingManager {
     return true
   }
 
+  /**
+   * Move a tab out of its tab group, into a split beside the group
+   *
+   * The panel keeps its id, so its content stays mounted (see PanelContentSlot).
+   */
+  public splitPanel(panelId: string, direction: "right" | "down"): boolean {
+    const parentTab = this.getParentTabContainerInTree(this.state.root, panelId)
+    if (!parentTab || parentTab.panels.length < 2) return false
+    return this.movePanel(panelId, parentTab.id, direction === "right" ? "right" : "bottom")
+  }
+
+  /**
+   * Take a docked panel out of the split tree into a floating window
+   *
+   * The last docked panel cannot float.
+   */
+  public floatPanel(panelId: string, rect?: FloatingRect): boolean {
+    if (this.isAnyPanelMaximized()) return false
+
+    const panel = this.findNodeById(this.state.root, panelId)
+    if (!panel || panel.type !== "panel") return false
+
+    const { newTree: removed, updatedActivePanels } = this.removeNodeFromTree(
+      this.state.root,
+      panelId,
+      this.state.activePanels,
+    )
+    if (!removed) return false
+
+    const rebalanced = this.rebalanceTree(removed)
+    const activePanels = this.recalcActivePanels(rebalanced, updatedActivePanels)
+    const cascade = (this.state.floating.length % 8) * FLOATING_CASCADE_OFFSET
+    const floating: FloatingPanelNode = {
+      panel,
+      rect: rect ?? { x: 48 + cascade, y: 48 + cascade, ...DEFAULT_FLOATING_SIZE },
+      poppedOut: false,
+    }
+
+    this.state = {
+      ...this.state,
+      root: rebalanced,
+      activePanels,
+      floating: [...this.state.floating, floating],
+    }
+    this.touchRecentPanel(panelId)
+    this.emit("panelFloated", panelId, this.getState())
+    this.emit("layoutChanged", this.getState())
+    return true
+  }
+
+  /**
+   * Show a panel in a separate browser window (docked panels float first)
+   */
+  public popOutPanel(panelId: string): boolean {
+    if (!this.findFloatingPanel(panelId) && !this.floatPanel(panelId)) return false
+    return this.updateFloatingPanel(panelId, (floating) => ({ ...floating, poppedOut: true }))
+  }
+
+  /**
+   * Bring a popped-out panel back over the dock area
+   */
+  public popInPanel(panelId: string): boolean {
+    return this.updateFloatingPanel(panelId, (floating) => ({ ...floating, poppedOut: false }))
+  }
+
+  /**
+   * Return a floating panel to the split tree, next to the other panels
+   */
+  public dockPanel(panelId: string): boolean {
+    const floating = this.findFloatingPanel(panelId)
+    if (!floating) return false
+
+    const root = this.insertPanelAtRoot(this.state.root, floating.panel)
+    const activePanels = this.recalcActivePanels(root, this.state.activePanels)
+    this.state = { ...this.state, root, activePanels, floating: this.withoutFloatingPanel(panelId) }
+    this.touchRecentPanel(panelId)
+    this.emit("panelDocked", panelId, this.getState())
+    this.emit("layoutChanged", this.getState())
+    return true
+  }
+
+  public moveFloatingPanel(panelId: string, rect: FloatingRect): boolean {
+    return this.updateFloatingPanel(panelId, (floating) => ({ ...floating, rect: { ...rect } }))
+  }
+
+  /**
+   * Show a floating panel in front of the other floating panels
+   */
+  public raiseFloatingPanel(panelId: string): boolean {
+    const floating = this.findFloatingPanel(panelId)
+    if (!floating) return false
+    this.touchRecentPanel(panelId)
+    if (this.state.floating.at(-1) === floating) return true
+
+    this.state = { ...this.state, floating: [...this.withoutFloatingPanel(panelId), floating] }
+    this.emit("layoutChanged", this.getState())
+    return true
+  }
+
+  private touchRecentPanel(panelId: string): void {
+    this.recentPanelIds = [panelId, ...this.recentPanelIds.filter((id) => id !== panelId)]
+  }
+
+  private findFloatingPanel(panelId: string): FloatingPanelNode | null {
+    return this.state.floating.find((floating) => floating.panel.id === panelId) ?? null
+  }
+
+  private withoutFloatingPanel(panelId: string): FloatingPanelNode[] {
+    return this.state.floating.filter((floating) => floating.panel.id !== panelId)
+  }
+
+  private updateFloatingPanel(
+    panelId: string,
+    updateFn: (floating: FloatingPanelNode) => FloatingPanelNode,
+  ): boolean {
+    if (!this.findFloatingPanel(panelId)) return false
+
+    const floating = this.state.floating.map((f) => (f.panel.id === panelId ? updateFn(f) : f))
+    this.state = { ...this.state, floating }
+    this.emit("layoutChanged", this.getState())
+    return true
+  }
+
+  /**
+   * Find a docked or floating panel
+   */
+  private findPanel(id: string): PanelNode | null {
+    const node = this.findNodeById(this.state.root, id)
+    if (node?.type === "panel") return node
+    return this.findFloatingPanel(id)?.panel ?? null
+  }
+
+  /**
+   * Replace a docked or floating panel
+   */
+  private updatePanel(id: string, updateFn: (panel: PanelNode) => PanelNode): boolean {
+    if (this.findFloatingPanel(id)) {
+      const floating = this.state.floating.map((f) =>
+        f.panel.id === id ? { ...f, panel: updateFn(f.panel) } : f,
+      )
+      this.state = { ...this.state, floating }
+      return true
+    }
+
+    const updated = this.updateNode(this.state.root, id, (node) =>
+      node.type === "panel" ? updateFn(node) : node,
+    )
+    if (!updated) return false
+
+    this.state = { ...this.state, root: updated }
+    return true
+  }
+
+  /**
+   * Take a panel out of the split tree for a move (floating panels are
+   * not in the tree)
+   */
+  private detachPanel(id: string): {
+    newTree: DockNode | null
+    updatedActivePanels: { [key: string]: string }
+  } {
+    if (this.findFloatingPanel(id)) {
+      return { newTree: this.state.root, updatedActivePanels: this.state.activePanels }
+    }
+    return this.removeNodeFromTree(this.state.root, id, this.state.activePanels)
+  }
+
+  private collectPanels(node: DockNode): PanelNode[] {
+    if (node.type === "panel") return [node]
+    if (node.type === "tabContainer") return [...node.panels]
+    return [...this.collectPanels(node.first), ...this.collectPanels(node.second)]
+  }
+
   private createInitialLayout(): DockNode {
     return {
       id: createIdBySeed("initial-panel"),
@@ -0,0 +1,62 @@
+interface PanelContentHost {
+  element: HTMLElement
+  // Slots showing the panel, the last one holds the element
+  slots: HTMLElement[]
+}
+
+/**
+ * Elements the content of each panel is rendered into
+ *
+ * The content stays mounted in its element while the panel moves between
+ * the dock, a floating window and a popup; only the element moves into
+ * the slot that currently shows the panel.
+ */
+export class PanelContentHosts {
+  private hosts = new Map<string, PanelContentHost>()
+
+  /**
+   * Get the element of a panel, created on first use
+   */
+  public getElement(panelId: string): HTMLElement {
+    return this.getHost(panelId).element
+  }
+
+  /**
+   * Show the content of a panel in a slot
+   *
+   * Returns a function that takes the content out of the slot again; it
+   * goes back to the slot attached before, if that one is still shown.
+   */
+  public attach(panelId: string, slot: HTMLElement): () => void {
+    const host = this.getHost(panelId)
+    host.slots.push(slot)
+    slot.appendChild(host.element)
+
+    return () => {
+      host.slots = host.slots.filter((s) => s !== slot)
+      if (host.element.parentNode !== slot) return
+      slot.removeChild(host.element)
+      host.slots.at(-1)?.appendChild(host.element)
+    }
+  }
+
+  /**
+   * Forget the elements of panels that are no longer open
+   */
+  public retain(panelIds: ReadonlySet<string>): void {
+    for (const panelId of this.hosts.keys()) {
+      if (!panelIds.has(panelId)) this.hosts.delete(panelId)
+    }
+  }
+
+  private getHost(panelId: string): PanelContentHost {
+    let host = this.hosts.get(panelId)
+    if (!host) {
+      const element = document.createElement("div")
+      element.className = "h-full w-full"
+      host = { element, slots: [] }
+      this.hosts.set(panelId, host)
+    }
+    return host
+  }
+}
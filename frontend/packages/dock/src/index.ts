@@ -7,11 +7,26 @@ export { DockPanel } from "./components/DockPanel"
 export { DockTabContainer } from "./components/DockTabContainer"
 export { DockTabLabel } from "./components/DockTabLabel"
 export { DropIndicator } from "./components/DropIndicator"
+export { FloatingPanel } from "./components/FloatingPanel"
+export { FloatingPanels } from "./components/FloatingPanels"
 export { NodeRenderer } from "./components/NodeRenderer"
+export { PanelContentSlot } from "./components/PanelContentSlot"
 export { PanelPreview } from "./components/PanelPreview"
+export { PopoutPanel } from "./components/PopoutPanel"
+export { TabContextMenu } from "./components/TabContextMenu"
 export { TabDropIndicator } from "./components/TabDropIndicator"
+export { TabOverflowMenu } from "./components/TabOverflowMenu"
 export { TabPreview } from "./components/TabPreview"
+export { TabSwitcher } from "./components/TabSwitcher"
 export { DockingManager } from "./core/DockingManager"
+export {
+  DOCK_LAYOUT_VERSION,
+  deserializeDockNode,
+  deserializeFloatingPanels,
+  parseDockLayout,
+  serializeDockLayout,
+  serializeDockNode,
+} from "./core/DockLayout"
 
 // Types
 export type {
@@ -21,10 +36,20 @@ export type {
   DockingPosition,
   DockingState,
   DockNode,
+  FloatingPanelNode,
+  FloatingRect,
+  PanelCloseGuard,
   PanelContent,
   PanelNode,
+  SerializedContainerNode,
+  SerializedDockLayout,
+  SerializedDockNode,
+  SerializedFloatingPanel,
+  SerializedPanelNode,
+  SerializedTabContainerNode,
   TabContainerNode,
   TabInfo,
+  TabMenuItem,
 } from "./types"
 
 // Utils
@@ -36,4 +61,5 @@ export {
   createIdBySeed,
   getName,
   isPanelComponent,
+  renderPanelContent,
 } from "./utils"
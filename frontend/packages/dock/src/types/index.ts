@@ -17,6 +17,10 @@ export interface PanelNode {
   title?: string
   content: React.ReactNode
   contentKey: string
+  /** Whether the content has unsaved changes (marked on the tab) */
+  dirty?: boolean
+  /** Pinned tabs stay in front of their group and out of bulk closes */
+  pinned?: boolean
 }
 
 export interface ContainerNode {
@@ -37,11 +41,83 @@ export interface TabContainerNode {
 
 export type DockNode = PanelNode | ContainerNode | TabContainerNode
 
+/**
+ * Position and size of a floating panel (px, relative to the dock area)
+ */
+export interface FloatingRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Panel shown outside the split tree, over the dock area or in its own
+ * browser window
+ */
+export interface FloatingPanelNode {
+  panel: PanelNode
+  rect: FloatingRect
+  /** Whether the panel is shown in a separate browser window */
+  poppedOut: boolean
+}
+
 export interface DockingState {
   root: DockNode
   activePanels: { [key: string]: string }
   instanceId: symbol
   maximizedPanelId: string | null
+  /** Floating panels, back to front */
+  floating: FloatingPanelNode[]
+}
+
+/**
+ * Panel of a serialized layout (the content is left out, panels are
+ * bound to their content again by contentKey)
+ */
+export interface SerializedPanelNode {
+  id: string
+  type: "panel"
+  title?: string
+  contentKey: string
+  pinned?: boolean
+}
+
+export interface SerializedContainerNode {
+  id: string
+  type: "container"
+  splitDirection: "horizontal" | "vertical"
+  first: SerializedDockNode
+  second: SerializedDockNode
+  size: number
+}
+
+export interface SerializedTabContainerNode {
+  id: string
+  type: "tabContainer"
+  panels: SerializedPanelNode[]
+  activeId?: string
+}
+
+export type SerializedDockNode =
+  | SerializedPanelNode
+  | SerializedContainerNode
+  | SerializedTabContainerNode
+
+export interface SerializedFloatingPanel {
+  panel: SerializedPanelNode
+  rect: FloatingRect
+  poppedOut: boolean
+}
+
+/**
+ * JSON form of a dock layout, independent of React content
+ */
+export interface SerializedDockLayout {
+  version: number
+  root: SerializedDockNode
+  maximizedPanelId: string | null
+  floating: SerializedFloatingPanel[]
 }
 
 export type DndState =
@@ -62,6 +138,25 @@ export interface PanelContent {
   content: React.ReactNode
 }
 
+/**
+ * Check run before panels are closed by the user
+ *
+ * Receives every panel closed together (e.g. all tabs of a group), so a
+ * single confirmation can cover them. Resolves to false to keep the
+ * panels open.
+ */
+export type PanelCloseGuard = (panels: ReadonlyArray<PanelNode>) => boolean | Promise<boolean>
+
+/**
+ * Entry the app adds to the tab context menu (e.g. file actions)
+ */
+export interface TabMenuItem {
+  id: string
+  label: string
+  disabled?: boolean
+  onSelect: () => void
+}
+
 export interface DockingContextValue {
   manager: DockingManager
   onRemove: (id: string) => void
@@ -76,4 +171,8 @@ export interface DockingContextValue {
   onRestorePanel: () => void
   isMaximized: (id: string) => boolean
   isAnyPanelMaximized: () => boolean
+  onFloatPanel: (id: string) => void
+  onPopOutPanel: (id: string) => void
+  onDockPanel: (id: string) => void
+  getTabMenuItems: (panel: PanelNode) => TabMenuItem[]
 }
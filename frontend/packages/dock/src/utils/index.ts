@@ -1,6 +1,6 @@
 import { customAlphabet, customRandom } from "nanoid"
 import React from "react"
-import type { DockingPosition, TabInfo } from "../types"
+import type { DockingPosition, PanelContent, PanelNode, TabInfo } from "../types"
 
 // ID Generation utilities
 function gnrng(seed: string): () => number {
@@ -230,3 +230,22 @@ export function isPanelComponent(
   const props = component.props as Record<string, unknown>
   return props["data-component"] === "panel"
 }
+
+/**
+ * Content shown in a panel: the available content of its key (panel
+ * components receive the panel id), or the panel's own content
+ */
+export function renderPanelContent(
+  panel: PanelNode,
+  availableContents: PanelContent[],
+): React.ReactNode {
+  const selectedContent = availableContents.find((c) => c.key === (panel.contentKey ?? "default"))
+  if (!selectedContent) return panel.content
+  // key prop ensures React creates new component instance when switching between different files
+  return isPanelComponent(selectedContent.content)
+    ? React.cloneElement(selectedContent.content, {
+        key: selectedContent.key,
+        panelId: panel.id,
+      })
+    : selectedContent.content
+}
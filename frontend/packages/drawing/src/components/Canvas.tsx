@@ -1,28 +1,284 @@
-import { type Ref, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react"
-import type { Point, Stroke } from "../types"
+import {
+  type Ref,
+  useCallback,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from "react"
+import { match } from "ts-pattern"
+import { drawElement } from "../core/ElementRenderer"
+import { applyViewport, ElementRasterCache } from "../core/RasterCache"
+import {
+  applyTransform,
+  boundsFromPoints,
+  findElementAt,
+  getElementsInLasso,
+  getElementsInRect,
+  getHandlePositions,
+  getResizeTransform,
+  getRotateTransform,
+  getSelectionBounds,
+  HANDLE_SIZE,
+  hitTestHandle,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  type SelectionHandle,
+  type Transform,
+  transformElement,
+  translation,
+} from "../core/Selection"
+import { constrainShapePoint, isShapeValid } from "../core/ShapeGeometry"
+import { drawShape } from "../core/ShapeRenderer"
+import { drawStroke } from "../core/StrokeRenderer"
+import { getSmoothingOptions, simplifyPoints, stabilizePoint } from "../core/StrokeSmoothing"
+import { hitTestText } from "../core/TextRenderer"
+import { type Bounds, panBy, screenToWorld, worldToScreen, zoomAt } from "../core/Viewport"
+import {
+  DEFAULT_VIEWPORT,
+  type DrawingElement,
+  type EraserMode,
+  generateElementId,
+  isText,
+  type Layer,
+  type Point,
+  type SelectionMode,
+  type Shape,
+  type ShapeKind,
+  type SmoothingLevel,
+  type Stroke,
+  type StrokeInterpolation,
+  type TextElement,
+  type Viewport,
+} from "../types"
+import { TextEditor } from "./TextEditor"
 
 /**
- * Current stroke being drawn (mutable for performance)
+ * Current stroke being drawn (mutable for performance, kept in a ref)
  */
 interface CurrentStroke {
   points: Point[]
   color: string
   width: number
+  interpolation: StrokeInterpolation
 }
 
+/**
+ * Shape being drawn (rubber-band preview)
+ *
+ * For drag shapes `points` holds the anchor and the current corner/end.
+ * For polygons it holds the placed vertices, and `cursor` the
+ * position of the next vertex.
+ */
+interface ShapeDraft {
+  kind: ShapeKind
+  points: Point[]
+  cursor: Point
+  color: string
+  width: number
+  fill: string | null
+}
+
+/**
+ * Eraser gesture in progress (trail shown on the overlay)
+ */
+interface EraserDraft {
+  points: Point[]
+  color: string
+  width: number
+}
+
+/**
+ * Trail color for the object eraser (elements are removed on release)
+ */
+const OBJECT_ERASER_TRAIL_COLOR = "rgba(128, 128, 128, 0.35)"
+
+/**
+ * Selection gesture in progress
+ *
+ * A marquee collects a box (first and last point) or lasso outline in
+ * world coordinates. A transform previews moving, resizing or rotating
+ * the grabbed elements; `moved` is set once the pointer has moved.
+ */
+type SelectionGesture =
+  | { type: "marquee"; mode: SelectionMode; points: Point[]; additive: boolean }
+  | {
+      type: "transform"
+      handle: SelectionHandle | "move"
+      start: Point
+      bounds: Bounds
+      elements: ReadonlyArray<DrawingElement>
+      transform: Transform
+      moved: boolean
+    }
+
+/**
+ * Color of the selection box, handles and marquee
+ */
+const SELECTION_COLOR = "rgb(59, 130, 246)"
+
+/**
+ * Distance (screen pixels) within which a click selects an element
+ */
+const SELECTION_HIT_TOLERANCE = 4
+
+/**
+ * Arrow key nudge distance in screen pixels (Shift for the large step)
+ */
+const NUDGE_STEP = 1
+const NUDGE_STEP_LARGE = 10
+
+/**
+ * Nudge direction per arrow key
+ */
+const NUDGE_DIRECTIONS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 },
+}
+
+/**
+ * Trace a closed path through screen points
+ */
+function traceOutline(ctx: CanvasRenderingContext2D, points: ReadonlyArray<Point>): void {
+  ctx.beginPath()
+  points.forEach((point, index) => {
+    if (index === 0) {
+      ctx.moveTo(point.x, point.y)
+    } else {
+      ctx.lineTo(point.x, point.y)
+    }
+  })
+  ctx.closePath()
+}
+
+/**
+ * Draw the transform box with its handles (screen coordinates)
+ */
+function drawSelectionBox(
+  ctx: CanvasRenderingContext2D,
+  corners: ReadonlyArray<Point>,
+  handles: Record<SelectionHandle, Point> | null,
+): void {
+  ctx.strokeStyle = SELECTION_COLOR
+  ctx.lineWidth = 1
+  ctx.setLineDash([4, 4])
+  traceOutline(ctx, corners)
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  if (!handles) return
+
+  ctx.beginPath()
+  ctx.moveTo(handles.n.x, handles.n.y)
+  ctx.lineTo(handles.rotate.x, handles.rotate.y)
+  ctx.stroke()
+
+  ctx.fillStyle = "white"
+  for (const [handle, position] of Object.entries(handles)) {
+    ctx.beginPath()
+    if (handle === "rotate") {
+      ctx.arc(position.x, position.y, HANDLE_SIZE / 2, 0, Math.PI * 2)
+    } else {
+      ctx.rect(position.x - HANDLE_SIZE / 2, position.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE)
+    }
+    ctx.fill()
+    ctx.stroke()
+  }
+}
+
+/**
+ * Text element being created (id null) or edited
+ */
+interface TextEdit {
+  id: string | null
+  x: number
+  y: number
+  text: string
+  fontSize: number
+  color: string
+}
+
+/**
+ * Find the topmost text element at a world point
+ */
+function findTextAt(elements: ReadonlyArray<DrawingElement>, point: Point): TextElement | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i]
+    if (element && isText(element) && hitTestText(element, point)) {
+      return element
+    }
+  }
+  return null
+}
+
+/**
+ * Distance (screen pixels) within which a click on the first vertex closes a polygon
+ */
+const POLYGON_CLOSE_DISTANCE = 8
+
+/**
+ * Active viewport gesture
+ */
+type ViewportGesture =
+  | { type: "pan"; pointerId: number; lastX: number; lastY: number }
+  | { type: "pinch"; distance: number; midX: number; midY: number }
+
+/**
+ * Zoom speed for wheel and trackpad pinch (per pixel of wheel delta)
+ */
+const WHEEL_ZOOM_SPEED = 0.0015
+
+/**
+ * Pixels per line when the wheel reports deltas in lines
+ */
+const WHEEL_LINE_HEIGHT = 16
+
 export interface CanvasProps {
-  /** Completed strokes to render */
-  strokes: ReadonlyArray<Stroke>
+  /** Editable elements (the active layer); also rendered when `layers` is omitted */
+  elements: ReadonlyArray<DrawingElement>
+  /** Layers to render, bottom to top (must include the editable elements) */
+  layers?: ReadonlyArray<Layer>
   /** Current stroke color */
   strokeColor: string
   /** Current stroke width */
   strokeWidth: number
+  /** Shape to draw instead of freehand strokes (null for freehand) */
+  shapeKind?: ShapeKind | null
+  /** Fill color for new shapes (null for outline only) */
+  fillColor?: string | null
+  /** Eraser mode; when set, dragging erases instead of drawing */
+  eraserMode?: EraserMode | null
+  /** Selection mode; when set, clicks and drags select and transform elements */
+  selectionMode?: SelectionMode | null
+  /** IDs of the selected elements */
+  selectedIds?: ReadonlySet<string>
+  /** Whether clicks place text instead of drawing */
+  textTool?: boolean
+  /** Font size for new text elements */
+  fontSize?: number
+  /** Stroke smoothing level applied to new strokes */
+  smoothing?: SmoothingLevel
+  /** Viewport transform (world to screen) */
+  viewport?: Viewport
+  /** Callback when the user zooms or pans */
+  onViewportChange?: (viewport: Viewport) => void
   /** Canvas background color */
   backgroundColor?: string
   /** Whether drawing is enabled */
   enabled?: boolean
-  /** Callback when stroke is completed */
-  onStrokeComplete?: (stroke: Stroke) => void
+  /** Callback when a stroke or shape is completed */
+  onElementComplete?: (element: DrawingElement) => void
+  /** Callback when an eraser gesture ends (path in world coordinates) */
+  onErase?: (path: ReadonlyArray<Point>, radius: number) => void
+  /** Callback when the selection changes */
+  onSelectionChange?: (ids: ReadonlySet<string>) => void
+  /** Callback when selected elements are moved, resized or rotated (once per gesture) */
+  onElementsTransform?: (elements: ReadonlyArray<DrawingElement>) => void
+  /** Callback when an existing element is edited (null removes it) */
+  onElementUpdate?: (id: string, element: DrawingElement | null) => void
   /** Ref for imperative handle */
   ref?: Ref<CanvasHandle>
 }
@@ -32,84 +288,327 @@ export interface CanvasHandle {
   redraw: () => void
   /** Get canvas element */
   getCanvas: () => HTMLCanvasElement | null
+  /** Get the visible area size in CSS pixels */
+  getViewportSize: () => { width: number; height: number }
 }
 
 /**
- * Generate unique stroke ID
+ * Layer ID used when the canvas renders plain elements without layers
  */
-function generateStrokeId(): string {
-  return `stroke-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
-}
+const DEFAULT_LAYER_ID = "default"
+
+/**
+ * Empty selection (shared so it does not change between renders)
+ */
+const NO_SELECTION: ReadonlySet<string> = new Set()
 
 /**
  * Canvas component for freehand drawing
  *
  * Uses HTML5 Canvas API with high DPI support.
- * Handles mouse events for drawing strokes.
+ * Rendering is split into two layers: committed elements come from
+ * per-layer raster caches that only change with their element lists,
+ * and the live stroke or shape is drawn on an overlay canvas once per
+ * animation frame. Drawing, selection and erasing only affect
+ * `elements` (the active layer).
+ * Handles pointer events (mouse, touch and pen) for drawing strokes,
+ * capturing the pointer so strokes continue outside the canvas bounds.
+ *
+ * With a shape kind selected, dragging draws a rubber-band shape (Shift
+ * constrains to 45° / squares / circles). Polygons are drawn by clicking
+ * vertices and closed by clicking the first vertex, double-clicking or
+ * pressing Enter; Escape cancels.
+ *
+ * The eraser reports its path on release; the precise eraser's trail is
+ * painted in the background color so erasing looks immediate.
+ *
+ * The selection tool selects by click (Shift toggles) or by dragging a
+ * box or lasso. The selection can be dragged, resized and rotated with
+ * the transform box handles (Shift keeps proportions / snaps angles),
+ * and nudged with the arrow keys while the canvas has focus. Each
+ * gesture is reported as one transform.
+ *
+ * The text tool opens an in-place editor on click; double-clicking an
+ * existing text element re-edits it with any tool.
+ *
+ * Strokes are stored in world coordinates and rendered through the
+ * viewport transform. Wheel pans (Ctrl/pinch zooms), and the view can be
+ * dragged with the middle button, Space + drag, or a two-finger pinch.
+ *
+ * Input goes through the smoothing pipeline: samples are stabilized
+ * while drawing, and the completed stroke is simplified (RDP) and
+ * tagged with the interpolation used to render it.
  */
 export function Canvas({
-  strokes,
+  elements,
+  layers,
   strokeColor,
   strokeWidth,
+  shapeKind = null,
+  fillColor = null,
+  eraserMode = null,
+  selectionMode = null,
+  selectedIds = NO_SELECTION,
+  textTool = false,
+  fontSize = 16,
+  smoothing = "off",
+  viewport = DEFAULT_VIEWPORT,
+  onViewportChange,
   backgroundColor = "#ffffff",
   enabled = true,
-  onStrokeComplete,
+  onElementComplete,
+  onElementUpdate,
+  onErase,
+  onSelectionChange,
+  onElementsTransform,
   ref,
 }: CanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const overlayRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
-  const isDrawingRef = useRef(false)
+  const cachesRef = useRef(new Map<string, ElementRasterCache>())
+  const pixelSizeRef = useRef({ width: 0, height: 0 })
+  const activePointerRef = useRef<number | null>(null)
+  const startTimeRef = useRef(0)
+  const lastSmoothedRef = useRef<Point | null>(null)
+  const lastRawRef = useRef<Point | null>(null)
+  const currentStrokeRef = useRef<CurrentStroke | null>(null)
+  const shapeDraftRef = useRef<ShapeDraft | null>(null)
+  const eraserDraftRef = useRef<EraserDraft | null>(null)
+  const selectionGestureRef = useRef<SelectionGesture | null>(null)
+  const frameRef = useRef<number | null>(null)
   const dprRef = useRef(1)
-  const [currentStroke, setCurrentStroke] = useState<CurrentStroke | null>(null)
+  const viewportRef = useRef(viewport)
+  viewportRef.current = viewport
+  const onViewportChangeRef = useRef(onViewportChange)
+  onViewportChangeRef.current = onViewportChange
+  const gestureRef = useRef<ViewportGesture | null>(null)
+  const touchPointsRef = useRef(new Map<number, { x: number; y: number }>())
+  const spaceHeldRef = useRef(false)
+  const [panCursor, setPanCursor] = useState<"grab" | "grabbing" | null>(null)
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null)
+  const textEditRef = useRef<TextEdit | null>(null)
+  textEditRef.current = textEdit
+  const [transformingIds, setTransformingIds] = useState<ReadonlySet<string> | null>(null)
+
+  const selectedElements = useMemo(
+    () => (selectedIds.size > 0 ? elements.filter((element) => selectedIds.has(element.id)) : []),
+    [elements, selectedIds],
+  )
+
+  // Without explicit layers, all elements form a single layer
+  const allLayers = useMemo<ReadonlyArray<Layer>>(
+    () =>
+      layers ?? [
+        { id: DEFAULT_LAYER_ID, name: "", visible: true, locked: false, opacity: 1, elements },
+      ],
+    [layers, elements],
+  )
+
+  // The element being edited is shown by the editor, and elements being
+  // transformed by the overlay preview, not by the base layer. Untouched
+  // layers keep their element lists so their caches stay valid.
+  const visibleLayers = useMemo(() => {
+    const editingId = textEdit?.id
+    const isHidden = (element: DrawingElement) =>
+      element.id === editingId || (transformingIds?.has(element.id) ?? false)
+
+    return allLayers
+      .filter((layer) => layer.visible)
+      .map((layer) =>
+        (editingId || transformingIds) && layer.elements.some(isHidden)
+          ? { ...layer, elements: layer.elements.filter((element) => !isHidden(element)) }
+          : layer,
+      )
+  }, [allLayers, textEdit?.id, transformingIds])
 
   /**
-   * Draw all strokes on canvas
+   * Report a new viewport (kept in a ref until the parent re-renders,
+   * so several events within one frame accumulate)
    */
-  const redraw = useCallback(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const changeViewport = useCallback((next: Viewport) => {
+    if (next === viewportRef.current) return
+    viewportRef.current = next
+    onViewportChangeRef.current?.(next)
+  }, [])
 
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
+  /**
+   * Get the raster cache of a layer (created lazily on the client)
+   */
+  const getCache = useCallback((layerId: string): ElementRasterCache => {
+    const existing = cachesRef.current.get(layerId)
+    if (existing) return existing
 
-    const dpr = dprRef.current
+    const cache = ElementRasterCache.create()
+    const { width, height } = pixelSizeRef.current
+    cache.resize(width, height, dprRef.current)
+    cachesRef.current.set(layerId, cache)
+    return cache
+  }, [])
+
+  /**
+   * Draw the in-progress stroke, shape or selection on the overlay layer
+   */
+  const renderOverlay = useCallback(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+
+    const ctx = overlay.getContext("2d")
+    if (!ctx) return
 
-    // Reset transform and clear
     ctx.setTransform(1, 0, 0, 1, 0, 0)
-    ctx.fillStyle = backgroundColor
-    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.clearRect(0, 0, overlay.width, overlay.height)
 
-    // Scale for high DPI
-    ctx.scale(dpr, dpr)
+    const currentStroke = currentStrokeRef.current
+    const shapeDraft = shapeDraftRef.current
+    const eraserDraft = eraserDraftRef.current
+    const selectionGesture = selectionGestureRef.current
+    if (
+      !currentStroke &&
+      !shapeDraft &&
+      !eraserDraft &&
+      !selectionGesture &&
+      selectedElements.length === 0
+    ) {
+      return
+    }
 
-    // Combine completed strokes with current stroke
-    const allStrokes: Array<{ points: ReadonlyArray<Point>; color: string; width: number }> =
-      currentStroke ? [...strokes, currentStroke] : [...strokes]
+    applyViewport(ctx, dprRef.current, viewportRef.current)
 
-    for (const stroke of allStrokes) {
-      if (stroke.points.length < 2) continue
+    if (eraserDraft) {
+      drawStroke(ctx, eraserDraft)
+    }
 
-      ctx.beginPath()
-      ctx.strokeStyle = stroke.color
-      ctx.lineWidth = stroke.width
-      ctx.lineCap = "round"
-      ctx.lineJoin = "round"
+    if (currentStroke) {
+      drawStroke(ctx, currentStroke)
+    }
 
-      const firstPoint = stroke.points[0]
-      if (firstPoint) {
-        ctx.moveTo(firstPoint.x, firstPoint.y)
-      }
+    if (shapeDraft) {
+      const isPolygon = shapeDraft.kind === "polygon"
+      const points = isPolygon ? [...shapeDraft.points, shapeDraft.cursor] : shapeDraft.points
+      drawShape(ctx, {
+        ...shapeDraft,
+        // A polygon with a single vertex previews as its first edge
+        kind: isPolygon && points.length < 3 ? "line" : shapeDraft.kind,
+        points,
+      })
+    }
 
-      for (let i = 1; i < stroke.points.length; i++) {
-        const point = stroke.points[i]
-        if (point) {
-          ctx.lineTo(point.x, point.y)
-        }
+    if (selectionGesture?.type === "transform" && selectionGesture.moved) {
+      for (const element of selectionGesture.elements) {
+        drawElement(ctx, transformElement(element, selectionGesture.transform))
       }
+    }
+
+    // Selection chrome is drawn in screen space so it keeps its size when zooming
+    const dpr = dprRef.current
+    const current = viewportRef.current
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
 
+    if (selectionGesture?.type === "marquee") {
+      const screenPoints = selectionGesture.points.map((point) =>
+        worldToScreen(current, point.x, point.y),
+      )
+      const [first] = screenPoints
+      const last = screenPoints[screenPoints.length - 1]
+      const outline =
+        selectionGesture.mode === "rectangle" && first && last
+          ? [first, { x: last.x, y: first.y }, last, { x: first.x, y: last.y }]
+          : screenPoints
+
+      ctx.strokeStyle = SELECTION_COLOR
+      ctx.fillStyle = SELECTION_COLOR
+      ctx.lineWidth = 1
+      ctx.setLineDash([4, 4])
+      traceOutline(ctx, outline)
+      ctx.globalAlpha = 0.08
+      ctx.fill()
+      ctx.globalAlpha = 1
       ctx.stroke()
+      ctx.setLineDash([])
+      return
+    }
+
+    if (selectionGesture?.type === "transform") {
+      const { minX, minY, maxX, maxY } = selectionGesture.bounds
+      const corners = [
+        { x: minX, y: minY },
+        { x: maxX, y: minY },
+        { x: maxX, y: maxY },
+        { x: minX, y: maxY },
+      ].map((corner) => {
+        const moved = applyTransform(selectionGesture.transform, corner)
+        return worldToScreen(current, moved.x, moved.y)
+      })
+      drawSelectionBox(ctx, corners, null)
+      return
+    }
+
+    const bounds = getSelectionBounds(selectedElements)
+    if (bounds) {
+      const handles = getHandlePositions(bounds, current)
+      drawSelectionBox(ctx, [handles.nw, handles.ne, handles.se, handles.sw], handles)
+    }
+  }, [selectedElements])
+
+  /**
+   * Schedule an overlay update for the next animation frame
+   *
+   * Multiple pointer events within one frame result in a single draw.
+   */
+  const scheduleOverlay = useCallback(() => {
+    if (frameRef.current !== null) return
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null
+      renderOverlay()
+    })
+  }, [renderOverlay])
+
+  /**
+   * Draw background and committed elements on the base layer
+   *
+   * Each drawing layer has its own raster cache, composited bottom to
+   * top with the layer opacity. Only elements that changed since the
+   * last sync are rasterized.
+   */
+  const renderBase = useCallback(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    // Drop caches of removed layers
+    const layerIds = new Set(allLayers.map((layer) => layer.id))
+    for (const id of cachesRef.current.keys()) {
+      if (!layerIds.has(id)) cachesRef.current.delete(id)
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.fillStyle = backgroundColor
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+    for (const layer of visibleLayers) {
+      const cache = getCache(layer.id)
+      cache.sync(layer.elements, viewport)
+      cache.drawTo(ctx, layer.opacity)
     }
-  }, [strokes, currentStroke, backgroundColor])
+  }, [allLayers, visibleLayers, viewport, backgroundColor, getCache])
+
+  /**
+   * Clear and redraw both layers from scratch
+   */
+  const redraw = useCallback(() => {
+    for (const cache of cachesRef.current.values()) {
+      cache.invalidate()
+    }
+    renderBase()
+    renderOverlay()
+  }, [renderBase, renderOverlay])
+
+  // Latest redraw for the resize observer (set up once)
+  const redrawRef = useRef(redraw)
+  redrawRef.current = redraw
 
   /**
    * Handle canvas resize
@@ -120,7 +619,8 @@ export function Canvas({
 
     const observer = new ResizeObserver(([entry]) => {
       const canvas = canvasRef.current
-      if (!canvas || !entry) return
+      const overlay = overlayRef.current
+      if (!canvas || !overlay || !entry) return
 
       const dpr = window.devicePixelRatio || 1
       dprRef.current = dpr
@@ -128,10 +628,18 @@ export function Canvas({
       const { width, height } = entry.contentRect
 
       // Set canvas internal resolution for high DPI
-      canvas.width = width * dpr
-      canvas.height = height * dpr
+      const pixelWidth = Math.round(width * dpr)
+      const pixelHeight = Math.round(height * dpr)
+      for (const layer of [canvas, overlay]) {
+        layer.width = pixelWidth
+        layer.height = pixelHeight
+      }
+      pixelSizeRef.current = { width: pixelWidth, height: pixelHeight }
+      for (const cache of cachesRef.current.values()) {
+        cache.resize(pixelWidth, pixelHeight, dpr)
+      }
 
-      redraw()
+      redrawRef.current()
     })
 
     observer.observe(container)
@@ -139,88 +647,850 @@ export function Canvas({
     return () => {
       observer.disconnect()
     }
-  }, [redraw])
+  }, [])
 
   /**
-   * Redraw when strokes change
+   * Update the base layer when elements change (and the overlay when
+   * the selection changes)
+   *
+   * A just-completed element is now part of the cache, so the overlay
+   * is cleared in the same pass to avoid a frame without it.
    */
   useEffect(() => {
-    redraw()
-  }, [redraw])
+    renderBase()
+    renderOverlay()
+  }, [renderBase, renderOverlay])
 
   /**
-   * Get point from mouse event
+   * Wheel pans the view; Ctrl/Cmd + wheel (and trackpad pinch) zooms
+   *
+   * Registered natively because React wheel listeners are passive
+   * and cannot prevent page scrolling or browser zoom.
    */
-  const getPointFromEvent = (e: React.MouseEvent): Point => {
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+
+      const unit = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1
+      const deltaX = e.deltaX * unit
+      const deltaY = e.deltaY * unit
+      const current = viewportRef.current
+
+      if (e.ctrlKey || e.metaKey) {
+        const rect = canvas.getBoundingClientRect()
+        const factor = Math.exp(-deltaY * WHEEL_ZOOM_SPEED)
+        changeViewport(zoomAt(current, factor, e.clientX - rect.left, e.clientY - rect.top))
+        return
+      }
+
+      // Shift + vertical wheel scrolls horizontally
+      if (e.shiftKey && deltaX === 0) {
+        changeViewport(panBy(current, -deltaY, 0))
+        return
+      }
+
+      changeViewport(panBy(current, -deltaX, -deltaY))
+    }
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false })
+    return () => {
+      canvas.removeEventListener("wheel", handleWheel)
+    }
+  }, [changeViewport])
+
+  /**
+   * Track the Space key for Space + drag panning
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== " " || e.repeat) return
+      const target = e.target as HTMLElement
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) {
+        return
+      }
+      spaceHeldRef.current = true
+      setPanCursor((prev) => prev ?? "grab")
+    }
+
+    const release = () => {
+      spaceHeldRef.current = false
+      setPanCursor((prev) => (prev === "grab" ? null : prev))
+    }
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === " ") release()
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", release)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", release)
+    }
+  }, [])
+
+  /**
+   * Discard an unfinished shape when switching tools
+   */
+  useEffect(() => {
+    if (shapeDraftRef.current && shapeDraftRef.current.kind !== shapeKind) {
+      shapeDraftRef.current = null
+      renderOverlay()
+    }
+  }, [shapeKind, renderOverlay])
+
+  /**
+   * Cancel any pending overlay frame on unmount
+   */
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) {
+        cancelAnimationFrame(frameRef.current)
+      }
+    }
+  }, [])
+
+  /**
+   * Get pointer position relative to the canvas (screen coordinates)
+   */
+  const getScreenPosition = (e: PointerEvent): { x: number; y: number } => {
+    const rect = canvasRef.current?.getBoundingClientRect()
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : { x: 0, y: 0 }
+  }
+
+  /**
+   * Start a two-finger pinch from the first two touch points
+   */
+  const beginPinch = () => {
+    const [a, b] = [...touchPointsRef.current.values()]
+    if (!a || !b) return
+    gestureRef.current = {
+      type: "pinch",
+      distance: Math.max(Math.hypot(b.x - a.x, b.y - a.y), 1),
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+    }
+  }
+
+  /**
+   * Discard the in-progress stroke or dragged shape (e.g. when a drag turns into a pinch)
+   */
+  const cancelStroke = () => {
+    activePointerRef.current = null
+    lastSmoothedRef.current = null
+    lastRawRef.current = null
+    currentStrokeRef.current = null
+    eraserDraftRef.current = null
+    selectionGestureRef.current = null
+    setTransformingIds(null)
+    if (shapeDraftRef.current?.kind !== "polygon") {
+      shapeDraftRef.current = null
+    }
+    scheduleOverlay()
+  }
+
+  /**
+   * Get pointer position in world coordinates (no pen data)
+   */
+  const getWorldPosition = (e: PointerEvent): Point => {
+    const position = getScreenPosition(e)
+    return screenToWorld(viewportRef.current, position.x, position.y)
+  }
+
+  /**
+   * Commit the current shape draft as a shape element
+   */
+  const finishShape = () => {
+    const draft = shapeDraftRef.current
+    shapeDraftRef.current = null
+    scheduleOverlay()
+    if (!draft) return
+
+    // Double-click places the last vertex twice; drop repeated points
+    const points = draft.points.filter((point, index) => {
+      const prev = draft.points[index - 1]
+      return !prev || prev.x !== point.x || prev.y !== point.y
+    })
+
+    if (!isShapeValid(draft.kind, points)) return
+
+    const shape: Shape = {
+      type: "shape",
+      id: generateElementId("shape"),
+      kind: draft.kind,
+      points,
+      color: draft.color,
+      width: draft.width,
+      fill: draft.kind === "line" || draft.kind === "arrow" ? null : draft.fill,
+    }
+
+    onElementComplete?.(shape)
+  }
+
+  // Latest finish/cancel for the polygon keyboard handler
+  const finishShapeRef = useRef(finishShape)
+  finishShapeRef.current = finishShape
+
+  /**
+   * Enter finishes and Escape cancels a polygon in progress
+   */
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const draft = shapeDraftRef.current
+      if (!draft || draft.kind !== "polygon") return
+
+      if (e.key === "Enter") {
+        e.preventDefault()
+        finishShapeRef.current()
+      } else if (e.key === "Escape") {
+        e.preventDefault()
+        shapeDraftRef.current = null
+        renderOverlay()
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+    }
+  }, [renderOverlay])
+
+  /**
+   * Handle pointer down while a shape tool is active
+   */
+  const handleShapePointerDown = (e: React.PointerEvent<HTMLCanvasElement>, kind: ShapeKind) => {
+    const point = getWorldPosition(e.nativeEvent)
+    const draft = shapeDraftRef.current
+
+    if (kind === "polygon") {
+      if (!draft) {
+        shapeDraftRef.current = {
+          kind,
+          points: [point],
+          cursor: point,
+          color: strokeColor,
+          width: strokeWidth,
+          fill: fillColor,
+        }
+        scheduleOverlay()
+        return
+      }
+
+      // Clicking the first vertex closes the polygon
+      const first = draft.points[0]
+      const closeDistance = POLYGON_CLOSE_DISTANCE / viewportRef.current.scale
+      if (
+        first &&
+        draft.points.length >= 3 &&
+        Math.hypot(point.x - first.x, point.y - first.y) <= closeDistance
+      ) {
+        finishShape()
+        return
+      }
+
+      const last = draft.points[draft.points.length - 1]
+      const vertex = last && e.shiftKey ? constrainShapePoint(kind, last, point) : point
+      draft.points.push(vertex)
+      draft.cursor = vertex
+      scheduleOverlay()
+      return
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    activePointerRef.current = e.pointerId
+    shapeDraftRef.current = {
+      kind,
+      points: [point, point],
+      cursor: point,
+      color: strokeColor,
+      width: strokeWidth,
+      fill: fillColor,
+    }
+    scheduleOverlay()
+  }
+
+  /**
+   * Update the shape preview from a pointer position
+   */
+  const updateShapeDraft = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const draft = shapeDraftRef.current
+    if (!draft) return
+
+    const point = getWorldPosition(e.nativeEvent)
+    const anchor =
+      draft.kind === "polygon" ? draft.points[draft.points.length - 1] : draft.points[0]
+    if (!anchor) return
+
+    const constrained = e.shiftKey ? constrainShapePoint(draft.kind, anchor, point) : point
+
+    if (draft.kind === "polygon") {
+      draft.cursor = constrained
+    } else {
+      draft.points = [anchor, constrained]
+    }
+    scheduleOverlay()
+  }
+
+  /**
+   * Start dragging the given elements with a handle (or moving them)
+   */
+  const beginTransform = (
+    handle: SelectionHandle | "move",
+    start: Point,
+    targets: ReadonlyArray<DrawingElement>,
+  ) => {
+    const bounds = getSelectionBounds(targets)
+    if (!bounds) return
+    selectionGestureRef.current = {
+      type: "transform",
+      handle,
+      start,
+      bounds,
+      elements: targets,
+      transform: IDENTITY_TRANSFORM,
+      moved: false,
+    }
+  }
+
+  /**
+   * Handle pointer down while the selection tool is active
+   *
+   * Handles of the current selection resize or rotate it, dragging an
+   * element moves it (selecting it first if needed), and dragging on
+   * empty space starts a marquee. Shift adds to or toggles the selection.
+   */
+  const handleSelectionPointerDown = (
+    e: React.PointerEvent<HTMLCanvasElement>,
+    mode: SelectionMode,
+  ) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    activePointerRef.current = e.pointerId
+
+    const point = getWorldPosition(e.nativeEvent)
+    const screen = getScreenPosition(e.nativeEvent)
+    const current = viewportRef.current
+
+    const bounds = getSelectionBounds(selectedElements)
+    const handle = bounds ? hitTestHandle(bounds, current, screen.x, screen.y) : null
+    if (handle) {
+      beginTransform(handle, point, selectedElements)
+      return
+    }
+
+    const hit = findElementAt(elements, point, SELECTION_HIT_TOLERANCE / current.scale)
+
+    if (e.shiftKey) {
+      if (hit) {
+        const next = new Set(selectedIds)
+        if (!next.delete(hit.id)) next.add(hit.id)
+        onSelectionChange?.(next)
+      } else {
+        selectionGestureRef.current = { type: "marquee", mode, points: [point], additive: true }
+      }
+      scheduleOverlay()
+      return
+    }
+
+    if (hit && !selectedIds.has(hit.id)) {
+      onSelectionChange?.(new Set([hit.id]))
+      beginTransform("move", point, [hit])
+      return
+    }
+
+    const insideSelection =
+      bounds &&
+      point.x >= bounds.minX &&
+      point.x <= bounds.maxX &&
+      point.y >= bounds.minY &&
+      point.y <= bounds.maxY
+    if (hit || insideSelection) {
+      beginTransform("move", point, selectedElements)
+      return
+    }
+
+    if (selectedIds.size > 0) {
+      onSelectionChange?.(NO_SELECTION)
+    }
+    selectionGestureRef.current = { type: "marquee", mode, points: [point], additive: false }
+    scheduleOverlay()
+  }
+
+  /**
+   * Update the marquee or transform preview from a pointer move
+   */
+  const updateSelectionGesture = (
+    e: React.PointerEvent<HTMLCanvasElement>,
+    events: PointerEvent[],
+  ) => {
+    const gesture = selectionGestureRef.current
+    if (!gesture) return
+
+    if (gesture.type === "marquee") {
+      if (gesture.mode === "lasso") {
+        gesture.points.push(...events.map(getWorldPosition))
+      } else {
+        const [anchor] = gesture.points
+        if (anchor) gesture.points = [anchor, getWorldPosition(e.nativeEvent)]
+      }
+      scheduleOverlay()
+      return
+    }
+
+    const point = getWorldPosition(e.nativeEvent)
+    const { handle, bounds, start } = gesture
+    gesture.transform = match(handle)
+      .with("move", () => translation(point.x - start.x, point.y - start.y))
+      .with("rotate", () => getRotateTransform(bounds, start, point, e.shiftKey))
+      .otherwise((resize) => getResizeTransform(resize, bounds, start, point, e.shiftKey))
+
+    if (!gesture.moved) {
+      gesture.moved = true
+      setTransformingIds(new Set(gesture.elements.map((element) => element.id)))
+    }
+    scheduleOverlay()
+  }
+
+  /**
+   * Finish a selection gesture: apply the marquee or report the transform
+   */
+  const finishSelectionGesture = () => {
+    const gesture = selectionGestureRef.current
+    selectionGestureRef.current = null
+    scheduleOverlay()
+    if (!gesture) return
+
+    if (gesture.type === "marquee") {
+      const [first] = gesture.points
+      const last = gesture.points[gesture.points.length - 1]
+      if (!first || !last) return
+
+      const ids =
+        gesture.mode === "lasso"
+          ? getElementsInLasso(elements, gesture.points)
+          : getElementsInRect(elements, boundsFromPoints(first, last))
+      if (ids.length === 0 && !gesture.additive) return
+
+      onSelectionChange?.(new Set(gesture.additive ? [...selectedIds, ...ids] : ids))
+      return
+    }
+
+    setTransformingIds(null)
+    if (!gesture.moved || isIdentityTransform(gesture.transform)) return
+
+    onElementsTransform?.(
+      gesture.elements.map((element) => transformElement(element, gesture.transform)),
+    )
+  }
+
+  /**
+   * Arrow keys nudge the selection; Escape clears it
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!enabled || selectedElements.length === 0 || selectionGestureRef.current) return
+
+    if (e.key === "Escape") {
+      e.preventDefault()
+      onSelectionChange?.(NO_SELECTION)
+      return
+    }
+
+    const direction = NUDGE_DIRECTIONS[e.key]
+    if (!direction) return
+    e.preventDefault()
+
+    // Steps are in screen pixels, so nudging feels the same at any zoom
+    const step = (e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP) / viewportRef.current.scale
+    const move = translation(direction.x * step, direction.y * step)
+    onElementsTransform?.(selectedElements.map((element) => transformElement(element, move)))
+  }
+
+  /**
+   * Open the text editor for a new or existing text element
+   */
+  const openTextEditor = (point: Point) => {
+    const existing = findTextAt(elements, point)
+    setTextEdit(
+      existing
+        ? {
+            id: existing.id,
+            x: existing.x,
+            y: existing.y,
+            text: existing.text,
+            fontSize: existing.fontSize,
+            color: existing.color,
+          }
+        : { id: null, x: point.x, y: point.y, text: "", fontSize, color: strokeColor },
+    )
+  }
+
+  /**
+   * Finish text editing and report the result
+   *
+   * Empty text discards a new element and removes an edited one.
+   */
+  const commitText = () => {
+    const edit = textEditRef.current
+    if (!edit) return
+    textEditRef.current = null
+    setTextEdit(null)
+
+    const text = edit.text.replace(/\s+$/, "")
+
+    if (edit.id === null) {
+      if (!text) return
+      onElementComplete?.({
+        type: "text",
+        id: generateElementId("text"),
+        x: edit.x,
+        y: edit.y,
+        text,
+        fontSize: edit.fontSize,
+        color: edit.color,
+      })
+      return
+    }
+
+    const original = elements.find((element) => element.id === edit.id)
+    if (original && isText(original) && original.text === text) return
+
+    onElementUpdate?.(
+      edit.id,
+      text
+        ? {
+            type: "text",
+            id: edit.id,
+            x: edit.x,
+            y: edit.y,
+            text,
+            fontSize: edit.fontSize,
+            color: edit.color,
+          }
+        : null,
+    )
+  }
+
+  /**
+   * Abort text editing without changes
+   */
+  const cancelText = () => {
+    textEditRef.current = null
+    setTextEdit(null)
+  }
+
+  /**
+   * Handle double-click: finish polygons, otherwise re-edit text
+   */
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (shapeDraftRef.current?.kind === "polygon") {
+      finishShape()
+      return
+    }
+
+    if (!enabled) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const point = screenToWorld(viewportRef.current, e.clientX - rect.left, e.clientY - rect.top)
+    if (findTextAt(elements, point)) {
+      openTextEditor(point)
+    }
+  }
+
+  /**
+   * Get point from pointer event in world coordinates
+   *
+   * Mouse and touch report synthetic pressure values (0.5 while pressed,
+   * or 0/1 on most touch screens), so pressure and tilt are only recorded
+   * for pen input. Other strokes keep a constant width.
+   */
+  const getPointFromEvent = (e: PointerEvent, startTime: number): Point => {
     const canvas = canvasRef.current
     if (!canvas) return { x: 0, y: 0 }
 
     const rect = canvas.getBoundingClientRect()
+    const { x, y } = screenToWorld(viewportRef.current, e.clientX - rect.left, e.clientY - rect.top)
+    const t = Math.max(0, Math.round(e.timeStamp - startTime))
+
+    if (e.pointerType !== "pen") {
+      return { x, y, t }
+    }
+
     return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+      x,
+      y,
+      pressure: e.pressure,
+      tiltX: e.tiltX,
+      tiltY: e.tiltY,
+      t,
     }
   }
 
   /**
    * Handle drawing start
    */
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (!enabled) return
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === "touch") {
+      touchPointsRef.current.set(e.pointerId, getScreenPosition(e.nativeEvent))
+      if (touchPointsRef.current.size === 2) {
+        cancelStroke()
+        beginPinch()
+        return
+      }
+    }
+
+    // Middle button or Space + drag pans the view
+    if (e.button === 1 || (e.button === 0 && spaceHeldRef.current)) {
+      if (gestureRef.current || activePointerRef.current !== null) return
+      e.preventDefault()
+      e.currentTarget.setPointerCapture(e.pointerId)
+      const position = getScreenPosition(e.nativeEvent)
+      gestureRef.current = {
+        type: "pan",
+        pointerId: e.pointerId,
+        lastX: position.x,
+        lastY: position.y,
+      }
+      setPanCursor("grabbing")
+      return
+    }
+
+    if (!enabled || gestureRef.current) return
+    // Ignore secondary pointers (multi-touch) and non-primary mouse buttons
+    if (activePointerRef.current !== null || !e.isPrimary || e.button !== 0) return
 
-    isDrawingRef.current = true
-    const point = getPointFromEvent(e)
+    // Clicking outside an open text editor finishes it
+    if (textEditRef.current) {
+      e.preventDefault()
+      commitText()
+      return
+    }
 
-    setCurrentStroke({
+    if (textTool) {
+      // Prevent the compatibility mousedown from stealing focus from the editor
+      e.preventDefault()
+      openTextEditor(getWorldPosition(e.nativeEvent))
+      return
+    }
+
+    if (shapeKind) {
+      handleShapePointerDown(e, shapeKind)
+      return
+    }
+
+    if (selectionMode) {
+      handleSelectionPointerDown(e, selectionMode)
+      return
+    }
+
+    if (eraserMode) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      activePointerRef.current = e.pointerId
+      eraserDraftRef.current = {
+        points: [getWorldPosition(e.nativeEvent)],
+        color: eraserMode === "precise" ? backgroundColor : OBJECT_ERASER_TRAIL_COLOR,
+        width: strokeWidth,
+      }
+      scheduleOverlay()
+      return
+    }
+
+    e.currentTarget.setPointerCapture(e.pointerId)
+    activePointerRef.current = e.pointerId
+    startTimeRef.current = e.timeStamp
+
+    const point = getPointFromEvent(e.nativeEvent, e.timeStamp)
+    lastSmoothedRef.current = point
+    lastRawRef.current = point
+
+    currentStrokeRef.current = {
       points: [point],
       color: strokeColor,
       width: strokeWidth,
-    })
+      interpolation: getSmoothingOptions(smoothing).interpolation,
+    }
+    scheduleOverlay()
   }
 
   /**
    * Handle drawing move
+   *
+   * Uses coalesced events so fast pen movement keeps every sample
+   * the browser collected between animation frames.
    */
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDrawingRef.current || !currentStroke || !enabled) return
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current
+
+    if (e.pointerType === "touch" && touchPointsRef.current.has(e.pointerId)) {
+      touchPointsRef.current.set(e.pointerId, getScreenPosition(e.nativeEvent))
 
-    const point = getPointFromEvent(e)
-    setCurrentStroke((prev) => {
-      if (!prev) return null
-      return {
-        ...prev,
-        points: [...prev.points, point],
+      if (gesture?.type === "pinch") {
+        const [a, b] = [...touchPointsRef.current.values()]
+        if (!a || !b) return
+        const distance = Math.max(Math.hypot(b.x - a.x, b.y - a.y), 1)
+        const midX = (a.x + b.x) / 2
+        const midY = (a.y + b.y) / 2
+
+        const zoomed = zoomAt(
+          viewportRef.current,
+          distance / gesture.distance,
+          gesture.midX,
+          gesture.midY,
+        )
+        changeViewport(panBy(zoomed, midX - gesture.midX, midY - gesture.midY))
+        gestureRef.current = { type: "pinch", distance, midX, midY }
+        return
       }
+    }
+
+    if (gesture?.type === "pan" && gesture.pointerId === e.pointerId) {
+      const position = getScreenPosition(e.nativeEvent)
+      changeViewport(
+        panBy(viewportRef.current, position.x - gesture.lastX, position.y - gesture.lastY),
+      )
+      gestureRef.current = { ...gesture, lastX: position.x, lastY: position.y }
+      return
+    }
+
+    // Polygon previews follow the pointer without a pressed button
+    if (shapeDraftRef.current?.kind === "polygon") {
+      if (e.isPrimary) updateShapeDraft(e)
+      return
+    }
+
+    if (activePointerRef.current !== e.pointerId || !enabled) return
+
+    if (shapeDraftRef.current) {
+      updateShapeDraft(e)
+      return
+    }
+
+    const nativeEvent = e.nativeEvent
+    const samples =
+      typeof nativeEvent.getCoalescedEvents === "function" ? nativeEvent.getCoalescedEvents() : []
+    const events = samples.length > 0 ? samples : [nativeEvent]
+
+    if (selectionGestureRef.current) {
+      updateSelectionGesture(e, events)
+      return
+    }
+
+    const eraserDraft = eraserDraftRef.current
+    if (eraserDraft) {
+      eraserDraft.points.push(...events.map(getWorldPosition))
+      scheduleOverlay()
+      return
+    }
+
+    const { stabilization } = getSmoothingOptions(smoothing)
+
+    const newPoints = events.map((event) => {
+      const raw = getPointFromEvent(event, startTimeRef.current)
+      const smoothed = stabilizePoint(lastSmoothedRef.current, raw, stabilization)
+      lastRawRef.current = raw
+      lastSmoothedRef.current = smoothed
+      return smoothed
     })
+
+    const currentStroke = currentStrokeRef.current
+    if (!currentStroke) return
+
+    currentStroke.points.push(...newPoints)
+    scheduleOverlay()
   }
 
   /**
    * Handle drawing end
    */
-  const handleMouseUp = () => {
-    if (!isDrawingRef.current || !currentStroke) return
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current
 
-    isDrawingRef.current = false
+    if (e.pointerType === "touch") {
+      touchPointsRef.current.delete(e.pointerId)
+      if (gesture?.type === "pinch") {
+        if (touchPointsRef.current.size < 2) {
+          gestureRef.current = null
+        }
+        return
+      }
+    }
+
+    if (gesture?.type === "pan" && gesture.pointerId === e.pointerId) {
+      gestureRef.current = null
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId)
+      }
+      setPanCursor(spaceHeldRef.current ? "grab" : null)
+      return
+    }
+
+    if (activePointerRef.current !== e.pointerId) return
+
+    activePointerRef.current = null
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+
+    if (shapeDraftRef.current) {
+      finishShape()
+      return
+    }
+
+    if (selectionGestureRef.current) {
+      finishSelectionGesture()
+      return
+    }
+
+    const eraserDraft = eraserDraftRef.current
+    if (eraserDraft) {
+      eraserDraftRef.current = null
+      onErase?.(eraserDraft.points, eraserDraft.width / 2)
+      scheduleOverlay()
+      return
+    }
+
+    const lastRaw = lastRawRef.current
+    lastSmoothedRef.current = null
+    lastRawRef.current = null
+
+    const currentStroke = currentStrokeRef.current
+    currentStrokeRef.current = null
+    if (!currentStroke) return
+
+    const { tolerance } = getSmoothingOptions(smoothing)
+    const { interpolation } = currentStroke
+
+    // The stabilizer lags behind the pointer, so finish at the actual end position
+    const lastPoint = currentStroke.points[currentStroke.points.length - 1]
+    const points =
+      lastRaw && lastPoint && (lastRaw.x !== lastPoint.x || lastRaw.y !== lastPoint.y)
+        ? [...currentStroke.points, lastRaw]
+        : currentStroke.points
+
+    // A click without movement leaves nothing visible
+    if (points.length < 2) {
+      scheduleOverlay()
+      return
+    }
 
     // Create completed stroke
     const newStroke: Stroke = {
-      id: generateStrokeId(),
-      points: currentStroke.points,
+      type: "stroke",
+      id: generateElementId("stroke"),
+      // Tolerance is in screen pixels, so it scales with the zoom level
+      points: simplifyPoints(points, tolerance / viewportRef.current.scale),
       color: currentStroke.color,
       width: currentStroke.width,
+      ...(interpolation !== "linear" && { interpolation }),
     }
 
-    onStrokeComplete?.(newStroke)
-    setCurrentStroke(null)
-  }
+    onElementComplete?.(newStroke)
 
-  /**
-   * Handle mouse leaving canvas
-   */
-  const handleMouseLeave = () => {
-    if (isDrawingRef.current && currentStroke) {
-      handleMouseUp()
-    }
+    // Cleared by the elements effect once the stroke is committed;
+    // clear now as well in case the parent does not accept it
+    scheduleOverlay()
   }
 
   /**
@@ -229,8 +1499,20 @@ export function Canvas({
   useImperativeHandle(ref, () => ({
     redraw,
     getCanvas: () => canvasRef.current,
+    getViewportSize: () => ({
+      width: canvasRef.current?.clientWidth ?? 0,
+      height: canvasRef.current?.clientHeight ?? 0,
+    }),
   }))
 
+  const cursorClass = match(panCursor)
+    .with("grabbing", () => "cursor-grabbing")
+    .with("grab", () => "cursor-grab")
+    .otherwise(() => {
+      if (!enabled || selectionMode) return "cursor-default"
+      return textTool ? "cursor-text" : "cursor-crosshair"
+    })
+
   return (
     <div
       ref={containerRef}
@@ -239,17 +1521,38 @@ export function Canvas({
     >
       <canvas
         ref={canvasRef}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseLeave}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onLostPointerCapture={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+        onKeyDown={handleKeyDown}
+        tabIndex={0}
         className={`
-          block absolute inset-0 w-full h-full
-          ${enabled ? "cursor-crosshair" : "cursor-default"}
+          block absolute inset-0 w-full h-full touch-none
+          ${cursorClass}
         `}
         aria-label='Drawing canvas'
         role='img'
       />
+      <canvas
+        ref={overlayRef}
+        className='block absolute inset-0 w-full h-full pointer-events-none'
+      />
+      {textEdit && (
+        <TextEditor
+          value={textEdit.text}
+          fontSize={textEdit.fontSize}
+          color={textEdit.color}
+          left={textEdit.x * viewport.scale + viewport.offsetX}
+          top={textEdit.y * viewport.scale + viewport.offsetY}
+          scale={viewport.scale}
+          onChange={(text) => setTextEdit((prev) => (prev ? { ...prev, text } : prev))}
+          onCommit={commitText}
+          onCancel={cancelText}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,218 @@
+import { type FormEvent, useEffect, useId, useRef, useState } from "react"
+import type { DrawDocumentMeta } from "../core/DrawFile"
+import { parseColor, toHexColor } from "../export/Color"
+
+export interface DocumentPropertiesDialogProps {
+  /** Current metadata of the drawing */
+  meta: DrawDocumentMeta
+  /** Name of the drawing file (shown in the title) */
+  fileName: string
+  /** Background color used while no custom background is set */
+  defaultBackground: string
+  /** Callback with the edited metadata */
+  onApply: (meta: DrawDocumentMeta) => void
+  /** Callback when the dialog is closed (after apply or cancel) */
+  onClose: () => void
+}
+
+/**
+ * Shared classes of the text and number inputs
+ */
+const INPUT_CLASS = "px-2 py-1 rounded-md bg-background border border-border text-sm"
+
+/**
+ * Split comma-separated tags (empty and duplicate tags are dropped)
+ */
+function parseTags(value: string): ReadonlyArray<string> {
+  return [
+    ...new Set(
+      value
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+    ),
+  ]
+}
+
+/**
+ * Parse a canvas dimension input (empty for unbounded)
+ */
+function parseDimension(value: string): number | null {
+  const number = Number.parseInt(value, 10)
+  return Number.isFinite(number) && number > 0 ? number : null
+}
+
+/**
+ * Format a metadata date for display
+ */
+function formatDate(date: string | null): string {
+  return date ? new Date(date).toLocaleString() : "Not saved yet"
+}
+
+/**
+ * Dialog for editing the metadata of a drawing
+ *
+ * Title, author, tags, canvas size and background are editable; the
+ * timestamps are set when saving and only shown here.
+ */
+export function DocumentPropertiesDialog({
+  meta,
+  fileName,
+  defaultBackground,
+  onApply,
+  onClose,
+}: DocumentPropertiesDialogProps) {
+  const titleId = useId()
+  const titleInputRef = useRef<HTMLInputElement>(null)
+  const [title, setTitle] = useState(meta.title)
+  const [author, setAuthor] = useState(meta.author)
+  const [tags, setTags] = useState(meta.tags.join(", "))
+  const [width, setWidth] = useState(meta.width?.toString() ?? "")
+  const [height, setHeight] = useState(meta.height?.toString() ?? "")
+  const [customBackground, setCustomBackground] = useState(meta.background !== null)
+  const [background, setBackground] = useState(() =>
+    toHexColor(parseColor(meta.background ?? defaultBackground)),
+  )
+
+  useEffect(() => {
+    titleInputRef.current?.focus()
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [onClose])
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    onApply({
+      ...meta,
+      title: title.trim(),
+      author: author.trim(),
+      tags: parseTags(tags),
+      width: parseDimension(width),
+      height: parseDimension(height),
+      background: customBackground ? background : null,
+    })
+    onClose()
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center p-4 bg-black/50'>
+      <form
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        onSubmit={handleSubmit}
+        className='grid gap-4 w-full max-w-sm p-5 rounded-lg shadow-xl bg-card text-card-foreground border border-border'
+      >
+        <h2 id={titleId} className='text-lg font-semibold'>
+          Properties of {fileName}
+        </h2>
+
+        <label className='grid gap-1 text-sm'>
+          Title
+          <input
+            ref={titleInputRef}
+            type='text'
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className='grid gap-1 text-sm'>
+          Author
+          <input
+            type='text'
+            value={author}
+            onChange={(e) => setAuthor(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <label className='grid gap-1 text-sm'>
+          Tags
+          <input
+            type='text'
+            value={tags}
+            placeholder='Comma-separated'
+            onChange={(e) => setTags(e.target.value)}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <fieldset className='grid grid-cols-2 gap-2'>
+          <legend className='pb-1 text-sm font-medium'>Canvas size</legend>
+          <label className='grid gap-1 text-sm'>
+            Width
+            <input
+              type='number'
+              min={1}
+              value={width}
+              placeholder='Unbounded'
+              onChange={(e) => setWidth(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+          <label className='grid gap-1 text-sm'>
+            Height
+            <input
+              type='number'
+              min={1}
+              value={height}
+              placeholder='Unbounded'
+              onChange={(e) => setHeight(e.target.value)}
+              className={INPUT_CLASS}
+            />
+          </label>
+        </fieldset>
+
+        <div className='grid grid-cols-[auto_1fr_auto] items-center gap-2 text-sm'>
+          <input
+            id={`${titleId}-background`}
+            type='checkbox'
+            checked={customBackground}
+            onChange={(e) => setCustomBackground(e.target.checked)}
+          />
+          <label htmlFor={`${titleId}-background`}>Custom background</label>
+          <input
+            type='color'
+            aria-label='Background color'
+            value={background}
+            disabled={!customBackground}
+            onChange={(e) => setBackground(e.target.value)}
+            className='w-8 h-6 rounded border border-border bg-background disabled:opacity-50'
+          />
+        </div>
+
+        <dl className='grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm text-muted-foreground'>
+          <dt>Created</dt>
+          <dd>{formatDate(meta.created)}</dd>
+          <dt>Modified</dt>
+          <dd>{formatDate(meta.modified)}</dd>
+        </dl>
+
+        <div className='grid grid-flow-col justify-end gap-2'>
+          <button
+            type='button'
+            onClick={onClose}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            Cancel
+          </button>
+          <button
+            type='submit'
+            className='px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:opacity-90 transition-colors'
+          >
+            Apply
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -1,25 +1,110 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { match } from "ts-pattern"
+import { DirtyStateManager } from "../core/DirtyState"
+import { createDrawMeta, type DrawDocumentMeta, touchDrawMeta } from "../core/DrawFile"
+import {
+  getDrawingSessionRegistry,
+  type HistoryActions,
+  type LayerActions,
+} from "../core/DrawingSessions"
+import { eraseElements } from "../core/Eraser"
+import type { HistorySnapshot } from "../core/HistoryTree"
+import {
+  createLayer,
+  findLayer,
+  getNextLayerName,
+  getVisibleElements,
+  insertLayerAbove,
+  moveLayer,
+  removeLayer,
+  updateLayer,
+} from "../core/Layers"
+import { duplicateElements } from "../core/Selection"
+import { getTextFontSize } from "../core/TextRenderer"
+import { fitBounds, getElementsBounds, resetZoom, unionBounds } from "../core/Viewport"
 import { useDrawingHistory } from "../hooks/useDrawingHistory"
 import { useDrawingHotkeys } from "../hooks/useDrawingHotkeys"
-import { BRUSH_SIZES, type DrawingTool, PALETTE_TOKENS, type Stroke } from "../types"
+import {
+  BRUSH_SIZES,
+  DEFAULT_VIEWPORT,
+  type DrawingElement,
+  type DrawingTool,
+  type EraserMode,
+  isShapeTool,
+  type Layer,
+  PALETTE_TOKENS,
+  type Point,
+  type SelectionMode,
+  type SmoothingLevel,
+  type Viewport,
+} from "../types"
 import { Canvas, type CanvasHandle } from "./Canvas"
+import { DocumentPropertiesDialog } from "./DocumentPropertiesDialog"
 import { DrawingToolbar } from "./DrawingToolbar"
+import { ExportDialog } from "./ExportDialog"
 
 export interface DrawingCanvasProps {
   /** Unique panel identifier */
   panelId: string
   /** Display file name */
   fileName?: string
-  /** File path for identification */
-  filePath?: string
-  /** Initial strokes to load */
-  initialStrokes?: ReadonlyArray<Stroke>
-  /** Callback when save is requested */
-  onSave?: (panelId: string, strokes: ReadonlyArray<Stroke>) => void
+  /** Initial layers to load (bottom to top) */
+  initialLayers?: ReadonlyArray<Layer>
+  /** Undo history of the initial layers (e.g. persisted with the file) */
+  initialHistory?: HistorySnapshot
+  /** Metadata of the drawing (title, canvas size, background, …) */
+  initialMeta?: DrawDocumentMeta
+  /**
+   * Whether the initial layers differ from the saved file (e.g. a
+   * recovered draft), so the drawing starts out dirty
+   */
+  initialDirty?: boolean
+  /** Initial viewport (e.g. remembered from a previous session) */
+  initialViewport?: Viewport
+  /** Callback when the viewport changes (debounced) */
+  onViewportChange?: (panelId: string, viewport: Viewport) => void
+  /**
+   * Callback when save is requested, with the history of the saved
+   * layers and the metadata (with updated timestamps)
+   *
+   * Returns false when writing failed, which keeps the drawing dirty.
+   */
+  onSave?: (
+    panelId: string,
+    layers: ReadonlyArray<Layer>,
+    history: HistorySnapshot,
+    meta: DrawDocumentMeta,
+  ) => boolean | Promise<boolean>
+  /**
+   * Callback when "Save as…" is requested (same arguments as onSave); the
+   * host chooses the destination
+   */
+  onSaveAs?: (
+    panelId: string,
+    layers: ReadonlyArray<Layer>,
+    history: HistorySnapshot,
+    meta: DrawDocumentMeta,
+  ) => boolean | Promise<boolean>
+  /** Callback when the drawing gets or loses unsaved changes (also called on mount) */
+  onDirtyChange?: (panelId: string, isDirty: boolean) => void
+  /** Callback to show the layers panel */
+  onOpenLayers?: () => void
+  /** Callback to show the history panel */
+  onOpenHistory?: () => void
   /** Whether hotkeys are enabled (disable when not focused) */
   hotkeysEnabled?: boolean
 }
 
+/**
+ * Delay before reporting viewport changes (ms)
+ */
+const VIEWPORT_REPORT_DELAY = 300
+
+/**
+ * Offset of duplicated elements from their originals (world units)
+ */
+const DUPLICATE_OFFSET = 16
+
 /**
  * Get CSS variable value from computed styles
  */
@@ -39,20 +124,36 @@ function resolveColors(): string[] {
  * Complete drawing canvas component with toolbar
  *
  * Integrates:
- * - Canvas for drawing
- * - Toolbar for tool/color/brush selection
+ * - Canvas for drawing, with zoom and pan
+ * - Layers (drawing always targets the active layer)
+ * - Selection with move/resize/rotate/delete/duplicate
+ * - Toolbar for tool/shape/text/color/brush selection
  * - Undo/redo history
+ * - Export to PNG, SVG and PDF
+ * - Document properties (title, canvas size, background, …)
  * - Keyboard shortcuts
  * - Dirty state tracking
  *
+ * The layers and the undo tree are published to the drawing session
+ * registry, so a LayersPanel or HistoryPanel docked elsewhere can show
+ * and edit them.
+ *
  * WAI-ARIA compliant with keyboard navigation support.
  */
 export function DrawingCanvas({
   panelId,
-  fileName: _fileName,
-  filePath: _filePath,
-  initialStrokes,
+  fileName,
+  initialLayers,
+  initialHistory,
+  initialMeta,
+  initialDirty = false,
+  initialViewport,
+  onViewportChange,
   onSave,
+  onSaveAs,
+  onDirtyChange,
+  onOpenLayers,
+  onOpenHistory,
   hotkeysEnabled = true,
 }: DrawingCanvasProps) {
   const containerRef = useRef<HTMLDivElement>(null)
@@ -61,21 +162,57 @@ export function DrawingCanvas({
   // Drawing state
   const [currentTool, setCurrentTool] = useState<DrawingTool>("pencil")
   const [currentColor, setCurrentColor] = useState<string>("")
+  const [eraserMode, setEraserMode] = useState<EraserMode>("object")
+  const [fillEnabled, setFillEnabled] = useState(false)
   const [currentBrushSize, setCurrentBrushSize] = useState<number>(BRUSH_SIZES[0])
+  const [currentSmoothing, setCurrentSmoothing] = useState<SmoothingLevel>("medium")
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(() => new Set())
+  const [exportOpen, setExportOpen] = useState(false)
+  const [propertiesOpen, setPropertiesOpen] = useState(false)
+
+  // Document metadata (edits are saved with the drawing but are not undoable)
+  const [meta, setMeta] = useState<DrawDocumentMeta>(() => initialMeta ?? createDrawMeta())
+  // Unsaved changes outside the undo history (metadata edits, recovered drafts)
+  const [hasUnsavedChanges, setHasUnsavedChanges] = useState(initialDirty)
+
+  // Viewport (world to screen transform)
+  const [viewport, setViewport] = useState<Viewport>(initialViewport ?? DEFAULT_VIEWPORT)
+
+  // Resolve colors from CSS
+  const colors = useMemo(() => resolveColors(), [])
+  const canvasColor = useMemo(() => getCssVar("--color-canvas") || "#ffffff", [])
+  const backgroundColor = meta.background ?? canvasColor
+
+  const [loadedLayers] = useState(() =>
+    initialLayers && initialLayers.length > 0 ? initialLayers : [createLayer(getNextLayerName([]))],
+  )
 
-  // History management
+  // History management (covers elements and layer changes alike)
   const {
-    strokes,
+    layers,
     historyState,
+    historyTree,
     push: pushHistory,
     undo,
     redo,
+    jumpTo,
     markSaved,
-  } = useDrawingHistory(initialStrokes)
+    getSnapshot: getHistorySnapshot,
+  } = useDrawingHistory(loadedLayers, initialHistory)
 
-  // Resolve colors from CSS
-  const colors = useMemo(() => resolveColors(), [])
-  const canvasColor = useMemo(() => getCssVar("--color-canvas") || "#ffffff", [])
+  // Active layer (falls back to the top layer, e.g. after undoing its creation)
+  const [activeLayerId, setActiveLayerId] = useState(() => loadedLayers[loadedLayers.length - 1].id)
+  const activeLayer = findLayer(layers, activeLayerId) ?? layers[layers.length - 1]
+  const elements = activeLayer.elements
+  const canDraw = activeLayer.visible && !activeLayer.locked
+
+  // Replace the elements of the active layer
+  const pushElements = useCallback(
+    (newElements: ReadonlyArray<DrawingElement>) => {
+      pushHistory(updateLayer(layers, activeLayer.id, { elements: newElements }))
+    },
+    [layers, activeLayer.id, pushHistory],
+  )
 
   // Initialize color from palette
   useEffect(() => {
@@ -84,41 +221,306 @@ export function DrawingCanvas({
     }
   }, [colors, currentColor])
 
-  // Calculate effective stroke color/width based on tool
-  const effectiveColor = currentTool === "eraser" ? canvasColor : currentColor
+  // Report viewport changes once the user stops zooming/panning
+  const onViewportChangeRef = useRef(onViewportChange)
+  onViewportChangeRef.current = onViewportChange
+  const isInitialViewportRef = useRef(true)
+
+  useEffect(() => {
+    if (isInitialViewportRef.current) {
+      isInitialViewportRef.current = false
+      return
+    }
+
+    const timer = setTimeout(() => {
+      onViewportChangeRef.current?.(panelId, viewport)
+    }, VIEWPORT_REPORT_DELAY)
+
+    return () => {
+      clearTimeout(timer)
+    }
+  }, [panelId, viewport])
+
+  const selectionMode = match(currentTool)
+    .returnType<SelectionMode | null>()
+    .with("select", () => "rectangle")
+    .with("lasso", () => "lasso")
+    .otherwise(() => null)
+  const hasSelection = elements.some((element) => selectedIds.has(element.id))
+
+  // Calculate effective stroke width based on tool
   const effectiveWidth = currentTool === "eraser" ? currentBrushSize * 2 : currentBrushSize
 
-  // Handle stroke completion
-  const handleStrokeComplete = useCallback(
-    (stroke: Stroke) => {
-      const newStrokes = [...strokes, stroke]
-      pushHistory(newStrokes)
+  // Handle stroke/shape completion
+  const handleElementComplete = useCallback(
+    (element: DrawingElement) => {
+      const newElements = [...elements, element]
+      pushElements(newElements)
+    },
+    [elements, pushElements],
+  )
+
+  // Handle in-place edits of existing elements (null removes)
+  const handleElementUpdate = useCallback(
+    (id: string, element: DrawingElement | null) => {
+      const newElements = element
+        ? elements.map((existing) => (existing.id === id ? element : existing))
+        : elements.filter((existing) => existing.id !== id)
+      pushElements(newElements)
+    },
+    [elements, pushElements],
+  )
+
+  // Handle moved/resized/rotated selection (one history entry per gesture)
+  const handleElementsTransform = useCallback(
+    (transformed: ReadonlyArray<DrawingElement>) => {
+      const byId = new Map(transformed.map((element) => [element.id, element]))
+      pushElements(elements.map((element) => byId.get(element.id) ?? element))
+    },
+    [elements, pushElements],
+  )
+
+  // Handle deleting the selected elements
+  const handleDeleteSelection = useCallback(() => {
+    if (!canDraw || !elements.some((element) => selectedIds.has(element.id))) return
+    pushElements(elements.filter((element) => !selectedIds.has(element.id)))
+    setSelectedIds(new Set())
+  }, [canDraw, elements, selectedIds, pushElements])
+
+  // Handle duplicating the selected elements (the copies become the selection)
+  const handleDuplicateSelection = useCallback(() => {
+    const selected = elements.filter((element) => selectedIds.has(element.id))
+    if (!canDraw || selected.length === 0) return
+    const copies = duplicateElements(selected, DUPLICATE_OFFSET)
+    pushElements([...elements, ...copies])
+    setSelectedIds(new Set(copies.map((element) => element.id)))
+  }, [canDraw, elements, selectedIds, pushElements])
+
+  // Handle eraser gestures (no history entry when nothing was hit)
+  const handleErase = useCallback(
+    (path: ReadonlyArray<Point>, radius: number) => {
+      const newElements = eraseElements(elements, path, radius, eraserMode)
+      if (newElements !== elements) {
+        pushElements(newElements)
+      }
+    },
+    [elements, eraserMode, pushElements],
+  )
+
+  const isDirty = historyState.isDirty || hasUnsavedChanges
+
+  // Report dirty state changes to the host (e.g. for a marker on the tab)
+  const dirtyStateRef = useRef<DirtyStateManager>(DirtyStateManager.create())
+
+  useEffect(() => {
+    if (!onDirtyChange) return
+    onDirtyChange(panelId, dirtyStateRef.current.getIsDirty())
+    return dirtyStateRef.current.on("change", (dirty) => onDirtyChange(panelId, dirty))
+  }, [panelId, onDirtyChange])
+
+  useEffect(() => {
+    const dirtyState = dirtyStateRef.current
+    dirtyStateRef.current = isDirty ? dirtyState.markDirty() : dirtyState.markSaved()
+  }, [isDirty])
+
+  // Latest metadata, to tell whether it changed while a save was running
+  const metaRef = useRef(meta)
+  metaRef.current = meta
+
+  // Handle save (runs a host save callback, then marks what it wrote as saved,
+  // so edits made while the file is written stay unsaved)
+  const runSave = useCallback(
+    async (save: DrawingCanvasProps["onSave"]) => {
+      const savedEntryId = historyTree.currentId
+      const savedMeta = touchDrawMeta(meta)
+      const saved = await save?.(panelId, layers, getHistorySnapshot(), savedMeta)
+      if (saved === false) return false
+      markSaved(savedEntryId)
+      if (metaRef.current === meta) {
+        setMeta(savedMeta)
+        setHasUnsavedChanges(false)
+      }
+      return true
     },
-    [strokes, pushHistory],
+    [panelId, layers, meta, historyTree.currentId, markSaved, getHistorySnapshot],
   )
 
-  // Handle save
-  const handleSave = useCallback(() => {
-    onSave?.(panelId, strokes)
-    markSaved()
-  }, [panelId, strokes, onSave, markSaved])
+  const handleSave = useCallback(() => runSave(onSave), [runSave, onSave])
+
+  const handleSaveAs = useCallback(() => runSave(onSaveAs), [runSave, onSaveAs])
+
+  // Handle export (opens the export dialog)
+  const handleExport = useCallback(() => {
+    setExportOpen(true)
+  }, [])
+
+  const handleExportClose = useCallback(() => {
+    setExportOpen(false)
+  }, [])
+
+  // Handle document properties (opens the properties dialog)
+  const handleOpenProperties = useCallback(() => {
+    setPropertiesOpen(true)
+  }, [])
+
+  const handlePropertiesClose = useCallback(() => {
+    setPropertiesOpen(false)
+  }, [])
 
-  // Handle clear
+  const handlePropertiesApply = useCallback((newMeta: DrawDocumentMeta) => {
+    setMeta(newMeta)
+    setHasUnsavedChanges(true)
+  }, [])
+
+  // Handle clear (empties the active layer, unless it is locked or hidden)
   const handleClear = useCallback(() => {
-    if (strokes.length === 0) return
-    pushHistory([])
-  }, [strokes, pushHistory])
+    if (!canDraw || elements.length === 0) return
+    pushElements([])
+  }, [canDraw, elements, pushElements])
+
+  // Handle zoom to fit all elements (and the canvas area, when the size is set)
+  const handleZoomToFit = useCallback(() => {
+    const size = canvasRef.current?.getViewportSize()
+    if (!size) return
+    const pageBounds =
+      meta.width !== null && meta.height !== null
+        ? { minX: 0, minY: 0, maxX: meta.width, maxY: meta.height }
+        : null
+    const bounds = unionBounds(getElementsBounds(getVisibleElements(layers)), pageBounds)
+    setViewport(fitBounds(bounds, size.width, size.height))
+  }, [layers, meta.width, meta.height])
+
+  // Handle zoom to 100%
+  const handleZoomReset = useCallback(() => {
+    const size = canvasRef.current?.getViewportSize()
+    if (!size) return
+    setViewport((prev) => resetZoom(prev, size.width, size.height))
+  }, [])
 
-  // Handle tool change
+  // Layer operations (all of them are undoable)
+  const layerActions = useMemo<LayerActions>(
+    () => ({
+      selectLayer: (id) => {
+        setActiveLayerId(id)
+        setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev))
+      },
+      addLayer: () => {
+        const layer = createLayer(getNextLayerName(layers))
+        pushHistory(insertLayerAbove(layers, layer, activeLayer.id))
+        setActiveLayerId(layer.id)
+        setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev))
+      },
+      removeLayer: (id) => {
+        const newLayers = removeLayer(layers, id)
+        if (newLayers === layers) return
+        if (id === activeLayer.id) {
+          // Select the layer below the removed one (or the new bottom layer)
+          const index = layers.findIndex((layer) => layer.id === id)
+          setActiveLayerId(newLayers[Math.max(0, index - 1)].id)
+          setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev))
+        }
+        pushHistory(newLayers)
+      },
+      renameLayer: (id, name) => {
+        pushHistory(updateLayer(layers, id, { name }))
+      },
+      setLayerVisible: (id, visible) => {
+        pushHistory(updateLayer(layers, id, { visible }))
+      },
+      setLayerLocked: (id, locked) => {
+        pushHistory(updateLayer(layers, id, { locked }))
+      },
+      setLayerOpacity: (id, opacity) => {
+        pushHistory(updateLayer(layers, id, { opacity: Math.max(0, Math.min(1, opacity)) }))
+      },
+      moveLayer: (id, toIndex) => {
+        const newLayers = moveLayer(layers, id, toIndex)
+        if (newLayers !== layers) {
+          pushHistory(newLayers)
+        }
+      },
+    }),
+    [layers, activeLayer.id, pushHistory],
+  )
+
+  const historyActions = useMemo<HistoryActions>(
+    () => ({ undo, redo, jumpTo }),
+    [undo, redo, jumpTo],
+  )
+
+  // Publish this drawing for panels outside the canvas (e.g. LayersPanel, HistoryPanel)
+  const registry = getDrawingSessionRegistry()
+  const title = fileName ?? panelId
+
+  useEffect(() => {
+    registry.publish({
+      panelId,
+      title,
+      layers,
+      activeLayerId: activeLayer.id,
+      actions: layerActions,
+      history: historyTree,
+      historyActions,
+      meta,
+      isDirty,
+      save: onSave ? handleSave : null,
+    })
+  }, [
+    registry,
+    panelId,
+    title,
+    layers,
+    activeLayer.id,
+    layerActions,
+    historyTree,
+    historyActions,
+    meta,
+    isDirty,
+    onSave,
+    handleSave,
+  ])
+
+  // A drawing rebound to another panel id (file renamed or moved) stays active
+  const wasActiveRef = useRef(false)
+
+  useEffect(() => {
+    if (wasActiveRef.current) {
+      wasActiveRef.current = false
+      registry.activate(panelId)
+    }
+    return () => {
+      wasActiveRef.current = registry.getActive()?.panelId === panelId
+      registry.remove(panelId)
+    }
+  }, [registry, panelId])
+
+  const handleActivate = useCallback(() => {
+    registry.activate(panelId)
+  }, [registry, panelId])
+
+  // Handle tool change (other tools drop the selection)
   const handleToolChange = useCallback((tool: DrawingTool) => {
     setCurrentTool(tool)
+    if (tool !== "select" && tool !== "lasso") {
+      setSelectedIds((prev) => (prev.size > 0 ? new Set() : prev))
+    }
+  }, [])
+
+  // Handle eraser mode toggle
+  const handleEraserModeToggle = useCallback(() => {
+    setEraserMode((prev) => (prev === "object" ? "precise" : "object"))
+  }, [])
+
+  // Handle shape fill toggle
+  const handleFillToggle = useCallback(() => {
+    setFillEnabled((prev) => !prev)
   }, [])
 
   // Handle color change
   const handleColorChange = useCallback((color: string) => {
     setCurrentColor(color)
-    // Auto-switch to pencil when selecting color
-    setCurrentTool("pencil")
+    // Auto-switch to pencil when selecting color with the eraser (shape tools stay active)
+    setCurrentTool((tool) => (tool === "eraser" ? "pencil" : tool))
   }, [])
 
   // Handle brush size change
@@ -126,13 +528,18 @@ export function DrawingCanvas({
     setCurrentBrushSize(size)
   }, [])
 
+  // Handle smoothing level change
+  const handleSmoothingChange = useCallback((level: SmoothingLevel) => {
+    setCurrentSmoothing(level)
+  }, [])
+
   // Handle color change by index (for hotkeys)
   const handleColorIndexChange = useCallback(
     (index: number) => {
       const color = colors[index]
       if (color) {
         setCurrentColor(color)
-        setCurrentTool("pencil")
+        setCurrentTool((tool) => (tool === "eraser" ? "pencil" : tool))
       }
     },
     [colors],
@@ -144,47 +551,109 @@ export function DrawingCanvas({
       onUndo: undo,
       onRedo: redo,
       onSave: onSave ? handleSave : undefined,
+      onExport: handleExport,
       onClear: handleClear,
+      onDeleteSelection: handleDeleteSelection,
+      onDuplicateSelection: handleDuplicateSelection,
+      onZoomToFit: handleZoomToFit,
+      onZoomReset: handleZoomReset,
       onToolChange: handleToolChange,
+      onEraserModeToggle: handleEraserModeToggle,
       onBrushSizeChange: handleBrushSizeChange,
       onColorChange: handleColorIndexChange,
     },
     {
-      enabled: hotkeysEnabled,
+      enabled: hotkeysEnabled && !exportOpen && !propertiesOpen,
       targetRef: containerRef,
     },
   )
 
   return (
-    <div ref={containerRef} className='grid grid-rows-[auto_1fr] w-full h-full -m-2'>
+    <div
+      ref={containerRef}
+      className='grid grid-rows-[auto_1fr] w-full h-full -m-2'
+      onPointerDownCapture={handleActivate}
+      onFocusCapture={handleActivate}
+    >
       <DrawingToolbar
         currentTool={currentTool}
         currentColor={currentColor}
+        eraserMode={eraserMode}
+        fillEnabled={fillEnabled}
         currentBrushSize={currentBrushSize}
+        currentSmoothing={currentSmoothing}
         colors={colors}
-        isDirty={historyState.isDirty}
+        zoom={viewport.scale}
+        isDirty={isDirty}
         canUndo={historyState.canUndo}
         canRedo={historyState.canRedo}
-        hasStrokes={strokes.length > 0}
+        canClear={canDraw && elements.length > 0}
+        hasSelection={canDraw && hasSelection}
         onToolChange={handleToolChange}
+        onEraserModeToggle={handleEraserModeToggle}
+        onFillToggle={handleFillToggle}
         onColorChange={handleColorChange}
         onBrushSizeChange={handleBrushSizeChange}
+        onSmoothingChange={handleSmoothingChange}
+        onZoomToFit={handleZoomToFit}
+        onZoomReset={handleZoomReset}
         onUndo={undo}
         onRedo={redo}
         onSave={onSave ? handleSave : undefined}
+        onSaveAs={onSaveAs ? handleSaveAs : undefined}
+        onExport={handleExport}
         onClear={handleClear}
+        onDeleteSelection={handleDeleteSelection}
+        onDuplicateSelection={handleDuplicateSelection}
+        onOpenLayers={onOpenLayers}
+        onOpenHistory={onOpenHistory}
+        onOpenProperties={handleOpenProperties}
         getHotkeyDisplay={getHotkeyDisplay}
       />
 
       <Canvas
         ref={canvasRef}
-        strokes={strokes}
-        strokeColor={effectiveColor}
+        layers={layers}
+        elements={elements}
+        strokeColor={currentColor}
         strokeWidth={effectiveWidth}
-        backgroundColor={canvasColor}
-        enabled={true}
-        onStrokeComplete={handleStrokeComplete}
+        eraserMode={currentTool === "eraser" ? eraserMode : null}
+        selectionMode={selectionMode}
+        selectedIds={selectedIds}
+        shapeKind={isShapeTool(currentTool) ? currentTool : null}
+        fillColor={fillEnabled ? currentColor : null}
+        textTool={currentTool === "text"}
+        fontSize={getTextFontSize(currentBrushSize)}
+        smoothing={currentTool === "eraser" ? "off" : currentSmoothing}
+        viewport={viewport}
+        onViewportChange={setViewport}
+        backgroundColor={backgroundColor}
+        enabled={canDraw}
+        onElementComplete={handleElementComplete}
+        onElementUpdate={handleElementUpdate}
+        onErase={handleErase}
+        onSelectionChange={setSelectedIds}
+        onElementsTransform={handleElementsTransform}
       />
+
+      {exportOpen && (
+        <ExportDialog
+          layers={layers}
+          fileName={title}
+          backgroundColor={backgroundColor}
+          onClose={handleExportClose}
+        />
+      )}
+
+      {propertiesOpen && (
+        <DocumentPropertiesDialog
+          meta={meta}
+          fileName={title}
+          defaultBackground={canvasColor}
+          onApply={handlePropertiesApply}
+          onClose={handlePropertiesClose}
+        />
+      )}
     </div>
   )
 }
@@ -1,9 +1,42 @@
-import { Eraser, Pencil, Redo, RotateCcw, Save, Undo } from "lucide-react"
+import {
+  Circle,
+  Copy,
+  Download,
+  Eraser,
+  FilePen,
+  FileText,
+  History,
+  Lasso,
+  Layers,
+  Maximize,
+  Minus,
+  MousePointer2,
+  MoveUpRight,
+  PaintBucket,
+  Pencil,
+  Pentagon,
+  Redo,
+  RotateCcw,
+  Save,
+  Scissors,
+  Square,
+  Trash2,
+  Type,
+  Undo,
+} from "lucide-react"
 import type { ReactNode } from "react"
 import { DRAWING_COMMANDS, type DrawingCommand } from "../core/HotkeyManager"
-import { BRUSH_SIZES, type DrawingTool, PALETTE_TOKENS } from "../types"
+import {
+  BRUSH_SIZES,
+  type DrawingTool,
+  type EraserMode,
+  PALETTE_TOKENS,
+  SMOOTHING_LEVELS,
+  type SmoothingLevel,
+} from "../types"
 import { BrushSizeButton } from "./BrushSizeButton"
 import { ColorButton } from "./ColorButton"
+import { SmoothingButton } from "./SmoothingButton"
 import { ToolButton } from "./ToolButton"
 import { ToolbarDivider } from "./ToolbarDivider"
 import { ToolbarGroup } from "./ToolbarGroup"
@@ -13,32 +46,66 @@ export interface DrawingToolbarProps {
   currentTool: DrawingTool
   /** Currently selected color (CSS color value) */
   currentColor: string
+  /** Current eraser mode */
+  eraserMode?: EraserMode
+  /** Whether new shapes are filled */
+  fillEnabled?: boolean
   /** Currently selected brush size */
   currentBrushSize: number
+  /** Currently selected stroke smoothing level */
+  currentSmoothing?: SmoothingLevel
   /** Available colors (resolved from CSS variables) */
   colors: readonly string[]
+  /** Current zoom level (1 = 100%) */
+  zoom?: number
   /** Whether canvas has unsaved changes */
   isDirty?: boolean
   /** Whether undo is available */
   canUndo?: boolean
   /** Whether redo is available */
   canRedo?: boolean
-  /** Whether strokes exist (for clear button) */
-  hasStrokes?: boolean
+  /** Whether the active layer has elements and accepts edits (for clear button) */
+  canClear?: boolean
+  /** Whether elements are selected on a layer that accepts edits (for delete/duplicate buttons) */
+  hasSelection?: boolean
   /** Callback when tool changes */
   onToolChange?: (tool: DrawingTool) => void
+  /** Callback when the eraser mode is toggled */
+  onEraserModeToggle?: () => void
+  /** Callback when shape fill is toggled */
+  onFillToggle?: () => void
   /** Callback when color changes */
   onColorChange?: (color: string, index: number) => void
   /** Callback when brush size changes */
   onBrushSizeChange?: (size: number) => void
+  /** Callback when smoothing level changes */
+  onSmoothingChange?: (level: SmoothingLevel) => void
+  /** Callback for zoom to fit */
+  onZoomToFit?: () => void
+  /** Callback for zoom to 100% */
+  onZoomReset?: () => void
   /** Callback for undo */
   onUndo?: () => void
   /** Callback for redo */
   onRedo?: () => void
   /** Callback for save */
   onSave?: () => void
+  /** Callback to save under another name or folder */
+  onSaveAs?: () => void
+  /** Callback to open the export dialog */
+  onExport?: () => void
   /** Callback for clear */
   onClear?: () => void
+  /** Callback to delete the selected elements */
+  onDeleteSelection?: () => void
+  /** Callback to duplicate the selected elements */
+  onDuplicateSelection?: () => void
+  /** Callback to open the layers panel */
+  onOpenLayers?: () => void
+  /** Callback to open the history panel */
+  onOpenHistory?: () => void
+  /** Callback to open the document properties dialog */
+  onOpenProperties?: () => void
   /** Function to get hotkey display string */
   getHotkeyDisplay?: (command: DrawingCommand) => string | undefined
   /** Additional toolbar content */
@@ -62,8 +129,9 @@ const COLOR_NAMES: Record<string, string> = {
 /**
  * Drawing toolbar component
  *
- * Provides tool selection, color picker, brush size selector,
- * and action buttons (undo/redo/save/clear).
+ * Provides tool selection (selection, freehand and shapes), eraser mode toggle, shape fill toggle, color picker, brush size selector,
+ * stroke smoothing selector, zoom controls, and action buttons (duplicate/delete selection,
+ * layers, undo/redo/save/export/clear).
  *
  * Follows WAI-ARIA toolbar pattern with proper grouping.
  *
@@ -72,19 +140,36 @@ const COLOR_NAMES: Record<string, string> = {
 export function DrawingToolbar({
   currentTool,
   currentColor,
+  eraserMode = "object",
+  fillEnabled = false,
   currentBrushSize,
+  currentSmoothing,
   colors,
+  zoom,
   isDirty = false,
   canUndo = false,
   canRedo = false,
-  hasStrokes = false,
+  canClear = false,
+  hasSelection = false,
   onToolChange,
+  onEraserModeToggle,
+  onFillToggle,
   onColorChange,
   onBrushSizeChange,
+  onSmoothingChange,
+  onZoomToFit,
+  onZoomReset,
   onUndo,
   onRedo,
   onSave,
+  onSaveAs,
+  onExport,
   onClear,
+  onDeleteSelection,
+  onDuplicateSelection,
+  onOpenLayers,
+  onOpenHistory,
+  onOpenProperties,
   getHotkeyDisplay,
   children,
 }: DrawingToolbarProps) {
@@ -100,6 +185,20 @@ export function DrawingToolbar({
     >
       {/* Tool selection */}
       <ToolbarGroup aria-label='Drawing tools'>
+        <ToolButton
+          icon={<MousePointer2 className='w-4 h-4' />}
+          aria-label='Select'
+          pressed={currentTool === "select"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_SELECT)}
+          onClick={() => onToolChange?.("select")}
+        />
+        <ToolButton
+          icon={<Lasso className='w-4 h-4' />}
+          aria-label='Lasso select'
+          pressed={currentTool === "lasso"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_LASSO)}
+          onClick={() => onToolChange?.("lasso")}
+        />
         <ToolButton
           icon={<Pencil className='w-4 h-4' />}
           aria-label='Pencil'
@@ -114,6 +213,83 @@ export function DrawingToolbar({
           shortcut={getShortcut(DRAWING_COMMANDS.TOOL_ERASER)}
           onClick={() => onToolChange?.("eraser")}
         />
+        {currentTool === "eraser" && onEraserModeToggle && (
+          <ToolButton
+            icon={
+              eraserMode === "precise" ? (
+                <Scissors className='w-4 h-4' />
+              ) : (
+                <Trash2 className='w-4 h-4' />
+              )
+            }
+            aria-label={
+              eraserMode === "precise"
+                ? "Precise eraser (cuts strokes)"
+                : "Object eraser (removes whole elements)"
+            }
+            pressed={eraserMode === "precise"}
+            shortcut={getShortcut(DRAWING_COMMANDS.ERASER_MODE_TOGGLE)}
+            onClick={onEraserModeToggle}
+          />
+        )}
+        <ToolButton
+          icon={<Type className='w-4 h-4' />}
+          aria-label='Text'
+          pressed={currentTool === "text"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_TEXT)}
+          onClick={() => onToolChange?.("text")}
+        />
+      </ToolbarGroup>
+
+      {/* Shape tools */}
+      <ToolbarGroup aria-label='Shape tools'>
+        <ToolButton
+          icon={<Minus className='w-4 h-4' />}
+          aria-label='Line'
+          pressed={currentTool === "line"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_LINE)}
+          onClick={() => onToolChange?.("line")}
+        />
+        <ToolButton
+          icon={<Square className='w-4 h-4' />}
+          aria-label='Rectangle'
+          pressed={currentTool === "rectangle"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_RECTANGLE)}
+          onClick={() => onToolChange?.("rectangle")}
+        />
+        <ToolButton
+          icon={<Circle className='w-4 h-4' />}
+          aria-label='Ellipse'
+          pressed={currentTool === "ellipse"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_ELLIPSE)}
+          onClick={() => onToolChange?.("ellipse")}
+        />
+        <ToolButton
+          icon={<MoveUpRight className='w-4 h-4' />}
+          aria-label='Arrow'
+          pressed={currentTool === "arrow"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_ARROW)}
+          onClick={() => onToolChange?.("arrow")}
+        />
+        <ToolButton
+          icon={<Pentagon className='w-4 h-4' />}
+          aria-label='Polygon'
+          pressed={currentTool === "polygon"}
+          shortcut={getShortcut(DRAWING_COMMANDS.TOOL_POLYGON)}
+          onClick={() => onToolChange?.("polygon")}
+        />
+
+        {onFillToggle && (
+          <>
+            <ToolbarDivider />
+            <ToolButton
+              icon={<PaintBucket className='w-4 h-4' />}
+              aria-label='Fill shapes'
+              pressed={fillEnabled}
+              onClick={onFillToggle}
+            />
+          </>
+        )}
       </ToolbarGroup>
 
       {/* Color palette */}
@@ -170,11 +346,90 @@ export function DrawingToolbar({
         })}
       </ToolbarGroup>
 
+      {/* Stroke smoothing */}
+      {currentSmoothing && (
+        <ToolbarGroup aria-label='Stroke smoothing'>
+          {SMOOTHING_LEVELS.map((level) => (
+            <SmoothingButton
+              key={level}
+              level={level}
+              selected={currentSmoothing === level}
+              onClick={() => onSmoothingChange?.(level)}
+            />
+          ))}
+        </ToolbarGroup>
+      )}
+
+      {/* Zoom */}
+      {zoom !== undefined && (
+        <ToolbarGroup aria-label='Zoom'>
+          <ToolButton
+            icon={<Maximize className='w-4 h-4' />}
+            aria-label='Zoom to fit'
+            shortcut={getShortcut(DRAWING_COMMANDS.ZOOM_FIT)}
+            onClick={onZoomToFit}
+          />
+          <ToolButton
+            icon={
+              <span className='text-xs font-medium tabular-nums'>{Math.round(zoom * 100)}%</span>
+            }
+            aria-label='Zoom to 100%'
+            shortcut={getShortcut(DRAWING_COMMANDS.ZOOM_RESET)}
+            onClick={onZoomReset}
+          />
+        </ToolbarGroup>
+      )}
+
       {/* Spacer */}
       <div className='flex-1' />
 
       {/* Actions */}
       <ToolbarGroup aria-label='Actions' className='gap-1'>
+        {hasSelection && (onDuplicateSelection || onDeleteSelection) && (
+          <>
+            {onDuplicateSelection && (
+              <ToolButton
+                icon={<Copy className='w-4 h-4' />}
+                aria-label='Duplicate selection'
+                shortcut={getShortcut(DRAWING_COMMANDS.DUPLICATE_SELECTION)}
+                onClick={onDuplicateSelection}
+              />
+            )}
+            {onDeleteSelection && (
+              <ToolButton
+                icon={<Trash2 className='w-4 h-4' />}
+                aria-label='Delete selection'
+                variant='destructive'
+                shortcut={getShortcut(DRAWING_COMMANDS.DELETE_SELECTION)}
+                onClick={onDeleteSelection}
+              />
+            )}
+
+            <ToolbarDivider />
+          </>
+        )}
+
+        {(onOpenLayers || onOpenHistory) && (
+          <>
+            {onOpenLayers && (
+              <ToolButton
+                icon={<Layers className='w-4 h-4' />}
+                aria-label='Show layers'
+                onClick={onOpenLayers}
+              />
+            )}
+            {onOpenHistory && (
+              <ToolButton
+                icon={<History className='w-4 h-4' />}
+                aria-label='Show history'
+                onClick={onOpenHistory}
+              />
+            )}
+
+            <ToolbarDivider />
+          </>
+        )}
+
         {/* Save button - disabled when no unsaved changes */}
         {onSave && (
           <ToolButton
@@ -186,6 +441,28 @@ export function DrawingToolbar({
             pressed={isDirty}
           />
         )}
+        {onSaveAs && (
+          <ToolButton
+            icon={<FilePen className='w-4 h-4' />}
+            aria-label='Save as…'
+            onClick={onSaveAs}
+          />
+        )}
+        {onExport && (
+          <ToolButton
+            icon={<Download className='w-4 h-4' />}
+            aria-label='Export'
+            shortcut={getShortcut(DRAWING_COMMANDS.EXPORT)}
+            onClick={onExport}
+          />
+        )}
+        {onOpenProperties && (
+          <ToolButton
+            icon={<FileText className='w-4 h-4' />}
+            aria-label='Document properties'
+            onClick={onOpenProperties}
+          />
+        )}
 
         <ToolbarDivider />
 
@@ -211,7 +488,7 @@ export function DrawingToolbar({
           aria-label='Clear canvas'
           variant='destructive'
           shortcut={getShortcut(DRAWING_COMMANDS.CLEAR)}
-          disabled={!hasStrokes}
+          disabled={!canClear}
           onClick={onClear}
         />
       </ToolbarGroup>
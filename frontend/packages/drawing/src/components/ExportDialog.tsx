@@ -0,0 +1,164 @@
+import { useEffect, useId, useMemo, useRef, useState } from "react"
+import { getExportArea } from "../export/ExportArea"
+import { downloadBlob, exportDrawing, getExportFileName } from "../export/ExportFile"
+import { EXPORT_FORMATS, type ExportFormat, type Layer } from "../types"
+
+export interface ExportDialogProps {
+  /** Layers to export (hidden layers are left out) */
+  layers: ReadonlyArray<Layer>
+  /** Name of the drawing file (used for the exported file name) */
+  fileName: string
+  /** Background color used unless a transparent background is chosen */
+  backgroundColor: string
+  /** Callback when the dialog is closed (after export or cancel) */
+  onClose: () => void
+}
+
+/**
+ * PNG scale factors offered in the dialog
+ */
+const PNG_SCALES = [1, 2, 3, 4] as const
+
+/**
+ * Display labels of the export formats
+ */
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  png: "PNG image",
+  svg: "SVG vector",
+  pdf: "PDF document",
+}
+
+/**
+ * Dialog for exporting a drawing as PNG, SVG or PDF
+ *
+ * The exported area is the bounding box of the visible content. The
+ * file is handed to the browser as a download.
+ */
+export function ExportDialog({ layers, fileName, backgroundColor, onClose }: ExportDialogProps) {
+  const titleId = useId()
+  const formatRef = useRef<HTMLInputElement>(null)
+  const [format, setFormat] = useState<ExportFormat>("png")
+  const [scale, setScale] = useState<number>(2)
+  const [transparent, setTransparent] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const area = useMemo(() => getExportArea(layers), [layers])
+  const pixelScale = format === "png" ? scale : 1
+
+  useEffect(() => {
+    formatRef.current?.focus()
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => document.removeEventListener("keydown", handleKeyDown)
+  }, [onClose])
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    try {
+      const blob = await exportDrawing(layers, format, {
+        background: transparent ? null : backgroundColor,
+        scale,
+      })
+      downloadBlob(blob, getExportFileName(fileName, format))
+      onClose()
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError))
+      setExporting(false)
+    }
+  }
+
+  return (
+    <div className='fixed inset-0 z-50 grid place-items-center p-4 bg-black/50'>
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby={titleId}
+        className='grid gap-4 w-full max-w-sm p-5 rounded-lg shadow-xl bg-card text-card-foreground border border-border'
+      >
+        <h2 id={titleId} className='text-lg font-semibold'>
+          Export {fileName}
+        </h2>
+
+        <fieldset className='grid gap-1'>
+          <legend className='pb-1 text-sm font-medium'>Format</legend>
+          {EXPORT_FORMATS.map((option, index) => (
+            <label key={option} className='grid grid-cols-[auto_1fr] items-center gap-2 text-sm'>
+              <input
+                ref={index === 0 ? formatRef : undefined}
+                type='radio'
+                name='export-format'
+                value={option}
+                checked={format === option}
+                onChange={() => setFormat(option)}
+              />
+              {FORMAT_LABELS[option]}
+            </label>
+          ))}
+        </fieldset>
+
+        {format === "png" && (
+          <label className='grid grid-cols-[1fr_auto] items-center gap-2 text-sm'>
+            Scale
+            <select
+              value={scale}
+              onChange={(e) => setScale(Number(e.target.value))}
+              className='px-2 py-1 rounded-md bg-background border border-border'
+            >
+              {PNG_SCALES.map((option) => (
+                <option key={option} value={option}>
+                  {option}×
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className='grid grid-cols-[auto_1fr] items-center gap-2 text-sm'>
+          <input
+            type='checkbox'
+            checked={transparent}
+            onChange={(e) => setTransparent(e.target.checked)}
+          />
+          Transparent background
+        </label>
+
+        <p className='text-sm text-muted-foreground'>
+          {Math.round(area.width * pixelScale)} × {Math.round(area.height * pixelScale)}{" "}
+          {format === "pdf" ? "pt" : "px"}
+        </p>
+
+        {error && (
+          <p role='alert' className='text-sm text-destructive'>
+            Export failed: {error}
+          </p>
+        )}
+
+        <div className='grid grid-flow-col justify-end gap-2'>
+          <button
+            type='button'
+            onClick={onClose}
+            className='px-3 py-1.5 text-sm font-medium rounded-md border border-border bg-background hover:bg-muted transition-colors'
+          >
+            Cancel
+          </button>
+          <button
+            type='button'
+            onClick={handleExport}
+            disabled={exporting}
+            className='px-3 py-1.5 text-sm font-medium rounded-md bg-primary text-primary-foreground hover:opacity-90 disabled:opacity-50 transition-colors'
+          >
+            {exporting ? "Exporting…" : "Export"}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,228 @@
+import { Redo, Undo } from "lucide-react"
+import { useMemo, useRef } from "react"
+import { match } from "ts-pattern"
+import type { DrawingSession, DrawingSessionRegistry } from "../core/DrawingSessions"
+import type { HistoryCommand } from "../core/HistoryCommands"
+import {
+  applyHistoryPath,
+  getHistoryLayers,
+  getHistoryPath,
+  type HistoryEntry,
+  type HistoryTree,
+} from "../core/HistoryTree"
+import { renderThumbnail } from "../export/Thumbnail"
+import { useActiveDrawingSession } from "../hooks/useDrawingSession"
+import type { Layer } from "../types"
+import { ToolButton } from "./ToolButton"
+
+export interface HistoryPanelProps {
+  /** Session registry to follow (defaults to the shared registry) */
+  registry?: DrawingSessionRegistry
+}
+
+/**
+ * Entry of the flattened tree with its indentation
+ */
+interface HistoryRow {
+  readonly entry: HistoryEntry
+  /** Branch nesting (0 for the oldest branch) */
+  readonly level: number
+}
+
+/**
+ * Size of the entry thumbnails (pixels)
+ */
+const THUMBNAIL_SIZE = 40
+
+/**
+ * Indentation per branch level (rem)
+ */
+const BRANCH_INDENT = 0.75
+
+/**
+ * Describe the change of an entry
+ */
+function getCommandLabel(command: HistoryCommand | null): string {
+  if (!command) return "Opened"
+
+  const count = (n: number, noun: string) => (n === 1 ? noun : `${n} ${noun}s`)
+  return match(command)
+    .with({ type: "addElements" }, ({ entries }) => `Add ${count(entries.length, "element")}`)
+    .with({ type: "removeElements" }, ({ entries }) => `Delete ${count(entries.length, "element")}`)
+    .with({ type: "updateElements" }, ({ updates }) => `Edit ${count(updates.length, "element")}`)
+    .with({ type: "updateLayer" }, ({ after }) => {
+      if (after.name !== undefined) return "Rename layer"
+      if (after.visible !== undefined) return after.visible ? "Show layer" : "Hide layer"
+      if (after.locked !== undefined) return after.locked ? "Lock layer" : "Unlock layer"
+      if (after.opacity !== undefined) return "Change layer opacity"
+      return "Change layer"
+    })
+    .with({ type: "addLayer" }, () => "Add layer")
+    .with({ type: "removeLayer" }, () => "Delete layer")
+    .with({ type: "moveLayer" }, () => "Move layer")
+    .with({ type: "replaceLayers" }, () => "Change layers")
+    .with({ type: "batch" }, () => "Edit drawing")
+    .exhaustive()
+}
+
+/**
+ * Flatten the tree for display
+ *
+ * Each entry is followed by the branches that fork from it (indented,
+ * newest last) and then by its oldest child, which continues the
+ * branch at the same level.
+ */
+function getHistoryRows(tree: HistoryTree): ReadonlyArray<HistoryRow> {
+  const rows: HistoryRow[] = []
+  const pending: HistoryRow[] = []
+  const root = tree.entries.get(tree.rootId)
+  if (root) pending.push({ entry: root, level: 0 })
+
+  for (let row = pending.pop(); row; row = pending.pop()) {
+    rows.push(row)
+    const [first, ...forks] = row.entry.childIds
+    if (first === undefined) continue
+
+    const firstEntry = tree.entries.get(first)
+    if (firstEntry) pending.push({ entry: firstEntry, level: row.level })
+    for (const id of forks.reverse()) {
+      const entry = tree.entries.get(id)
+      if (entry) pending.push({ entry, level: row.level + 1 })
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Thumbnails of all entries, rendered once per entry
+ *
+ * States are derived from the current layers by replaying commands:
+ * a single new entry is reached along its path, many at once with one
+ * walk over the whole tree.
+ */
+function useHistoryThumbnails(
+  tree: HistoryTree,
+  layers: ReadonlyArray<Layer>,
+): ReadonlyMap<string, string> {
+  const cacheRef = useRef(new Map<string, string>())
+
+  return useMemo(() => {
+    const cache = cacheRef.current
+    for (const id of cache.keys()) {
+      if (!tree.entries.has(id)) cache.delete(id)
+    }
+
+    const missing = [...tree.entries.keys()].filter((id) => !cache.has(id))
+    const getLayers =
+      missing.length > 1
+        ? (() => {
+            const all = getHistoryLayers(tree, layers)
+            return (id: string) => all.get(id)
+          })()
+        : (id: string) => {
+            const path = getHistoryPath(tree, id)
+            return path ? applyHistoryPath(layers, path) : undefined
+          }
+
+    for (const id of missing) {
+      const entryLayers = getLayers(id)
+      if (entryLayers) cache.set(id, renderThumbnail(entryLayers, THUMBNAIL_SIZE))
+    }
+    return new Map(cache)
+  }, [tree, layers])
+}
+
+/**
+ * Undo history of the active drawing
+ *
+ * Shows the whole undo tree: changes made after undoing start a new
+ * branch instead of replacing the undone ones. Clicking an entry
+ * moves the drawing to that state. Like the layers panel, it follows
+ * whichever drawing was focused last.
+ */
+export function HistoryPanel({ registry }: HistoryPanelProps) {
+  const session = useActiveDrawingSession(registry)
+
+  if (!session) {
+    return (
+      <div className='grid place-items-center h-full p-4 text-sm text-muted-foreground'>
+        Open a drawing to see its history
+      </div>
+    )
+  }
+
+  return <HistoryList key={session.panelId} session={session} />
+}
+
+interface HistoryListProps {
+  session: DrawingSession
+}
+
+/**
+ * Entries of one drawing (keyed by drawing, so thumbnails are not shared)
+ */
+function HistoryList({ session }: HistoryListProps) {
+  const { history, historyActions, layers } = session
+  const rows = useMemo(() => getHistoryRows(history), [history])
+  const thumbnails = useHistoryThumbnails(history, layers)
+  const current = history.entries.get(history.currentId)
+
+  return (
+    <section
+      aria-label={`History of ${session.title}`}
+      className='grid grid-rows-[auto_1fr] h-full'
+    >
+      <header className='grid grid-cols-[1fr_auto_auto] items-center gap-1 px-2 py-1 border-b border-border/50'>
+        <h2 className='text-sm font-medium truncate'>{session.title}</h2>
+        <ToolButton
+          icon={<Undo className='w-4 h-4' />}
+          aria-label='Undo'
+          disabled={current?.parentId === null}
+          onClick={historyActions.undo}
+        />
+        <ToolButton
+          icon={<Redo className='w-4 h-4' />}
+          aria-label='Redo'
+          disabled={current?.childIds.length === 0}
+          onClick={historyActions.redo}
+        />
+      </header>
+
+      <ol className='grid content-start gap-0.5 p-1 overflow-auto'>
+        {rows.map(({ entry, level }) => {
+          const isCurrent = entry.id === history.currentId
+          const label = getCommandLabel(entry.command)
+          return (
+            <li key={entry.id} style={{ paddingInlineStart: `${level * BRANCH_INDENT}rem` }}>
+              <button
+                type='button'
+                aria-current={isCurrent ? "step" : undefined}
+                onClick={() => historyActions.jumpTo(entry.id)}
+                className={`grid grid-cols-[auto_1fr] items-center gap-2 w-full p-1 rounded-md text-left cursor-pointer hover:bg-muted aria-[current]:bg-selected/40 ${level > 0 ? "border-l border-border" : ""}`}
+              >
+                <img
+                  src={thumbnails.get(entry.id)}
+                  alt=''
+                  width={THUMBNAIL_SIZE}
+                  height={THUMBNAIL_SIZE}
+                  className='rounded-sm border border-border/50 bg-canvas object-contain'
+                  style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE }}
+                />
+                <span className='grid min-w-0'>
+                  <span className='text-sm truncate'>{label}</span>
+                  <span className='text-xs text-muted-foreground'>
+                    <time dateTime={new Date(entry.timestamp).toISOString()}>
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </time>
+                    {entry.id === history.savedId && " · Saved"}
+                  </span>
+                </span>
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+    </section>
+  )
+}
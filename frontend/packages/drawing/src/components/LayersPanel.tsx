@@ -0,0 +1,190 @@
+import { ChevronDown, ChevronUp, Eye, EyeOff, Lock, LockOpen, Plus, Trash2 } from "lucide-react"
+import { useEffect, useState } from "react"
+import type { DrawingSession, DrawingSessionRegistry } from "../core/DrawingSessions"
+import { useActiveDrawingSession } from "../hooks/useDrawingSession"
+import type { Layer } from "../types"
+import { ToolButton } from "./ToolButton"
+
+export interface LayersPanelProps {
+  /** Session registry to follow (defaults to the shared registry) */
+  registry?: DrawingSessionRegistry
+}
+
+interface LayerRowProps {
+  layer: Layer
+  index: number
+  count: number
+  active: boolean
+  actions: DrawingSession["actions"]
+}
+
+/**
+ * Single layer entry
+ *
+ * The name selects the layer and can be renamed by double-clicking.
+ * Opacity changes are committed when the slider is released, so
+ * dragging it creates a single undo step.
+ */
+function LayerRow({ layer, index, count, active, actions }: LayerRowProps) {
+  const [renaming, setRenaming] = useState(false)
+  const [name, setName] = useState(layer.name)
+  const [opacity, setOpacity] = useState(Math.round(layer.opacity * 100))
+
+  useEffect(() => {
+    setOpacity(Math.round(layer.opacity * 100))
+  }, [layer.opacity])
+
+  const commitName = () => {
+    setRenaming(false)
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== layer.name) {
+      actions.renameLayer(layer.id, trimmed)
+    } else {
+      setName(layer.name)
+    }
+  }
+
+  const commitOpacity = () => {
+    if (opacity !== Math.round(layer.opacity * 100)) {
+      actions.setLayerOpacity(layer.id, opacity / 100)
+    }
+  }
+
+  return (
+    <li
+      data-active={active ? "" : undefined}
+      className='grid grid-cols-[auto_auto_1fr_auto] items-center gap-1 px-2 py-1 rounded-md data-[active]:bg-selected/40'
+    >
+      <ToolButton
+        icon={layer.visible ? <Eye className='w-4 h-4' /> : <EyeOff className='w-4 h-4' />}
+        aria-label={layer.visible ? `Hide ${layer.name}` : `Show ${layer.name}`}
+        onClick={() => actions.setLayerVisible(layer.id, !layer.visible)}
+      />
+      <ToolButton
+        icon={layer.locked ? <Lock className='w-4 h-4' /> : <LockOpen className='w-4 h-4' />}
+        aria-label={layer.locked ? `Unlock ${layer.name}` : `Lock ${layer.name}`}
+        pressed={layer.locked}
+        onClick={() => actions.setLayerLocked(layer.id, !layer.locked)}
+      />
+
+      <div className='grid gap-1 min-w-0'>
+        {renaming ? (
+          <input
+            // biome-ignore lint/a11y/noAutofocus: the input replaces the name the user just double-clicked
+            autoFocus
+            value={name}
+            aria-label='Layer name'
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitName()
+              if (e.key === "Escape") {
+                setName(layer.name)
+                setRenaming(false)
+              }
+            }}
+            className='w-full px-1 text-sm bg-background border border-border rounded'
+          />
+        ) : (
+          <button
+            type='button'
+            aria-pressed={active}
+            title='Double-click to rename'
+            onClick={() => actions.selectLayer(layer.id)}
+            onDoubleClick={() => {
+              setName(layer.name)
+              setRenaming(true)
+            }}
+            className={`text-left text-sm truncate cursor-pointer ${layer.visible ? "" : "text-muted-foreground"}`}
+          >
+            {layer.name}
+          </button>
+        )}
+        <input
+          type='range'
+          min={0}
+          max={100}
+          value={opacity}
+          aria-label={`${layer.name} opacity`}
+          title={`Opacity ${opacity}%`}
+          onChange={(e) => setOpacity(Number(e.target.value))}
+          onPointerUp={commitOpacity}
+          onKeyUp={commitOpacity}
+          onBlur={commitOpacity}
+          className='w-full h-1 accent-primary'
+        />
+      </div>
+
+      <div className='grid grid-flow-col auto-cols-max'>
+        <ToolButton
+          icon={<ChevronUp className='w-4 h-4' />}
+          aria-label={`Move ${layer.name} up`}
+          disabled={index === count - 1}
+          onClick={() => actions.moveLayer(layer.id, index + 1)}
+        />
+        <ToolButton
+          icon={<ChevronDown className='w-4 h-4' />}
+          aria-label={`Move ${layer.name} down`}
+          disabled={index === 0}
+          onClick={() => actions.moveLayer(layer.id, index - 1)}
+        />
+        <ToolButton
+          icon={<Trash2 className='w-4 h-4' />}
+          aria-label={`Delete ${layer.name}`}
+          variant='destructive'
+          disabled={count <= 1}
+          onClick={() => actions.removeLayer(layer.id)}
+        />
+      </div>
+    </li>
+  )
+}
+
+/**
+ * Layers of the active drawing
+ *
+ * Meant to be placed in its own dock panel: it follows whichever
+ * drawing was focused last, so it works wherever it is docked.
+ * Layers are listed top to bottom.
+ */
+export function LayersPanel({ registry }: LayersPanelProps) {
+  const session = useActiveDrawingSession(registry)
+
+  if (!session) {
+    return (
+      <div className='grid place-items-center h-full p-4 text-sm text-muted-foreground'>
+        Open a drawing to edit its layers
+      </div>
+    )
+  }
+
+  const { layers, activeLayerId, actions } = session
+
+  return (
+    <section aria-label={`Layers of ${session.title}`} className='grid grid-rows-[auto_1fr] h-full'>
+      <header className='grid grid-cols-[1fr_auto] items-center gap-2 px-2 py-1 border-b border-border/50'>
+        <h2 className='text-sm font-medium truncate'>{session.title}</h2>
+        <ToolButton
+          icon={<Plus className='w-4 h-4' />}
+          aria-label='Add layer'
+          onClick={actions.addLayer}
+        />
+      </header>
+
+      <ul className='grid content-start gap-0.5 p-1 overflow-auto'>
+        {layers
+          .map((layer, index) => (
+            <LayerRow
+              key={layer.id}
+              layer={layer}
+              index={index}
+              count={layers.length}
+              active={layer.id === activeLayerId}
+              actions={actions}
+            />
+          ))
+          .reverse()}
+      </ul>
+    </section>
+  )
+}
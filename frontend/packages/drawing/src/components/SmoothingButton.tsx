@@ -0,0 +1,108 @@
+import type { ComponentProps, Ref } from "react"
+import type { SmoothingLevel } from "../types"
+
+export interface SmoothingButtonProps extends Omit<ComponentProps<"button">, "children"> {
+  /** Smoothing level represented by this button */
+  level: SmoothingLevel
+  /** Whether this level is selected */
+  selected?: boolean
+  /** Keyboard shortcut hint */
+  shortcut?: string
+  /** Ref to button element */
+  ref?: Ref<HTMLButtonElement>
+}
+
+/**
+ * Short labels shown inside the button
+ */
+const LEVEL_LABELS: Record<SmoothingLevel, string> = {
+  off: "Off",
+  low: "L",
+  medium: "M",
+  high: "H",
+}
+
+/**
+ * Accessible names for each level
+ */
+const LEVEL_NAMES: Record<SmoothingLevel, string> = {
+  off: "Smoothing off",
+  low: "Smoothing low",
+  medium: "Smoothing medium",
+  high: "Smoothing high",
+}
+
+/**
+ * Stroke smoothing level selector button
+ *
+ * Shares the visual language of BrushSizeButton, showing a short
+ * text label instead of a size indicator.
+ * Uses aria-pressed for toggle semantics.
+ */
+export function SmoothingButton({
+  level,
+  selected = false,
+  shortcut,
+  disabled,
+  className = "",
+  ref,
+  ...props
+}: SmoothingButtonProps) {
+  const label = LEVEL_NAMES[level]
+  const title = shortcut ? `${label} (${shortcut})` : label
+
+  return (
+    <button
+      ref={ref}
+      type='button'
+      aria-label={label}
+      aria-pressed={selected}
+      disabled={disabled}
+      title={title}
+      data-selected={selected ? "" : undefined}
+      className={`
+        grid place-items-center
+        min-w-8 min-h-8 h-8 px-2
+        rounded-md
+        text-xs font-medium
+        cursor-pointer
+        transition-all duration-normal ease-out
+
+        /* Default state */
+        text-muted-foreground
+        bg-transparent
+
+        /* Hover - subtle background */
+        hover:bg-background
+        hover:text-foreground
+
+        /* Active press */
+        active:scale-95
+
+        /* Focus ring */
+        focus-visible:outline-none
+        focus-visible:ring-2
+        focus-visible:ring-ring
+        focus-visible:ring-offset-1
+        focus-visible:ring-offset-background
+
+        /* Disabled */
+        disabled:opacity-40
+        disabled:cursor-not-allowed
+        disabled:hover:bg-transparent
+        disabled:hover:text-muted-foreground
+        disabled:active:scale-100
+
+        /* Selected state - use semantic selected color */
+        data-[selected]:bg-selected
+        data-[selected]:text-selected-foreground
+        data-[selected]:hover:bg-selected
+
+        ${className}
+      `}
+      {...props}
+    >
+      {LEVEL_LABELS[level]}
+    </button>
+  )
+}
@@ -0,0 +1,96 @@
+import { useEffect, useRef } from "react"
+import { measureText, TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from "../core/TextRenderer"
+
+export interface TextEditorProps {
+  /** Current text */
+  value: string
+  /** Font size in world units */
+  fontSize: number
+  /** Text color */
+  color: string
+  /** Left edge in screen coordinates (CSS pixels) */
+  left: number
+  /** Top edge in screen coordinates (CSS pixels) */
+  top: number
+  /** Viewport scale (world to screen) */
+  scale: number
+  /** Callback when text changes */
+  onChange: (value: string) => void
+  /** Callback to finish editing and keep the text */
+  onCommit: () => void
+  /** Callback to abort editing */
+  onCancel: () => void
+}
+
+/**
+ * In-place editor for text elements
+ *
+ * A transparent textarea laid over the canvas with the same font
+ * metrics as the rendered text, so the text does not shift when
+ * editing starts or ends.
+ *
+ * Keyboard:
+ * - Enter: new line
+ * - Ctrl/Cmd+Enter or focus loss: commit
+ * - Escape: cancel
+ */
+export function TextEditor({
+  value,
+  fontSize,
+  color,
+  left,
+  top,
+  scale,
+  onChange,
+  onCommit,
+  onCancel,
+}: TextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  // Focus with the caret at the end when the editor opens
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length)
+  }, [])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault()
+      onCancel()
+    } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      onCommit()
+    }
+  }
+
+  // Size the box to the text (plus room for the caret)
+  const size = measureText({ text: value, fontSize })
+  const width = (Math.max(size.width, fontSize) + fontSize / 2) * scale
+  const height = size.height * scale
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={value}
+      aria-label='Text'
+      spellCheck={false}
+      wrap='off'
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={onCommit}
+      className='absolute m-0 p-0 border-0 bg-transparent resize-none overflow-hidden whitespace-pre outline-1 outline-dashed outline-ring'
+      style={{
+        left,
+        top,
+        width,
+        height,
+        color,
+        fontFamily: TEXT_FONT_FAMILY,
+        fontSize: fontSize * scale,
+        lineHeight: TEXT_LINE_HEIGHT,
+      }}
+    />
+  )
+}
@@ -1,8 +1,17 @@
 export { BrushSizeButton, type BrushSizeButtonProps } from "./BrushSizeButton"
 export { Canvas, type CanvasHandle, type CanvasProps } from "./Canvas"
 export { ColorButton, type ColorButtonProps } from "./ColorButton"
+export {
+  DocumentPropertiesDialog,
+  type DocumentPropertiesDialogProps,
+} from "./DocumentPropertiesDialog"
 export { DrawingCanvas, type DrawingCanvasProps } from "./DrawingCanvas"
 export { DrawingToolbar, type DrawingToolbarProps } from "./DrawingToolbar"
+export { ExportDialog, type ExportDialogProps } from "./ExportDialog"
+export { HistoryPanel, type HistoryPanelProps } from "./HistoryPanel"
+export { LayersPanel, type LayersPanelProps } from "./LayersPanel"
+export { SmoothingButton, type SmoothingButtonProps } from "./SmoothingButton"
+export { TextEditor, type TextEditorProps } from "./TextEditor"
 export { ToolButton, type ToolButtonProps, type ToolButtonVariant } from "./ToolButton"
 export { ToolbarDivider } from "./ToolbarDivider"
 export { ToolbarGroup, type ToolbarGroupProps } from "./ToolbarGroup"
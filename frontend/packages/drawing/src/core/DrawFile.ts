@@ -0,0 +1,150 @@
+import type { Layer } from "../types"
+import { getDocumentVersion, migrateDrawDocument } from "./DrawFileMigrations"
+import { type ValidationIssue, validateDrawDocument } from "./DrawFileSchema"
+
+/**
+ * Format version written by this version of the app
+ */
+export const DRAW_FILE_VERSION = 2
+
+/**
+ * Metadata of a drawing
+ */
+export interface DrawDocumentMeta {
+  /** Title of the drawing (empty when unset) */
+  readonly title: string
+  readonly author: string
+  /** ISO date of the first save (null for files older than version 1) */
+  readonly created: string | null
+  /** ISO date of the last save */
+  readonly modified: string | null
+  /** Intended canvas width (world units; null when unbounded) */
+  readonly width: number | null
+  /** Intended canvas height (world units; null when unbounded) */
+  readonly height: number | null
+  /** Canvas background color (null for the theme's canvas color) */
+  readonly background: string | null
+  readonly tags: ReadonlyArray<string>
+}
+
+/**
+ * Contents of a `.draw` file
+ *
+ * Files written before the format was versioned have no `version` and
+ * no `meta`; they are migrated when read (see DrawFileMigrations).
+ */
+export interface DrawDocument {
+  readonly version: typeof DRAW_FILE_VERSION
+  readonly meta: DrawDocumentMeta
+  /** Small PNG preview as a data URL, rendered on save (e.g. for file lists) */
+  readonly thumbnail: string | null
+  readonly layers: ReadonlyArray<Layer>
+}
+
+/**
+ * Reasons a `.draw` file cannot be read
+ */
+export type DrawFileError =
+  | { readonly type: "corrupted"; readonly message: string }
+  | { readonly type: "syntax"; readonly message: string }
+  | { readonly type: "unsupportedVersion"; readonly version: unknown }
+  | { readonly type: "invalid"; readonly issues: ReadonlyArray<ValidationIssue> }
+
+/**
+ * Result of parsing a `.draw` file
+ */
+export type ParseDrawingResult =
+  | { readonly type: "success"; readonly data: DrawDocument }
+  | { readonly type: "error"; readonly error: DrawFileError }
+
+/**
+ * Metadata of a drawing that has never been saved
+ */
+export function createDrawMeta(): DrawDocumentMeta {
+  return {
+    title: "",
+    author: "",
+    created: null,
+    modified: null,
+    width: null,
+    height: null,
+    background: null,
+    tags: [],
+  }
+}
+
+/**
+ * Metadata with the timestamps of a save at `date`
+ */
+export function touchDrawMeta(meta: DrawDocumentMeta, date = new Date()): DrawDocumentMeta {
+  const now = date.toISOString()
+  return { ...meta, created: meta.created ?? now, modified: now }
+}
+
+/**
+ * Serialize a drawing to `.draw` file content
+ *
+ * The content is pretty-printed unless `compact` is set (e.g. for
+ * content that is compressed anyway, see DrawFileEncoding).
+ */
+export function serializeDrawing(
+  { meta, thumbnail, layers }: Omit<DrawDocument, "version">,
+  { compact = false }: { compact?: boolean } = {},
+): string {
+  const data: DrawDocument = { version: DRAW_FILE_VERSION, meta, thumbnail, layers }
+  return compact ? JSON.stringify(data) : JSON.stringify(data, null, 2)
+}
+
+/**
+ * Parse `.draw` file content
+ *
+ * Older formats are migrated to the current version, and the result
+ * is validated, so a malformed file is reported with the location of
+ * each problem instead of being opened as a blank drawing.
+ */
+export function parseDrawing(content: string): ParseDrawingResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { type: "error", error: { type: "syntax", message } }
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return {
+      type: "error",
+      error: { type: "invalid", issues: validateDrawDocument(parsed, DRAW_FILE_VERSION) },
+    }
+  }
+
+  const document = parsed as Record<string, unknown>
+  const migrated = migrateDrawDocument(document, DRAW_FILE_VERSION)
+  if (!migrated) {
+    return {
+      type: "error",
+      error: { type: "unsupportedVersion", version: getDocumentVersion(document) },
+    }
+  }
+
+  const issues = validateDrawDocument(migrated, DRAW_FILE_VERSION)
+  return issues.length === 0
+    ? { type: "success", data: migrated as unknown as DrawDocument }
+    : { type: "error", error: { type: "invalid", issues } }
+}
+
+/**
+ * Read just the embedded thumbnail of `.draw` file content
+ *
+ * Skips migration and validation, so it is cheap enough for listing
+ * many files. Returns null for files without a thumbnail and for
+ * unreadable files.
+ */
+export function readDrawingThumbnail(content: string): string | null {
+  try {
+    const { thumbnail } = JSON.parse(content) as { thumbnail?: unknown }
+    return typeof thumbnail === "string" && thumbnail.startsWith("data:image/") ? thumbnail : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { createDrawMeta, type DrawDocument, parseDrawing, serializeDrawing } from "./DrawFile"
+import { decodeDrawing, encodeDrawing, getDrawFileEncoding } from "./DrawFileEncoding"
+import { createLayer } from "./Layers"
+
+const document: Omit<DrawDocument, "version"> = {
+  meta: { ...createDrawMeta(), title: "Skizze – ümlaut ✏️" },
+  thumbnail: null,
+  layers: [
+    createLayer("Layer 1", [
+      {
+        id: "stroke",
+        points: Array.from({ length: 100 }, (_, i) => ({ x: i, y: i * 2, pressure: 0.5 })),
+        color: "#000000",
+        width: 2,
+      },
+    ]),
+  ],
+}
+
+const content = serializeDrawing(document)
+
+async function decodeToContent(bytes: Uint8Array): Promise<string> {
+  const result = await decodeDrawing(bytes)
+  if (result.type !== "success") throw new Error(`decoding failed: ${result.error.type}`)
+  return result.data
+}
+
+describe("getDrawFileEncoding", () => {
+  it("detects the DRWZ header", () => {
+    expect(getDrawFileEncoding(new TextEncoder().encode("DRWZ..."))).toBe("compressed")
+  })
+
+  it("treats everything else as JSON", () => {
+    for (const text of ["{}", "  {", "DRW", "drwz", ""]) {
+      expect(getDrawFileEncoding(new TextEncoder().encode(text))).toBe("json")
+    }
+  })
+})
+
+describe("encodeDrawing and decodeDrawing", () => {
+  it("round-trip plain JSON unchanged", async () => {
+    const bytes = await encodeDrawing(content, "json")
+    expect(getDrawFileEncoding(bytes)).toBe("json")
+    expect(new TextDecoder().decode(bytes)).toBe(content)
+    expect(await decodeToContent(bytes)).toBe(content)
+  })
+
+  it("round-trip compressed content behind the header", async () => {
+    const compact = serializeDrawing(document, { compact: true })
+    const bytes = await encodeDrawing(compact, "compressed")
+    expect(getDrawFileEncoding(bytes)).toBe("compressed")
+    expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe("DRWZ")
+    expect(bytes.length).toBeLessThan(compact.length)
+
+    const decoded = await decodeToContent(bytes)
+    expect(decoded).toBe(compact)
+    const parsed = parseDrawing(decoded)
+    expect(parsed.type === "success" && parsed.data.layers).toEqual(document.layers)
+  })
+
+  it("reads legacy plain JSON files", async () => {
+    const legacy = JSON.stringify({ strokes: [{ id: "s", points: [], color: "#000", width: 1 }] })
+    const decoded = await decodeToContent(new TextEncoder().encode(legacy))
+    expect(decoded).toBe(legacy)
+
+    const parsed = parseDrawing(decoded)
+    expect(parsed.type).toBe("success")
+    expect(parsed.type === "success" && parsed.data.layers[0]?.elements).toHaveLength(1)
+  })
+
+  it("reports truncated compressed files instead of throwing", async () => {
+    const bytes = await encodeDrawing(content, "compressed")
+    const result = await decodeDrawing(bytes.subarray(0, Math.floor(bytes.length / 2)))
+    expect(result).toMatchObject({ type: "error", error: { type: "corrupted" } })
+  })
+
+  it("reports damaged compressed files instead of throwing", async () => {
+    const bytes = await encodeDrawing(content, "compressed")
+    const damaged = bytes.slice()
+    for (let i = 10; i < damaged.length; i += 7) {
+      damaged[i] = damaged[i] ^ 0xff
+    }
+    const result = await decodeDrawing(damaged)
+    expect(result).toMatchObject({ type: "error", error: { type: "corrupted" } })
+  })
+
+  it("reports a bare header instead of throwing", async () => {
+    const result = await decodeDrawing(new TextEncoder().encode("DRWZ"))
+    expect(result).toMatchObject({ type: "error", error: { type: "corrupted" } })
+  })
+})
@@ -0,0 +1,81 @@
+import type { DrawFileError } from "./DrawFile"
+
+/**
+ * Encodings of `.draw` files on disk
+ *
+ * - `json`: plain UTF-8 JSON, readable by any tool
+ * - `compressed`: the magic header followed by gzipped JSON
+ */
+export type DrawFileEncoding = "json" | "compressed"
+
+/**
+ * Result of decoding `.draw` file bytes
+ */
+export type DecodeDrawingResult =
+  | { readonly type: "success"; readonly data: string }
+  | { readonly type: "error"; readonly error: DrawFileError }
+
+/**
+ * Header of compressed files ("DRWZ")
+ *
+ * JSON files start with `{` or whitespace, so the header cannot be
+ * mistaken for the start of a plain file.
+ */
+const COMPRESSED_MAGIC = new Uint8Array([0x44, 0x52, 0x57, 0x5a])
+
+/**
+ * Detect the encoding of `.draw` file bytes by their header
+ */
+export function getDrawFileEncoding(bytes: Uint8Array): DrawFileEncoding {
+  return COMPRESSED_MAGIC.every((byte, index) => bytes[index] === byte) ? "compressed" : "json"
+}
+
+/**
+ * Encode `.draw` file content for writing
+ */
+export async function encodeDrawing(
+  content: string,
+  encoding: DrawFileEncoding,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const text = new TextEncoder().encode(content)
+  if (encoding === "json") return text
+
+  const compressed = await transform(text, new CompressionStream("gzip"))
+  const bytes = new Uint8Array(COMPRESSED_MAGIC.length + compressed.length)
+  bytes.set(COMPRESSED_MAGIC)
+  bytes.set(compressed, COMPRESSED_MAGIC.length)
+  return bytes
+}
+
+/**
+ * Decode `.draw` file bytes of either encoding into content
+ *
+ * Fails when a compressed file is truncated or damaged.
+ */
+export async function decodeDrawing(bytes: Uint8Array): Promise<DecodeDrawingResult> {
+  if (getDrawFileEncoding(bytes) === "json") {
+    return { type: "success", data: new TextDecoder().decode(bytes) }
+  }
+
+  try {
+    const text = await transform(
+      bytes.subarray(COMPRESSED_MAGIC.length),
+      new DecompressionStream("gzip"),
+    )
+    return { type: "success", data: new TextDecoder("utf-8", { fatal: true }).decode(text) }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { type: "error", error: { type: "corrupted", message } }
+  }
+}
+
+/**
+ * Run bytes through a compression or decompression stream
+ */
+async function transform(
+  bytes: Uint8Array,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes as Uint8Array<ArrayBuffer>]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
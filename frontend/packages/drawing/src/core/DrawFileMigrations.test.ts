@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { migrateDrawDocument } from "./DrawFileMigrations"
+
+const points = [
+  { x: 0, y: 0 },
+  { x: 10, y: 10 },
+]
+
+function stroke(id: string, color: string, extra: Record<string, unknown> = {}) {
+  return { id, points, color, width: 2, ...extra }
+}
+
+function migratedElements(document: Record<string, unknown>): unknown[] {
+  const migrated = migrateDrawDocument(document, 2)
+  const [layer] = migrated?.layers as Array<{ elements: unknown[] }>
+  return layer.elements
+}
+
+describe("migrateDrawDocument", () => {
+  it("turns strokes of the old paint-over eraser into erase strokes", () => {
+    const elements = migratedElements({
+      strokes: [stroke("ink", "#000000"), stroke("eraser", "#FFFFFF")],
+    })
+    expect(elements).toEqual([
+      stroke("ink", "#000000"),
+      stroke("eraser", "#FFFFFF", { erase: true }),
+    ])
+  })
+
+  it("leaves white text and shapes alone", () => {
+    const text = { type: "text", id: "text", text: "Hi", color: "#ffffff" }
+    expect(migratedElements({ elements: [text] })).toEqual([text])
+  })
+
+  it("leaves white ink alone in files written with the vector eraser", () => {
+    const elements = [stroke("ink", "#ffffff"), stroke("eraser", "#000000", { erase: true })]
+    expect(migratedElements({ elements })).toEqual(elements)
+  })
+
+  it("leaves layered files alone", () => {
+    const layer = {
+      id: "layer",
+      name: "Layer 1",
+      visible: true,
+      locked: false,
+      opacity: 1,
+      elements: [stroke("ink", "#ffffff")],
+    }
+    expect(migratedElements({ layers: [layer] })).toEqual(layer.elements)
+  })
+
+  it("does not run again on current files", () => {
+    const document = { version: 2, layers: [] }
+    expect(migrateDrawDocument(document, 2)).toBe(document)
+  })
+})
@@ -0,0 +1,97 @@
+import { markLegacyEraserStrokes } from "./Eraser"
+import { createLayer } from "./Layers"
+
+/**
+ * Step that upgrades a document from one format version to the next
+ *
+ * Migrations work on plain JSON values: they run before validation,
+ * so they only rely on the shape the older version guaranteed.
+ */
+interface DrawFileMigration {
+  /** Version the migration reads (the result has version `from + 1`) */
+  readonly from: number
+  readonly migrate: (document: Record<string, unknown>) => Record<string, unknown>
+}
+
+/**
+ * Name of the layer that holds the contents of a file without layers
+ */
+const LEGACY_LAYER_NAME = "Layer 1"
+
+/**
+ * Upgrades in version order
+ *
+ * Version 0 is every unversioned file: files written before layers
+ * existed store a flat `elements` list, files written before shapes
+ * existed store freehand strokes under `strokes`, and the first files
+ * with layers store just `layers`. Their creation time is unknown.
+ * Files without layers may predate the vector eraser, so the strokes
+ * the old paint-over eraser left in them become erase strokes.
+ */
+const MIGRATIONS: ReadonlyArray<DrawFileMigration> = [
+  {
+    from: 0,
+    migrate: ({ layers, elements, strokes }) => {
+      const legacyElements = Array.isArray(elements) ? elements : strokes
+      return {
+        version: 1,
+        meta: { created: null, modified: null },
+        layers:
+          layers === undefined && Array.isArray(legacyElements)
+            ? [createLayer(LEGACY_LAYER_NAME, markLegacyEraserStrokes(legacyElements))]
+            : layers,
+      }
+    },
+  },
+  {
+    // Version 2 adds descriptive metadata and the embedded thumbnail
+    from: 1,
+    migrate: ({ meta, ...document }) => ({
+      ...document,
+      version: 2,
+      meta:
+        typeof meta === "object" && meta !== null
+          ? {
+              title: "",
+              author: "",
+              width: null,
+              height: null,
+              background: null,
+              tags: [],
+              ...meta,
+            }
+          : meta,
+      thumbnail: null,
+    }),
+  },
+]
+
+/**
+ * Format version of a document (0 for unversioned files)
+ */
+export function getDocumentVersion(document: Record<string, unknown>): unknown {
+  return document.version ?? 0
+}
+
+/**
+ * Upgrade a document to a format version by running the migration chain
+ *
+ * Returns null when no chain leads from the document's version to the
+ * target (e.g. for unknown or newer versions).
+ */
+export function migrateDrawDocument(
+  document: Record<string, unknown>,
+  targetVersion: number,
+): Record<string, unknown> | null {
+  let current = document
+  for (
+    let version = getDocumentVersion(current);
+    version !== targetVersion;
+    version = getDocumentVersion(current)
+  ) {
+    const migration = MIGRATIONS.find((step) => step.from === version)
+    if (!migration) return null
+    current = migration.migrate(current)
+  }
+  return current
+}
@@ -0,0 +1,343 @@
+import { SHAPE_KINDS } from "../types"
+
+/**
+ * A problem found in a `.draw` document
+ */
+export interface ValidationIssue {
+  /** Location in the document, e.g. `layers[0].elements[3].points[2].x` */
+  readonly path: string
+  readonly message: string
+}
+
+/**
+ * Maximum number of issues reported for one document
+ *
+ * A damaged file can contain thousands of broken points; the first
+ * few issues are enough to tell what is wrong.
+ */
+const MAX_ISSUES = 20
+
+const STROKE_INTERPOLATIONS = ["linear", "catmull-rom"]
+
+const HISTORY_COMMAND_TYPES = [
+  "addElements",
+  "removeElements",
+  "updateElements",
+  "updateLayer",
+  "addLayer",
+  "removeLayer",
+  "moveLayer",
+  "replaceLayers",
+  "batch",
+]
+
+/**
+ * Properties of a JSON object
+ */
+type Fields = Record<string, unknown>
+
+/**
+ * Collects issues while walking a document
+ */
+class Validator {
+  readonly issues: ValidationIssue[] = []
+
+  get full(): boolean {
+    return this.issues.length >= MAX_ISSUES
+  }
+
+  report(path: string, message: string): void {
+    if (!this.full) this.issues.push({ path, message })
+  }
+
+  object(value: unknown, path: string): value is Fields {
+    if (typeof value === "object" && value !== null && !Array.isArray(value)) return true
+    this.report(path, `expected an object, got ${describe(value)}`)
+    return false
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (Array.isArray(value)) return true
+    this.report(path, `expected an array, got ${describe(value)}`)
+    return false
+  }
+
+  string(value: unknown, path: string): void {
+    if (typeof value !== "string") this.report(path, `expected a string, got ${describe(value)}`)
+  }
+
+  boolean(value: unknown, path: string): void {
+    if (typeof value !== "boolean") this.report(path, `expected a boolean, got ${describe(value)}`)
+  }
+
+  number(value: unknown, path: string, { min, max }: { min?: number; max?: number } = {}): void {
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      this.report(path, `expected a finite number, got ${describe(value)}`)
+    } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+      this.report(path, `expected a number in ${min ?? "-∞"}..${max ?? "∞"}, got ${value}`)
+    }
+  }
+
+  oneOf(value: unknown, options: ReadonlyArray<string>, path: string): void {
+    if (typeof value !== "string" || !options.includes(value)) {
+      this.report(path, `expected one of ${options.join(", ")}, got ${describe(value)}`)
+    }
+  }
+
+  optional(value: unknown, check: () => void): void {
+    if (value !== undefined) check()
+  }
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "an array"
+  if (typeof value === "string")
+    return JSON.stringify(value.length > 20 ? `${value.slice(0, 20)}…` : value)
+  if (typeof value === "object") return "an object"
+  return String(value)
+}
+
+/**
+ * Validate a document of the current format version
+ *
+ * Returns the issues found (empty for a valid document). Unknown
+ * properties are allowed, so newer optional fields do not break
+ * older readers.
+ */
+export function validateDrawDocument(
+  value: unknown,
+  version: number,
+): ReadonlyArray<ValidationIssue> {
+  const v = new Validator()
+  if (!v.object(value, "(root)")) return v.issues
+
+  if (value.version !== version) {
+    v.report("version", `expected ${version}, got ${describe(value.version)}`)
+  }
+
+  if (v.object(value.meta, "meta")) {
+    validateMeta(v, value.meta)
+  }
+
+  if (value.thumbnail !== null && !isImageDataUrl(value.thumbnail)) {
+    v.report("thumbnail", `expected an image data URL or null, got ${describe(value.thumbnail)}`)
+  }
+
+  if (v.array(value.layers, "layers")) {
+    if (value.layers.length === 0) v.report("layers", "expected at least one layer")
+
+    const layerIds = new Set<unknown>()
+    value.layers.forEach((layer, index) => {
+      const path = `layers[${index}]`
+      if (v.full || !v.object(layer, path)) return
+      if (layerIds.has(layer.id)) v.report(`${path}.id`, `duplicate layer id ${describe(layer.id)}`)
+      layerIds.add(layer.id)
+      validateLayer(v, layer, path)
+    })
+  }
+
+  return v.issues
+}
+
+/**
+ * Validate the entries of a persisted undo tree
+ *
+ * Checks the shape of every entry and of the command it holds, with
+ * the same element and layer rules as documents. Whether the entries
+ * form a tree is checked when the tree is built.
+ */
+export function validateHistoryEntries(value: unknown): ReadonlyArray<ValidationIssue> {
+  const v = new Validator()
+  if (!v.array(value, "entries")) return v.issues
+
+  value.forEach((entry, index) => {
+    const path = `entries[${index}]`
+    if (v.full || !v.object(entry, path)) return
+    v.string(entry.id, `${path}.id`)
+    if (entry.parentId !== null) v.string(entry.parentId, `${path}.parentId`)
+    if (entry.redoChildId !== null) v.string(entry.redoChildId, `${path}.redoChildId`)
+    v.number(entry.timestamp, `${path}.timestamp`)
+    if (entry.command !== null && v.object(entry.command, `${path}.command`)) {
+      validateCommand(v, entry.command, `${path}.command`)
+    }
+  })
+
+  return v.issues
+}
+
+function validateMeta(v: Validator, meta: Fields): void {
+  v.string(meta.title, "meta.title")
+  v.string(meta.author, "meta.author")
+  for (const key of ["created", "modified"]) {
+    const date = meta[key]
+    if (date !== null && (typeof date !== "string" || Number.isNaN(Date.parse(date)))) {
+      v.report(`meta.${key}`, `expected a date string or null, got ${describe(date)}`)
+    }
+  }
+  for (const key of ["width", "height"]) {
+    if (meta[key] !== null) v.number(meta[key], `meta.${key}`, { min: 1 })
+  }
+  if (meta.background !== null) v.string(meta.background, "meta.background")
+  if (v.array(meta.tags, "meta.tags")) {
+    meta.tags.forEach((tag, index) => {
+      v.string(tag, `meta.tags[${index}]`)
+    })
+  }
+}
+
+/**
+ * Whether a value is an embedded image (`data:image/…`)
+ */
+function isImageDataUrl(value: unknown): boolean {
+  return typeof value === "string" && value.startsWith("data:image/")
+}
+
+function validateLayer(v: Validator, layer: Fields, path: string): void {
+  v.string(layer.id, `${path}.id`)
+  v.string(layer.name, `${path}.name`)
+  v.boolean(layer.visible, `${path}.visible`)
+  v.boolean(layer.locked, `${path}.locked`)
+  v.number(layer.opacity, `${path}.opacity`, { min: 0, max: 1 })
+
+  if (v.array(layer.elements, `${path}.elements`)) {
+    layer.elements.forEach((element, index) => {
+      const elementPath = `${path}.elements[${index}]`
+      if (v.full || !v.object(element, elementPath)) return
+      validateElement(v, element, elementPath)
+    })
+  }
+}
+
+function validateElement(v: Validator, element: Fields, path: string): void {
+  v.string(element.id, `${path}.id`)
+  v.string(element.color, `${path}.color`)
+
+  switch (element.type) {
+    case undefined:
+    case "stroke":
+      v.number(element.width, `${path}.width`, { min: 0 })
+      validatePoints(v, element.points, `${path}.points`)
+      v.optional(element.interpolation, () =>
+        v.oneOf(element.interpolation, STROKE_INTERPOLATIONS, `${path}.interpolation`),
+      )
+      v.optional(element.erase, () => v.boolean(element.erase, `${path}.erase`))
+      break
+    case "shape":
+      v.oneOf(element.kind, SHAPE_KINDS, `${path}.kind`)
+      v.number(element.width, `${path}.width`, { min: 0 })
+      validatePoints(v, element.points, `${path}.points`)
+      if (element.fill !== null) v.string(element.fill, `${path}.fill`)
+      v.optional(element.rotation, () => v.number(element.rotation, `${path}.rotation`))
+      break
+    case "text":
+      v.number(element.x, `${path}.x`)
+      v.number(element.y, `${path}.y`)
+      v.string(element.text, `${path}.text`)
+      v.number(element.fontSize, `${path}.fontSize`, { min: 0 })
+      break
+    default:
+      v.oneOf(element.type, ["stroke", "shape", "text"], `${path}.type`)
+  }
+}
+
+function validatePoints(v: Validator, points: unknown, path: string): void {
+  if (!v.array(points, path)) return
+  points.forEach((point, index) => {
+    const pointPath = `${path}[${index}]`
+    if (v.full || !v.object(point, pointPath)) return
+    v.number(point.x, `${pointPath}.x`)
+    v.number(point.y, `${pointPath}.y`)
+    for (const key of ["pressure", "tiltX", "tiltY", "t"]) {
+      v.optional(point[key], () => v.number(point[key], `${pointPath}.${key}`))
+    }
+  })
+}
+
+function validateCommand(v: Validator, command: Fields, path: string): void {
+  switch (command.type) {
+    case "addElements":
+    case "removeElements":
+      v.string(command.layerId, `${path}.layerId`)
+      validateList(v, command.entries, `${path}.entries`, (entry, entryPath) => {
+        v.number(entry.index, `${entryPath}.index`, { min: 0 })
+        if (v.object(entry.element, `${entryPath}.element`)) {
+          validateElement(v, entry.element, `${entryPath}.element`)
+        }
+      })
+      break
+    case "updateElements":
+      v.string(command.layerId, `${path}.layerId`)
+      validateList(v, command.updates, `${path}.updates`, (update, updatePath) => {
+        v.number(update.index, `${updatePath}.index`, { min: 0 })
+        for (const key of ["before", "after"]) {
+          if (v.object(update[key], `${updatePath}.${key}`)) {
+            validateElement(v, update[key], `${updatePath}.${key}`)
+          }
+        }
+      })
+      break
+    case "updateLayer":
+      v.string(command.layerId, `${path}.layerId`)
+      for (const key of ["before", "after"]) {
+        if (v.object(command[key], `${path}.${key}`)) {
+          validateLayerProperties(v, command[key], `${path}.${key}`)
+        }
+      }
+      break
+    case "addLayer":
+    case "removeLayer":
+      v.number(command.index, `${path}.index`, { min: 0 })
+      if (v.object(command.layer, `${path}.layer`)) {
+        validateLayer(v, command.layer, `${path}.layer`)
+      }
+      break
+    case "moveLayer":
+      v.number(command.fromIndex, `${path}.fromIndex`, { min: 0 })
+      v.number(command.toIndex, `${path}.toIndex`, { min: 0 })
+      break
+    case "replaceLayers":
+      for (const key of ["before", "after"]) {
+        validateList(v, command[key], `${path}.${key}`, (layer, layerPath) =>
+          validateLayer(v, layer, layerPath),
+        )
+      }
+      break
+    case "batch":
+      validateList(v, command.commands, `${path}.commands`, (child, childPath) =>
+        validateCommand(v, child, childPath),
+      )
+      break
+    default:
+      v.oneOf(command.type, HISTORY_COMMAND_TYPES, `${path}.type`)
+  }
+}
+
+function validateLayerProperties(v: Validator, properties: Fields, path: string): void {
+  v.optional(properties.name, () => v.string(properties.name, `${path}.name`))
+  v.optional(properties.visible, () => v.boolean(properties.visible, `${path}.visible`))
+  v.optional(properties.locked, () => v.boolean(properties.locked, `${path}.locked`))
+  v.optional(properties.opacity, () =>
+    v.number(properties.opacity, `${path}.opacity`, { min: 0, max: 1 }),
+  )
+}
+
+/**
+ * Validate every object of an array
+ */
+function validateList(
+  v: Validator,
+  list: unknown,
+  path: string,
+  validateItem: (item: Fields, itemPath: string) => void,
+): void {
+  if (!v.array(list, path)) return
+  list.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`
+    if (v.full || !v.object(item, itemPath)) return
+    validateItem(item, itemPath)
+  })
+}
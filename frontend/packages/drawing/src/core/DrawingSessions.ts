@@ -0,0 +1,155 @@
+import { createNanoEvents, type Emitter } from "nanoevents"
+import type { Layer } from "../types"
+import type { DrawDocumentMeta } from "./DrawFile"
+import type { HistoryTree } from "./HistoryTree"
+
+/**
+ * Layer operations offered by an open drawing
+ */
+export interface LayerActions {
+  selectLayer: (id: string) => void
+  addLayer: () => void
+  removeLayer: (id: string) => void
+  renameLayer: (id: string, name: string) => void
+  setLayerVisible: (id: string, visible: boolean) => void
+  setLayerLocked: (id: string, locked: boolean) => void
+  setLayerOpacity: (id: string, opacity: number) => void
+  /** Move a layer to a stacking position (0 is the bottom) */
+  moveLayer: (id: string, toIndex: number) => void
+}
+
+/**
+ * Undo operations offered by an open drawing
+ */
+export interface HistoryActions {
+  undo: () => void
+  redo: () => void
+  /** Move to any entry of the undo tree */
+  jumpTo: (id: string) => void
+}
+
+/**
+ * Snapshot of an open drawing, published for panels outside the canvas
+ */
+export interface DrawingSession {
+  readonly panelId: string
+  readonly title: string
+  readonly layers: ReadonlyArray<Layer>
+  readonly activeLayerId: string
+  readonly actions: LayerActions
+  readonly history: HistoryTree
+  readonly historyActions: HistoryActions
+  readonly meta: DrawDocumentMeta
+  /** Whether the drawing has changes since it was last saved */
+  readonly isDirty: boolean
+  /**
+   * Save the drawing, resolving to false when it could not be saved
+   * (null when the drawing has no save handler)
+   */
+  readonly save: (() => Promise<boolean>) | null
+}
+
+/**
+ * Events emitted by DrawingSessionRegistry
+ */
+export interface DrawingSessionEvents {
+  change: (active: DrawingSession | null) => void
+  /** Any session was published or removed */
+  sessionsChange: (sessions: ReadonlyArray<DrawingSession>) => void
+}
+
+/**
+ * Registry of open drawings
+ *
+ * Each DrawingCanvas publishes its session here, and the most recently
+ * focused one is the active session. Panels such as the layers panel
+ * follow the active session, so they can be docked anywhere.
+ */
+export class DrawingSessionRegistry {
+  private readonly sessions = new Map<string, DrawingSession>()
+  private activeId: string | null = null
+  private readonly emitter: Emitter<DrawingSessionEvents>
+
+  private constructor(emitter: Emitter<DrawingSessionEvents>) {
+    this.emitter = emitter
+  }
+
+  /**
+   * Create an empty registry
+   */
+  static create(): DrawingSessionRegistry {
+    return new DrawingSessionRegistry(createNanoEvents())
+  }
+
+  /**
+   * Subscribe to changes of the active session
+   */
+  on<K extends keyof DrawingSessionEvents>(event: K, callback: DrawingSessionEvents[K]) {
+    return this.emitter.on(event, callback)
+  }
+
+  /**
+   * Get the active session (null when no drawing is open)
+   */
+  getActive = (): DrawingSession | null => {
+    return this.activeId ? (this.sessions.get(this.activeId) ?? null) : null
+  }
+
+  /**
+   * Get all open sessions
+   */
+  getAll = (): ReadonlyArray<DrawingSession> => {
+    return [...this.sessions.values()]
+  }
+
+  /**
+   * Add or replace a session (the first session becomes active)
+   */
+  publish(session: DrawingSession): void {
+    this.sessions.set(session.panelId, session)
+    if (this.activeId === null) {
+      this.activeId = session.panelId
+    }
+    if (this.activeId === session.panelId) {
+      this.emitter.emit("change", session)
+    }
+    this.emitter.emit("sessionsChange", this.getAll())
+  }
+
+  /**
+   * Make a session active
+   */
+  activate(panelId: string): void {
+    if (this.activeId === panelId || !this.sessions.has(panelId)) return
+    this.activeId = panelId
+    this.emitter.emit("change", this.getActive())
+  }
+
+  /**
+   * Remove a session (another open session becomes active)
+   */
+  remove(panelId: string): void {
+    if (!this.sessions.delete(panelId)) return
+    this.emitter.emit("sessionsChange", this.getAll())
+    if (this.activeId !== panelId) return
+
+    const [next] = this.sessions.keys()
+    this.activeId = next ?? null
+    this.emitter.emit("change", this.getActive())
+  }
+}
+
+/**
+ * Registry shared by all drawings of the application
+ */
+let defaultRegistry: DrawingSessionRegistry | null = null
+
+/**
+ * Get the shared session registry (created on first use)
+ */
+export function getDrawingSessionRegistry(): DrawingSessionRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = DrawingSessionRegistry.create()
+  }
+  return defaultRegistry
+}
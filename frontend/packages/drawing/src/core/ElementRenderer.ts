@@ -0,0 +1,29 @@
+import { type DrawingElement, isShape, isText } from "../types"
+import { drawShape } from "./ShapeRenderer"
+import { drawStroke } from "./StrokeRenderer"
+import { drawText } from "./TextRenderer"
+
+/**
+ * Draw any drawing element onto a 2D context
+ *
+ * Legacy erase strokes clear the pixels below them, so they only
+ * make sense on a transparent layer composited over the background.
+ */
+export function drawElement(ctx: CanvasRenderingContext2D, element: DrawingElement): void {
+  if (isShape(element)) {
+    drawShape(ctx, element)
+    return
+  }
+  if (isText(element)) {
+    drawText(ctx, element)
+    return
+  }
+  if (element.erase) {
+    ctx.save()
+    ctx.globalCompositeOperation = "destination-out"
+    drawStroke(ctx, element)
+    ctx.restore()
+    return
+  }
+  drawStroke(ctx, element)
+}
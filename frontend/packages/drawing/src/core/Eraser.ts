@@ -0,0 +1,330 @@
+import {
+  type DrawingElement,
+  type EraserMode,
+  isShape,
+  isStroke,
+  isText,
+  type Point,
+  type Stroke,
+} from "../types"
+import { getShapeOutline, pointInPolygon } from "./ShapeGeometry"
+import { catmullRomToBezier, distanceToSegment, simplifyPoints } from "./StrokeSmoothing"
+import { measureText } from "./TextRenderer"
+
+/**
+ * Canvas colors used by the old paint-over eraser
+ *
+ * Before the vector eraser, erasing drew strokes in the canvas color.
+ * Every theme resolved `--color-canvas` to white.
+ */
+const LEGACY_CANVAS_COLORS = ["#ffffff", "#fff", "white", "oklch(100% 0 0)", "rgb(255, 255, 255)"]
+
+/**
+ * Tolerance used to simplify stroke pieces after splitting (world units)
+ */
+const SPLIT_SIMPLIFY_TOLERANCE = 0.25
+
+/**
+ * Normalize a CSS color string for comparison
+ */
+function normalizeColor(color: string): string {
+  return color.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+/**
+ * Check if a plain JSON element is a stroke in one of the given colors
+ */
+function isStrokeInColors(element: unknown, colors: ReadonlySet<string>): element is object {
+  if (typeof element !== "object" || element === null) return false
+  const { type, color } = element as Record<string, unknown>
+  return (
+    (type === undefined || type === "stroke") &&
+    typeof color === "string" &&
+    colors.has(normalizeColor(color))
+  )
+}
+
+/**
+ * Mark strokes painted by the old eraser as erase strokes
+ *
+ * Migration step for files written before the vector eraser: works on
+ * plain JSON elements, before validation. Such strokes are rendered
+ * with `destination-out` instead of their color, so they keep hiding
+ * what they covered regardless of the current canvas color. Files that
+ * already hold erase strokes were written by the vector eraser and are
+ * left as they are, so white ink in them stays ink.
+ */
+export function markLegacyEraserStrokes<T>(elements: ReadonlyArray<T>): ReadonlyArray<T> {
+  const hasEraseStrokes = elements.some(
+    (element) =>
+      typeof element === "object" && element !== null && "erase" in element && element.erase,
+  )
+  if (hasEraseStrokes) return elements
+
+  const eraserColors = new Set(LEGACY_CANVAS_COLORS.map(normalizeColor))
+  return elements.map((element) =>
+    isStrokeInColors(element, eraserColors) ? ({ ...element, erase: true } as T) : element,
+  )
+}
+
+/**
+ * Minimum distance between segments a-b and c-d
+ */
+export function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0
+  return Math.min(
+    distanceToSegment(a, c, d),
+    distanceToSegment(b, c, d),
+    distanceToSegment(c, a, b),
+    distanceToSegment(d, a, b),
+  )
+}
+
+/**
+ * Check if segments a-b and c-d cross
+ */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const cross = (p: Point, q: Point, r: Point) =>
+    (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x)
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  return d1 * d2 < 0 && d3 * d4 < 0
+}
+
+/**
+ * Distance from a point to the eraser path
+ */
+function distanceToPath(point: Point, path: ReadonlyArray<Point>): number {
+  const [first] = path
+  if (!first) return Number.POSITIVE_INFINITY
+  if (path.length === 1) return Math.hypot(point.x - first.x, point.y - first.y)
+
+  let min = Number.POSITIVE_INFINITY
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1]
+    const b = path[i]
+    if (a && b) min = Math.min(min, distanceToSegment(point, a, b))
+  }
+  return min
+}
+
+/**
+ * Check if a polyline comes within `radius` of the eraser path
+ */
+function polylineHit(
+  points: ReadonlyArray<Point>,
+  path: ReadonlyArray<Point>,
+  radius: number,
+): boolean {
+  if (points.length === 1) {
+    const [only] = points
+    return only ? distanceToPath(only, path) <= radius : false
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]
+    const b = points[i]
+    if (!a || !b) continue
+
+    if (path.length === 1) {
+      const [c] = path
+      if (c && distanceToSegment(c, a, b) <= radius) return true
+      continue
+    }
+
+    for (let j = 1; j < path.length; j++) {
+      const c = path[j - 1]
+      const d = path[j]
+      if (c && d && segmentDistance(a, b, c, d) <= radius) return true
+    }
+  }
+  return false
+}
+
+/**
+ * Check if an element is touched by the eraser path
+ *
+ * Erase strokes (legacy eraser marks) are never hit, so erasing
+ * cannot bring back what they cover.
+ */
+export function isElementHit(
+  element: DrawingElement,
+  path: ReadonlyArray<Point>,
+  radius: number,
+): boolean {
+  if (isText(element)) {
+    const { width, height } = measureText(element)
+    return path.some(
+      (point) =>
+        point.x >= element.x - radius &&
+        point.x <= element.x + width + radius &&
+        point.y >= element.y - radius &&
+        point.y <= element.y + height + radius,
+    )
+  }
+
+  if (isShape(element)) {
+    const outline = getShapeOutline(element)
+    if (polylineHit(outline, path, radius + element.width / 2)) return true
+    return element.fill !== null && path.some((point) => pointInPolygon(point, outline))
+  }
+
+  if (element.erase) return false
+  return polylineHit(element.points, path, radius + element.width / 2)
+}
+
+/**
+ * Resample a stroke so that consecutive points are at most `step` apart
+ *
+ * Curved strokes are sampled along their spline so splitting does
+ * not flatten them.
+ */
+function resampleStroke(stroke: Stroke, step: number): Point[] {
+  const { points } = stroke
+  const [first] = points
+  if (!first) return []
+
+  const result: Point[] = [first]
+
+  const pushSegment = (from: Point, to: Point, at: (t: number) => Point, length: number) => {
+    const count = Math.max(1, Math.ceil(length / step))
+    for (let i = 1; i <= count; i++) {
+      const t = i / count
+      const position = at(t)
+      result.push({ ...position, ...interpolatePenData(from, to, t) })
+    }
+  }
+
+  if (stroke.interpolation === "catmull-rom" && points.length > 2) {
+    for (const segment of catmullRomToBezier(points)) {
+      const { start, cp1, cp2, end } = segment
+      const length =
+        Math.hypot(cp1.x - start.x, cp1.y - start.y) +
+        Math.hypot(cp2.x - cp1.x, cp2.y - cp1.y) +
+        Math.hypot(end.x - cp2.x, end.y - cp2.y)
+
+      pushSegment(
+        start,
+        end,
+        (t) => {
+          const u = 1 - t
+          return {
+            x:
+              u * u * u * start.x +
+              3 * u * u * t * cp1.x +
+              3 * u * t * t * cp2.x +
+              t * t * t * end.x,
+            y:
+              u * u * u * start.y +
+              3 * u * u * t * cp1.y +
+              3 * u * t * t * cp2.y +
+              t * t * t * end.y,
+          }
+        },
+        length,
+      )
+    }
+    return result
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]
+    const b = points[i]
+    if (!a || !b) continue
+    pushSegment(
+      a,
+      b,
+      (t) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }),
+      Math.hypot(b.x - a.x, b.y - a.y),
+    )
+  }
+  return result
+}
+
+/**
+ * Interpolate optional pen data between two points
+ */
+function interpolatePenData(a: Point, b: Point, t: number): Partial<Point> {
+  const lerp = (x: number | undefined, y: number | undefined) =>
+    x === undefined || y === undefined ? (x ?? y) : x + (y - x) * t
+
+  const data: { pressure?: number; tiltX?: number; tiltY?: number; t?: number } = {}
+  const pressure = lerp(a.pressure, b.pressure)
+  const tiltX = lerp(a.tiltX, b.tiltX)
+  const tiltY = lerp(a.tiltY, b.tiltY)
+  const time = lerp(a.t, b.t)
+  if (pressure !== undefined) data.pressure = pressure
+  if (tiltX !== undefined) data.tiltX = tiltX
+  if (tiltY !== undefined) data.tiltY = tiltY
+  if (time !== undefined) data.t = Math.round(time)
+  return data
+}
+
+/**
+ * Split a stroke where it passes under the eraser
+ *
+ * Returns the remaining pieces (possibly none). Pieces keep the
+ * stroke's style and get ids derived from the original id.
+ */
+export function splitStroke(stroke: Stroke, path: ReadonlyArray<Point>, radius: number): Stroke[] {
+  const reach = radius + stroke.width / 2
+  const samples = resampleStroke(stroke, Math.max(radius / 2, 0.5))
+
+  const pieces: Point[][] = []
+  let current: Point[] = []
+
+  for (const sample of samples) {
+    if (distanceToPath(sample, path) <= reach) {
+      if (current.length > 0) pieces.push(current)
+      current = []
+    } else {
+      current.push(sample)
+    }
+  }
+  if (current.length > 0) pieces.push(current)
+
+  return pieces
+    .filter((piece) => piece.length >= 2)
+    .map((piece, index) => ({
+      ...stroke,
+      id: `${stroke.id}.${index}`,
+      points: simplifyPoints(piece, SPLIT_SIMPLIFY_TOLERANCE),
+    }))
+}
+
+/**
+ * Apply an eraser gesture to a list of elements
+ *
+ * - object: every element touched by the eraser path is removed
+ * - precise: strokes are cut where the eraser passed; shapes and text
+ *   cannot be cut and are removed when touched
+ *
+ * Returns the original array when nothing was erased.
+ */
+export function eraseElements(
+  elements: ReadonlyArray<DrawingElement>,
+  path: ReadonlyArray<Point>,
+  radius: number,
+  mode: EraserMode,
+): ReadonlyArray<DrawingElement> {
+  if (path.length === 0) return elements
+
+  let changed = false
+  const result: DrawingElement[] = []
+
+  for (const element of elements) {
+    if (!isElementHit(element, path, radius)) {
+      result.push(element)
+      continue
+    }
+
+    changed = true
+    if (mode === "precise" && isStroke(element)) {
+      result.push(...splitStroke(element, path, radius))
+    }
+  }
+
+  return changed ? result : elements
+}
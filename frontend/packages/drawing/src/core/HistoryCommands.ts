@@ -0,0 +1,419 @@
+import { match } from "ts-pattern"
+import { type DrawingElement, isText, type Layer } from "../types"
+
+/**
+ * An element together with its position in a layer
+ */
+export interface ElementEntry {
+  readonly index: number
+  readonly element: DrawingElement
+}
+
+/**
+ * An element replaced in place (same position, new data)
+ */
+export interface ElementUpdate {
+  readonly index: number
+  readonly before: DrawingElement
+  readonly after: DrawingElement
+}
+
+/**
+ * Layer properties that can change without touching the elements
+ */
+export type LayerProperties = Partial<Pick<Layer, "name" | "visible" | "locked" | "opacity">>
+
+/**
+ * A reversible change to the layers of a drawing
+ *
+ * Commands only hold what changed, so applying or inverting them
+ * costs O(change) memory regardless of the document size. Indices of
+ * element entries are ascending; for additions they are positions in
+ * the resulting list, for removals positions in the original list.
+ */
+export type HistoryCommand =
+  | {
+      readonly type: "addElements"
+      readonly layerId: string
+      readonly entries: ReadonlyArray<ElementEntry>
+    }
+  | {
+      readonly type: "removeElements"
+      readonly layerId: string
+      readonly entries: ReadonlyArray<ElementEntry>
+    }
+  | {
+      readonly type: "updateElements"
+      readonly layerId: string
+      readonly updates: ReadonlyArray<ElementUpdate>
+    }
+  | {
+      readonly type: "updateLayer"
+      readonly layerId: string
+      readonly before: LayerProperties
+      readonly after: LayerProperties
+    }
+  | { readonly type: "addLayer"; readonly index: number; readonly layer: Layer }
+  | { readonly type: "removeLayer"; readonly index: number; readonly layer: Layer }
+  | { readonly type: "moveLayer"; readonly fromIndex: number; readonly toIndex: number }
+  | {
+      readonly type: "replaceLayers"
+      readonly before: ReadonlyArray<Layer>
+      readonly after: ReadonlyArray<Layer>
+    }
+  | { readonly type: "batch"; readonly commands: ReadonlyArray<HistoryCommand> }
+
+/**
+ * Layer properties compared when diffing
+ */
+const LAYER_PROPERTY_KEYS = ["name", "visible", "locked", "opacity"] as const
+
+/**
+ * Estimated fixed cost of an element or command (bytes)
+ */
+const OBJECT_SIZE = 64
+
+/**
+ * Estimated cost of a point (bytes)
+ */
+const POINT_SIZE = 48
+
+/**
+ * Apply a command to layers
+ *
+ * Commands that refer to a missing layer leave the layers unchanged.
+ */
+export function applyCommand(
+  layers: ReadonlyArray<Layer>,
+  command: HistoryCommand,
+): ReadonlyArray<Layer> {
+  return match(command)
+    .with({ type: "addElements" }, ({ layerId, entries }) =>
+      mapLayerElements(layers, layerId, (elements) => {
+        const next = [...elements]
+        for (const { index, element } of entries) {
+          next.splice(index, 0, element)
+        }
+        return next
+      }),
+    )
+    .with({ type: "removeElements" }, ({ layerId, entries }) =>
+      mapLayerElements(layers, layerId, (elements) => {
+        const next = [...elements]
+        for (let i = entries.length - 1; i >= 0; i--) {
+          const entry = entries[i]
+          if (entry) next.splice(entry.index, 1)
+        }
+        return next
+      }),
+    )
+    .with({ type: "updateElements" }, ({ layerId, updates }) =>
+      mapLayerElements(layers, layerId, (elements) => {
+        const next = [...elements]
+        for (const { index, after } of updates) {
+          next[index] = after
+        }
+        return next
+      }),
+    )
+    .with({ type: "updateLayer" }, ({ layerId, after }) =>
+      layers.map((layer) => (layer.id === layerId ? { ...layer, ...after } : layer)),
+    )
+    .with({ type: "addLayer" }, ({ index, layer }) => [
+      ...layers.slice(0, index),
+      layer,
+      ...layers.slice(index),
+    ])
+    .with({ type: "removeLayer" }, ({ index }) => [
+      ...layers.slice(0, index),
+      ...layers.slice(index + 1),
+    ])
+    .with({ type: "moveLayer" }, ({ fromIndex, toIndex }) => {
+      const layer = layers[fromIndex]
+      if (!layer) return layers
+      const without = [...layers.slice(0, fromIndex), ...layers.slice(fromIndex + 1)]
+      return [...without.slice(0, toIndex), layer, ...without.slice(toIndex)]
+    })
+    .with({ type: "replaceLayers" }, ({ after }) => after)
+    .with({ type: "batch" }, ({ commands }) =>
+      commands.reduce((current, inner) => applyCommand(current, inner), layers),
+    )
+    .exhaustive()
+}
+
+/**
+ * Get the command that reverts a command
+ */
+export function invertCommand(command: HistoryCommand): HistoryCommand {
+  return match(command)
+    .returnType<HistoryCommand>()
+    .with({ type: "addElements" }, ({ layerId, entries }) => ({
+      type: "removeElements",
+      layerId,
+      entries,
+    }))
+    .with({ type: "removeElements" }, ({ layerId, entries }) => ({
+      type: "addElements",
+      layerId,
+      entries,
+    }))
+    .with({ type: "updateElements" }, ({ layerId, updates }) => ({
+      type: "updateElements",
+      layerId,
+      updates: updates.map(({ index, before, after }) => ({ index, before: after, after: before })),
+    }))
+    .with({ type: "updateLayer" }, ({ layerId, before, after }) => ({
+      type: "updateLayer",
+      layerId,
+      before: after,
+      after: before,
+    }))
+    .with({ type: "addLayer" }, ({ index, layer }) => ({ type: "removeLayer", index, layer }))
+    .with({ type: "removeLayer" }, ({ index, layer }) => ({ type: "addLayer", index, layer }))
+    .with({ type: "moveLayer" }, ({ fromIndex, toIndex }) => ({
+      type: "moveLayer",
+      fromIndex: toIndex,
+      toIndex: fromIndex,
+    }))
+    .with({ type: "replaceLayers" }, ({ before, after }) => ({
+      type: "replaceLayers",
+      before: after,
+      after: before,
+    }))
+    .with({ type: "batch" }, ({ commands }) => ({
+      type: "batch",
+      commands: commands.map(invertCommand).reverse(),
+    }))
+    .exhaustive()
+}
+
+/**
+ * Compute the command that turns `before` into `after`
+ *
+ * Elements and layers are compared by reference, which is cheap
+ * because unchanged parts of the immutable document are shared.
+ * Returns null when nothing changed. Changes that do not fit a
+ * specific command (e.g. several layers reordered at once) fall back
+ * to replacing all layers.
+ */
+export function diffLayers(
+  before: ReadonlyArray<Layer>,
+  after: ReadonlyArray<Layer>,
+): HistoryCommand | null {
+  if (before === after) return null
+
+  if (before.length === after.length && before.every((layer, i) => layer.id === after[i]?.id)) {
+    const commands = before.flatMap((layer, i) => {
+      const next = after[i]
+      return next && next !== layer ? diffLayer(layer, next) : []
+    })
+    return combineCommands(commands)
+  }
+
+  if (after.length === before.length + 1) {
+    const index = after.findIndex((layer, i) => layer.id !== before[i]?.id)
+    const layer = after[index]
+    if (layer && sameLayers(before, [...after.slice(0, index), ...after.slice(index + 1)])) {
+      return { type: "addLayer", index, layer }
+    }
+  }
+
+  if (after.length === before.length - 1) {
+    const index = before.findIndex((layer, i) => layer.id !== after[i]?.id)
+    const layer = before[index]
+    if (layer && sameLayers(after, [...before.slice(0, index), ...before.slice(index + 1)])) {
+      return { type: "removeLayer", index, layer }
+    }
+  }
+
+  if (before.length === after.length) {
+    const move = findLayerMove(before, after)
+    if (move) return move
+  }
+
+  return { type: "replaceLayers", before, after }
+}
+
+/**
+ * Combine commands into one (null when empty)
+ */
+export function combineCommands(commands: ReadonlyArray<HistoryCommand>): HistoryCommand | null {
+  if (commands.length === 0) return null
+  if (commands.length === 1) return commands[0] ?? null
+  return { type: "batch", commands }
+}
+
+/**
+ * Estimate the memory held by a command (bytes)
+ *
+ * Elements shared with the live document are counted as well, so the
+ * estimate is an upper bound.
+ */
+export function getCommandSize(command: HistoryCommand): number {
+  return match(command)
+    .with({ type: "addElements" }, { type: "removeElements" }, ({ entries }) =>
+      entries.reduce((sum, entry) => sum + getElementSize(entry.element), OBJECT_SIZE),
+    )
+    .with({ type: "updateElements" }, ({ updates }) =>
+      updates.reduce(
+        (sum, update) => sum + getElementSize(update.before) + getElementSize(update.after),
+        OBJECT_SIZE,
+      ),
+    )
+    .with({ type: "updateLayer" }, { type: "moveLayer" }, () => OBJECT_SIZE)
+    .with({ type: "addLayer" }, { type: "removeLayer" }, ({ layer }) => getLayerSize(layer))
+    .with({ type: "replaceLayers" }, ({ before, after }) =>
+      [...before, ...after].reduce((sum, layer) => sum + getLayerSize(layer), OBJECT_SIZE),
+    )
+    .with({ type: "batch" }, ({ commands }) =>
+      commands.reduce((sum, inner) => sum + getCommandSize(inner), OBJECT_SIZE),
+    )
+    .exhaustive()
+}
+
+/**
+ * Diff two versions of the same layer
+ */
+function diffLayer(before: Layer, after: Layer): HistoryCommand[] {
+  const commands: HistoryCommand[] = []
+
+  const changed = LAYER_PROPERTY_KEYS.filter((key) => before[key] !== after[key])
+  if (changed.length > 0) {
+    commands.push({
+      type: "updateLayer",
+      layerId: before.id,
+      before: pickProperties(before, changed),
+      after: pickProperties(after, changed),
+    })
+  }
+
+  if (before.elements !== after.elements) {
+    commands.push(...diffElements(before.id, before.elements, after.elements))
+  }
+
+  return commands
+}
+
+/**
+ * Diff the elements of a layer
+ *
+ * Elements replaced at the same position with the same ID are
+ * updates (move, resize, text edit); everything else is expressed as
+ * removals followed by additions.
+ */
+function diffElements(
+  layerId: string,
+  before: ReadonlyArray<DrawingElement>,
+  after: ReadonlyArray<DrawingElement>,
+): HistoryCommand[] {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  const removed = toEntries(before).filter((entry) => !afterSet.has(entry.element))
+  const added = toEntries(after).filter((entry) => !beforeSet.has(entry.element))
+
+  // Kept elements must stay in order for removal + addition to reproduce `after`
+  const keptBefore = before.filter((element) => afterSet.has(element))
+  const keptAfter = after.filter((element) => beforeSet.has(element))
+  if (keptBefore.some((element, i) => element !== keptAfter[i])) {
+    return [
+      { type: "removeElements", layerId, entries: toEntries(before) },
+      { type: "addElements", layerId, entries: toEntries(after) },
+    ]
+  }
+
+  const isUpdate =
+    removed.length === added.length &&
+    removed.every((entry, i) => {
+      const addition = added[i]
+      return addition?.index === entry.index && addition.element.id === entry.element.id
+    })
+  if (isUpdate && removed.length > 0) {
+    return [
+      {
+        type: "updateElements",
+        layerId,
+        updates: removed.map((entry, i) => ({
+          index: entry.index,
+          before: entry.element,
+          after: added[i]?.element ?? entry.element,
+        })),
+      },
+    ]
+  }
+
+  const commands: HistoryCommand[] = []
+  if (removed.length > 0) commands.push({ type: "removeElements", layerId, entries: removed })
+  if (added.length > 0) commands.push({ type: "addElements", layerId, entries: added })
+  return commands
+}
+
+/**
+ * Find a single layer move that turns `before` into `after`
+ */
+function findLayerMove(
+  before: ReadonlyArray<Layer>,
+  after: ReadonlyArray<Layer>,
+): HistoryCommand | null {
+  for (let fromIndex = 0; fromIndex < before.length; fromIndex++) {
+    const layer = before[fromIndex]
+    if (!layer) continue
+    const toIndex = after.indexOf(layer)
+    if (toIndex === -1 || toIndex === fromIndex) continue
+
+    const command: HistoryCommand = { type: "moveLayer", fromIndex, toIndex }
+    if (sameLayers(applyCommand(before, command), after)) return command
+  }
+  return null
+}
+
+/**
+ * Check if two layer lists hold the same layer objects
+ */
+function sameLayers(a: ReadonlyArray<Layer>, b: ReadonlyArray<Layer>): boolean {
+  return a.length === b.length && a.every((layer, i) => layer === b[i])
+}
+
+/**
+ * Replace the elements of one layer
+ */
+function mapLayerElements(
+  layers: ReadonlyArray<Layer>,
+  layerId: string,
+  update: (elements: ReadonlyArray<DrawingElement>) => ReadonlyArray<DrawingElement>,
+): ReadonlyArray<Layer> {
+  return layers.map((layer) =>
+    layer.id === layerId ? { ...layer, elements: update(layer.elements) } : layer,
+  )
+}
+
+/**
+ * Pair elements with their positions
+ */
+function toEntries(elements: ReadonlyArray<DrawingElement>): ElementEntry[] {
+  return elements.map((element, index) => ({ index, element }))
+}
+
+/**
+ * Copy the given properties of a layer
+ */
+function pickProperties(
+  layer: Layer,
+  keys: ReadonlyArray<(typeof LAYER_PROPERTY_KEYS)[number]>,
+): LayerProperties {
+  return Object.fromEntries(keys.map((key) => [key, layer[key]])) as LayerProperties
+}
+
+/**
+ * Estimate the memory held by a layer (bytes)
+ */
+function getLayerSize(layer: Layer): number {
+  return layer.elements.reduce((sum, element) => sum + getElementSize(element), OBJECT_SIZE)
+}
+
+/**
+ * Estimate the memory held by an element (bytes)
+ */
+function getElementSize(element: DrawingElement): number {
+  if (isText(element)) return OBJECT_SIZE + element.text.length * 2
+  return OBJECT_SIZE + element.points.length * POINT_SIZE
+}
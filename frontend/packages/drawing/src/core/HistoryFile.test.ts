@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { parseHistory, serializeHistory } from "./HistoryFile"
+import type { HistorySnapshot } from "./HistoryTree"
+
+const HASH = "hash"
+
+const snapshot: HistorySnapshot = {
+  rootId: "root",
+  currentId: "add",
+  entries: [
+    { id: "root", parentId: null, command: null, timestamp: 1, redoChildId: "add" },
+    {
+      id: "add",
+      parentId: "root",
+      command: {
+        type: "addElements",
+        layerId: "layer",
+        entries: [
+          {
+            index: 0,
+            element: {
+              id: "stroke",
+              points: [
+                { x: 0, y: 0 },
+                { x: 10, y: 10 },
+              ],
+              color: "#000000",
+              width: 2,
+            },
+          },
+        ],
+      },
+      timestamp: 2,
+      redoChildId: null,
+    },
+  ],
+}
+
+function withCommand(command: unknown): string {
+  const data = JSON.parse(serializeHistory(snapshot, HASH))
+  data.entries[1].command = command
+  return JSON.stringify(data)
+}
+
+describe("parseHistory", () => {
+  it("reads what serializeHistory writes", () => {
+    expect(parseHistory(serializeHistory(snapshot, HASH), HASH)).toEqual(snapshot)
+  })
+
+  it("ignores history of another version of the drawing", () => {
+    expect(parseHistory(serializeHistory(snapshot, HASH), "other")).toBeNull()
+  })
+
+  it("ignores content that is not JSON", () => {
+    expect(parseHistory("{", HASH)).toBeNull()
+  })
+
+  it("ignores linear undo and redo stacks", () => {
+    const content = JSON.stringify({ version: 1, contentHash: HASH, undo: [], redo: [] })
+    expect(parseHistory(content, HASH)).toBeNull()
+  })
+
+  it.each([
+    ["an unknown command", { type: "paint" }],
+    ["a command without a layer", { type: "addElements", entries: [] }],
+    [
+      "an element with broken points",
+      {
+        type: "addElements",
+        layerId: "layer",
+        entries: [{ index: 0, element: { id: "s", color: "#000", width: 1, points: [{ x: 0 }] } }],
+      },
+    ],
+    ["a batch with a broken command", { type: "batch", commands: [{ type: "moveLayer" }] }],
+    [
+      "layer properties of the wrong type",
+      { type: "updateLayer", layerId: "l", before: {}, after: { visible: "yes" } },
+    ],
+  ])("ignores history with %s", (_, command) => {
+    expect(parseHistory(withCommand(command), HASH)).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+import { validateHistoryEntries } from "./DrawFileSchema"
+import {
+  fromHistorySnapshot,
+  type HistoryEntry,
+  type HistorySnapshot,
+  type HistorySnapshotEntry,
+  toHistorySnapshot,
+  trimHistoryTree,
+} from "./HistoryTree"
+
+/**
+ * Contents of a persisted history file
+ *
+ * The history only applies to the drawing it was saved with, which
+ * is identified by the hash of the `.draw` file content.
+ */
+export interface HistoryFileData extends HistorySnapshot {
+  readonly version: typeof HISTORY_FILE_VERSION
+  readonly contentHash: string
+}
+
+/**
+ * Format version of history files
+ */
+const HISTORY_FILE_VERSION = 1
+
+/**
+ * Default size limit of history files (characters)
+ */
+export const DEFAULT_MAX_HISTORY_FILE_SIZE = 4 * 1024 * 1024
+
+/**
+ * Serialize history to file content
+ *
+ * When the history does not fit in `maxSize`, the oldest entries are
+ * dropped the same way the history manager drops them.
+ */
+export function serializeHistory(
+  snapshot: HistorySnapshot,
+  contentHash: string,
+  maxSize = DEFAULT_MAX_HISTORY_FILE_SIZE,
+): string {
+  const tree = fromHistorySnapshot(snapshot)
+  let fitted = snapshot
+  if (tree) {
+    // The envelope (with the root entry) is not counted by the tree
+    const root = toHistorySnapshot({ ...tree, entries: new Map() })
+    const envelopeSize = JSON.stringify({
+      version: HISTORY_FILE_VERSION,
+      contentHash,
+      ...root,
+    }).length
+    const rootSize = getSerializedSize(tree.entries.get(tree.rootId))
+    fitted = toHistorySnapshot(
+      trimHistoryTree(tree, maxSize - envelopeSize - rootSize, getSerializedSize),
+    )
+  }
+
+  const data: HistoryFileData = { version: HISTORY_FILE_VERSION, contentHash, ...fitted }
+  return JSON.stringify(data)
+}
+
+/**
+ * Parse history file content
+ *
+ * Returns null when the content is not a valid history file or
+ * belongs to a different version of the drawing.
+ */
+export function parseHistory(content: string, contentHash: string): HistorySnapshot | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return null
+  }
+  if (typeof parsed !== "object" || parsed === null) return null
+
+  const data = parsed as Record<string, unknown>
+  if (data.contentHash !== contentHash) return null
+
+  if (
+    data.version !== HISTORY_FILE_VERSION ||
+    typeof data.rootId !== "string" ||
+    typeof data.currentId !== "string" ||
+    validateHistoryEntries(data.entries).length > 0
+  ) {
+    return null
+  }
+  return {
+    rootId: data.rootId,
+    currentId: data.currentId,
+    entries: data.entries as HistorySnapshotEntry[],
+  }
+}
+
+/**
+ * Serialized size of an entry inside a JSON array (with separator)
+ */
+function getSerializedSize(entry: HistoryEntry | undefined): number {
+  if (!entry) return 0
+  const { id, parentId, command, timestamp, redoChildId } = entry
+  return JSON.stringify({ id, parentId, command, timestamp, redoChildId }).length + 1
+}
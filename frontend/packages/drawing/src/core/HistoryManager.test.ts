@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { HistoryManager } from "./HistoryManager"
+import { createLayer } from "./Layers"
+
+const stroke = (id: string) => ({
+  id,
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 10 },
+  ],
+  color: "#000000",
+  width: 2,
+})
+
+const layer = createLayer("Layer 1")
+
+function withStrokes(...ids: string[]) {
+  return [{ ...layer, elements: ids.map(stroke) }]
+}
+
+describe("HistoryManager.markSaved", () => {
+  it("marks the current entry by default", () => {
+    const manager = HistoryManager.create().initialize(withStrokes()).push(withStrokes("a"))
+    expect(manager.getState().isDirty).toBe(true)
+    expect(manager.markSaved().getState().isDirty).toBe(false)
+  })
+
+  it("keeps later edits unsaved when an earlier entry is marked", () => {
+    const editing = HistoryManager.create().initialize(withStrokes()).push(withStrokes("a"))
+    const savedId = editing.getTree().currentId
+
+    // Edit made while the save was running
+    const manager = editing.push(withStrokes("a", "b")).markSaved(savedId)
+    expect(manager.getTree().savedId).toBe(savedId)
+    expect(manager.getState().isDirty).toBe(true)
+
+    const undone = manager.undo()
+    expect(undone?.manager.getState().isDirty).toBe(false)
+  })
+
+  it("leaves no saved entry when the entry is gone", () => {
+    const manager = HistoryManager.create().initialize(withStrokes()).markSaved("missing")
+    expect(manager.getTree().savedId).toBeNull()
+    expect(manager.getState().isDirty).toBe(true)
+  })
+})
@@ -1,13 +1,23 @@
 import { createNanoEvents, type Emitter } from "nanoevents"
-import type { Stroke } from "../types"
-
-/**
- * History entry representing a state snapshot
- */
-export interface HistoryEntry {
-  readonly strokes: ReadonlyArray<Stroke>
-  readonly timestamp: number
-}
+import type { Layer } from "../types"
+import { applyCommand, diffLayers, type HistoryCommand } from "./HistoryCommands"
+import {
+  addHistoryEntry,
+  applyHistoryPath,
+  createHistoryTree,
+  fromHistorySnapshot,
+  getEntry,
+  getHistoryDepth,
+  getHistoryMemory,
+  getHistoryPath,
+  getRedoCount,
+  getRedoEntry,
+  type HistorySnapshot,
+  type HistoryTree,
+  moveHistoryTo,
+  toHistorySnapshot,
+  trimHistoryTree,
+} from "./HistoryTree"
 
 /**
  * Events emitted by HistoryManager
@@ -22,43 +32,55 @@ export interface HistoryEvents {
 export interface HistoryState {
   readonly canUndo: boolean
   readonly canRedo: boolean
+  /** Undo steps to the oldest state */
   readonly undoCount: number
+  /** Redo steps to the end of the current branch */
   readonly redoCount: number
   readonly isDirty: boolean
+  /** Estimated memory held by all entries (bytes) */
+  readonly memoryUsage: number
 }
 
+/**
+ * Default memory budget of the undo history (bytes)
+ */
+const DEFAULT_MAX_MEMORY = 16 * 1024 * 1024
+
 /**
  * Immutable history manager for undo/redo operations
  *
- * Uses a stack-based approach with configurable max history size.
+ * Keeps the current layers plus an undo tree of commands, each holding
+ * only what changed, so undo/redo cost O(change). Changes made after
+ * undoing start a new branch instead of discarding the redo steps,
+ * and any entry of the tree can be jumped to. The oldest entries are
+ * dropped once the entries exceed the memory budget.
  * All operations return new state snapshots for React integration.
  */
 export class HistoryManager {
-  private readonly undoStack: ReadonlyArray<HistoryEntry>
-  private readonly redoStack: ReadonlyArray<HistoryEntry>
-  private readonly maxHistorySize: number
-  private readonly savedEntry: HistoryEntry | null
+  private readonly layers: ReadonlyArray<Layer>
+  private readonly tree: HistoryTree
+  private readonly maxMemory: number
   private readonly emitter: Emitter<HistoryEvents>
 
   private constructor(
-    undoStack: ReadonlyArray<HistoryEntry>,
-    redoStack: ReadonlyArray<HistoryEntry>,
-    maxHistorySize: number,
-    savedEntry: HistoryEntry | null,
+    layers: ReadonlyArray<Layer>,
+    tree: HistoryTree,
+    maxMemory: number,
     emitter: Emitter<HistoryEvents>,
   ) {
-    this.undoStack = undoStack
-    this.redoStack = redoStack
-    this.maxHistorySize = maxHistorySize
-    this.savedEntry = savedEntry
+    this.layers = layers
+    this.tree = tree
+    this.maxMemory = maxMemory
     this.emitter = emitter
   }
 
   /**
    * Create a new HistoryManager with default settings
+   *
+   * The oldest entries are dropped once they exceed `maxMemory` bytes.
    */
-  static create(maxHistorySize = 100): HistoryManager {
-    return new HistoryManager([], [], maxHistorySize, null, createNanoEvents())
+  static create(maxMemory = DEFAULT_MAX_MEMORY): HistoryManager {
+    return new HistoryManager([], createHistoryTree(), maxMemory, createNanoEvents())
   }
 
   /**
@@ -72,154 +94,144 @@ export class HistoryManager {
    * Get current history state
    */
   getState(): HistoryState {
-    const currentEntry = this.undoStack[this.undoStack.length - 1]
-    const isDirty =
-      this.savedEntry === null ? this.undoStack.length > 0 : currentEntry !== this.savedEntry
+    const { tree } = this
 
     return {
-      canUndo: this.undoStack.length > 1,
-      canRedo: this.redoStack.length > 0,
-      undoCount: Math.max(0, this.undoStack.length - 1),
-      redoCount: this.redoStack.length,
-      isDirty,
+      canUndo: tree.currentId !== tree.rootId,
+      canRedo: getRedoEntry(tree) !== undefined,
+      undoCount: getHistoryDepth(tree, tree.currentId),
+      redoCount: getRedoCount(tree),
+      isDirty: tree.savedId !== tree.currentId,
+      memoryUsage: getHistoryMemory(tree),
     }
   }
 
   /**
-   * Get current strokes
+   * Get current layers
    */
-  getCurrentStrokes(): ReadonlyArray<Stroke> {
-    const lastEntry = this.undoStack[this.undoStack.length - 1]
-    return lastEntry?.strokes ?? []
+  getCurrentLayers(): ReadonlyArray<Layer> {
+    return this.layers
   }
 
   /**
-   * Push a new state onto the history stack
+   * Get the undo tree
    */
-  push(strokes: ReadonlyArray<Stroke>): HistoryManager {
-    const entry: HistoryEntry = {
-      strokes,
-      timestamp: Date.now(),
-    }
-
-    // Trim undo stack if exceeds max size
-    let newUndoStack = [...this.undoStack, entry]
-    if (newUndoStack.length > this.maxHistorySize) {
-      newUndoStack = newUndoStack.slice(newUndoStack.length - this.maxHistorySize)
-    }
+  getTree(): HistoryTree {
+    return this.tree
+  }
 
-    // Clear redo stack on new action
-    const newManager = new HistoryManager(
-      newUndoStack,
-      [],
-      this.maxHistorySize,
-      this.savedEntry,
-      this.emitter,
-    )
+  /**
+   * Record new layers (the change is stored as a command)
+   *
+   * Returns the same manager when nothing changed.
+   */
+  push(layers: ReadonlyArray<Layer>): HistoryManager {
+    const command = diffLayers(this.layers, layers)
+    if (!command) return this
+    return this.record(command, layers)
+  }
 
-    this.emitter.emit("change", newManager.getState())
-    return newManager
+  /**
+   * Apply a command and record it
+   */
+  execute(command: HistoryCommand): HistoryManager {
+    return this.record(command, applyCommand(this.layers, command))
   }
 
   /**
-   * Initialize with strokes (without marking as dirty)
+   * Initialize with layers (without marking as dirty)
    */
-  initialize(strokes: ReadonlyArray<Stroke>): HistoryManager {
-    const entry: HistoryEntry = {
-      strokes,
-      timestamp: Date.now(),
-    }
+  initialize(layers: ReadonlyArray<Layer>): HistoryManager {
+    return this.update(layers, createHistoryTree())
+  }
 
-    const newManager = new HistoryManager(
-      [entry],
-      [],
-      this.maxHistorySize,
-      entry, // Set as saved entry
-      this.emitter,
-    )
+  /**
+   * Initialize with layers and a previously taken history (without marking as dirty)
+   *
+   * The snapshot must have been taken while `layers` were current.
+   * Malformed snapshots are ignored, and the oldest entries are
+   * dropped beyond the memory budget.
+   */
+  restore(layers: ReadonlyArray<Layer>, snapshot: HistorySnapshot): HistoryManager {
+    const tree = fromHistorySnapshot(snapshot)
+    if (!tree) return this.initialize(layers)
+    return this.update(layers, trimHistoryTree(tree, this.maxMemory))
+  }
 
-    this.emitter.emit("change", newManager.getState())
-    return newManager
+  /**
+   * Get the undo tree detached from the manager (e.g. for persisting)
+   */
+  getSnapshot(): HistorySnapshot {
+    return toHistorySnapshot(this.tree)
   }
 
   /**
    * Undo the last action
    */
-  undo(): { manager: HistoryManager; strokes: ReadonlyArray<Stroke> } | null {
-    if (this.undoStack.length <= 1) {
-      return null
-    }
-
-    const currentEntry = this.undoStack[this.undoStack.length - 1]
-    if (!currentEntry) return null
-
-    const newUndoStack = this.undoStack.slice(0, -1)
-    const newRedoStack = [...this.redoStack, currentEntry]
-
-    const newManager = new HistoryManager(
-      newUndoStack,
-      newRedoStack,
-      this.maxHistorySize,
-      this.savedEntry,
-      this.emitter,
-    )
-
-    const strokes = newManager.getCurrentStrokes()
-    this.emitter.emit("change", newManager.getState())
-
-    return { manager: newManager, strokes }
+  undo(): { manager: HistoryManager; layers: ReadonlyArray<Layer> } | null {
+    const { parentId } = getEntry(this.tree, this.tree.currentId)
+    return parentId === null ? null : this.jumpTo(parentId)
   }
 
   /**
-   * Redo the last undone action
+   * Redo the last undone action (following the most recently visited branch)
    */
-  redo(): { manager: HistoryManager; strokes: ReadonlyArray<Stroke> } | null {
-    if (this.redoStack.length === 0) {
-      return null
-    }
-
-    const nextEntry = this.redoStack[this.redoStack.length - 1]
-    if (!nextEntry) return null
-
-    const newUndoStack = [...this.undoStack, nextEntry]
-    const newRedoStack = this.redoStack.slice(0, -1)
-
-    const newManager = new HistoryManager(
-      newUndoStack,
-      newRedoStack,
-      this.maxHistorySize,
-      this.savedEntry,
-      this.emitter,
-    )
-
-    this.emitter.emit("change", newManager.getState())
-    return { manager: newManager, strokes: nextEntry.strokes }
+  redo(): { manager: HistoryManager; layers: ReadonlyArray<Layer> } | null {
+    const next = getRedoEntry(this.tree)
+    return next ? this.jumpTo(next.id) : null
   }
 
   /**
-   * Mark current state as saved (resets dirty flag)
+   * Move to any entry of the undo tree
+   *
+   * Undoes up to the common ancestor and redoes down to the entry.
+   * Returns null for unknown entries and the current one.
    */
-  markSaved(): HistoryManager {
-    const currentEntry = this.undoStack[this.undoStack.length - 1] ?? null
+  jumpTo(id: string): { manager: HistoryManager; layers: ReadonlyArray<Layer> } | null {
+    if (id === this.tree.currentId) return null
+    const path = getHistoryPath(this.tree, id)
+    if (!path) return null
 
-    const newManager = new HistoryManager(
-      this.undoStack,
-      this.redoStack,
-      this.maxHistorySize,
-      currentEntry,
-      this.emitter,
-    )
+    const layers = applyHistoryPath(this.layers, path)
+    return { manager: this.update(layers, moveHistoryTo(this.tree, id)), layers }
+  }
 
-    this.emitter.emit("change", newManager.getState())
-    return newManager
+  /**
+   * Mark an entry as saved (the current one by default; resets dirty flag)
+   *
+   * An entry that was dropped from the tree in the meantime leaves no
+   * saved entry.
+   */
+  markSaved(id: string = this.tree.currentId): HistoryManager {
+    const savedId = this.tree.entries.has(id) ? id : null
+    return this.update(this.layers, { ...this.tree, savedId })
   }
 
   /**
-   * Clear all history
+   * Clear all history (the current layers and dirty flag are kept)
    */
   clear(): HistoryManager {
-    const newManager = new HistoryManager([], [], this.maxHistorySize, null, this.emitter)
+    const tree = createHistoryTree()
+    const isDirty = this.tree.savedId !== this.tree.currentId
+    return this.update(this.layers, isDirty ? { ...tree, savedId: null } : tree)
+  }
 
+  /**
+   * Add an entry for a command whose result is `layers`
+   *
+   * The entry becomes a new branch of the current one; the oldest
+   * entries beyond the memory budget are dropped.
+   */
+  private record(command: HistoryCommand, layers: ReadonlyArray<Layer>): HistoryManager {
+    const tree = addHistoryEntry(this.tree, command)
+    return this.update(layers, trimHistoryTree(tree, this.maxMemory))
+  }
+
+  /**
+   * Create a manager with new state and notify subscribers
+   */
+  private update(layers: ReadonlyArray<Layer>, tree: HistoryTree): HistoryManager {
+    const newManager = new HistoryManager(layers, tree, this.maxMemory, this.emitter)
     this.emitter.emit("change", newManager.getState())
     return newManager
   }
@@ -0,0 +1,429 @@
+import type { Layer } from "../types"
+import { applyCommand, getCommandSize, type HistoryCommand, invertCommand } from "./HistoryCommands"
+
+/**
+ * Node of the undo tree
+ *
+ * Every entry except the root holds the command that leads from its
+ * parent's state to its own, so any state can be reached by undoing
+ * up to a common ancestor and redoing down the other branch.
+ */
+export interface HistoryEntry {
+  readonly id: string
+  readonly parentId: string | null
+  /** Change from the parent's state (null for the root) */
+  readonly command: HistoryCommand | null
+  /** Estimated memory held by the command (bytes) */
+  readonly size: number
+  readonly timestamp: number
+  /** Children in creation order */
+  readonly childIds: ReadonlyArray<string>
+  /** Child that redo follows (the most recently visited one) */
+  readonly redoChildId: string | null
+}
+
+/**
+ * Undo tree with the position of the current and the saved state
+ */
+export interface HistoryTree {
+  readonly entries: ReadonlyMap<string, HistoryEntry>
+  readonly rootId: string
+  readonly currentId: string
+  /** Entry of the saved state, null when it is no longer in the tree */
+  readonly savedId: string | null
+}
+
+/**
+ * Entry of a detached history (see HistorySnapshot)
+ */
+export type HistorySnapshotEntry = Pick<
+  HistoryEntry,
+  "id" | "parentId" | "command" | "timestamp" | "redoChildId"
+>
+
+/**
+ * Undo tree detached from its manager (e.g. for persisting)
+ *
+ * The tree is relative to the layers it was taken from, which are the
+ * state of `currentId`.
+ */
+export interface HistorySnapshot {
+  readonly rootId: string
+  readonly currentId: string
+  readonly entries: ReadonlyArray<HistorySnapshotEntry>
+}
+
+/**
+ * Generate a unique history entry ID
+ */
+function generateEntryId(): string {
+  return `history-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+}
+
+/**
+ * Create a tree holding only a (saved) root
+ */
+export function createHistoryTree(): HistoryTree {
+  const root: HistoryEntry = {
+    id: generateEntryId(),
+    parentId: null,
+    command: null,
+    size: 0,
+    timestamp: Date.now(),
+    childIds: [],
+    redoChildId: null,
+  }
+  return {
+    entries: new Map([[root.id, root]]),
+    rootId: root.id,
+    currentId: root.id,
+    savedId: root.id,
+  }
+}
+
+/**
+ * Add a command as a new child of the current entry and move to it
+ *
+ * Existing children are kept as alternative branches.
+ */
+export function addHistoryEntry(tree: HistoryTree, command: HistoryCommand): HistoryTree {
+  const parent = getEntry(tree, tree.currentId)
+  const entry: HistoryEntry = {
+    id: generateEntryId(),
+    parentId: parent.id,
+    command,
+    size: getCommandSize(command),
+    timestamp: Date.now(),
+    childIds: [],
+    redoChildId: null,
+  }
+
+  const entries = new Map(tree.entries)
+  entries.set(parent.id, {
+    ...parent,
+    childIds: [...parent.childIds, entry.id],
+    redoChildId: entry.id,
+  })
+  entries.set(entry.id, entry)
+  return { ...tree, entries, currentId: entry.id }
+}
+
+/**
+ * Get an entry that is known to exist
+ */
+export function getEntry(tree: HistoryTree, id: string): HistoryEntry {
+  const entry = tree.entries.get(id)
+  if (!entry) throw new Error(`History entry not found: ${id}`)
+  return entry
+}
+
+/**
+ * Entry that redo moves to (undefined at the end of a branch)
+ */
+export function getRedoEntry(tree: HistoryTree): HistoryEntry | undefined {
+  const current = getEntry(tree, tree.currentId)
+  const id = current.redoChildId ?? current.childIds[current.childIds.length - 1]
+  return id === undefined ? undefined : tree.entries.get(id)
+}
+
+/**
+ * Number of undo steps from an entry to the root
+ */
+export function getHistoryDepth(tree: HistoryTree, id: string): number {
+  let depth = 0
+  let entry = getEntry(tree, id)
+  while (entry.parentId !== null) {
+    depth++
+    entry = getEntry(tree, entry.parentId)
+  }
+  return depth
+}
+
+/**
+ * Number of redo steps until the end of the current branch
+ */
+export function getRedoCount(tree: HistoryTree): number {
+  let count = 0
+  let next = getRedoEntry(tree)
+  while (next) {
+    count++
+    next = getRedoEntry({ ...tree, currentId: next.id })
+  }
+  return count
+}
+
+/**
+ * Commands leading from the current entry to another one
+ *
+ * `undo` lists the entries to undo (current first), `redo` the entries
+ * to redo afterwards (top-down). Returns null for unknown entries.
+ */
+export function getHistoryPath(
+  tree: HistoryTree,
+  targetId: string,
+): { undo: ReadonlyArray<HistoryEntry>; redo: ReadonlyArray<HistoryEntry> } | null {
+  if (!tree.entries.has(targetId)) return null
+
+  const ancestors = new Set<string>()
+  for (let id: string | null = tree.currentId; id !== null; id = getEntry(tree, id).parentId) {
+    ancestors.add(id)
+  }
+
+  const redo: HistoryEntry[] = []
+  let commonId = targetId
+  while (!ancestors.has(commonId)) {
+    const entry = getEntry(tree, commonId)
+    redo.unshift(entry)
+    if (entry.parentId === null) return null
+    commonId = entry.parentId
+  }
+
+  const undo: HistoryEntry[] = []
+  for (let id = tree.currentId; id !== commonId; ) {
+    const entry = getEntry(tree, id)
+    undo.push(entry)
+    if (entry.parentId === null) return null
+    id = entry.parentId
+  }
+
+  return { undo, redo }
+}
+
+/**
+ * Move the current position to an entry
+ *
+ * Redo pointers along the way are updated, so redo retraces the
+ * branch that was left and undo/redo keep following the visited path.
+ */
+export function moveHistoryTo(tree: HistoryTree, targetId: string): HistoryTree {
+  const path = getHistoryPath(tree, targetId)
+  if (!path) return tree
+
+  const entries = new Map(tree.entries)
+  for (const entry of [...path.undo, ...path.redo]) {
+    if (entry.parentId === null) continue
+    const parent = entries.get(entry.parentId)
+    if (parent) {
+      entries.set(parent.id, { ...parent, redoChildId: entry.id })
+    }
+  }
+  return { ...tree, entries, currentId: targetId }
+}
+
+/**
+ * Layers of the states after applying or undoing the commands of a path
+ */
+export function applyHistoryPath(
+  layers: ReadonlyArray<Layer>,
+  path: { undo: ReadonlyArray<HistoryEntry>; redo: ReadonlyArray<HistoryEntry> },
+): ReadonlyArray<Layer> {
+  let result = layers
+  for (const entry of path.undo) {
+    if (entry.command) result = applyCommand(result, invertCommand(entry.command))
+  }
+  for (const entry of path.redo) {
+    if (entry.command) result = applyCommand(result, entry.command)
+  }
+  return result
+}
+
+/**
+ * Layers of every entry, given the layers of the current one
+ *
+ * Applies one command per entry, instead of replaying the whole path
+ * from the current entry for each of them.
+ */
+export function getHistoryLayers(
+  tree: HistoryTree,
+  layers: ReadonlyArray<Layer>,
+): ReadonlyMap<string, ReadonlyArray<Layer>> {
+  const result = new Map<string, ReadonlyArray<Layer>>([[tree.currentId, layers]])
+  const pending = [tree.currentId]
+
+  for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+    const entry = getEntry(tree, id)
+    const entryLayers = result.get(id) ?? layers
+
+    if (entry.parentId !== null && !result.has(entry.parentId) && entry.command) {
+      result.set(entry.parentId, applyCommand(entryLayers, invertCommand(entry.command)))
+      pending.push(entry.parentId)
+    }
+    for (const childId of entry.childIds) {
+      const child = tree.entries.get(childId)
+      if (child?.command && !result.has(childId)) {
+        result.set(childId, applyCommand(entryLayers, child.command))
+        pending.push(childId)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Total estimated memory of the entries (bytes)
+ */
+export function getHistoryMemory(
+  tree: HistoryTree,
+  getSize: (entry: HistoryEntry) => number = (entry) => entry.size,
+): number {
+  let total = 0
+  for (const entry of tree.entries.values()) {
+    if (entry.command) total += getSize(entry)
+  }
+  return total
+}
+
+/**
+ * Drop entries until the history fits in a budget
+ *
+ * The oldest entry goes first: either a branch tip that is not the
+ * current entry, or - once the root has a single branch - the root,
+ * whose child becomes the new root. The current entry is never
+ * dropped. The saved state is forgotten when its entry is dropped.
+ */
+export function trimHistoryTree(
+  tree: HistoryTree,
+  budget: number,
+  getSize: (entry: HistoryEntry) => number = (entry) => entry.size,
+): HistoryTree {
+  let total = getHistoryMemory(tree, getSize)
+  if (total <= budget) return tree
+
+  const entries = new Map(tree.entries)
+  let rootId = tree.rootId
+  const removeEntry = (entry: HistoryEntry) => {
+    entries.delete(entry.id)
+    if (entry.command) total -= getSize(entry)
+  }
+
+  while (total > budget) {
+    const tip = findOldestTip(entries, rootId, tree.currentId)
+    const root = entries.get(rootId)
+    const rootChild =
+      root?.childIds.length === 1 && rootId !== tree.currentId
+        ? entries.get(root.childIds[0] ?? "")
+        : undefined
+
+    if (rootChild && root && (!tip || rootChild.timestamp <= tip.timestamp)) {
+      // Advance the root: the child's state becomes the oldest one
+      removeEntry(root)
+      removeEntry(rootChild)
+      entries.set(rootChild.id, { ...rootChild, parentId: null, command: null, size: 0 })
+      rootId = rootChild.id
+    } else if (tip?.parentId) {
+      removeEntry(tip)
+      const parent = entries.get(tip.parentId)
+      if (parent) {
+        entries.set(parent.id, {
+          ...parent,
+          childIds: parent.childIds.filter((id) => id !== tip.id),
+          redoChildId: parent.redoChildId === tip.id ? null : parent.redoChildId,
+        })
+      }
+    } else {
+      break
+    }
+  }
+
+  const savedId = tree.savedId !== null && entries.has(tree.savedId) ? tree.savedId : null
+  return { entries, rootId, currentId: tree.currentId, savedId }
+}
+
+/**
+ * Oldest entry without children, other than the root and the current entry
+ */
+function findOldestTip(
+  entries: ReadonlyMap<string, HistoryEntry>,
+  rootId: string,
+  currentId: string,
+): HistoryEntry | undefined {
+  let oldest: HistoryEntry | undefined
+  for (const entry of entries.values()) {
+    if (entry.childIds.length > 0 || entry.id === rootId || entry.id === currentId) continue
+    if (!oldest || entry.timestamp < oldest.timestamp) oldest = entry
+  }
+  return oldest
+}
+
+/**
+ * Detach a tree from its manager
+ */
+export function toHistorySnapshot(tree: HistoryTree): HistorySnapshot {
+  return {
+    rootId: tree.rootId,
+    currentId: tree.currentId,
+    entries: Array.from(
+      tree.entries.values(),
+      ({ id, parentId, command, timestamp, redoChildId }) => ({
+        id,
+        parentId,
+        command,
+        timestamp,
+        redoChildId,
+      }),
+    ),
+  }
+}
+
+/**
+ * Rebuild a tree from a snapshot, with the current entry as the saved state
+ *
+ * Returns null when the snapshot is not a well-formed tree.
+ */
+export function fromHistorySnapshot(snapshot: HistorySnapshot): HistoryTree | null {
+  const entries = new Map<string, HistoryEntry>()
+  for (const { id, parentId, command, timestamp, redoChildId } of snapshot.entries) {
+    if ((parentId === null) !== (command === null) || entries.has(id)) return null
+    entries.set(id, {
+      id,
+      parentId,
+      command,
+      size: command ? getCommandSize(command) : 0,
+      timestamp,
+      childIds: [],
+      redoChildId,
+    })
+  }
+
+  const root = entries.get(snapshot.rootId)
+  if (!root || root.parentId !== null || !entries.has(snapshot.currentId)) return null
+
+  for (const entry of snapshot.entries) {
+    if (entry.parentId === null) {
+      if (entry.id !== snapshot.rootId) return null
+      continue
+    }
+    const parent = entries.get(entry.parentId)
+    if (!parent) return null
+    entries.set(parent.id, { ...parent, childIds: [...parent.childIds, entry.id] })
+  }
+
+  const tree: HistoryTree = {
+    entries,
+    rootId: snapshot.rootId,
+    currentId: snapshot.currentId,
+    savedId: snapshot.currentId,
+  }
+  // Every entry must lead back to the root (no cycles)
+  for (const id of entries.keys()) {
+    if (getHistoryPathLength(tree, id) === null) return null
+  }
+  return tree
+}
+
+/**
+ * Number of parent links from an entry to the root (null for cycles)
+ */
+function getHistoryPathLength(tree: HistoryTree, id: string): number | null {
+  let length = 0
+  for (
+    let entry = tree.entries.get(id);
+    entry?.parentId;
+    entry = tree.entries.get(entry.parentId)
+  ) {
+    length++
+    if (length > tree.entries.size) return null
+  }
+  return length
+}
@@ -5,14 +5,30 @@ import { match } from "ts-pattern"
  */
 export const DRAWING_COMMANDS = {
   // Tool selection
+  TOOL_SELECT: "toolSelect",
+  TOOL_LASSO: "toolLasso",
   TOOL_PENCIL: "toolPencil",
   TOOL_ERASER: "toolEraser",
+  TOOL_TEXT: "toolText",
+  TOOL_LINE: "toolLine",
+  TOOL_RECTANGLE: "toolRectangle",
+  TOOL_ELLIPSE: "toolEllipse",
+  TOOL_ARROW: "toolArrow",
+  TOOL_POLYGON: "toolPolygon",
+  ERASER_MODE_TOGGLE: "eraserModeToggle",
 
   // Actions
   UNDO: "undo",
   REDO: "redo",
   SAVE: "save",
+  EXPORT: "export",
   CLEAR: "clear",
+  DELETE_SELECTION: "deleteSelection",
+  DUPLICATE_SELECTION: "duplicateSelection",
+
+  // View
+  ZOOM_FIT: "zoomFit",
+  ZOOM_RESET: "zoomReset",
 
   // Brush size
   BRUSH_SIZE_1: "brushSize1",
@@ -59,6 +75,18 @@ export interface HotkeyBinding {
  */
 const DEFAULT_HOTKEY_BINDINGS: readonly HotkeyBinding[] = [
   // Tools
+  {
+    command: "toolSelect",
+    key: "v",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Select tool",
+  },
+  {
+    command: "toolLasso",
+    key: "v",
+    modifiers: { ctrl: false, shift: true, alt: false, meta: false },
+    description: "Lasso select tool",
+  },
   {
     command: "toolPencil",
     key: "p",
@@ -71,6 +99,48 @@ const DEFAULT_HOTKEY_BINDINGS: readonly HotkeyBinding[] = [
     modifiers: { ctrl: false, shift: false, alt: false, meta: false },
     description: "Eraser tool",
   },
+  {
+    command: "toolText",
+    key: "t",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Text tool",
+  },
+  {
+    command: "toolLine",
+    key: "l",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Line tool",
+  },
+  {
+    command: "toolRectangle",
+    key: "r",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Rectangle tool",
+  },
+  {
+    command: "toolEllipse",
+    key: "o",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Ellipse tool",
+  },
+  {
+    command: "toolArrow",
+    key: "a",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Arrow tool",
+  },
+  {
+    command: "toolPolygon",
+    key: "g",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Polygon tool",
+  },
+  {
+    command: "eraserModeToggle",
+    key: "e",
+    modifiers: { ctrl: false, shift: true, alt: false, meta: false },
+    description: "Toggle eraser mode (object/precise)",
+  },
 
   // Actions
   {
@@ -97,12 +167,50 @@ const DEFAULT_HOTKEY_BINDINGS: readonly HotkeyBinding[] = [
     modifiers: { ctrl: true, shift: false, alt: false, meta: false },
     description: "Save",
   },
+  {
+    command: "export",
+    key: "e",
+    modifiers: { ctrl: true, shift: false, alt: false, meta: false },
+    description: "Export",
+  },
   {
     command: "clear",
     key: "Delete",
     modifiers: { ctrl: true, shift: false, alt: false, meta: false },
     description: "Clear canvas",
   },
+  {
+    command: "deleteSelection",
+    key: "Delete",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Delete selection",
+  },
+  {
+    command: "deleteSelection",
+    key: "Backspace",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Delete selection (Backspace)",
+  },
+  {
+    command: "duplicateSelection",
+    key: "d",
+    modifiers: { ctrl: true, shift: false, alt: false, meta: false },
+    description: "Duplicate selection",
+  },
+
+  // View
+  {
+    command: "zoomFit",
+    key: "f",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Zoom to fit",
+  },
+  {
+    command: "zoomReset",
+    key: "0",
+    modifiers: { ctrl: false, shift: false, alt: false, meta: false },
+    description: "Zoom to 100%",
+  },
 
   // Brush sizes (1-5 keys)
   {
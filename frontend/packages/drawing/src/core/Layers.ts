@@ -0,0 +1,105 @@
+import type { DrawingElement, Layer } from "../types"
+
+/**
+ * Base name for new layers ("Layer 1", "Layer 2", ...)
+ */
+const LAYER_NAME_PREFIX = "Layer"
+
+/**
+ * Generate a unique layer ID
+ */
+function generateLayerId(): string {
+  return `layer-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+}
+
+/**
+ * Create a visible, unlocked, opaque layer
+ */
+export function createLayer(name: string, elements: ReadonlyArray<DrawingElement> = []): Layer {
+  return {
+    id: generateLayerId(),
+    name,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    elements,
+  }
+}
+
+/**
+ * Next free default layer name
+ */
+export function getNextLayerName(layers: ReadonlyArray<Layer>): string {
+  const names = new Set(layers.map((layer) => layer.name))
+  let index = layers.length + 1
+  while (names.has(`${LAYER_NAME_PREFIX} ${index}`)) {
+    index++
+  }
+  return `${LAYER_NAME_PREFIX} ${index}`
+}
+
+/**
+ * Find a layer by ID
+ */
+export function findLayer(layers: ReadonlyArray<Layer>, id: string): Layer | undefined {
+  return layers.find((layer) => layer.id === id)
+}
+
+/**
+ * Replace properties of one layer
+ *
+ * Returns the original array when the layer does not exist.
+ */
+export function updateLayer(
+  layers: ReadonlyArray<Layer>,
+  id: string,
+  changes: Partial<Omit<Layer, "id">>,
+): ReadonlyArray<Layer> {
+  if (!findLayer(layers, id)) return layers
+  return layers.map((layer) => (layer.id === id ? { ...layer, ...changes } : layer))
+}
+
+/**
+ * Insert a layer directly above another one (on top when not found)
+ */
+export function insertLayerAbove(
+  layers: ReadonlyArray<Layer>,
+  layer: Layer,
+  belowId: string | null,
+): ReadonlyArray<Layer> {
+  const index = belowId ? layers.findIndex((existing) => existing.id === belowId) : -1
+  if (index === -1) return [...layers, layer]
+  return [...layers.slice(0, index + 1), layer, ...layers.slice(index + 1)]
+}
+
+/**
+ * Remove a layer (the last remaining layer cannot be removed)
+ */
+export function removeLayer(layers: ReadonlyArray<Layer>, id: string): ReadonlyArray<Layer> {
+  if (layers.length <= 1 || !findLayer(layers, id)) return layers
+  return layers.filter((layer) => layer.id !== id)
+}
+
+/**
+ * Move a layer to a new stacking position (0 is the bottom)
+ */
+export function moveLayer(
+  layers: ReadonlyArray<Layer>,
+  id: string,
+  toIndex: number,
+): ReadonlyArray<Layer> {
+  const fromIndex = layers.findIndex((layer) => layer.id === id)
+  const layer = layers[fromIndex]
+  const target = Math.max(0, Math.min(layers.length - 1, toIndex))
+  if (!layer || fromIndex === target) return layers
+
+  const without = layers.filter((existing) => existing.id !== id)
+  return [...without.slice(0, target), layer, ...without.slice(target)]
+}
+
+/**
+ * Elements of all visible layers, bottom to top
+ */
+export function getVisibleElements(layers: ReadonlyArray<Layer>): DrawingElement[] {
+  return layers.filter((layer) => layer.visible).flatMap((layer) => layer.elements)
+}
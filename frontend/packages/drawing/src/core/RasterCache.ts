@@ -0,0 +1,127 @@
+import { DEFAULT_VIEWPORT, type DrawingElement, type Viewport } from "../types"
+import { drawElement } from "./ElementRenderer"
+import { viewportsEqual } from "./Viewport"
+
+/**
+ * Raster cache of committed elements
+ *
+ * Holds an offscreen canvas with every completed element already drawn,
+ * so the visible canvas can be refreshed with a single `drawImage`.
+ * The cache is only touched when the element list changes:
+ * - elements appended to the previous list (new stroke or shape, redo) are drawn incrementally
+ * - any other change (undo, clear, load, zoom, pan) re-rasterizes everything
+ *
+ * The layer is transparent; the background is painted by the consumer.
+ */
+export class ElementRasterCache {
+  private readonly canvas: HTMLCanvasElement
+  private elements: ReadonlyArray<DrawingElement> = []
+  private scale = 1
+  private viewport: Viewport = DEFAULT_VIEWPORT
+  private valid = false
+
+  private constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas
+  }
+
+  /**
+   * Create a new empty cache
+   */
+  static create(): ElementRasterCache {
+    return new ElementRasterCache(document.createElement("canvas"))
+  }
+
+  /**
+   * Resize the backing store (device pixels) and drop its contents
+   */
+  resize(width: number, height: number, scale: number): void {
+    this.canvas.width = width
+    this.canvas.height = height
+    this.scale = scale
+    this.valid = false
+  }
+
+  /**
+   * Force a full re-rasterize on the next sync
+   */
+  invalidate(): void {
+    this.valid = false
+  }
+
+  /**
+   * Bring the cache up to date with the given elements and viewport
+   */
+  sync(elements: ReadonlyArray<DrawingElement>, viewport: Viewport = DEFAULT_VIEWPORT): void {
+    if (this.valid && !viewportsEqual(viewport, this.viewport)) {
+      this.valid = false
+    }
+    if (this.valid && elements === this.elements) return
+
+    const ctx = this.canvas.getContext("2d")
+    if (!ctx) return
+
+    applyViewport(ctx, this.scale, viewport)
+
+    if (this.valid && isAppend(this.elements, elements)) {
+      for (let i = this.elements.length; i < elements.length; i++) {
+        const element = elements[i]
+        if (element) drawElement(ctx, element)
+      }
+    } else {
+      ctx.save()
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.clearRect(0, 0, this.canvas.width, this.canvas.height)
+      ctx.restore()
+      for (const element of elements) {
+        drawElement(ctx, element)
+      }
+    }
+
+    this.elements = elements
+    this.viewport = viewport
+    this.valid = true
+  }
+
+  /**
+   * Composite the cached layer onto a target context (device pixels)
+   */
+  drawTo(ctx: CanvasRenderingContext2D, opacity = 1): void {
+    if (this.canvas.width === 0 || this.canvas.height === 0 || opacity <= 0) return
+    ctx.save()
+    ctx.globalAlpha = opacity
+    ctx.drawImage(this.canvas, 0, 0)
+    ctx.restore()
+  }
+}
+
+/**
+ * Check if `next` only appends elements to `prev`
+ */
+function isAppend(
+  prev: ReadonlyArray<DrawingElement>,
+  next: ReadonlyArray<DrawingElement>,
+): boolean {
+  if (next.length < prev.length) return false
+  for (let i = 0; i < prev.length; i++) {
+    if (prev[i] !== next[i]) return false
+  }
+  return true
+}
+
+/**
+ * Set a context transform for device pixel ratio and viewport
+ */
+export function applyViewport(
+  ctx: CanvasRenderingContext2D,
+  pixelRatio: number,
+  viewport: Viewport,
+): void {
+  ctx.setTransform(
+    pixelRatio * viewport.scale,
+    0,
+    0,
+    pixelRatio * viewport.scale,
+    pixelRatio * viewport.offsetX,
+    pixelRatio * viewport.offsetY,
+  )
+}
@@ -0,0 +1,442 @@
+import {
+  type DrawingElement,
+  generateElementId,
+  isShape,
+  isStroke,
+  isText,
+  type Point,
+  type Shape,
+  type TextElement,
+  type Viewport,
+} from "../types"
+import { isElementHit } from "./Eraser"
+import { getShapeOutline, pointInPolygon } from "./ShapeGeometry"
+import { measureText } from "./TextRenderer"
+import { type Bounds, getElementBounds, worldToScreen } from "./Viewport"
+
+/**
+ * Affine transform in world coordinates
+ *
+ * x' = a * x + c * y + e
+ * y' = b * x + d * y + f
+ */
+export interface Transform {
+  readonly a: number
+  readonly b: number
+  readonly c: number
+  readonly d: number
+  readonly e: number
+  readonly f: number
+}
+
+/**
+ * Transform that leaves everything in place
+ */
+export const IDENTITY_TRANSFORM: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 }
+
+/**
+ * Handles of the selection transform box
+ *
+ * Compass directions resize from the opposite side; "rotate" turns the
+ * selection around its center.
+ */
+export type SelectionHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | "rotate"
+
+/**
+ * Handle size and rotate handle distance in screen pixels
+ */
+export const HANDLE_SIZE = 8
+export const ROTATE_HANDLE_OFFSET = 24
+
+/**
+ * Rotation step when snapping (15°)
+ */
+const ROTATION_SNAP = Math.PI / 12
+
+/**
+ * Smallest box dimension (world units) that can be scaled along an axis
+ */
+const MIN_SCALE_EXTENT = 1e-6
+
+/**
+ * Translation by a world-space delta
+ */
+export function translation(dx: number, dy: number): Transform {
+  return { a: 1, b: 0, c: 0, d: 1, e: dx, f: dy }
+}
+
+/**
+ * Scaling around an origin
+ */
+export function scaling(sx: number, sy: number, origin: Point): Transform {
+  return { a: sx, b: 0, c: 0, d: sy, e: origin.x * (1 - sx), f: origin.y * (1 - sy) }
+}
+
+/**
+ * Rotation around an origin (radians, clockwise on screen)
+ */
+export function rotation(angle: number, origin: Point): Transform {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return {
+    a: cos,
+    b: sin,
+    c: -sin,
+    d: cos,
+    e: origin.x - origin.x * cos + origin.y * sin,
+    f: origin.y - origin.x * sin - origin.y * cos,
+  }
+}
+
+/**
+ * Check if a transform changes nothing
+ */
+export function isIdentityTransform(transform: Transform): boolean {
+  const { a, b, c, d, e, f } = transform
+  return a === 1 && b === 0 && c === 0 && d === 1 && e === 0 && f === 0
+}
+
+/**
+ * Apply a transform to a point, keeping its pen data
+ */
+export function applyTransform(transform: Transform, point: Point): Point {
+  const { a, b, c, d, e, f } = transform
+  return {
+    ...point,
+    x: a * point.x + c * point.y + e,
+    y: b * point.x + d * point.y + f,
+  }
+}
+
+/**
+ * Factor by which a transform scales lengths on average
+ */
+function getLengthScale(transform: Transform): number {
+  return Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c))
+}
+
+/**
+ * Transform a rectangle or ellipse, keeping it a (rotated) box
+ *
+ * The box axes are mapped through the transform; the result is exact
+ * for moves, rotations and scaling along the box axes.
+ */
+function transformBoxShape(shape: Shape, transform: Transform): Shape {
+  const [start, end] = shape.points
+  if (!start || !end) return shape
+
+  const angle = shape.rotation ?? 0
+  const center = applyTransform(transform, {
+    x: (start.x + end.x) / 2,
+    y: (start.y + end.y) / 2,
+  })
+
+  // Images of the box's unit axes
+  const ux = transform.a * Math.cos(angle) + transform.c * Math.sin(angle)
+  const uy = transform.b * Math.cos(angle) + transform.d * Math.sin(angle)
+  const vx = -transform.a * Math.sin(angle) + transform.c * Math.cos(angle)
+  const vy = -transform.b * Math.sin(angle) + transform.d * Math.cos(angle)
+
+  const halfWidth = (Math.abs(end.x - start.x) / 2) * Math.hypot(ux, uy)
+  const halfHeight = (Math.abs(end.y - start.y) / 2) * Math.hypot(vx, vy)
+  const nextRotation = Math.atan2(uy, ux)
+
+  const { rotation: _rotation, ...rest } = shape
+  return {
+    ...rest,
+    points: [
+      { x: center.x - halfWidth, y: center.y - halfHeight },
+      { x: center.x + halfWidth, y: center.y + halfHeight },
+    ],
+    width: shape.width * getLengthScale(transform),
+    ...(Math.abs(nextRotation) > 1e-9 && { rotation: nextRotation }),
+  }
+}
+
+/**
+ * Transform a text element
+ *
+ * Text stays upright: its center follows the transform and the font
+ * size scales with it.
+ */
+function transformText(element: TextElement, transform: Transform): TextElement {
+  const size = measureText(element)
+  const center = applyTransform(transform, {
+    x: element.x + size.width / 2,
+    y: element.y + size.height / 2,
+  })
+
+  const fontSize = Math.max(1, element.fontSize * getLengthScale(transform))
+  const next = measureText({ text: element.text, fontSize })
+  return {
+    ...element,
+    x: center.x - next.width / 2,
+    y: center.y - next.height / 2,
+    fontSize,
+  }
+}
+
+/**
+ * Apply a transform to an element
+ *
+ * Line widths scale with the average scale factor of the transform.
+ */
+export function transformElement(element: DrawingElement, transform: Transform): DrawingElement {
+  if (isIdentityTransform(transform)) return element
+
+  if (isText(element)) {
+    return transformText(element, transform)
+  }
+
+  if (isShape(element)) {
+    if (element.kind === "rectangle" || element.kind === "ellipse") {
+      return transformBoxShape(element, transform)
+    }
+    return {
+      ...element,
+      points: element.points.map((point) => applyTransform(transform, point)),
+      width: element.width * getLengthScale(transform),
+    }
+  }
+
+  return {
+    ...element,
+    points: element.points.map((point) => applyTransform(transform, point)),
+    width: element.width * getLengthScale(transform),
+  }
+}
+
+/**
+ * ID prefix for an element type
+ */
+function getIdPrefix(element: DrawingElement): "stroke" | "shape" | "text" {
+  if (isShape(element)) return "shape"
+  if (isText(element)) return "text"
+  return "stroke"
+}
+
+/**
+ * Copy elements with new IDs, moved by an offset
+ */
+export function duplicateElements(
+  elements: ReadonlyArray<DrawingElement>,
+  offset: number,
+): DrawingElement[] {
+  const move = translation(offset, offset)
+  return elements.map((element) => ({
+    ...transformElement(element, move),
+    id: generateElementId(getIdPrefix(element)),
+  }))
+}
+
+/**
+ * Check if an element can be selected
+ *
+ * Legacy erase strokes are invisible on their own and stay in place.
+ */
+export function isSelectable(element: DrawingElement): boolean {
+  return !isStroke(element) || !element.erase
+}
+
+/**
+ * Find the topmost selectable element at a world point
+ */
+export function findElementAt(
+  elements: ReadonlyArray<DrawingElement>,
+  point: Point,
+  tolerance: number,
+): DrawingElement | null {
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i]
+    if (element && isSelectable(element) && isElementHit(element, [point], tolerance)) {
+      return element
+    }
+  }
+  return null
+}
+
+/**
+ * Points that describe the extent of an element (used for containment)
+ */
+function getElementOutline(element: DrawingElement): ReadonlyArray<Point> {
+  if (isText(element)) {
+    const { width, height } = measureText(element)
+    return [
+      { x: element.x, y: element.y },
+      { x: element.x + width, y: element.y },
+      { x: element.x + width, y: element.y + height },
+      { x: element.x, y: element.y + height },
+    ]
+  }
+  if (isShape(element)) {
+    return getShapeOutline(element)
+  }
+  return element.points
+}
+
+/**
+ * IDs of the selectable elements fully inside a box
+ */
+export function getElementsInRect(elements: ReadonlyArray<DrawingElement>, rect: Bounds): string[] {
+  return elements
+    .filter(
+      (element) =>
+        isSelectable(element) &&
+        getElementOutline(element).every(
+          (point) =>
+            point.x >= rect.minX &&
+            point.x <= rect.maxX &&
+            point.y >= rect.minY &&
+            point.y <= rect.maxY,
+        ),
+    )
+    .map((element) => element.id)
+}
+
+/**
+ * IDs of the selectable elements fully inside a lasso outline
+ */
+export function getElementsInLasso(
+  elements: ReadonlyArray<DrawingElement>,
+  lasso: ReadonlyArray<Point>,
+): string[] {
+  if (lasso.length < 3) return []
+
+  return elements
+    .filter((element) => {
+      if (!isSelectable(element)) return false
+      const outline = getElementOutline(element)
+      return outline.length > 0 && outline.every((point) => pointInPolygon(point, lasso))
+    })
+    .map((element) => element.id)
+}
+
+/**
+ * Box spanned by two points
+ */
+export function boundsFromPoints(a: Point, b: Point): Bounds {
+  return {
+    minX: Math.min(a.x, b.x),
+    minY: Math.min(a.y, b.y),
+    maxX: Math.max(a.x, b.x),
+    maxY: Math.max(a.y, b.y),
+  }
+}
+
+/**
+ * Bounding box of the selected elements, or null for an empty selection
+ */
+export function getSelectionBounds(elements: ReadonlyArray<DrawingElement>): Bounds | null {
+  const [first, ...rest] = elements
+  if (!first) return null
+
+  return rest.reduce((bounds, element) => {
+    const next = getElementBounds(element)
+    return {
+      minX: Math.min(bounds.minX, next.minX),
+      minY: Math.min(bounds.minY, next.minY),
+      maxX: Math.max(bounds.maxX, next.maxX),
+      maxY: Math.max(bounds.maxY, next.maxY),
+    }
+  }, getElementBounds(first))
+}
+
+/**
+ * Screen positions of the transform box handles
+ */
+export function getHandlePositions(
+  bounds: Bounds,
+  viewport: Viewport,
+): Record<SelectionHandle, Point> {
+  const topLeft = worldToScreen(viewport, bounds.minX, bounds.minY)
+  const bottomRight = worldToScreen(viewport, bounds.maxX, bounds.maxY)
+  const centerX = (topLeft.x + bottomRight.x) / 2
+  const centerY = (topLeft.y + bottomRight.y) / 2
+
+  return {
+    nw: topLeft,
+    n: { x: centerX, y: topLeft.y },
+    ne: { x: bottomRight.x, y: topLeft.y },
+    e: { x: bottomRight.x, y: centerY },
+    se: bottomRight,
+    s: { x: centerX, y: bottomRight.y },
+    sw: { x: topLeft.x, y: bottomRight.y },
+    w: { x: topLeft.x, y: centerY },
+    rotate: { x: centerX, y: topLeft.y - ROTATE_HANDLE_OFFSET },
+  }
+}
+
+/**
+ * Find the handle under a screen point
+ */
+export function hitTestHandle(
+  bounds: Bounds,
+  viewport: Viewport,
+  x: number,
+  y: number,
+): SelectionHandle | null {
+  const positions = getHandlePositions(bounds, viewport)
+  const reach = HANDLE_SIZE / 2 + 2
+
+  for (const [handle, position] of Object.entries(positions)) {
+    if (Math.abs(position.x - x) <= reach && Math.abs(position.y - y) <= reach) {
+      return handle as SelectionHandle
+    }
+  }
+  return null
+}
+
+/**
+ * Scale factor along one axis when dragging from `start` to `current`
+ */
+function axisScale(anchor: number, start: number, current: number): number {
+  const extent = start - anchor
+  if (Math.abs(extent) < MIN_SCALE_EXTENT) return 1
+  return (current - anchor) / extent
+}
+
+/**
+ * Transform for dragging a resize handle
+ *
+ * The opposite corner or edge stays fixed. With `keepAspect`, corner
+ * handles scale both axes by the same factor.
+ */
+export function getResizeTransform(
+  handle: Exclude<SelectionHandle, "rotate">,
+  bounds: Bounds,
+  start: Point,
+  current: Point,
+  keepAspect: boolean,
+): Transform {
+  const anchorX = handle.includes("w") ? bounds.maxX : bounds.minX
+  const anchorY = handle.includes("n") ? bounds.maxY : bounds.minY
+
+  let sx = handle === "n" || handle === "s" ? 1 : axisScale(anchorX, start.x, current.x)
+  let sy = handle === "e" || handle === "w" ? 1 : axisScale(anchorY, start.y, current.y)
+
+  if (keepAspect && handle.length === 2) {
+    const uniform = Math.max(Math.abs(sx), Math.abs(sy))
+    sx = Math.sign(sx || 1) * uniform
+    sy = Math.sign(sy || 1) * uniform
+  }
+
+  return scaling(sx, sy, { x: anchorX, y: anchorY })
+}
+
+/**
+ * Transform for dragging the rotate handle around the selection center
+ *
+ * With `snap`, the angle is rounded to 15° steps.
+ */
+export function getRotateTransform(
+  bounds: Bounds,
+  start: Point,
+  current: Point,
+  snap: boolean,
+): Transform {
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  const angle =
+    Math.atan2(current.y - center.y, current.x - center.x) -
+    Math.atan2(start.y - center.y, start.x - center.x)
+  return rotation(snap ? Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP : angle, center)
+}
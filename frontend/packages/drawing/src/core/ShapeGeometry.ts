@@ -0,0 +1,203 @@
+import type { Point, Shape, ShapeKind } from "../types"
+
+/**
+ * Angle step used when constraining lines (45°)
+ */
+const ANGLE_STEP = Math.PI / 4
+
+/**
+ * Arrow head proportions
+ */
+const ARROW_HEAD_ANGLE = Math.PI / 6
+const ARROW_HEAD_MIN_LENGTH = 10
+const ARROW_HEAD_WIDTH_FACTOR = 3
+
+/**
+ * Segments used to approximate an ellipse outline
+ */
+const ELLIPSE_SEGMENTS = 32
+
+/**
+ * Snap the end of a segment to the nearest 45° direction, keeping its length
+ */
+export function snapToAngle(anchor: Point, point: Point): Point {
+  const dx = point.x - anchor.x
+  const dy = point.y - anchor.y
+  const length = Math.hypot(dx, dy)
+  const angle = Math.round(Math.atan2(dy, dx) / ANGLE_STEP) * ANGLE_STEP
+
+  return {
+    ...point,
+    x: anchor.x + Math.cos(angle) * length,
+    y: anchor.y + Math.sin(angle) * length,
+  }
+}
+
+/**
+ * Make the box spanned by anchor and point square (same sign per axis)
+ */
+export function snapToSquare(anchor: Point, point: Point): Point {
+  const dx = point.x - anchor.x
+  const dy = point.y - anchor.y
+  const size = Math.max(Math.abs(dx), Math.abs(dy))
+
+  return {
+    ...point,
+    x: anchor.x + (dx < 0 ? -size : size),
+    y: anchor.y + (dy < 0 ? -size : size),
+  }
+}
+
+/**
+ * Apply the Shift constraint for a shape kind
+ *
+ * - line, arrow, polygon edges: 45° increments
+ * - rectangle, ellipse: square / circle
+ */
+export function constrainShapePoint(kind: ShapeKind, anchor: Point, point: Point): Point {
+  if (kind === "rectangle" || kind === "ellipse") {
+    return snapToSquare(anchor, point)
+  }
+  return snapToAngle(anchor, point)
+}
+
+/**
+ * Length of the arrow head for a given line width
+ */
+export function getArrowHeadLength(width: number): number {
+  return Math.max(ARROW_HEAD_MIN_LENGTH, width * ARROW_HEAD_WIDTH_FACTOR)
+}
+
+/**
+ * The two barb end points of an arrow head pointing at `end`
+ */
+export function getArrowHeadPoints(start: Point, end: Point, width: number): [Point, Point] {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x)
+  const length = getArrowHeadLength(width)
+
+  return [
+    {
+      x: end.x - length * Math.cos(angle - ARROW_HEAD_ANGLE),
+      y: end.y - length * Math.sin(angle - ARROW_HEAD_ANGLE),
+    },
+    {
+      x: end.x - length * Math.cos(angle + ARROW_HEAD_ANGLE),
+      y: end.y - length * Math.sin(angle + ARROW_HEAD_ANGLE),
+    },
+  ]
+}
+
+/**
+ * Check if a shape has enough geometry to be kept
+ *
+ * Filters out accidental clicks that would create invisible shapes.
+ */
+export function isShapeValid(kind: ShapeKind, points: ReadonlyArray<Point>): boolean {
+  if (kind === "polygon") {
+    return points.length >= 3
+  }
+
+  const [start, end] = points
+  if (!start || !end) return false
+
+  if (kind === "rectangle" || kind === "ellipse") {
+    return start.x !== end.x && start.y !== end.y
+  }
+  return start.x !== end.x || start.y !== end.y
+}
+
+/**
+ * Rotate a point around a center
+ */
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return {
+    ...point,
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos,
+  }
+}
+
+/**
+ * Corners of the (possibly rotated) box spanned by two points, clockwise
+ */
+export function getBoxCorners(start: Point, end: Point, rotation = 0): Point[] {
+  const corners = [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }]
+  if (!rotation) return corners
+
+  const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+  return corners.map((corner) => rotatePoint(corner, center, rotation))
+}
+
+/**
+ * Half width and height of the axis-aligned box around a rotated ellipse
+ */
+export function getEllipseExtents(
+  start: Point,
+  end: Point,
+  rotation = 0,
+): { x: number; y: number } {
+  const rx = Math.abs(end.x - start.x) / 2
+  const ry = Math.abs(end.y - start.y) / 2
+  const cos = Math.cos(rotation)
+  const sin = Math.sin(rotation)
+  return {
+    x: Math.hypot(rx * cos, ry * sin),
+    y: Math.hypot(rx * sin, ry * cos),
+  }
+}
+
+/**
+ * Outline of a shape as a polyline (closed shapes repeat the first point)
+ *
+ * Ellipses are approximated by a polygon.
+ */
+export function getShapeOutline(shape: Shape): Point[] {
+  const [start, end] = shape.points
+  if (!start || !end) return []
+
+  switch (shape.kind) {
+    case "line":
+    case "arrow":
+      return [start, end]
+    case "rectangle": {
+      const corners = getBoxCorners(start, end, shape.rotation)
+      const [first] = corners
+      return first ? [...corners, first] : []
+    }
+    case "ellipse": {
+      const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+      const rx = Math.abs(end.x - start.x) / 2
+      const ry = Math.abs(end.y - start.y) / 2
+      return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2
+        const point = { x: center.x + rx * Math.cos(angle), y: center.y + ry * Math.sin(angle) }
+        return shape.rotation ? rotatePoint(point, center, shape.rotation) : point
+      })
+    }
+    case "polygon": {
+      const [first] = shape.points
+      return first ? [...shape.points, first] : []
+    }
+  }
+}
+
+/**
+ * Check if a point lies inside a closed polygon (even-odd rule)
+ */
+export function pointInPolygon(point: Point, polygon: ReadonlyArray<Point>): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (!a || !b) continue
+    if (a.y > point.y !== b.y > point.y) {
+      const x = ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+      if (point.x < x) inside = !inside
+    }
+  }
+  return inside
+}
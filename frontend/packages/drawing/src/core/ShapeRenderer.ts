@@ -0,0 +1,98 @@
+import type { Point, Shape } from "../types"
+import { getArrowHeadPoints, getBoxCorners } from "./ShapeGeometry"
+
+/**
+ * Minimal shape data accepted by the renderer
+ *
+ * Matches both committed shapes and the rubber-band preview.
+ */
+export type RenderableShape = Pick<
+  Shape,
+  "kind" | "points" | "color" | "width" | "fill" | "rotation"
+>
+
+/**
+ * Draw a single shape onto a 2D context
+ *
+ * The fill (if any) is painted first so the outline stays fully visible.
+ */
+export function drawShape(ctx: CanvasRenderingContext2D, shape: RenderableShape): void {
+  const { points } = shape
+  const [start, end] = points
+  if (!start || !end) return
+
+  ctx.strokeStyle = shape.color
+  ctx.lineWidth = shape.width
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+
+  ctx.beginPath()
+
+  switch (shape.kind) {
+    case "line":
+      ctx.moveTo(start.x, start.y)
+      ctx.lineTo(end.x, end.y)
+      ctx.stroke()
+      return
+
+    case "arrow": {
+      const [left, right] = getArrowHeadPoints(start, end, shape.width)
+      ctx.moveTo(start.x, start.y)
+      ctx.lineTo(end.x, end.y)
+      ctx.moveTo(left.x, left.y)
+      ctx.lineTo(end.x, end.y)
+      ctx.lineTo(right.x, right.y)
+      ctx.stroke()
+      return
+    }
+
+    case "rectangle":
+      if (shape.rotation) {
+        tracePolygon(ctx, getBoxCorners(start, end, shape.rotation))
+        break
+      }
+      ctx.rect(
+        Math.min(start.x, end.x),
+        Math.min(start.y, end.y),
+        Math.abs(end.x - start.x),
+        Math.abs(end.y - start.y),
+      )
+      break
+
+    case "ellipse":
+      ctx.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        shape.rotation ?? 0,
+        0,
+        Math.PI * 2,
+      )
+      break
+
+    case "polygon":
+      tracePolygon(ctx, points)
+      break
+  }
+
+  if (shape.fill) {
+    ctx.fillStyle = shape.fill
+    ctx.fill()
+  }
+  ctx.stroke()
+}
+
+/**
+ * Add a closed polygon path through all points
+ */
+function tracePolygon(ctx: CanvasRenderingContext2D, points: ReadonlyArray<Point>): void {
+  const [first, ...rest] = points
+  if (!first) return
+
+  ctx.moveTo(first.x, first.y)
+  for (const point of rest) {
+    ctx.lineTo(point.x, point.y)
+  }
+  ctx.closePath()
+}
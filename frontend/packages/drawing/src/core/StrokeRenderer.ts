@@ -0,0 +1,144 @@
+import type { Point, StrokeInterpolation } from "../types"
+import { catmullRomToBezier } from "./StrokeSmoothing"
+
+/**
+ * Minimal stroke shape accepted by the renderer
+ *
+ * Matches both completed strokes and the in-progress stroke.
+ */
+export interface RenderableStroke {
+  readonly points: ReadonlyArray<Point>
+  readonly color: string
+  readonly width: number
+  readonly interpolation?: StrokeInterpolation
+}
+
+/**
+ * Width multipliers at zero and full pressure.
+ * A pressure of 0.5 (the pointer events default) maps to exactly 1x.
+ */
+const MIN_PRESSURE_SCALE = 0.2
+const MAX_PRESSURE_SCALE = 1.8
+
+/**
+ * Get the effective line width for a given pressure
+ */
+export function getPressureWidth(width: number, pressure: number | undefined): number {
+  if (pressure === undefined) return width
+  const clamped = Math.max(0, Math.min(1, pressure))
+  return width * (MIN_PRESSURE_SCALE + (MAX_PRESSURE_SCALE - MIN_PRESSURE_SCALE) * clamped)
+}
+
+/**
+ * Check if any point in the stroke carries pressure data
+ */
+export function hasPressure(points: ReadonlyArray<Point>): boolean {
+  return points.some((point) => point.pressure !== undefined)
+}
+
+/**
+ * Draw a single stroke onto a 2D context
+ *
+ * Strokes without pressure data are drawn as one constant-width path,
+ * exactly as they were before pen support. Pressure strokes are drawn
+ * segment by segment with the width of each segment modulated by the
+ * average pressure of its endpoints.
+ *
+ * Segments are straight lines unless the stroke uses Catmull-Rom
+ * interpolation, in which case they are cubic Bézier curves.
+ */
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: RenderableStroke): void {
+  const { points } = stroke
+  if (points.length < 2) return
+
+  ctx.strokeStyle = stroke.color
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+
+  const curved = stroke.interpolation === "catmull-rom" && points.length > 2
+  const variableWidth = hasPressure(points)
+
+  if (curved) {
+    const segments = catmullRomToBezier(points)
+
+    if (!variableWidth) {
+      ctx.beginPath()
+      ctx.lineWidth = stroke.width
+      const first = segments[0]
+      if (first) {
+        ctx.moveTo(first.start.x, first.start.y)
+      }
+      for (const segment of segments) {
+        ctx.bezierCurveTo(
+          segment.cp1.x,
+          segment.cp1.y,
+          segment.cp2.x,
+          segment.cp2.y,
+          segment.end.x,
+          segment.end.y,
+        )
+      }
+      ctx.stroke()
+      return
+    }
+
+    for (const segment of segments) {
+      ctx.beginPath()
+      ctx.lineWidth = getPressureWidth(stroke.width, averagePressure(segment.start, segment.end))
+      ctx.moveTo(segment.start.x, segment.start.y)
+      ctx.bezierCurveTo(
+        segment.cp1.x,
+        segment.cp1.y,
+        segment.cp2.x,
+        segment.cp2.y,
+        segment.end.x,
+        segment.end.y,
+      )
+      ctx.stroke()
+    }
+    return
+  }
+
+  if (!variableWidth) {
+    ctx.beginPath()
+    ctx.lineWidth = stroke.width
+
+    const firstPoint = points[0]
+    if (firstPoint) {
+      ctx.moveTo(firstPoint.x, firstPoint.y)
+    }
+
+    for (let i = 1; i < points.length; i++) {
+      const point = points[i]
+      if (point) {
+        ctx.lineTo(point.x, point.y)
+      }
+    }
+
+    ctx.stroke()
+    return
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1]
+    const point = points[i]
+    if (!prev || !point) continue
+
+    const pressure = averagePressure(prev, point)
+
+    ctx.beginPath()
+    ctx.lineWidth = getPressureWidth(stroke.width, pressure)
+    ctx.moveTo(prev.x, prev.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.stroke()
+  }
+}
+
+/**
+ * Average pressure of two points (missing values are ignored)
+ */
+function averagePressure(a: Point, b: Point): number | undefined {
+  if (a.pressure === undefined) return b.pressure
+  if (b.pressure === undefined) return a.pressure
+  return (a.pressure + b.pressure) / 2
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import type { Point } from "../types"
+import { distanceToSegment, SMOOTHING_PRESETS, simplifyPoints } from "./StrokeSmoothing"
+
+/**
+ * Largest distance from an original point to the simplified polyline
+ */
+function maxDeviation(original: ReadonlyArray<Point>, simplified: ReadonlyArray<Point>): number {
+  let max = 0
+  for (const point of original) {
+    let nearest = Number.POSITIVE_INFINITY
+    for (let i = 0; i < simplified.length - 1; i++) {
+      nearest = Math.min(nearest, distanceToSegment(point, simplified[i], simplified[i + 1]))
+    }
+    max = Math.max(max, nearest)
+  }
+  return max
+}
+
+// Deterministic jitter so the tests do not depend on Math.random
+function jitter(index: number, amplitude: number): number {
+  return Math.sin(index * 12.9898) * amplitude
+}
+
+const jitteredLine: Point[] = Array.from({ length: 200 }, (_, i) => ({
+  x: i,
+  y: jitter(i, 0.4),
+}))
+
+const sineWave: Point[] = Array.from({ length: 400 }, (_, i) => ({
+  x: i * 0.5,
+  y: Math.sin(i / 20) * 40,
+}))
+
+describe("simplifyPoints", () => {
+  it("returns the input when simplification is disabled", () => {
+    expect(simplifyPoints(sineWave, 0)).toBe(sineWave)
+  })
+
+  it("keeps strokes of two points or fewer", () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 10 },
+    ]
+    expect(simplifyPoints(points, 2)).toBe(points)
+  })
+
+  it("keeps the first and last point", () => {
+    const simplified = simplifyPoints(sineWave, 1)
+    expect(simplified[0]).toBe(sineWave[0])
+    expect(simplified[simplified.length - 1]).toBe(sineWave[sineWave.length - 1])
+  })
+
+  it("reduces a jittered straight line to its endpoints", () => {
+    const simplified = simplifyPoints(jitteredLine, 1)
+    expect(simplified).toHaveLength(2)
+    expect(simplified.length / jitteredLine.length).toBe(0.01)
+  })
+
+  it.each(
+    Object.entries(SMOOTHING_PRESETS).filter(([, options]) => options.tolerance > 0),
+  )("removes most points of a curve at the %s preset", (_, { tolerance }) => {
+    const simplified = simplifyPoints(sineWave, tolerance)
+    expect(simplified.length / sineWave.length).toBeLessThan(0.25)
+  })
+
+  it.each([0.5, 1, 2, 5])("stays within a tolerance of %s px", (tolerance) => {
+    const simplified = simplifyPoints(sineWave, tolerance)
+    expect(maxDeviation(sineWave, simplified)).toBeLessThanOrEqual(tolerance)
+  })
+
+  it("removes more points at a larger tolerance", () => {
+    const counts = [0.5, 1, 2, 5].map((tolerance) => simplifyPoints(sineWave, tolerance).length)
+    expect(counts).toEqual([...counts].sort((a, b) => b - a))
+  })
+})
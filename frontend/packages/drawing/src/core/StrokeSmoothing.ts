@@ -0,0 +1,151 @@
+import type { Point, SmoothingLevel, StrokeInterpolation } from "../types"
+
+/**
+ * Input pipeline settings for a smoothing level
+ */
+export interface SmoothingOptions {
+  /** Stabilizer weight: 0 follows the pointer exactly, values near 1 lag behind it */
+  readonly stabilization: number
+  /** Ramer–Douglas–Peucker tolerance in canvas pixels (0 disables simplification) */
+  readonly tolerance: number
+  /** Interpolation used to render the resulting stroke */
+  readonly interpolation: StrokeInterpolation
+}
+
+/**
+ * Pipeline settings per smoothing level
+ */
+export const SMOOTHING_PRESETS: Readonly<Record<SmoothingLevel, SmoothingOptions>> = {
+  off: { stabilization: 0, tolerance: 0, interpolation: "linear" },
+  low: { stabilization: 0.3, tolerance: 0.5, interpolation: "catmull-rom" },
+  medium: { stabilization: 0.55, tolerance: 1, interpolation: "catmull-rom" },
+  high: { stabilization: 0.75, tolerance: 2, interpolation: "catmull-rom" },
+}
+
+/**
+ * Get pipeline settings for a smoothing level
+ */
+export function getSmoothingOptions(level: SmoothingLevel): SmoothingOptions {
+  return SMOOTHING_PRESETS[level]
+}
+
+/**
+ * Lag stabilizer (exponential moving average)
+ *
+ * Moves the previous smoothed point towards the raw sample by
+ * `1 - stabilization`. Pen data (pressure, tilt, time) is taken
+ * from the raw sample so pressure response is not delayed.
+ */
+export function stabilizePoint(previous: Point | null, raw: Point, stabilization: number): Point {
+  if (!previous || stabilization <= 0) return raw
+
+  const follow = 1 - Math.min(Math.max(stabilization, 0), 0.95)
+  return {
+    ...raw,
+    x: previous.x + (raw.x - previous.x) * follow,
+    y: previous.y + (raw.y - previous.y) * follow,
+  }
+}
+
+/**
+ * Distance from a point to the segment a-b
+ */
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+
+  if (lengthSquared === 0) {
+    return Math.hypot(point.x - a.x, point.y - a.y)
+  }
+
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+/**
+ * Simplify a polyline with the Ramer–Douglas–Peucker algorithm
+ *
+ * Every removed point lies within `tolerance` of the simplified line,
+ * so the visual error is bounded by the tolerance. Iterative to avoid
+ * deep recursion on long strokes.
+ */
+export function simplifyPoints(
+  points: ReadonlyArray<Point>,
+  tolerance: number,
+): ReadonlyArray<Point> {
+  if (tolerance <= 0 || points.length <= 2) return points
+
+  const keep = new Uint8Array(points.length)
+  keep[0] = 1
+  keep[points.length - 1] = 1
+
+  const stack: Array<[number, number]> = [[0, points.length - 1]]
+
+  while (stack.length > 0) {
+    const range = stack.pop()
+    if (!range) break
+    const [start, end] = range
+
+    const a = points[start]
+    const b = points[end]
+    if (!a || !b) continue
+
+    let maxDistance = 0
+    let maxIndex = -1
+
+    for (let i = start + 1; i < end; i++) {
+      const point = points[i]
+      if (!point) continue
+      const distance = distanceToSegment(point, a, b)
+      if (distance > maxDistance) {
+        maxDistance = distance
+        maxIndex = i
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = 1
+      stack.push([start, maxIndex], [maxIndex, end])
+    }
+  }
+
+  return points.filter((_, index) => keep[index] === 1)
+}
+
+/**
+ * Cubic Bézier segment (control points only, start is the previous end)
+ */
+export interface BezierSegment {
+  readonly start: Point
+  readonly cp1: Point
+  readonly cp2: Point
+  readonly end: Point
+}
+
+/**
+ * Convert points to Bézier segments of a uniform Catmull-Rom spline
+ *
+ * The curve passes through every input point; endpoints are clamped
+ * by duplicating the first and last point.
+ */
+export function catmullRomToBezier(points: ReadonlyArray<Point>): BezierSegment[] {
+  const segments: BezierSegment[] = []
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] ?? points[i]
+    const p1 = points[i]
+    const p2 = points[i + 1]
+    const p3 = points[i + 2] ?? p2
+    if (!p0 || !p1 || !p2 || !p3) continue
+
+    segments.push({
+      start: p1,
+      cp1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      cp2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      end: p2,
+    })
+  }
+
+  return segments
+}
@@ -0,0 +1,100 @@
+import type { Point, TextElement } from "../types"
+
+/**
+ * Font family used for text elements (canvas and editor)
+ */
+export const TEXT_FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', sans-serif"
+
+/**
+ * Line height as a multiple of the font size
+ */
+export const TEXT_LINE_HEIGHT = 1.25
+
+/**
+ * Text metrics relevant for layout and hit testing
+ */
+type MeasurableText = Pick<TextElement, "text" | "fontSize">
+
+/**
+ * Shared context for text measurement (created lazily)
+ */
+let measureContext: CanvasRenderingContext2D | null = null
+
+/**
+ * Get the CSS font shorthand for a font size
+ */
+export function getTextFont(fontSize: number): string {
+  return `${fontSize}px ${TEXT_FONT_FAMILY}`
+}
+
+/**
+ * Map a brush size to a text font size
+ *
+ * Keeps the existing brush size controls meaningful for text:
+ * 2, 4, 8, 12, 20 → 16, 20, 28, 36, 52px.
+ */
+export function getTextFontSize(brushSize: number): number {
+  return 12 + brushSize * 2
+}
+
+/**
+ * Split text into lines
+ */
+export function getTextLines(text: string): string[] {
+  return text.split("\n")
+}
+
+/**
+ * Measure the size of a text element in world units
+ *
+ * Falls back to an estimate when no 2D context is available.
+ */
+export function measureText(element: MeasurableText): { width: number; height: number } {
+  const lines = getTextLines(element.text)
+  const height = lines.length * element.fontSize * TEXT_LINE_HEIGHT
+
+  if (!measureContext && typeof document !== "undefined") {
+    measureContext = document.createElement("canvas").getContext("2d")
+  }
+
+  if (!measureContext) {
+    const longest = Math.max(...lines.map((line) => line.length))
+    return { width: longest * element.fontSize * 0.6, height }
+  }
+
+  measureContext.font = getTextFont(element.fontSize)
+  const width = Math.max(...lines.map((line) => measureContext?.measureText(line).width ?? 0))
+  return { width, height }
+}
+
+/**
+ * Check if a world point lies inside the text box
+ */
+export function hitTestText(element: TextElement, point: Point): boolean {
+  const { width, height } = measureText(element)
+  return (
+    point.x >= element.x &&
+    point.x <= element.x + Math.max(width, element.fontSize) &&
+    point.y >= element.y &&
+    point.y <= element.y + height
+  )
+}
+
+/**
+ * Draw a text element onto a 2D context
+ *
+ * Each line is vertically centered in its line box, matching how
+ * CSS lays out the text editor.
+ */
+export function drawText(ctx: CanvasRenderingContext2D, element: TextElement): void {
+  const lineHeight = element.fontSize * TEXT_LINE_HEIGHT
+  const leading = (lineHeight - element.fontSize) / 2
+
+  ctx.font = getTextFont(element.fontSize)
+  ctx.fillStyle = element.color
+  ctx.textBaseline = "top"
+
+  getTextLines(element.text).forEach((line, index) => {
+    ctx.fillText(line, element.x, element.y + index * lineHeight + leading)
+  })
+}
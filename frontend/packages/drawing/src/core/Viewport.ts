@@ -0,0 +1,207 @@
+import { type DrawingElement, isShape, isText, type Point, type Viewport } from "../types"
+import { getArrowHeadLength, getEllipseExtents, getShapeOutline } from "./ShapeGeometry"
+import { measureText } from "./TextRenderer"
+
+/**
+ * Zoom limits
+ */
+export const MIN_ZOOM = 0.1
+export const MAX_ZOOM = 8
+
+/**
+ * Axis-aligned bounding box in world coordinates
+ */
+export interface Bounds {
+  readonly minX: number
+  readonly minY: number
+  readonly maxX: number
+  readonly maxY: number
+}
+
+/**
+ * Clamp a scale to the supported zoom range
+ */
+export function clampScale(scale: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, scale))
+}
+
+/**
+ * Convert a screen point (CSS pixels relative to the canvas) to world coordinates
+ */
+export function screenToWorld(viewport: Viewport, x: number, y: number): Point {
+  return {
+    x: (x - viewport.offsetX) / viewport.scale,
+    y: (y - viewport.offsetY) / viewport.scale,
+  }
+}
+
+/**
+ * Convert a world point to screen coordinates
+ */
+export function worldToScreen(viewport: Viewport, x: number, y: number): Point {
+  return {
+    x: x * viewport.scale + viewport.offsetX,
+    y: y * viewport.scale + viewport.offsetY,
+  }
+}
+
+/**
+ * Zoom by a factor while keeping the given screen point fixed
+ */
+export function zoomAt(viewport: Viewport, factor: number, x: number, y: number): Viewport {
+  const scale = clampScale(viewport.scale * factor)
+  if (scale === viewport.scale) return viewport
+
+  const anchor = screenToWorld(viewport, x, y)
+  return {
+    scale,
+    offsetX: x - anchor.x * scale,
+    offsetY: y - anchor.y * scale,
+  }
+}
+
+/**
+ * Move the viewport by a screen-space delta
+ */
+export function panBy(viewport: Viewport, dx: number, dy: number): Viewport {
+  if (dx === 0 && dy === 0) return viewport
+  return {
+    ...viewport,
+    offsetX: viewport.offsetX + dx,
+    offsetY: viewport.offsetY + dy,
+  }
+}
+
+/**
+ * Check if two viewports are identical
+ */
+export function viewportsEqual(a: Viewport, b: Viewport): boolean {
+  return a.scale === b.scale && a.offsetX === b.offsetX && a.offsetY === b.offsetY
+}
+
+/**
+ * Bounding box of a single element (including its line width)
+ */
+export function getElementBounds(element: DrawingElement): Bounds {
+  if (isText(element)) {
+    const { width, height } = measureText(element)
+    return {
+      minX: element.x,
+      minY: element.y,
+      maxX: element.x + width,
+      maxY: element.y + height,
+    }
+  }
+
+  if (isShape(element) && element.kind === "ellipse") {
+    const [start, end] = element.points
+    if (start && end) {
+      const extents = getEllipseExtents(start, end, element.rotation)
+      const centerX = (start.x + end.x) / 2
+      const centerY = (start.y + end.y) / 2
+      const half = element.width / 2
+      return {
+        minX: centerX - extents.x - half,
+        minY: centerY - extents.y - half,
+        maxX: centerX + extents.x + half,
+        maxY: centerY + extents.y + half,
+      }
+    }
+  }
+
+  const half =
+    isShape(element) && element.kind === "arrow"
+      ? Math.max(element.width / 2, getArrowHeadLength(element.width))
+      : element.width / 2
+  const points = isShape(element) ? getShapeOutline(element) : element.points
+
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  for (const point of points) {
+    minX = Math.min(minX, point.x - half)
+    minY = Math.min(minY, point.y - half)
+    maxX = Math.max(maxX, point.x + half)
+    maxY = Math.max(maxY, point.y + half)
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+/**
+ * Bounding box of all elements (including their line width)
+ *
+ * Returns null when there is nothing to measure.
+ */
+export function getElementsBounds(elements: ReadonlyArray<DrawingElement>): Bounds | null {
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+
+  for (const element of elements) {
+    const bounds = getElementBounds(element)
+    minX = Math.min(minX, bounds.minX)
+    minY = Math.min(minY, bounds.minY)
+    maxX = Math.max(maxX, bounds.maxX)
+    maxY = Math.max(maxY, bounds.maxY)
+  }
+
+  if (minX > maxX || minY > maxY) return null
+  return { minX, minY, maxX, maxY }
+}
+
+/**
+ * Smallest bounds containing both bounds (null counts as empty)
+ */
+export function unionBounds(a: Bounds | null, b: Bounds | null): Bounds | null {
+  if (!a) return b
+  if (!b) return a
+  return {
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  }
+}
+
+/**
+ * Viewport that fits the bounds into a screen area with padding
+ *
+ * Never zooms in beyond 100% so small drawings are not blown up.
+ */
+export function fitBounds(
+  bounds: Bounds | null,
+  width: number,
+  height: number,
+  padding = 32,
+): Viewport {
+  if (!bounds || width <= 0 || height <= 0) {
+    return { scale: 1, offsetX: 0, offsetY: 0 }
+  }
+
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1)
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1)
+  const availableWidth = Math.max(width - padding * 2, 1)
+  const availableHeight = Math.max(height - padding * 2, 1)
+
+  const scale = clampScale(
+    Math.min(availableWidth / contentWidth, availableHeight / contentHeight, 1),
+  )
+
+  const centerX = (bounds.minX + bounds.maxX) / 2
+  const centerY = (bounds.minY + bounds.maxY) / 2
+
+  return {
+    scale,
+    offsetX: width / 2 - centerX * scale,
+    offsetY: height / 2 - centerY * scale,
+  }
+}
+
+/**
+ * Set the zoom to 100% keeping the center of the screen area fixed
+ */
+export function resetZoom(viewport: Viewport, width: number, height: number): Viewport {
+  return zoomAt(viewport, 1 / viewport.scale, width / 2, height / 2)
+}
@@ -1,10 +1,65 @@
 export { type DirtyStateEvents, DirtyStateManager, hashContent } from "./DirtyState"
 export {
+  createDrawMeta,
+  DRAW_FILE_VERSION,
+  type DrawDocument,
+  type DrawDocumentMeta,
+  type DrawFileError,
+  type ParseDrawingResult,
+  parseDrawing,
+  readDrawingThumbnail,
+  serializeDrawing,
+  touchDrawMeta,
+} from "./DrawFile"
+export {
+  type DecodeDrawingResult,
+  type DrawFileEncoding,
+  decodeDrawing,
+  encodeDrawing,
+  getDrawFileEncoding,
+} from "./DrawFileEncoding"
+export { type ValidationIssue, validateDrawDocument } from "./DrawFileSchema"
+export {
+  type DrawingSession,
+  type DrawingSessionEvents,
+  DrawingSessionRegistry,
+  getDrawingSessionRegistry,
+  type HistoryActions,
+  type LayerActions,
+} from "./DrawingSessions"
+export { drawElement } from "./ElementRenderer"
+export {
+  eraseElements,
+  isElementHit,
+  markLegacyEraserStrokes,
+  segmentDistance,
+  splitStroke,
+} from "./Eraser"
+export {
+  applyCommand,
+  combineCommands,
+  diffLayers,
+  type ElementEntry,
+  type ElementUpdate,
+  getCommandSize,
+  type HistoryCommand,
+  invertCommand,
+  type LayerProperties,
+} from "./HistoryCommands"
+export {
+  DEFAULT_MAX_HISTORY_FILE_SIZE,
+  type HistoryFileData,
+  parseHistory,
+  serializeHistory,
+} from "./HistoryFile"
+export { type HistoryEvents, HistoryManager, type HistoryState } from "./HistoryManager"
+export {
+  getHistoryLayers,
   type HistoryEntry,
-  type HistoryEvents,
-  HistoryManager,
-  type HistoryState,
-} from "./HistoryManager"
+  type HistorySnapshot,
+  type HistorySnapshotEntry,
+  type HistoryTree,
+} from "./HistoryTree"
 export {
   DRAWING_COMMANDS,
   type DrawingCommand,
@@ -13,3 +68,94 @@ export {
   type HotkeyBinding,
   type HotkeyHandler,
 } from "./HotkeyManager"
+export {
+  createLayer,
+  findLayer,
+  getNextLayerName,
+  getVisibleElements,
+  insertLayerAbove,
+  moveLayer,
+  removeLayer,
+  updateLayer,
+} from "./Layers"
+export { applyViewport, ElementRasterCache } from "./RasterCache"
+export {
+  applyTransform,
+  boundsFromPoints,
+  duplicateElements,
+  findElementAt,
+  getElementsInLasso,
+  getElementsInRect,
+  getHandlePositions,
+  getResizeTransform,
+  getRotateTransform,
+  getSelectionBounds,
+  HANDLE_SIZE,
+  hitTestHandle,
+  IDENTITY_TRANSFORM,
+  isIdentityTransform,
+  isSelectable,
+  ROTATE_HANDLE_OFFSET,
+  rotation,
+  type SelectionHandle,
+  scaling,
+  type Transform,
+  transformElement,
+  translation,
+} from "./Selection"
+export {
+  constrainShapePoint,
+  getArrowHeadLength,
+  getArrowHeadPoints,
+  getBoxCorners,
+  getEllipseExtents,
+  getShapeOutline,
+  isShapeValid,
+  pointInPolygon,
+  rotatePoint,
+  snapToAngle,
+  snapToSquare,
+} from "./ShapeGeometry"
+export { drawShape, type RenderableShape } from "./ShapeRenderer"
+export {
+  drawStroke,
+  getPressureWidth,
+  hasPressure,
+  type RenderableStroke,
+} from "./StrokeRenderer"
+export {
+  type BezierSegment,
+  catmullRomToBezier,
+  distanceToSegment,
+  getSmoothingOptions,
+  SMOOTHING_PRESETS,
+  type SmoothingOptions,
+  simplifyPoints,
+  stabilizePoint,
+} from "./StrokeSmoothing"
+export {
+  drawText,
+  getTextFont,
+  getTextFontSize,
+  getTextLines,
+  hitTestText,
+  measureText,
+  TEXT_FONT_FAMILY,
+  TEXT_LINE_HEIGHT,
+} from "./TextRenderer"
+export {
+  type Bounds,
+  clampScale,
+  fitBounds,
+  getElementBounds,
+  getElementsBounds,
+  MAX_ZOOM,
+  MIN_ZOOM,
+  panBy,
+  resetZoom,
+  screenToWorld,
+  unionBounds,
+  viewportsEqual,
+  worldToScreen,
+  zoomAt,
+} from "./Viewport"
@@ -0,0 +1,160 @@
+/**
+ * Color in sRGB with channels in the 0-1 range
+ */
+export interface RgbaColor {
+  readonly r: number
+  readonly g: number
+  readonly b: number
+  readonly a: number
+}
+
+/**
+ * Color used when a CSS color cannot be parsed
+ */
+const FALLBACK_COLOR: RgbaColor = { r: 0, g: 0, b: 0, a: 1 }
+
+/**
+ * Chroma that `100%` stands for in `oklch()`
+ */
+const OKLCH_MAX_CHROMA = 0.4
+
+/**
+ * Named colors understood without a browser
+ */
+const NAMED_COLORS: Record<string, RgbaColor> = {
+  black: { r: 0, g: 0, b: 0, a: 1 },
+  white: { r: 1, g: 1, b: 1, a: 1 },
+  transparent: { r: 0, g: 0, b: 0, a: 0 },
+}
+
+/**
+ * Parse a CSS color into sRGB
+ *
+ * Element colors are resolved from theme variables, so they can be
+ * hex, `rgb()` or `oklch()` values. Exporters cannot rely on a
+ * browser to interpret them (PDF needs plain RGB), so the common
+ * forms are converted here. Unknown colors become black.
+ */
+export function parseColor(color: string): RgbaColor {
+  const value = color.trim().toLowerCase()
+
+  const named = NAMED_COLORS[value]
+  if (named) return named
+
+  if (value.startsWith("#")) return parseHexColor(value.slice(1)) ?? FALLBACK_COLOR
+
+  const fn = /^(rgba?|oklch)\((.*)\)$/.exec(value)
+  if (!fn) return FALLBACK_COLOR
+
+  const [name, args] = [fn[1], fn[2] ?? ""]
+  const [channels = "", alpha] = args.split("/")
+  const parts = channels.split(/[\s,]+/).filter(Boolean)
+  const commaAlpha = name !== "oklch" && parts.length === 4 ? parts.pop() : undefined
+  const a = parseAlpha(alpha ?? commaAlpha)
+  if (parts.length !== 3) return FALLBACK_COLOR
+
+  if (name === "oklch") {
+    const [l = "0", c = "0", h = "0"] = parts
+    const chroma = parseNumber(c, OKLCH_MAX_CHROMA) * OKLCH_MAX_CHROMA
+    return { ...oklchToRgb(parseNumber(l, 1), chroma, parseFloat(h) || 0), a }
+  }
+
+  const [r = "0", g = "0", b = "0"] = parts
+  return {
+    r: clamp01(parseNumber(r, 255)),
+    g: clamp01(parseNumber(g, 255)),
+    b: clamp01(parseNumber(b, 255)),
+    a,
+  }
+}
+
+/**
+ * Format a color as `#rrggbb` (alpha is dropped)
+ */
+export function toHexColor(color: RgbaColor): string {
+  const channel = (value: number) =>
+    Math.round(clamp01(value) * 255)
+      .toString(16)
+      .padStart(2, "0")
+  return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`
+}
+
+/**
+ * Parse `rgb`, `rgba`, `rrggbb` or `rrggbbaa` hex digits
+ */
+function parseHexColor(hex: string): RgbaColor | null {
+  if (!/^[0-9a-f]+$/.test(hex)) return null
+
+  const digits =
+    hex.length === 3 || hex.length === 4
+      ? hex
+          .split("")
+          .map((digit) => digit + digit)
+          .join("")
+      : hex
+  if (digits.length !== 6 && digits.length !== 8) return null
+
+  const channel = (index: number) => parseInt(digits.slice(index, index + 2), 16) / 255
+  return {
+    r: channel(0),
+    g: channel(2),
+    b: channel(4),
+    a: digits.length === 8 ? channel(6) : 1,
+  }
+}
+
+/**
+ * Parse a number relative to `full` (percentages are relative to 100%)
+ */
+function parseNumber(value: string, full: number): number {
+  if (value.endsWith("%")) return (parseFloat(value) || 0) / 100
+  return (parseFloat(value) || 0) / full
+}
+
+/**
+ * Parse an alpha value (missing means opaque)
+ */
+function parseAlpha(value: string | undefined): number {
+  if (value === undefined) return 1
+  const trimmed = value.trim()
+  if (trimmed.endsWith("%")) return clamp01(parseFloat(trimmed) / 100)
+  return clamp01(parseFloat(trimmed))
+}
+
+/**
+ * Convert OKLCH (lightness 0-1, chroma, hue in degrees) to gamma-encoded sRGB
+ *
+ * Out-of-gamut colors are clipped.
+ *
+ * @see https://bottosson.github.io/posts/oklab/
+ */
+function oklchToRgb(lightness: number, chroma: number, hue: number): Omit<RgbaColor, "a"> {
+  const radians = (hue * Math.PI) / 180
+  const a = chroma * Math.cos(radians)
+  const b = chroma * Math.sin(radians)
+
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3
+
+  return {
+    r: toGamma(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: toGamma(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: toGamma(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  }
+}
+
+/**
+ * Apply the sRGB transfer function to a linear channel
+ */
+function toGamma(linear: number): number {
+  const value = clamp01(linear)
+  return value <= 0.0031308 ? 12.92 * value : 1.055 * value ** (1 / 2.4) - 0.055
+}
+
+/**
+ * Clamp a channel to the 0-1 range (NaN becomes 0)
+ */
+function clamp01(value: number): number {
+  return Number.isNaN(value) ? 0 : Math.max(0, Math.min(1, value))
+}
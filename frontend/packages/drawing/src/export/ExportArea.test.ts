@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest"
+import { createLayer } from "../core/Layers"
+import type { Shape, Stroke } from "../types"
+import { getExportArea, getExportedLayers } from "./ExportArea"
+
+const rectangle: Shape = {
+  type: "shape",
+  id: "rect",
+  kind: "rectangle",
+  points: [
+    { x: 10, y: 20 },
+    { x: 110, y: 70 },
+  ],
+  color: "#000000",
+  width: 4,
+  fill: null,
+}
+
+const farStroke: Stroke = {
+  id: "far",
+  points: [
+    { x: 500, y: 500 },
+    { x: 600, y: 600 },
+  ],
+  color: "#000000",
+  width: 2,
+}
+
+describe("getExportArea", () => {
+  it("covers the content and its stroke width, plus padding", () => {
+    expect(getExportArea([createLayer("Layer 1", [rectangle])], 16)).toEqual({
+      x: -8,
+      y: 2,
+      width: 136,
+      height: 86,
+    })
+  })
+
+  it("snaps to whole units", () => {
+    const area = getExportArea([createLayer("Layer 1", [rectangle])], 0.5)
+    expect(area).toEqual({ x: 7, y: 17, width: 106, height: 56 })
+  })
+
+  it("ignores hidden and fully transparent layers", () => {
+    const layers = [
+      createLayer("Layer 1", [rectangle]),
+      { ...createLayer("Hidden", [farStroke]), visible: false },
+      { ...createLayer("Transparent", [farStroke]), opacity: 0 },
+    ]
+    expect(getExportedLayers(layers)).toEqual([layers[0]])
+    expect(getExportArea(layers, 0)).toEqual(getExportArea([layers[0]], 0))
+  })
+
+  it("ignores erase strokes", () => {
+    const layers = [createLayer("Layer 1", [rectangle, { ...farStroke, erase: true }])]
+    expect(getExportArea(layers, 0)).toEqual(
+      getExportArea([createLayer("Layer 1", [rectangle])], 0),
+    )
+  })
+
+  it("keeps an empty drawing at least one unit wide", () => {
+    expect(getExportArea([], 16)).toEqual({ x: -16, y: -16, width: 32, height: 32 })
+    expect(getExportArea([createLayer("Layer 1")], 0)).toEqual({ x: 0, y: 0, width: 1, height: 1 })
+  })
+})
@@ -0,0 +1,66 @@
+import { getElementsBounds } from "../core/Viewport"
+import { type DrawingElement, isStroke, type Layer, type Stroke } from "../types"
+
+/**
+ * Options shared by all export formats
+ */
+export interface ExportOptions {
+  /** Background color, or null for a transparent background */
+  readonly background?: string | null
+  /** Margin around the content (world units) */
+  readonly padding?: number
+}
+
+/**
+ * Region of the drawing that is exported (world units)
+ */
+export interface ExportArea {
+  readonly x: number
+  readonly y: number
+  readonly width: number
+  readonly height: number
+}
+
+/**
+ * Default margin around the exported content (world units)
+ */
+export const DEFAULT_EXPORT_PADDING = 16
+
+/**
+ * Layers that appear in an export (visible and not fully transparent)
+ */
+export function getExportedLayers(layers: ReadonlyArray<Layer>): Layer[] {
+  return layers.filter((layer) => layer.visible && layer.opacity > 0)
+}
+
+/**
+ * Check if an element is a legacy erase stroke (removes pixels, adds no content)
+ */
+export function isEraseStroke(element: DrawingElement): element is Stroke {
+  return isStroke(element) && element.erase === true
+}
+
+/**
+ * Compute the exported region from the content of the visible layers
+ *
+ * Erase strokes do not extend the region. An empty drawing yields an
+ * area that only consists of the padding (at least one unit wide).
+ */
+export function getExportArea(
+  layers: ReadonlyArray<Layer>,
+  padding = DEFAULT_EXPORT_PADDING,
+): ExportArea {
+  const elements = getExportedLayers(layers).flatMap((layer) =>
+    layer.elements.filter((element) => !isEraseStroke(element)),
+  )
+  const bounds = getElementsBounds(elements) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 }
+
+  const x = Math.floor(bounds.minX - padding)
+  const y = Math.floor(bounds.minY - padding)
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.ceil(bounds.maxX + padding) - x),
+    height: Math.max(1, Math.ceil(bounds.maxY + padding) - y),
+  }
+}
@@ -0,0 +1,52 @@
+import { match } from "ts-pattern"
+import type { ExportFormat, Layer } from "../types"
+import { exportToPdf } from "./PdfExport"
+import { exportToPng, type PngExportOptions } from "./PngExport"
+import { exportToSvg } from "./SvgExport"
+
+/**
+ * MIME type of each export format
+ */
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  png: "image/png",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+}
+
+/**
+ * Render layers to a file of the given format
+ *
+ * The scale option only applies to PNG.
+ */
+export async function exportDrawing(
+  layers: ReadonlyArray<Layer>,
+  format: ExportFormat,
+  options: PngExportOptions = {},
+): Promise<Blob> {
+  return match(format)
+    .with("png", () => exportToPng(layers, options))
+    .with("svg", () => new Blob([exportToSvg(layers, options)], { type: EXPORT_MIME_TYPES.svg }))
+    .with("pdf", () => new Blob([exportToPdf(layers, options)], { type: EXPORT_MIME_TYPES.pdf }))
+    .exhaustive()
+}
+
+/**
+ * File name for an export (`sketch.draw` → `sketch.png`)
+ */
+export function getExportFileName(fileName: string, format: ExportFormat): string {
+  const baseName = fileName.replace(/\.draw$/i, "") || "drawing"
+  return `${baseName}.${format}`
+}
+
+/**
+ * Let the browser download a file
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
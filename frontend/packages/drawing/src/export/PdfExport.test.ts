@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import { createLayer } from "../core/Layers"
+import type { Layer, Stroke, TextElement } from "../types"
+import { getExportArea } from "./ExportArea"
+import { exportToPdf } from "./PdfExport"
+
+const stroke: Stroke = {
+  id: "stroke",
+  points: [
+    { x: 0, y: 0 },
+    { x: 200, y: 100 },
+  ],
+  color: "#ff0000",
+  width: 2,
+}
+
+function text(value: string): TextElement {
+  return { type: "text", id: "text", x: 0, y: 0, text: value, fontSize: 12, color: "#000000" }
+}
+
+function exportText(layers: ReadonlyArray<Layer>): string {
+  return new TextDecoder("latin1").decode(exportToPdf(layers))
+}
+
+describe("exportToPdf", () => {
+  it("writes a PDF 1.4 header and end marker", () => {
+    const pdf = exportText([createLayer("Layer 1", [stroke])])
+    expect(pdf.startsWith("%PDF-1.4\n")).toBe(true)
+    expect(pdf.endsWith("%%EOF\n")).toBe(true)
+  })
+
+  it("points the cross-reference table at every object", () => {
+    const pdf = exportText([createLayer("Layer 1", [stroke])])
+
+    const startXref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)?.[1])
+    expect(pdf.slice(startXref).startsWith("xref\n")).toBe(true)
+
+    const [, count] = /^xref\n0 (\d+)\n/.exec(pdf.slice(startXref)) ?? []
+    const entries = pdf
+      .slice(startXref)
+      .split("\n")
+      .slice(3, 2 + Number(count))
+    expect(entries).toHaveLength(Number(count) - 1)
+    entries.forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/)
+      expect(pdf.slice(Number(entry.slice(0, 10))).startsWith(`${index + 1} 0 obj\n`)).toBe(true)
+    })
+    expect(pdf).toContain(`trailer\n<< /Size ${count} /Root`)
+  })
+
+  it("sizes the page to the export area", () => {
+    const layers = [createLayer("Layer 1", [stroke])]
+    const { x, y, width, height } = getExportArea(layers)
+    const pdf = exportText(layers)
+    expect(pdf).toContain(`/MediaBox [0 0 ${width} ${height}]`)
+    // World coordinates are flipped onto the page
+    expect(pdf).toContain(`1 0 0 -1 ${-x} ${y + height} cm`)
+  })
+
+  it("declares stream lengths that match the stream contents", () => {
+    const pdf = exportText([createLayer("Layer 1", [stroke])])
+    const streams = [...pdf.matchAll(/\/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/g)]
+    expect(streams.length).toBeGreaterThan(0)
+    for (const [, length, content] of streams) {
+      expect(content).toHaveLength(Number(length))
+    }
+  })
+
+  it("escapes text and replaces characters outside Latin-1", () => {
+    const pdf = exportText([createLayer("Layer 1", [text("(a\\b) café €")])])
+    expect(pdf).toContain("(\\(a\\\\b\\) caf\\351 ?) Tj")
+  })
+
+  it("paints content before an erase stroke through a soft mask", () => {
+    const pdf = exportText([createLayer("Layer 1", [stroke, { ...stroke, id: "e", erase: true }])])
+    expect(pdf).toContain("/SMask << /Type /Mask /S /Luminosity /G")
+    expect(pdf).toMatch(/\/Subtype \/Form .*\/Group << \/S \/Transparency/)
+  })
+
+  it("renders layers with reduced opacity as transparency groups", () => {
+    const pdf = exportText([{ ...createLayer("Layer 1", [stroke]), opacity: 0.25 }])
+    expect(pdf).toContain("/ExtGState << /GS1 << /Type /ExtGState /ca 0.25 /CA 0.25 >>")
+    expect(pdf).toMatch(/q \/GS1 gs \/X1 Do Q/)
+  })
+})
@@ -0,0 +1,334 @@
+import { match } from "ts-pattern"
+import { type DrawingElement, isShape, isText, type Layer, type TextElement } from "../types"
+import { parseColor } from "./Color"
+import {
+  DEFAULT_EXPORT_PADDING,
+  type ExportArea,
+  type ExportOptions,
+  getExportArea,
+  getExportedLayers,
+  isEraseStroke,
+} from "./ExportArea"
+import {
+  formatNumber,
+  getShapePaths,
+  getStrokePaths,
+  getTextLinePositions,
+  type PathCommand,
+  type VectorPath,
+} from "./VectorPaths"
+
+/**
+ * Resource name of the text font
+ */
+const FONT_NAME = "F1"
+
+/**
+ * Character used for text that the standard font cannot encode
+ */
+const REPLACEMENT_CHARACTER = "?"
+
+/**
+ * Objects of a PDF file under construction
+ *
+ * Object 1 is always the shared resource dictionary, which is
+ * written last because drawing keeps adding graphics states and
+ * form XObjects to it.
+ */
+class PdfObjects {
+  private readonly objects: string[] = []
+  private readonly extGStates = new Map<string, string>()
+  private readonly xObjects = new Map<string, number>()
+  readonly resourcesId: number
+
+  private constructor() {
+    this.resourcesId = this.reserve()
+  }
+
+  /**
+   * Create an object list with the resource dictionary reserved
+   */
+  static create(): PdfObjects {
+    return new PdfObjects()
+  }
+
+  /**
+   * Reserve an object number to fill in later
+   */
+  reserve(): number {
+    this.objects.push("")
+    return this.objects.length
+  }
+
+  /**
+   * Set the body of a reserved object
+   */
+  set(id: number, body: string): void {
+    this.objects[id - 1] = body
+  }
+
+  /**
+   * Add an object and return its number
+   */
+  add(body: string): number {
+    const id = this.reserve()
+    this.set(id, body)
+    return id
+  }
+
+  /**
+   * Add a stream object
+   */
+  addStream(dictionary: string, content: string): number {
+    return this.add(`<< ${dictionary} /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  }
+
+  /**
+   * Get the resource name of a graphics state (shared by identical states)
+   */
+  extGState(dictionary: string): string {
+    const existing = this.extGStates.get(dictionary)
+    if (existing) return existing
+    const name = `GS${this.extGStates.size + 1}`
+    this.extGStates.set(dictionary, name)
+    return name
+  }
+
+  /**
+   * Add a transparency group form XObject covering the area
+   */
+  addForm(area: ExportArea, content: string): number {
+    return this.addStream(
+      `/Type /XObject /Subtype /Form /BBox [${area.x} ${area.y} ${area.x + area.width} ${area.y + area.height}] /Group << /S /Transparency /CS /DeviceRGB >> /Resources ${this.resourcesId} 0 R`,
+      content,
+    )
+  }
+
+  /**
+   * Get the resource name of a form XObject
+   */
+  xObject(id: number): string {
+    const name = `X${this.xObjects.size + 1}`
+    this.xObjects.set(name, id)
+    return name
+  }
+
+  /**
+   * Serialize all objects with the given catalog as the root
+   */
+  toBytes(catalogId: number): Uint8Array<ArrayBuffer> {
+    const fontId = this.add(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    )
+    const extGStates = [...this.extGStates]
+      .map(([dictionary, name]) => `/${name} << /Type /ExtGState ${dictionary} >>`)
+      .join(" ")
+    const xObjects = [...this.xObjects].map(([name, id]) => `/${name} ${id} 0 R`).join(" ")
+    this.set(
+      this.resourcesId,
+      `<< /Font << /${FONT_NAME} ${fontId} 0 R >> /ExtGState << ${extGStates} >> /XObject << ${xObjects} >> >>`,
+    )
+
+    let output = "%PDF-1.4\n"
+    const offsets = this.objects.map((body, index) => {
+      const offset = output.length
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`
+      return offset
+    })
+
+    const xrefOffset = output.length
+    output += `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`
+    for (const offset of offsets) {
+      output += `${String(offset).padStart(10, "0")} 00000 n \n`
+    }
+    output += `trailer\n<< /Size ${this.objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    // Everything above is ASCII, so characters map 1:1 to bytes
+    const bytes = new Uint8Array(output.length)
+    for (let i = 0; i < output.length; i++) {
+      bytes[i] = output.charCodeAt(i)
+    }
+    return bytes
+  }
+}
+
+/**
+ * Render layers to a single-page PDF document
+ *
+ * Pure function: it does not touch the DOM, so it also runs outside
+ * the browser. The page has the size of the exported area, one world
+ * unit per point. Layers with reduced opacity and legacy erase
+ * strokes are rendered through transparency groups and soft masks,
+ * so they look the same as on the canvas. Text uses the standard
+ * Helvetica font; characters outside Latin-1 are replaced.
+ */
+export function exportToPdf(
+  layers: ReadonlyArray<Layer>,
+  options: ExportOptions = {},
+): Uint8Array<ArrayBuffer> {
+  const { background = null, padding = DEFAULT_EXPORT_PADDING } = options
+  const area = getExportArea(layers, padding)
+  const pdf = PdfObjects.create()
+
+  // Flip to world coordinates (PDF has its origin at the bottom left)
+  let content = `1 0 0 -1 ${-area.x} ${area.y + area.height} cm\n`
+
+  if (background) {
+    content += `q ${setColor(pdf, background, "fill")} ${rectangle(area)} f Q\n`
+  }
+
+  for (const layer of getExportedLayers(layers)) {
+    const layerContent = renderLayer(pdf, layer, area)
+    if (layer.opacity < 1) {
+      const alpha = formatNumber(layer.opacity)
+      const state = pdf.extGState(`/ca ${alpha} /CA ${alpha}`)
+      content += `q /${state} gs /${pdf.xObject(pdf.addForm(area, layerContent))} Do Q\n`
+    } else {
+      content += `q\n${layerContent}Q\n`
+    }
+  }
+
+  const contentId = pdf.addStream("", content)
+  const pagesId = pdf.reserve()
+  const pageId = pdf.add(
+    `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${area.width} ${area.height}] /Resources ${pdf.resourcesId} 0 R /Contents ${contentId} 0 R /Group << /S /Transparency /CS /DeviceRGB >> >>`,
+  )
+  pdf.set(pagesId, `<< /Type /Pages /Kids [${pageId} 0 R] /Count 1 >>`)
+  const catalogId = pdf.add(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+
+  return pdf.toBytes(catalogId)
+}
+
+/**
+ * Content of one layer
+ *
+ * Everything drawn before an erase stroke is wrapped in a form that
+ * is painted through a soft mask hiding the stroke's area.
+ */
+function renderLayer(pdf: PdfObjects, layer: Layer, area: ExportArea): string {
+  let content = ""
+
+  for (const element of layer.elements) {
+    if (isEraseStroke(element)) {
+      const eraser = getStrokePaths({ ...element, color: "#000" })
+      const maskId = pdf.addForm(area, `1 g ${rectangle(area)} f\n${renderPaths(pdf, eraser)}`)
+      const state = pdf.extGState(`/SMask << /Type /Mask /S /Luminosity /G ${maskId} 0 R >>`)
+      content = `q /${state} gs /${pdf.xObject(pdf.addForm(area, content))} Do Q\n`
+    } else {
+      content += renderElement(pdf, element)
+    }
+  }
+
+  return content
+}
+
+/**
+ * Content of a single element (not an erase stroke)
+ */
+function renderElement(pdf: PdfObjects, element: DrawingElement): string {
+  if (isText(element)) return renderText(pdf, element)
+  return renderPaths(pdf, isShape(element) ? getShapePaths(element) : getStrokePaths(element))
+}
+
+/**
+ * Paint paths (fill below outline, round caps and joins)
+ */
+function renderPaths(pdf: PdfObjects, paths: ReadonlyArray<VectorPath>): string {
+  return paths
+    .map((path) => {
+      const operators = ["q"]
+      if (path.fill) {
+        operators.push(setColor(pdf, path.fill, "fill"))
+      }
+      if (path.stroke) {
+        operators.push(
+          setColor(pdf, path.stroke.color, "stroke"),
+          `${formatNumber(path.stroke.width)} w 1 J 1 j`,
+        )
+      }
+      operators.push(toPathOperators(path.commands), getPaintOperator(path), "Q")
+      return `${operators.join(" ")}\n`
+    })
+    .join("")
+}
+
+/**
+ * Paint a text element line by line
+ *
+ * The text matrix flips glyphs back upright in the flipped page space.
+ */
+function renderText(pdf: PdfObjects, element: TextElement): string {
+  const lines = getTextLinePositions(element)
+    .map(
+      (line) =>
+        `1 0 0 -1 ${formatNumber(line.x)} ${formatNumber(line.y)} Tm (${encodeText(line.text)}) Tj`,
+    )
+    .join(" ")
+  return `q ${setColor(pdf, element.color, "fill")} BT /${FONT_NAME} ${formatNumber(element.fontSize)} Tf ${lines} ET Q\n`
+}
+
+/**
+ * Operator that paints the current path
+ */
+function getPaintOperator(path: VectorPath): string {
+  if (path.fill && path.stroke) return "B"
+  if (path.fill) return "f"
+  return "S"
+}
+
+/**
+ * Convert path commands to path construction operators
+ */
+function toPathOperators(commands: ReadonlyArray<PathCommand>): string {
+  const point = (p: { x: number; y: number }) => `${formatNumber(p.x)} ${formatNumber(p.y)}`
+
+  return commands
+    .map((command) =>
+      match(command)
+        .with({ type: "move" }, ({ to }) => `${point(to)} m`)
+        .with({ type: "line" }, ({ to }) => `${point(to)} l`)
+        .with({ type: "curve" }, ({ cp1, cp2, to }) => `${point(cp1)} ${point(cp2)} ${point(to)} c`)
+        .with({ type: "close" }, () => "h")
+        .exhaustive(),
+    )
+    .join(" ")
+}
+
+/**
+ * Operators that set a fill or stroke color (with its alpha, if any)
+ */
+function setColor(pdf: PdfObjects, color: string, kind: "fill" | "stroke"): string {
+  const { r, g, b, a } = parseColor(color)
+  const rgb = `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)}`
+  const operator = kind === "fill" ? "rg" : "RG"
+  if (a >= 1) return `${rgb} ${operator}`
+
+  const state = pdf.extGState(`/${kind === "fill" ? "ca" : "CA"} ${formatNumber(a)}`)
+  return `/${state} gs ${rgb} ${operator}`
+}
+
+/**
+ * Rectangle covering the area
+ */
+function rectangle(area: ExportArea): string {
+  return `${area.x} ${area.y} ${area.width} ${area.height} re`
+}
+
+/**
+ * Encode text as a PDF string literal body in WinAnsi encoding
+ *
+ * Latin-1 characters share their codes with WinAnsi (apart from the
+ * C1 range, which has no printable characters) and are written as
+ * octal escapes, so the file stays ASCII.
+ */
+function encodeText(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 0
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`
+      if (code >= 0x20 && code < 0x7f) return char
+      if (code >= 0xa0 && code <= 0xff) return `\\${code.toString(8)}`
+      return REPLACEMENT_CHARACTER
+    })
+    .join("")
+}
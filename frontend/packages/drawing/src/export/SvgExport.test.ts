@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { createLayer } from "../core/Layers"
+import type { Stroke, TextElement } from "../types"
+import { getExportArea } from "./ExportArea"
+import { exportToSvg } from "./SvgExport"
+
+function stroke(id: string, x: number, extra: Partial<Stroke> = {}): Stroke {
+  return {
+    id,
+    points: [
+      { x, y: 0 },
+      { x: x + 50, y: 50 },
+    ],
+    color: "#ff0000",
+    width: 2,
+    ...extra,
+  }
+}
+
+const text: TextElement = {
+  type: "text",
+  id: "text",
+  x: 0,
+  y: 0,
+  text: 'a < b & "c" > d',
+  fontSize: 16,
+  color: "#000000",
+}
+
+describe("exportToSvg", () => {
+  it("uses the export area as size and view box", () => {
+    const layers = [createLayer("Layer 1", [stroke("a", 0)])]
+    const { x, y, width, height } = getExportArea(layers, 8)
+    const svg = exportToSvg(layers, { padding: 8 })
+    expect(svg).toContain(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`,
+    )
+  })
+
+  it("escapes layer names and text", () => {
+    const svg = exportToSvg([createLayer('<Notes> & "ideas"', [text])])
+    expect(svg).toContain('data-layer="&lt;Notes&gt; &amp; &quot;ideas&quot;"')
+    expect(svg).toContain(">a &lt; b &amp; &quot;c&quot; &gt; d</text>")
+    expect(svg).not.toContain("<Notes>")
+  })
+
+  it("draws the background below the layers", () => {
+    const svg = exportToSvg([createLayer("Layer 1", [stroke("a", 0)])], { background: "#ffffff" })
+    expect(svg.indexOf('fill="#ffffff"')).toBeGreaterThan(-1)
+    expect(svg.indexOf('fill="#ffffff"')).toBeLessThan(svg.indexOf("data-layer"))
+  })
+
+  it("leaves the background out when it is transparent", () => {
+    const svg = exportToSvg([createLayer("Layer 1", [stroke("a", 0)])], { background: null })
+    expect(svg).not.toMatch(/<rect [^>]*fill=/)
+  })
+
+  it("masks only the elements drawn before an erase stroke", () => {
+    const layers = [
+      createLayer("Layer 1", [
+        stroke("before", 0),
+        stroke("eraser", 0, { erase: true }),
+        stroke("after", 100, { color: "#0000ff" }),
+      ]),
+    ]
+    const svg = exportToSvg(layers)
+
+    expect(svg.match(/<mask /g)).toHaveLength(1)
+    expect(svg).toMatch(/<defs><mask id="erase-1" maskUnits="userSpaceOnUse" [^>]*>/)
+    // The eraser is painted black into the mask and not drawn itself
+    expect(svg).toMatch(/<mask [^>]*><rect [^>]*fill="#fff"\/><path [^>]*stroke="#000000"/)
+    expect(svg).toMatch(
+      /<g mask="url\(#erase-1\)"><path [^>]*stroke="#ff0000"[^>]*\/><\/g><path [^>]*stroke="#0000ff"/,
+    )
+  })
+
+  it("nests masks of successive erase strokes", () => {
+    const layers = [
+      createLayer("Layer 1", [
+        stroke("a", 0),
+        stroke("eraser 1", 0, { erase: true }),
+        stroke("eraser 2", 10, { erase: true }),
+      ]),
+    ]
+    expect(exportToSvg(layers)).toContain('<g mask="url(#erase-2)"><g mask="url(#erase-1)">')
+  })
+
+  it("skips hidden layers and applies layer opacity", () => {
+    const layers = [
+      { ...createLayer("Hidden", [stroke("a", 0)]), visible: false },
+      { ...createLayer("Faded", [stroke("b", 0)]), opacity: 0.5 },
+    ]
+    const svg = exportToSvg(layers)
+    expect(svg).not.toContain('data-layer="Hidden"')
+    expect(svg).toContain('<g data-layer="Faded" opacity="0.5">')
+  })
+})
@@ -0,0 +1,140 @@
+import { match } from "ts-pattern"
+import { TEXT_FONT_FAMILY } from "../core/TextRenderer"
+import { type DrawingElement, isShape, isText, type Layer } from "../types"
+import { parseColor, toHexColor } from "./Color"
+import {
+  DEFAULT_EXPORT_PADDING,
+  type ExportOptions,
+  getExportArea,
+  getExportedLayers,
+  isEraseStroke,
+} from "./ExportArea"
+import {
+  formatNumber,
+  getShapePaths,
+  getStrokePaths,
+  getTextLinePositions,
+  type PathCommand,
+  type VectorPath,
+} from "./VectorPaths"
+
+/**
+ * Render layers to a standalone SVG document
+ *
+ * Pure function: it does not touch the DOM, so it also runs outside
+ * the browser. Each visible layer becomes a group with the layer's
+ * opacity. Legacy erase strokes become masks over the elements drawn
+ * before them in the same layer, matching how the canvas erases.
+ */
+export function exportToSvg(layers: ReadonlyArray<Layer>, options: ExportOptions = {}): string {
+  const { background = null, padding = DEFAULT_EXPORT_PADDING } = options
+  const area = getExportArea(layers, padding)
+  const areaAttributes = `x="${area.x}" y="${area.y}" width="${area.width}" height="${area.height}"`
+
+  const masks: string[] = []
+  const groups = getExportedLayers(layers).map((layer) => {
+    let content = ""
+
+    for (const element of layer.elements) {
+      if (isEraseStroke(element)) {
+        const id = `erase-${masks.length + 1}`
+        masks.push(
+          `<mask id="${id}" maskUnits="userSpaceOnUse" ${areaAttributes}>` +
+            `<rect ${areaAttributes} fill="#fff"/>` +
+            renderPaths(getStrokePaths({ ...element, color: "#000" })) +
+            "</mask>",
+        )
+        content = `<g mask="url(#${id})">${content}</g>`
+      } else {
+        content += renderElement(element)
+      }
+    }
+
+    const opacity = layer.opacity < 1 ? ` opacity="${formatNumber(layer.opacity)}"` : ""
+    return `<g data-layer="${escapeXml(layer.name)}"${opacity}>${content}</g>`
+  })
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${area.width}" height="${area.height}" viewBox="${area.x} ${area.y} ${area.width} ${area.height}">`,
+  ]
+  if (masks.length > 0) {
+    lines.push(`<defs>${masks.join("")}</defs>`)
+  }
+  if (background) {
+    lines.push(`<rect ${areaAttributes}${paintAttributes("fill", background)}/>`)
+  }
+  lines.push(...groups, "</svg>")
+  return `${lines.join("\n")}\n`
+}
+
+/**
+ * Render a single element (not an erase stroke)
+ */
+function renderElement(element: DrawingElement): string {
+  if (isText(element)) {
+    return getTextLinePositions(element)
+      .map(
+        (line) =>
+          `<text x="${formatNumber(line.x)}" y="${formatNumber(line.y)}" font-family="${escapeXml(TEXT_FONT_FAMILY)}" font-size="${formatNumber(element.fontSize)}"${paintAttributes("fill", element.color)} xml:space="preserve">${escapeXml(line.text)}</text>`,
+      )
+      .join("")
+  }
+  return renderPaths(isShape(element) ? getShapePaths(element) : getStrokePaths(element))
+}
+
+/**
+ * Render paths as `<path>` elements
+ */
+function renderPaths(paths: ReadonlyArray<VectorPath>): string {
+  return paths
+    .map((path) => {
+      const fill = path.fill ? paintAttributes("fill", path.fill) : ' fill="none"'
+      const stroke = path.stroke
+        ? `${paintAttributes("stroke", path.stroke.color)} stroke-width="${formatNumber(path.stroke.width)}" stroke-linecap="round" stroke-linejoin="round"`
+        : ""
+      return `<path d="${toPathData(path.commands)}"${fill}${stroke}/>`
+    })
+    .join("")
+}
+
+/**
+ * Convert path commands to SVG path data
+ */
+function toPathData(commands: ReadonlyArray<PathCommand>): string {
+  const point = (p: { x: number; y: number }) => `${formatNumber(p.x)} ${formatNumber(p.y)}`
+
+  return commands
+    .map((command) =>
+      match(command)
+        .with({ type: "move" }, ({ to }) => `M${point(to)}`)
+        .with({ type: "line" }, ({ to }) => `L${point(to)}`)
+        .with({ type: "curve" }, ({ cp1, cp2, to }) => `C${point(cp1)} ${point(cp2)} ${point(to)}`)
+        .with({ type: "close" }, () => "Z")
+        .exhaustive(),
+    )
+    .join("")
+}
+
+/**
+ * Fill or stroke attributes for a CSS color
+ *
+ * Colors are converted to hex so that viewers without support for
+ * modern CSS colors render them correctly.
+ */
+function paintAttributes(kind: "fill" | "stroke", color: string): string {
+  const rgba = parseColor(color)
+  const opacity = rgba.a < 1 ? ` ${kind}-opacity="${formatNumber(rgba.a)}"` : ""
+  return ` ${kind}="${toHexColor(rgba)}"${opacity}`
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
@@ -0,0 +1,30 @@
+import type { Layer } from "../types"
+import { getExportArea } from "./ExportArea"
+import { renderLayers } from "./PngExport"
+
+/**
+ * Default size of thumbnails (longest side in pixels)
+ */
+export const DEFAULT_THUMBNAIL_SIZE = 64
+
+/**
+ * Padding around the content of thumbnails (world units)
+ */
+const THUMBNAIL_PADDING = 8
+
+/**
+ * Render a small preview of layers as a PNG data URL
+ *
+ * The visible content is fitted into a square of `size` pixels
+ * (at the device pixel ratio) on `background` (transparent when null).
+ */
+export function renderThumbnail(
+  layers: ReadonlyArray<Layer>,
+  size = DEFAULT_THUMBNAIL_SIZE,
+  background: string | null = null,
+): string {
+  const area = getExportArea(layers, THUMBNAIL_PADDING)
+  const pixelSize = size * (globalThis.devicePixelRatio || 1)
+  const pixelRatio = pixelSize / Math.max(area.width, area.height)
+  return renderLayers(layers, area, pixelRatio, background).toDataURL("image/png")
+}
@@ -0,0 +1,213 @@
+import { getArrowHeadPoints, getBoxCorners, rotatePoint } from "../core/ShapeGeometry"
+import { getPressureWidth, hasPressure } from "../core/StrokeRenderer"
+import { catmullRomToBezier } from "../core/StrokeSmoothing"
+import { getTextLines, TEXT_LINE_HEIGHT } from "../core/TextRenderer"
+import type { Point, Shape, Stroke, TextElement } from "../types"
+
+/**
+ * Path drawing command (world coordinates)
+ */
+export type PathCommand =
+  | { readonly type: "move"; readonly to: Point }
+  | { readonly type: "line"; readonly to: Point }
+  | { readonly type: "curve"; readonly cp1: Point; readonly cp2: Point; readonly to: Point }
+  | { readonly type: "close" }
+
+/**
+ * A path with its paint, independent of the output format
+ *
+ * Outlines always use round caps and joins, like the canvas renderer.
+ */
+export interface VectorPath {
+  readonly commands: ReadonlyArray<PathCommand>
+  /** Outline color and width, or null for no outline */
+  readonly stroke: { readonly color: string; readonly width: number } | null
+  /** Fill color, or null for no fill */
+  readonly fill: string | null
+}
+
+/**
+ * A single line of a text element, positioned at its baseline
+ */
+export interface TextLine {
+  readonly text: string
+  readonly x: number
+  readonly y: number
+}
+
+/**
+ * Distance from the top of the em box to the baseline, relative to the font size
+ *
+ * The canvas renderer positions text by the top of its em box, which
+ * vector formats cannot express. This approximates the ascent of
+ * common sans-serif fonts.
+ */
+const TEXT_ASCENT = 0.8
+
+/**
+ * Control point distance for approximating a quarter ellipse with a
+ * cubic Bézier curve, relative to the radius
+ */
+const ELLIPSE_KAPPA = 0.5522847498
+
+/**
+ * Convert a stroke to paths
+ *
+ * Mirrors `drawStroke`: pressure strokes become one path per segment
+ * with the segment's width, other strokes a single path.
+ */
+export function getStrokePaths(stroke: Stroke): VectorPath[] {
+  const { points } = stroke
+  if (points.length < 2) return []
+
+  const curved = stroke.interpolation === "catmull-rom" && points.length > 2
+  const segments: { commands: PathCommand[]; from: Point; to: Point }[] = curved
+    ? catmullRomToBezier(points).map((segment) => ({
+        commands: [
+          { type: "move", to: segment.start },
+          { type: "curve", cp1: segment.cp1, cp2: segment.cp2, to: segment.end },
+        ],
+        from: segment.start,
+        to: segment.end,
+      }))
+    : points.slice(1).map((point, index) => {
+        const prev = points[index] ?? point
+        return {
+          commands: [
+            { type: "move", to: prev },
+            { type: "line", to: point },
+          ],
+          from: prev,
+          to: point,
+        }
+      })
+
+  if (hasPressure(points)) {
+    return segments.map((segment) => ({
+      commands: segment.commands,
+      stroke: {
+        color: stroke.color,
+        width: getPressureWidth(stroke.width, averagePressure(segment.from, segment.to)),
+      },
+      fill: null,
+    }))
+  }
+
+  // Join the segments into one path (each segment starts where the previous one ended)
+  const commands = segments.flatMap((segment, index) =>
+    index === 0 ? segment.commands : segment.commands.slice(1),
+  )
+  return [{ commands, stroke: { color: stroke.color, width: stroke.width }, fill: null }]
+}
+
+/**
+ * Convert a shape to paths
+ *
+ * Mirrors `drawShape`; the fill is painted below the outline.
+ */
+export function getShapePaths(shape: Shape): VectorPath[] {
+  const [start, end] = shape.points
+  if (!start || !end) return []
+
+  const stroke = { color: shape.color, width: shape.width }
+
+  switch (shape.kind) {
+    case "line":
+      return [{ commands: polyline([start, end]), stroke, fill: null }]
+
+    case "arrow": {
+      const [left, right] = getArrowHeadPoints(start, end, shape.width)
+      return [
+        {
+          commands: [...polyline([start, end]), ...polyline([left, end, right])],
+          stroke,
+          fill: null,
+        },
+      ]
+    }
+
+    case "rectangle":
+      return [
+        {
+          commands: polygon(getBoxCorners(start, end, shape.rotation ?? 0)),
+          stroke,
+          fill: shape.fill,
+        },
+      ]
+
+    case "ellipse":
+      return [{ commands: ellipse(start, end, shape.rotation ?? 0), stroke, fill: shape.fill }]
+
+    case "polygon":
+      return [{ commands: polygon(shape.points), stroke, fill: shape.fill }]
+  }
+}
+
+/**
+ * Lines of a text element with their baseline positions
+ */
+export function getTextLinePositions(element: TextElement): TextLine[] {
+  const lineHeight = element.fontSize * TEXT_LINE_HEIGHT
+  const leading = (lineHeight - element.fontSize) / 2
+
+  return getTextLines(element.text).map((text, index) => ({
+    text,
+    x: element.x,
+    y: element.y + index * lineHeight + leading + element.fontSize * TEXT_ASCENT,
+  }))
+}
+
+/**
+ * Format a coordinate compactly (at most two decimals)
+ */
+export function formatNumber(value: number): string {
+  const rounded = Math.round(value * 100) / 100
+  return Object.is(rounded, -0) ? "0" : String(rounded)
+}
+
+/**
+ * Open path through all points
+ */
+function polyline(points: ReadonlyArray<Point>): PathCommand[] {
+  return points.map((point, index) => ({ type: index === 0 ? "move" : "line", to: point }))
+}
+
+/**
+ * Closed path through all points
+ */
+function polygon(points: ReadonlyArray<Point>): PathCommand[] {
+  if (points.length === 0) return []
+  return [...polyline(points), { type: "close" }]
+}
+
+/**
+ * Ellipse inscribed in the box spanned by two corners, rotated around its center
+ */
+function ellipse(start: Point, end: Point, rotation: number): PathCommand[] {
+  const center = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 }
+  const rx = Math.abs(end.x - start.x) / 2
+  const ry = Math.abs(end.y - start.y) / 2
+  const kx = rx * ELLIPSE_KAPPA
+  const ky = ry * ELLIPSE_KAPPA
+
+  const at = (dx: number, dy: number) =>
+    rotatePoint({ x: center.x + dx, y: center.y + dy }, center, rotation)
+
+  return [
+    { type: "move", to: at(rx, 0) },
+    { type: "curve", cp1: at(rx, ky), cp2: at(kx, ry), to: at(0, ry) },
+    { type: "curve", cp1: at(-kx, ry), cp2: at(-rx, ky), to: at(-rx, 0) },
+    { type: "curve", cp1: at(-rx, -ky), cp2: at(-kx, -ry), to: at(0, -ry) },
+    { type: "curve", cp1: at(kx, -ry), cp2: at(rx, -ky), to: at(rx, 0) },
+    { type: "close" },
+  ]
+}
+
+/**
+ * Average pressure of two points (missing values are ignored)
+ */
+function averagePressure(a: Point, b: Point): number | undefined {
+  if (a.pressure === undefined) return b.pressure
+  if (b.pressure === undefined) return a.pressure
+  return (a.pressure + b.pressure) / 2
+}
@@ -0,0 +1,28 @@
+export { parseColor, type RgbaColor, toHexColor } from "./Color"
+export {
+  DEFAULT_EXPORT_PADDING,
+  type ExportArea,
+  type ExportOptions,
+  getExportArea,
+  getExportedLayers,
+  isEraseStroke,
+} from "./ExportArea"
+export {
+  downloadBlob,
+  EXPORT_MIME_TYPES,
+  exportDrawing,
+  getExportFileName,
+} from "./ExportFile"
+export { exportToPdf } from "./PdfExport"
+export { exportToPng, type PngExportOptions, renderLayers } from "./PngExport"
+export { exportToSvg } from "./SvgExport"
+export { DEFAULT_THUMBNAIL_SIZE, renderThumbnail } from "./Thumbnail"
+export {
+  formatNumber,
+  getShapePaths,
+  getStrokePaths,
+  getTextLinePositions,
+  type PathCommand,
+  type TextLine,
+  type VectorPath,
+} from "./VectorPaths"
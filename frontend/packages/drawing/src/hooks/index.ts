@@ -4,3 +4,4 @@ export {
   type UseDrawingHotkeysOptions,
   useDrawingHotkeys,
 } from "./useDrawingHotkeys"
+export { useActiveDrawingSession } from "./useDrawingSession"
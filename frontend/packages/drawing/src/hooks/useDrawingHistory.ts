@@ -1,27 +1,37 @@
 import { useCallback, useRef, useState } from "react"
+import type { HistoryCommand } from "../core/HistoryCommands"
 import { HistoryManager, type HistoryState } from "../core/HistoryManager"
-import type { Stroke } from "../types"
+import type { HistorySnapshot, HistoryTree } from "../core/HistoryTree"
+import type { Layer } from "../types"
 
 /**
  * Hook return type
  */
 export interface UseDrawingHistoryReturn {
-  /** Current strokes */
-  strokes: ReadonlyArray<Stroke>
+  /** Current layers */
+  layers: ReadonlyArray<Layer>
   /** Current history state */
   historyState: HistoryState
-  /** Push new strokes to history */
-  push: (strokes: ReadonlyArray<Stroke>) => void
-  /** Initialize with strokes (without dirty flag) */
-  initialize: (strokes: ReadonlyArray<Stroke>) => void
+  /** Undo tree (entries, current and saved position) */
+  historyTree: HistoryTree
+  /** Push new layers to history */
+  push: (layers: ReadonlyArray<Layer>) => void
+  /** Apply a command and record it in history */
+  execute: (command: HistoryCommand) => void
+  /** Initialize with layers (without dirty flag) */
+  initialize: (layers: ReadonlyArray<Layer>) => void
   /** Undo last action */
   undo: () => void
   /** Redo last undone action */
   redo: () => void
-  /** Mark current state as saved */
-  markSaved: () => void
+  /** Move to any entry of the undo tree */
+  jumpTo: (id: string) => void
+  /** Mark an entry as saved (the current one by default) */
+  markSaved: (id?: string) => void
   /** Clear all history */
   clear: () => void
+  /** Get the undo tree with the commands of every branch (e.g. for persisting) */
+  getSnapshot: () => HistorySnapshot
 }
 
 /**
@@ -30,19 +40,23 @@ export interface UseDrawingHistoryReturn {
  * Provides a reactive interface to HistoryManager with
  * automatic subscription to state changes.
  */
-export function useDrawingHistory(initialStrokes?: ReadonlyArray<Stroke>): UseDrawingHistoryReturn {
-  // Create initial manager - will be initialized with strokes if provided
+export function useDrawingHistory(
+  initialLayers?: ReadonlyArray<Layer>,
+  initialHistory?: HistorySnapshot,
+): UseDrawingHistoryReturn {
+  // Create initial manager - will be initialized with layers (and history) if provided
   const [manager, setManager] = useState<HistoryManager>(() => {
     const m = HistoryManager.create()
-    if (initialStrokes && initialStrokes.length > 0) {
-      return m.initialize(initialStrokes)
+    if (initialLayers && initialLayers.length > 0) {
+      return initialHistory ? m.restore(initialLayers, initialHistory) : m.initialize(initialLayers)
     }
     return m
   })
 
   // Use useState for reactive updates - initialize from manager
-  const [strokes, setStrokes] = useState<ReadonlyArray<Stroke>>(() => manager.getCurrentStrokes())
+  const [layers, setLayers] = useState<ReadonlyArray<Layer>>(() => manager.getCurrentLayers())
   const [historyState, setHistoryState] = useState<HistoryState>(() => manager.getState())
+  const [historyTree, setHistoryTree] = useState<HistoryTree>(() => manager.getTree())
 
   // Keep manager ref for callbacks (avoids stale closure)
   const managerRef = useRef<HistoryManager>(manager)
@@ -52,21 +66,30 @@ export function useDrawingHistory(initialStrokes?: ReadonlyArray<Stroke>): UseDr
   const syncState = useCallback((newManager: HistoryManager) => {
     managerRef.current = newManager
     setManager(newManager)
-    setStrokes(newManager.getCurrentStrokes())
+    setLayers(newManager.getCurrentLayers())
     setHistoryState(newManager.getState())
+    setHistoryTree(newManager.getTree())
   }, [])
 
   const push = useCallback(
-    (newStrokes: ReadonlyArray<Stroke>) => {
-      const newManager = managerRef.current.push(newStrokes)
+    (newLayers: ReadonlyArray<Layer>) => {
+      const newManager = managerRef.current.push(newLayers)
+      syncState(newManager)
+    },
+    [syncState],
+  )
+
+  const execute = useCallback(
+    (command: HistoryCommand) => {
+      const newManager = managerRef.current.execute(command)
       syncState(newManager)
     },
     [syncState],
   )
 
   const initialize = useCallback(
-    (newStrokes: ReadonlyArray<Stroke>) => {
-      const newManager = managerRef.current.initialize(newStrokes)
+    (newLayers: ReadonlyArray<Layer>) => {
+      const newManager = managerRef.current.initialize(newLayers)
       syncState(newManager)
     },
     [syncState],
@@ -86,24 +109,43 @@ export function useDrawingHistory(initialStrokes?: ReadonlyArray<Stroke>): UseDr
     }
   }, [syncState])
 
-  const markSaved = useCallback(() => {
-    const newManager = managerRef.current.markSaved()
-    syncState(newManager)
-  }, [syncState])
+  const jumpTo = useCallback(
+    (id: string) => {
+      const result = managerRef.current.jumpTo(id)
+      if (result) {
+        syncState(result.manager)
+      }
+    },
+    [syncState],
+  )
+
+  const markSaved = useCallback(
+    (id?: string) => {
+      const newManager = managerRef.current.markSaved(id)
+      syncState(newManager)
+    },
+    [syncState],
+  )
 
   const clear = useCallback(() => {
     const newManager = managerRef.current.clear()
     syncState(newManager)
   }, [syncState])
 
+  const getSnapshot = useCallback(() => managerRef.current.getSnapshot(), [])
+
   return {
-    strokes,
+    layers,
     historyState,
+    historyTree,
     push,
+    execute,
     initialize,
     undo,
     redo,
+    jumpTo,
     markSaved,
     clear,
+    getSnapshot,
   }
 }
@@ -9,8 +9,14 @@ export interface DrawingHotkeyActions {
   onUndo?: () => void
   onRedo?: () => void
   onSave?: () => void
+  onExport?: () => void
   onClear?: () => void
+  onDeleteSelection?: () => void
+  onDuplicateSelection?: () => void
+  onZoomToFit?: () => void
+  onZoomReset?: () => void
   onToolChange?: (tool: DrawingTool) => void
+  onEraserModeToggle?: () => void
   onBrushSizeChange?: (size: number) => void
   onColorChange?: (colorIndex: number) => void
 }
@@ -44,8 +50,21 @@ export function useDrawingHotkeys(
   actionsRef.current = actions
 
   const handleCommand = useCallback((command: DrawingCommand) => {
-    const { onUndo, onRedo, onSave, onClear, onToolChange, onBrushSizeChange, onColorChange } =
-      actionsRef.current
+    const {
+      onUndo,
+      onRedo,
+      onSave,
+      onExport,
+      onClear,
+      onDeleteSelection,
+      onDuplicateSelection,
+      onZoomToFit,
+      onZoomReset,
+      onToolChange,
+      onEraserModeToggle,
+      onBrushSizeChange,
+      onColorChange,
+    } = actionsRef.current
 
     switch (command) {
       case DRAWING_COMMANDS.UNDO:
@@ -57,15 +76,57 @@ export function useDrawingHotkeys(
       case DRAWING_COMMANDS.SAVE:
         onSave?.()
         break
+      case DRAWING_COMMANDS.EXPORT:
+        onExport?.()
+        break
       case DRAWING_COMMANDS.CLEAR:
         onClear?.()
         break
+      case DRAWING_COMMANDS.DELETE_SELECTION:
+        onDeleteSelection?.()
+        break
+      case DRAWING_COMMANDS.DUPLICATE_SELECTION:
+        onDuplicateSelection?.()
+        break
+      case DRAWING_COMMANDS.ZOOM_FIT:
+        onZoomToFit?.()
+        break
+      case DRAWING_COMMANDS.ZOOM_RESET:
+        onZoomReset?.()
+        break
+      case DRAWING_COMMANDS.TOOL_SELECT:
+        onToolChange?.("select")
+        break
+      case DRAWING_COMMANDS.TOOL_LASSO:
+        onToolChange?.("lasso")
+        break
       case DRAWING_COMMANDS.TOOL_PENCIL:
         onToolChange?.("pencil")
         break
       case DRAWING_COMMANDS.TOOL_ERASER:
         onToolChange?.("eraser")
         break
+      case DRAWING_COMMANDS.TOOL_TEXT:
+        onToolChange?.("text")
+        break
+      case DRAWING_COMMANDS.TOOL_LINE:
+        onToolChange?.("line")
+        break
+      case DRAWING_COMMANDS.TOOL_RECTANGLE:
+        onToolChange?.("rectangle")
+        break
+      case DRAWING_COMMANDS.TOOL_ELLIPSE:
+        onToolChange?.("ellipse")
+        break
+      case DRAWING_COMMANDS.TOOL_ARROW:
+        onToolChange?.("arrow")
+        break
+      case DRAWING_COMMANDS.TOOL_POLYGON:
+        onToolChange?.("polygon")
+        break
+      case DRAWING_COMMANDS.ERASER_MODE_TOGGLE:
+        onEraserModeToggle?.()
+        break
       case DRAWING_COMMANDS.BRUSH_SIZE_1:
         onBrushSizeChange?.(BRUSH_SIZES[0])
         break
@@ -0,0 +1,23 @@
+import { useCallback, useSyncExternalStore } from "react"
+import {
+  type DrawingSession,
+  type DrawingSessionRegistry,
+  getDrawingSessionRegistry,
+} from "../core/DrawingSessions"
+
+/**
+ * React hook for the active drawing session
+ *
+ * Re-renders whenever the active drawing changes or publishes new
+ * layer state. Returns null when no drawing is open.
+ */
+export function useActiveDrawingSession(
+  registry: DrawingSessionRegistry = getDrawingSessionRegistry(),
+): DrawingSession | null {
+  const subscribe = useCallback(
+    (onStoreChange: () => void) => registry.on("change", onStoreChange),
+    [registry],
+  )
+
+  return useSyncExternalStore(subscribe, registry.getActive, registry.getActive)
+}
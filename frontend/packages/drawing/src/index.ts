@@ -6,6 +6,9 @@ export * from "./components"
 // Core managers
 export * from "./core"
 
+// Export (PNG, SVG, PDF)
+export * from "./export"
+
 // React hooks
 export * from "./hooks"
 export * from "./types"
@@ -1,31 +1,186 @@
 /**
  * A point on the canvas
+ *
+ * Pen input fields are optional so that files written before
+ * pointer support (plain `{ x, y }` points) remain valid.
  */
 export interface Point {
   readonly x: number
   readonly y: number
+  /** Normalized pen pressure (0-1) */
+  readonly pressure?: number
+  /** Pen tilt along the X axis in degrees (-90 to 90) */
+  readonly tiltX?: number
+  /** Pen tilt along the Y axis in degrees (-90 to 90) */
+  readonly tiltY?: number
+  /** Milliseconds elapsed since the stroke started */
+  readonly t?: number
 }
 
 /**
- * Drawing stroke data
+ * How points of a stroke are connected when rendered
+ *
+ * - linear: straight segments between samples (legacy strokes)
+ * - catmull-rom: smooth curve through the (simplified) samples
+ */
+export type StrokeInterpolation = "linear" | "catmull-rom"
+
+/**
+ * Drawing stroke data (freehand)
  */
 export interface Stroke {
+  /** Element discriminator; omitted in files written before shapes existed */
+  readonly type?: "stroke"
   readonly id: string
   readonly points: ReadonlyArray<Point>
   readonly color: string
   readonly width: number
+  /** Defaults to "linear" when omitted */
+  readonly interpolation?: StrokeInterpolation
+  /**
+   * Legacy eraser mark: erases what is below instead of painting.
+   * Only set for strokes drawn by the old paint-over eraser.
+   */
+  readonly erase?: boolean
+}
+
+/**
+ * Geometric primitive kinds
+ */
+export const SHAPE_KINDS = ["line", "rectangle", "ellipse", "arrow", "polygon"] as const
+
+export type ShapeKind = (typeof SHAPE_KINDS)[number]
+
+/**
+ * Geometric shape data
+ *
+ * Point meaning depends on the kind:
+ * - line, arrow: start and end point
+ * - rectangle, ellipse: two opposite corners of the bounding box
+ * - polygon: vertices of a closed polygon
+ *
+ * Rectangles and ellipses can be rotated around the center of their
+ * box; the points then describe the unrotated box.
+ */
+export interface Shape {
+  readonly type: "shape"
+  readonly id: string
+  readonly kind: ShapeKind
+  readonly points: ReadonlyArray<Point>
+  readonly color: string
+  readonly width: number
+  /** Fill color, or null for an outline only */
+  readonly fill: string | null
+  /** Rotation in radians (rectangle and ellipse only); defaults to 0 */
+  readonly rotation?: number
+}
+
+/**
+ * Text annotation data
+ *
+ * `x`/`y` is the top-left corner of the text box. Lines are separated
+ * by `\n`.
+ */
+export interface TextElement {
+  readonly type: "text"
+  readonly id: string
+  readonly x: number
+  readonly y: number
+  readonly text: string
+  readonly fontSize: number
+  readonly color: string
+}
+
+/**
+ * Any element that can be placed on a canvas
+ */
+export type DrawingElement = Stroke | Shape | TextElement
+
+/**
+ * A named group of elements
+ *
+ * Layers are stacked in array order (the first layer is at the
+ * bottom). Hidden layers are not drawn and locked layers cannot be
+ * edited.
+ */
+export interface Layer {
+  readonly id: string
+  readonly name: string
+  readonly visible: boolean
+  readonly locked: boolean
+  /** Opacity of the whole layer (0-1) */
+  readonly opacity: number
+  readonly elements: ReadonlyArray<DrawingElement>
+}
+
+/**
+ * Generate a unique element ID
+ */
+export function generateElementId(prefix: "stroke" | "shape" | "text"): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+}
+
+/**
+ * Check if an element is a shape
+ */
+export function isShape(element: DrawingElement): element is Shape {
+  return element.type === "shape"
+}
+
+/**
+ * Check if an element is a text annotation
+ */
+export function isText(element: DrawingElement): element is TextElement {
+  return element.type === "text"
+}
+
+/**
+ * Check if an element is a freehand stroke
+ */
+export function isStroke(element: DrawingElement): element is Stroke {
+  return element.type === undefined || element.type === "stroke"
 }
 
 /**
  * Drawing tool type
  */
-export type DrawingTool = "pencil" | "eraser"
+export type DrawingTool = "pencil" | "eraser" | "text" | "select" | "lasso" | ShapeKind
+
+/**
+ * How the selection tool picks elements by dragging
+ *
+ * - rectangle: elements fully inside the dragged box
+ * - lasso: elements fully inside the drawn outline
+ */
+export type SelectionMode = "rectangle" | "lasso"
+
+/**
+ * Eraser behavior
+ *
+ * - object: removes every element the eraser touches
+ * - precise: cuts strokes where the eraser passes
+ */
+export type EraserMode = "object" | "precise"
+
+/**
+ * File formats a drawing can be exported to
+ */
+export const EXPORT_FORMATS = ["png", "svg", "pdf"] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * Check if a tool draws shapes
+ */
+export function isShapeTool(tool: DrawingTool): tool is ShapeKind {
+  return (SHAPE_KINDS as readonly string[]).includes(tool)
+}
 
 /**
  * Drawing state for a single canvas
  */
 export interface DrawingState {
-  readonly strokes: ReadonlyArray<Stroke>
+  readonly elements: ReadonlyArray<DrawingElement>
   readonly currentColor: string
   readonly currentWidth: number
   readonly currentTool: DrawingTool
@@ -35,12 +190,39 @@ export interface DrawingState {
  * Default drawing state
  */
 export const DEFAULT_DRAWING_STATE: DrawingState = {
-  strokes: [],
+  elements: [],
   currentColor: "#000000",
   currentWidth: 2,
   currentTool: "pencil",
 }
 
+/**
+ * Viewport transform from world (stroke) coordinates to screen coordinates
+ *
+ * screen = world * scale + offset
+ */
+export interface Viewport {
+  readonly scale: number
+  readonly offsetX: number
+  readonly offsetY: number
+}
+
+/**
+ * Identity viewport (100%, world origin at the top-left corner)
+ */
+export const DEFAULT_VIEWPORT: Viewport = {
+  scale: 1,
+  offsetX: 0,
+  offsetY: 0,
+}
+
+/**
+ * Stroke smoothing presets
+ */
+export const SMOOTHING_LEVELS = ["off", "low", "medium", "high"] as const
+
+export type SmoothingLevel = (typeof SMOOTHING_LEVELS)[number]
+
 /**
  * Brush size presets
  */
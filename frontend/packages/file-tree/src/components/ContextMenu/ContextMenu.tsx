@@ -131,11 +131,18 @@ export function getFolderContextActions(isRoot = false): ContextMenuAction[] {
 /**
  * Default context menu actions for files
  */
-export function getFileContextActions(): ContextMenuAction[] {
-  return [
-    { id: "open", label: "Open" },
+export function getFileContextActions(canExport = false): ContextMenuAction[] {
+  const actions: ContextMenuAction[] = [{ id: "open", label: "Open" }]
+
+  if (canExport) {
+    actions.push({ id: "export", label: "Export as…" })
+  }
+
+  actions.push(
     { id: "separator1", label: "", separator: true },
     { id: "rename", label: "Rename" },
     { id: "delete", label: "Delete" },
-  ]
+  )
+
+  return actions
 }
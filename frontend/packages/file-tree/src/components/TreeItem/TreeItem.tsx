@@ -22,6 +22,8 @@ export interface TreeItemDragCallbacks {
 
 interface TreeItemProps {
   readonly node: TreeNode
+  /** Replaces the default file/folder icon when set */
+  readonly icon?: React.ReactNode
   readonly isExpanded: boolean
   readonly isSelected: boolean
   readonly isFocused: boolean
@@ -41,6 +43,7 @@ interface TreeItemProps {
 
 export const TreeItem: React.FC<TreeItemProps> = ({
   node,
+  icon,
   isExpanded,
   isSelected,
   isFocused,
@@ -227,7 +230,7 @@ export const TreeItem: React.FC<TreeItemProps> = ({
             isFolder ? "text-amber-500" : "text-primary"
           }`}
         >
-          <Icon size={16} strokeWidth={1.75} />
+          {icon ?? <Icon size={16} strokeWidth={1.75} />}
         </span>
 
         {isEditing ? (
@@ -9,6 +9,7 @@ import type {
   DropPosition,
   EditingState,
   EditingType,
+  FileNode,
   TreeNode,
 } from "../../types"
 import { isRootPath, ROOT_PATH } from "../../types"
@@ -71,6 +72,9 @@ interface TreeViewProps {
     position: DropPosition,
   ) => void
   readonly onOpen?: (node: TreeNode) => void
+  readonly onExport?: (node: TreeNode) => void
+  /** Custom icon of a file (e.g. a preview); the default icon is used for null */
+  readonly renderFileIcon?: (node: FileNode) => React.ReactNode
   readonly externalEditingState?: EditingState | null
   readonly onEditingStateChange?: (state: EditingState | null) => void
 }
@@ -86,6 +90,8 @@ export const TreeView: React.FC<TreeViewProps> = ({
   onDelete,
   onMove,
   onOpen,
+  onExport,
+  renderFileIcon,
   externalEditingState,
   onEditingStateChange,
 }) => {
@@ -215,6 +221,9 @@ export const TreeView: React.FC<TreeViewProps> = ({
       .with("open", () => {
         onOpen?.(targetNode)
       })
+      .with("export", () => {
+        onExport?.(targetNode)
+      })
       .otherwise(() => {})
 
     closeContextMenu()
@@ -504,6 +513,7 @@ export const TreeView: React.FC<TreeViewProps> = ({
         <TreeItem
           key={file.path}
           node={file}
+          icon={renderFileIcon?.(file)}
           isExpanded={false}
           isSelected={isSelected}
           isFocused={isFocused}
@@ -547,7 +557,7 @@ export const TreeView: React.FC<TreeViewProps> = ({
           actions={
             contextMenu.node.type === "folder"
               ? getFolderContextActions(isRootPath(contextMenu.node.path))
-              : getFileContextActions()
+              : getFileContextActions(onExport !== undefined)
           }
           onAction={handleContextAction}
           onClose={closeContextMenu}